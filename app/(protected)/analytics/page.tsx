@@ -6,6 +6,9 @@ import { Skeleton } from "@/components/ui/skeleton"
 import { ChartCard } from "@/components/ui/chart-card"
 import { DataTable } from "@/components/ui/data-table"
 import type { ColumnsDefine } from "@/components/ui/data-table"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { MaterialReportCard } from "@/components/MaterialReportCard"
 
 interface AnalyticsResponse {
   summary: {
@@ -51,9 +54,16 @@ const STATUS_LABELS: Record<string, string> = {
   draft: "Draft",
 }
 
+function isoDate(date: Date) {
+  return date.toISOString().slice(0, 10)
+}
+
 export default function AnalyticsPage() {
   const [data, setData] = useState<AnalyticsResponse | null>(null)
   const [loading, setLoading] = useState(true)
+  // Material report range, last 30 days by default
+  const [materialsFrom, setMaterialsFrom] = useState(() => isoDate(new Date(Date.now() - 29 * 24 * 60 * 60 * 1000)))
+  const [materialsTo, setMaterialsTo] = useState(() => isoDate(new Date()))
 
   useEffect(() => {
     fetchAnalytics()
@@ -476,6 +486,37 @@ export default function AnalyticsPage() {
         />
       </div>
 
+      {/* Material Requirements */}
+      <div className="mb-6 space-y-3">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <Label htmlFor="materialsFrom" className="text-xs text-muted-foreground">From</Label>
+            <Input
+              id="materialsFrom"
+              type="date"
+              value={materialsFrom}
+              max={materialsTo}
+              onChange={(e) => e.target.value && setMaterialsFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="materialsTo" className="text-xs text-muted-foreground">To</Label>
+            <Input
+              id="materialsTo"
+              type="date"
+              value={materialsTo}
+              min={materialsFrom}
+              onChange={(e) => e.target.value && setMaterialsTo(e.target.value)}
+            />
+          </div>
+        </div>
+        <MaterialReportCard
+          endpoint="/api/analytics/materials"
+          query={{ from: materialsFrom, to: materialsTo }}
+          description="Square footage and substrate for sheets created in the date range (cancelled sheets excluded)"
+        />
+      </div>
+
       {/* Recent Sheets Table */}
       <Card>
         <CardHeader>
@@ -9,6 +9,10 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { useToast } from "@/hooks/use-toast"
 import { Upload, FileText, Cloud, CheckCircle2, XCircle, Loader2 } from "lucide-react"
 import { useRouter } from "next/navigation"
+import { ImportDiffTable } from "@/components/products/ImportDiffTable"
+import { ImportValidationReport } from "@/components/products/ImportValidationReport"
+import type { ImportValidationSummary } from "@/lib/import-runs"
+import type { ProductDiffEntry } from "@/lib/salesforce/catalog-diff"
 
 export default function BannersPage() {
   const [legacyFile, setLegacyFile] = useState<File | null>(null)
@@ -17,6 +21,9 @@ export default function BannersPage() {
   const [managedContentFile, setManagedContentFile] = useState<File | null>(null)
   const [uploading, setUploading] = useState(false)
   const [importStats, setImportStats] = useState<any>(null)
+  // Rows each CSV import left out
+  const [productValidation, setProductValidation] = useState<ImportValidationSummary | null>(null)
+  const [legacyValidation, setLegacyValidation] = useState<ImportValidationSummary | null>(null)
   
   // Salesforce state
   const [salesforceConnected, setSalesforceConnected] = useState(false)
@@ -27,6 +34,8 @@ export default function BannersPage() {
   const [previewData, setPreviewData] = useState<any>(null)
   const [loadingPreview, setLoadingPreview] = useState(false)
   const [showPreview, setShowPreview] = useState(false)
+  // Diff rows approved for the import; removed products start unselected
+  const [selectedSkus, setSelectedSkus] = useState<Set<string>>(new Set())
   
   // Import selection state
   const [importProducts, setImportProducts] = useState(true)
@@ -40,34 +49,7 @@ export default function BannersPage() {
   useEffect(() => {
     checkUserRole()
     checkSalesforceConnection()
-    
-    // Handle OAuth callback messages from URL
-    const urlParams = new URLSearchParams(window.location.search)
-    const success = urlParams.get("success")
-    const error = urlParams.get("error")
-    
-    if (success === "salesforce_connected") {
-      toast({
-        title: "Success",
-        description: "Connected to Salesforce successfully",
-      })
-      checkSalesforceConnection()
-      // Clean URL
-      router.replace("/banners")
-    } else if (error) {
-      toast({
-        title: "Error",
-        description: error === "salesforce_auth_failed" 
-          ? "Failed to connect to Salesforce" 
-          : error === "token_exchange_failed"
-          ? "Failed to complete Salesforce connection"
-          : "An error occurred",
-        variant: "destructive",
-      })
-      // Clean URL
-      router.replace("/banners")
-    }
-  }, [toast, router])
+  }, [])
 
   const checkUserRole = async () => {
     try {
@@ -103,19 +85,6 @@ export default function BannersPage() {
     }
   }
 
-  const connectToSalesforce = async () => {
-    try {
-      // Redirect to OAuth initiation endpoint
-      window.location.href = "/api/salesforce/auth"
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to connect to Salesforce",
-        variant: "destructive",
-      })
-    }
-  }
-
   const loadPreview = async () => {
     // Validation: require products if categories or mappings selected
     if ((importCategories || importMappings) && !importProducts) {
@@ -149,6 +118,11 @@ export default function BannersPage() {
       }
 
       setPreviewData(data)
+      setSelectedSkus(new Set(
+        (data.diff || [])
+          .filter((entry: ProductDiffEntry) => entry.status !== "removed")
+          .map((entry: ProductDiffEntry) => entry.sku)
+      ))
       setShowPreview(true)
     } catch (error: any) {
       toast({
@@ -172,7 +146,21 @@ export default function BannersPage() {
       return
     }
 
-    if (!confirm("Are you sure you want to import? This will update existing products with the same SKU and create new ones. Existing data will be preserved where possible.")) {
+    // Deselected new/changed rows are skipped; selected removed rows are deactivated
+    const diff: ProductDiffEntry[] = previewData?.diff || []
+    const excludeSkus = diff
+      .filter(entry => entry.status !== "removed" && !selectedSkus.has(entry.sku))
+      .map(entry => entry.sku)
+    const deactivateSkus = diff
+      .filter(entry => entry.status === "removed" && selectedSkus.has(entry.sku))
+      .map(entry => entry.sku)
+
+    const summary = [
+      excludeSkus.length > 0 && `${excludeSkus.length} deselected products will be skipped`,
+      deactivateSkus.length > 0 && `${deactivateSkus.length} removed products will be deactivated`,
+    ].filter(Boolean).join(", ")
+
+    if (!confirm(`Are you sure you want to import? This will update existing products with the same SKU and create new ones. Existing data will be preserved where possible.${summary ? `\n\n${summary}.` : ""}`)) {
       return
     }
 
@@ -188,6 +176,8 @@ export default function BannersPage() {
           importProducts,
           importCategories,
           importMappings,
+          excludeSkus,
+          deactivateSkus,
         }),
       })
 
@@ -203,7 +193,7 @@ export default function BannersPage() {
 
       toast({
         title: "Success",
-        description: `Imported ${data.statistics.productsImported} products with ${data.statistics.productsWithImages} images`,
+        description: `Imported ${data.statistics.productsImported} products (${data.statistics.productsCreated} new, ${data.statistics.productsUpdated} updated) with ${data.statistics.productsWithImages} images`,
       })
     } catch (error: any) {
       toast({
@@ -227,6 +217,7 @@ export default function BannersPage() {
     }
 
     setUploading(true)
+    setLegacyValidation(null)
     try {
       const formData = new FormData()
       formData.append("file", legacyFile)
@@ -237,6 +228,7 @@ export default function BannersPage() {
       })
 
       const data = await response.json()
+      setLegacyValidation(data.validation || null)
 
       if (!response.ok) {
         throw new Error(data.error || "Failed to import CSV")
@@ -244,7 +236,9 @@ export default function BannersPage() {
 
       toast({
         title: "Success",
-        description: `Imported ${data.count} banners successfully`,
+        description: data.skipped
+          ? `Imported ${data.count} banners, ${data.skipped} rows skipped`
+          : `Imported ${data.count} banners successfully`,
       })
 
       setLegacyFile(null)
@@ -273,6 +267,7 @@ export default function BannersPage() {
 
     setUploading(true)
     setImportStats(null)
+    setProductValidation(null)
     try {
       const formData = new FormData()
       formData.append("productsFile", productsFile)
@@ -285,6 +280,7 @@ export default function BannersPage() {
       })
 
       const data = await response.json()
+      setProductValidation(data.validation || null)
 
       if (!response.ok) {
         throw new Error(data.error || "Failed to import products")
@@ -294,7 +290,7 @@ export default function BannersPage() {
 
       toast({
         title: "Success",
-        description: `Imported ${data.statistics.productsImported} products with ${data.statistics.productsWithImages} images`,
+        description: `Imported ${data.statistics.productsImported} products (${data.statistics.created} new, ${data.statistics.updated} updated) with ${data.statistics.productsWithImages} images`,
       })
 
       // Reset file inputs
@@ -363,12 +359,12 @@ export default function BannersPage() {
 
               {!salesforceConnected ? (
                 <Button
-                  onClick={connectToSalesforce}
+                  onClick={() => router.push("/settings")}
                   className="w-full"
                   variant="outline"
                 >
                   <Cloud className="mr-2 h-4 w-4" />
-                  Connect to Salesforce
+                  Set Up in Settings
                 </Button>
               ) : (
                 <>
@@ -457,26 +453,27 @@ export default function BannersPage() {
                       <CardHeader>
                         <CardTitle className="text-lg">Import Preview</CardTitle>
                         <CardDescription>
-                          Showing first {previewData.statistics.previewLimit} of {previewData.statistics.totalPreviewable} products
+                          {previewData.statistics.totalProducts} active products in Salesforce. Review the changes
+                          below and uncheck any row you do not want to apply.
                         </CardDescription>
                       </CardHeader>
                       <CardContent className="space-y-4">
                         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                          <div>
-                            <div className="font-semibold">Total Products</div>
-                            <div className="text-2xl">{previewData.statistics.totalProducts}</div>
-                          </div>
                           <div>
                             <div className="font-semibold">New Products</div>
                             <div className="text-2xl text-green-600">{previewData.statistics.newProducts}</div>
                           </div>
                           <div>
-                            <div className="font-semibold">Will Update</div>
-                            <div className="text-2xl text-blue-600">{previewData.statistics.existingProducts}</div>
+                            <div className="font-semibold">Changed</div>
+                            <div className="text-2xl text-blue-600">{previewData.statistics.changedProducts}</div>
                           </div>
                           <div>
-                            <div className="font-semibold">With Images</div>
-                            <div className="text-2xl text-purple-600">{previewData.statistics.productsWithImages}</div>
+                            <div className="font-semibold">Unchanged</div>
+                            <div className="text-2xl">{previewData.statistics.unchangedProducts}</div>
+                          </div>
+                          <div>
+                            <div className="font-semibold">Removed</div>
+                            <div className="text-2xl text-red-600">{previewData.statistics.removedProducts}</div>
                           </div>
                         </div>
 
@@ -543,34 +540,11 @@ export default function BannersPage() {
                           </div>
                         )}
 
-                        <div className="max-h-64 overflow-y-auto border rounded p-2">
-                          <table className="w-full text-xs">
-                            <thead className="sticky top-0 bg-background">
-                              <tr className="border-b">
-                                <th className="text-left p-2">SKU</th>
-                                <th className="text-left p-2">Name</th>
-                                <th className="text-left p-2">Category</th>
-                                <th className="text-left p-2">Status</th>
-                              </tr>
-                            </thead>
-                            <tbody>
-                              {previewData.preview.map((product: any, idx: number) => (
-                                <tr key={idx} className="border-b">
-                                  <td className="p-2 font-mono text-xs">{product.sku}</td>
-                                  <td className="p-2">{product.name || "-"}</td>
-                                  <td className="p-2">{product.category}</td>
-                                  <td className="p-2">
-                                    {product.isNew ? (
-                                      <span className="text-green-600 font-semibold">New</span>
-                                    ) : (
-                                      <span className="text-blue-600 font-semibold">Update</span>
-                                    )}
-                                  </td>
-                                </tr>
-                              ))}
-                            </tbody>
-                          </table>
-                        </div>
+                        <ImportDiffTable
+                          entries={previewData.diff || []}
+                          selectedSkus={selectedSkus}
+                          onSelectedSkusChange={setSelectedSkus}
+                        />
 
                         <Button
                           onClick={importFromSalesforce}
@@ -585,7 +559,7 @@ export default function BannersPage() {
                           ) : (
                             <>
                               <Upload className="mr-2 h-4 w-4" />
-                              Confirm Import ({previewData.statistics.totalProducts} products)
+                              Apply Import ({(previewData.diff || []).filter((entry: ProductDiffEntry) => selectedSkus.has(entry.sku)).length} of {(previewData.diff || []).length} changes)
                             </>
                           )}
                         </Button>
@@ -699,11 +673,11 @@ export default function BannersPage() {
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="space-y-2">
-            <Label htmlFor="products-csv">Products CSV (ID, Name, SKU, ProductCode)</Label>
+            <Label htmlFor="products-csv">Products CSV or Excel file (ID, Name, SKU, ProductCode)</Label>
             <Input
               id="products-csv"
               type="file"
-              accept=".csv"
+              accept=".csv,.xlsx"
               onChange={(e) => setProductsFile(e.target.files?.[0] || null)}
               disabled={uploading}
             />
@@ -779,6 +753,8 @@ export default function BannersPage() {
               </CardContent>
             </Card>
           )}
+
+          {productValidation && <ImportValidationReport validation={productValidation} />}
         </CardContent>
       </Card>
 
@@ -811,6 +787,8 @@ export default function BannersPage() {
               Selected: {legacyFile.name}
             </div>
           )}
+
+          {legacyValidation && <ImportValidationReport validation={legacyValidation} />}
         </CardContent>
       </Card>
     </div>
@@ -92,6 +92,12 @@ export default async function ProtectedLayout({
                 >
                   Team
                 </Link>
+                <Link
+                  href="/settings"
+                  className="text-sm text-muted-foreground hover:text-foreground"
+                >
+                  Settings
+                </Link>
                 </div>
               )}
             </div>
@@ -35,6 +35,7 @@ interface SheetRecord {
   production_start_date: string | null
   estimated_completion_date: string | null
   completed_at: string | null
+  on_hold_since: string | null
   sheet_templates: { name: string } | null
   users: { email: string; name: string | null } | null
 }
@@ -114,6 +115,14 @@ export default function ProductionManagerPage() {
         endDate = end.toISOString().split("T")[0]
       }
 
+      // A held job keeps its bar but it stretches to today, so the slip
+      // against the original estimate is visible
+      const isOnHold = sheet.status === "on_hold"
+      if (isOnHold) {
+        const today = new Date().toISOString().split("T")[0]
+        if (today > endDate) endDate = today
+      }
+
       return {
         id: sheet.id,
         job_number: sheet.job_number || "No Job #",
@@ -124,12 +133,15 @@ export default function ProductionManagerPage() {
             ? "Completed"
             : sheet.status === "production_started"
               ? "Started"
-              : "In Production",
+              : isOnHold
+                ? "On Hold"
+                : "In Production",
         created_by:
           sheet.users?.name || sheet.users?.email || "Unknown",
         startDate,
         endDate,
         sort_order: sheet.sort_order,
+        frozen: isOnHold,
       }
     })
   }, [sheets])
@@ -4,12 +4,16 @@ import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { useToast } from "@/hooks/use-toast"
-import { Package, Tag, Link2, Loader2 } from "lucide-react"
+import { Package, Tag, Link2, Loader2, History, Ruler, Boxes, Upload, FileDown } from "lucide-react"
 import { ProductList } from "@/components/products/ProductList"
 import { CategoryManager } from "@/components/products/CategoryManager"
 import { CategoryAssignmentManager } from "@/components/products/CategoryAssignmentManager"
+import { ImportHistory } from "@/components/products/ImportHistory"
+import { AttributeReviewQueue } from "@/components/products/AttributeReviewQueue"
+import { InventoryManager } from "@/components/products/InventoryManager"
+import { CSVImportWizard } from "@/components/products/CSVImportWizard"
 
-type Tab = "products" | "categories" | "assignments"
+type Tab = "products" | "categories" | "assignments" | "attributes" | "inventory" | "import" | "history"
 
 export default function ProductsPage() {
   const [activeTab, setActiveTab] = useState<Tab>("products")
@@ -111,11 +115,19 @@ export default function ProductsPage() {
 
   return (
     <div className="container mx-auto py-8 space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold">Product Management</h1>
-        <p className="text-muted-foreground mt-2">
-          Manage products, categories, and their relationships
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Product Management</h1>
+          <p className="text-muted-foreground mt-2">
+            Manage products, categories, and their relationships
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <a href="/api/products/export" download>
+            <FileDown className="h-4 w-4 mr-2" />
+            Export to Excel
+          </a>
+        </Button>
       </div>
 
       {/* Statistics Dashboard */}
@@ -174,6 +186,38 @@ export default function ProductsPage() {
               <Link2 className="h-4 w-4 mr-2" />
               Assignments
             </Button>
+            <Button
+              variant={activeTab === "attributes" ? "default" : "ghost"}
+              onClick={() => setActiveTab("attributes")}
+              className="rounded-b-none"
+            >
+              <Ruler className="h-4 w-4 mr-2" />
+              Attribute Review
+            </Button>
+            <Button
+              variant={activeTab === "inventory" ? "default" : "ghost"}
+              onClick={() => setActiveTab("inventory")}
+              className="rounded-b-none"
+            >
+              <Boxes className="h-4 w-4 mr-2" />
+              Inventory
+            </Button>
+            <Button
+              variant={activeTab === "import" ? "default" : "ghost"}
+              onClick={() => setActiveTab("import")}
+              className="rounded-b-none"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <Button
+              variant={activeTab === "history" ? "default" : "ghost"}
+              onClick={() => setActiveTab("history")}
+              className="rounded-b-none"
+            >
+              <History className="h-4 w-4 mr-2" />
+              Import History
+            </Button>
           </div>
         </CardHeader>
         <CardContent className="pt-6">
@@ -182,6 +226,10 @@ export default function ProductsPage() {
             <CategoryManager onRefresh={fetchStats} />
           )}
           {activeTab === "assignments" && <CategoryAssignmentManager />}
+          {activeTab === "attributes" && <AttributeReviewQueue />}
+          {activeTab === "inventory" && <InventoryManager />}
+          {activeTab === "import" && <CSVImportWizard />}
+          {activeTab === "history" && <ImportHistory />}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,351 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { Cloud, CheckCircle2, XCircle, AlertTriangle, Loader2, RefreshCw, Unplug, Send } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import type { ConnectionStatus } from "@/lib/salesforce/connection"
+
+const CALLBACK_ERRORS: Record<string, string> = {
+  salesforce_auth_failed: "Salesforce did not authorize the connection",
+  token_exchange_failed: "Failed to complete the Salesforce connection",
+  config_missing: "Salesforce is not configured on the server",
+  missing_code_verifier: "The connection took too long. Please try again.",
+  not_manager: "Only managers can connect Salesforce",
+}
+
+const HEALTH: Record<ConnectionStatus["health"], { label: string; className: string }> = {
+  healthy: { label: "Healthy", className: "bg-green-100 text-green-800" },
+  error: { label: "Error", className: "bg-red-100 text-red-800" },
+  expired: { label: "Expired", className: "bg-orange-100 text-orange-800" },
+  disconnected: { label: "Not connected", className: "bg-gray-100 text-gray-800" },
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "Never"
+}
+
+export default function SettingsPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [connection, setConnection] = useState<ConnectionStatus | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [checking, setChecking] = useState(false)
+  const [apiUsage, setApiUsage] = useState<{ used: number; remaining: number; limit: number } | null>(null)
+  const [showDisconnect, setShowDisconnect] = useState(false)
+  const [disconnecting, setDisconnecting] = useState(false)
+  const [orderUpdates, setOrderUpdates] = useState<{ pending: number; failed: number } | null>(null)
+  const [sendingUpdates, setSendingUpdates] = useState(false)
+
+  useEffect(() => {
+    fetchConnection()
+    fetchOrderUpdates()
+
+    // Handle OAuth callback messages from URL
+    const urlParams = new URLSearchParams(window.location.search)
+    const success = urlParams.get("success")
+    const error = urlParams.get("error")
+    if (success === "salesforce_connected") {
+      toast({ title: "Success", description: "Connected to Salesforce successfully" })
+      router.replace("/settings")
+    } else if (error) {
+      toast({
+        title: "Error",
+        description: CALLBACK_ERRORS[error] || "An error occurred",
+        variant: "destructive",
+      })
+      router.replace("/settings")
+    }
+  }, [toast, router])
+
+  const fetchConnection = async () => {
+    try {
+      const response = await fetch("/api/salesforce/connection")
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load Salesforce connection")
+      setConnection(data.connection)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load Salesforce connection",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchOrderUpdates = async () => {
+    try {
+      const [pending, failed] = await Promise.all(
+        ["pending", "failed"].map(async (state) => {
+          const response = await fetch(`/api/salesforce/order-updates?state=${state}`)
+          const data = await response.json()
+          return response.ok ? (data.updates || []).length : 0
+        })
+      )
+      setOrderUpdates({ pending, failed })
+    } catch (error) {
+      console.error("Failed to load Salesforce order updates:", error)
+    }
+  }
+
+  const checkConnection = async () => {
+    setChecking(true)
+    try {
+      const response = await fetch("/api/salesforce/connection", { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to check Salesforce connection")
+
+      setConnection(data.connection)
+      setApiUsage(data.check.apiUsage)
+      if (data.check.ok) {
+        toast({ title: "Connection OK", description: "Salesforce answered normally" })
+      } else {
+        toast({ title: "Connection failed", description: data.check.error, variant: "destructive" })
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to check Salesforce connection",
+        variant: "destructive",
+      })
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const handleDisconnect = async () => {
+    setDisconnecting(true)
+    try {
+      const response = await fetch("/api/salesforce/auth", { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to disconnect Salesforce")
+
+      toast({
+        title: "Disconnected",
+        description: data.revoked
+          ? "Salesforce access was revoked"
+          : "The connection was removed, but Salesforce did not confirm the revoke",
+      })
+      setShowDisconnect(false)
+      setApiUsage(null)
+      fetchConnection()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to disconnect Salesforce",
+        variant: "destructive",
+      })
+    } finally {
+      setDisconnecting(false)
+    }
+  }
+
+  const sendOrderUpdates = async () => {
+    setSendingUpdates(true)
+    try {
+      const response = await fetch("/api/salesforce/order-updates", { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to send order updates")
+
+      toast({
+        title: "Order updates sent",
+        description: `${data.sent} sent, ${data.retrying} will be retried, ${data.failed} failed`,
+      })
+      fetchOrderUpdates()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send order updates",
+        variant: "destructive",
+      })
+    } finally {
+      setSendingUpdates(false)
+    }
+  }
+
+  const connect = () => {
+    window.location.href = "/api/salesforce/auth"
+  }
+
+  const health = connection ? HEALTH[connection.health] : null
+
+  return (
+    <div className="container mx-auto py-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold">Settings</h1>
+        <p className="text-muted-foreground mt-2">Integrations shared by the whole organization</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Cloud className="h-5 w-5" />
+                Salesforce Connection
+              </CardTitle>
+              <CardDescription>
+                One connection used for catalog imports, the scheduled sync, order imports and order
+                status updates. It keeps working when the manager who connected it leaves.
+              </CardDescription>
+            </div>
+            {health && (
+              <span className={`px-3 py-1 rounded-full text-xs font-semibold whitespace-nowrap ${health.className}`}>
+                {health.label}
+              </span>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking connection status...
+            </div>
+          ) : !connection || connection.health === "disconnected" ? (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <XCircle className="h-5 w-5 text-gray-400" />
+                Not connected. Connect with a Salesforce user that can read products and orders.
+              </div>
+              <Button onClick={connect}>
+                <Cloud className="mr-2 h-4 w-4" />
+                Connect to Salesforce
+              </Button>
+            </div>
+          ) : (
+            <>
+              <div className="grid gap-3 sm:grid-cols-2 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Instance</div>
+                  <div className="font-medium break-all">{connection.instanceUrl}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Connected by</div>
+                  <div className="font-medium">
+                    {connection.connectedBy
+                      ? connection.connectedBy.name || connection.connectedBy.email
+                      : "A former team member"}{" "}
+                    <span className="text-muted-foreground font-normal">· {formatDate(connection.connectedAt)}</span>
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Last token refresh</div>
+                  <div className="font-medium">{formatDate(connection.lastRefreshedAt)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Last successful check</div>
+                  <div className="font-medium">{formatDate(connection.lastCheckedAt)}</div>
+                </div>
+                {apiUsage && (
+                  <div>
+                    <div className="text-muted-foreground">Daily API requests</div>
+                    <div className="font-medium">
+                      {apiUsage.used.toLocaleString()} of {apiUsage.limit.toLocaleString()} used
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {connection.health === "healthy" && (
+                <div className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle2 className="h-4 w-4" />
+                  Connected
+                </div>
+              )}
+              {connection.lastError && (
+                <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800 flex gap-2">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <div className="font-medium">Failed {formatDate(connection.lastErrorAt)}</div>
+                    <div className="break-all">{connection.lastError}</div>
+                    <div className="mt-1">If the access was revoked in Salesforce, reconnect.</div>
+                  </div>
+                </div>
+              )}
+              {connection.health === "expired" && (
+                <div className="rounded-md border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800">
+                  The access token expired and there is no refresh token. Reconnect to continue.
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={checkConnection} disabled={checking}>
+                  {checking ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                  )}
+                  Check Connection
+                </Button>
+                <Button variant="outline" onClick={connect}>
+                  <Cloud className="mr-2 h-4 w-4" />
+                  Reconnect
+                </Button>
+                <Button
+                  variant="outline"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => setShowDisconnect(true)}
+                >
+                  <Unplug className="mr-2 h-4 w-4" />
+                  Disconnect
+                </Button>
+              </div>
+
+              {orderUpdates && (orderUpdates.pending > 0 || orderUpdates.failed > 0) && (
+                <div className="flex items-center justify-between border-t pt-4 text-sm">
+                  <div>
+                    Order status updates: {orderUpdates.pending} pending
+                    {orderUpdates.failed > 0 && (
+                      <span className="text-red-600">, {orderUpdates.failed} failed</span>
+                    )}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={sendOrderUpdates} disabled={sendingUpdates}>
+                    <Send className="mr-2 h-4 w-4" />
+                    {sendingUpdates ? "Sending..." : "Send Now"}
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={showDisconnect} onOpenChange={setShowDisconnect}>
+        <AlertDialogContent className="mx-4 max-w-[calc(100vw-2rem)] sm:mx-auto sm:max-w-lg">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Disconnect Salesforce?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The tokens are revoked in Salesforce and removed here. Imports, the scheduled sync and
+              order status updates stop until a manager connects again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={disconnecting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDisconnect}
+              disabled={disconnecting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {disconnecting ? "Disconnecting..." : "Disconnect"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
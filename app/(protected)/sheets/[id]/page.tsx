@@ -8,8 +8,25 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { useToast } from "@/hooks/use-toast"
-import { Printer, ArrowLeft, Edit, Factory, CheckCircle2, Calendar } from "lucide-react"
+import {
+  Printer,
+  ArrowLeft,
+  Edit,
+  Factory,
+  CheckCircle2,
+  Calendar,
+  RotateCcw,
+  XCircle,
+  History,
+  PauseCircle,
+  PlayCircle,
+  Undo2,
+  FileDown,
+  LayoutGrid,
+  ExternalLink,
+} from "lucide-react"
 import { Skeleton } from "@/components/ui/skeleton"
+import { MaterialReportCard } from "@/components/MaterialReportCard"
 import {
   Dialog,
   DialogContent,
@@ -28,31 +45,73 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
+import {
+  SHEET_STATUS_LABELS,
+  canTransitionSheetStatus,
+  getManualTransitions,
+  getResumeStatus,
+  type SheetStatusTransition,
+} from "@/lib/sheet-status"
 
-const STATUS_LABELS: Record<string, string> = {
-  completed: "Completed",
-  in_production: "In Production",
-  draft: "Draft",
-}
+const STATUS_LABELS: Record<string, string> = SHEET_STATUS_LABELS
 
 const STATUS_BG: Record<string, string> = {
   completed: "bg-green-100 text-green-800",
   in_production: "bg-blue-100 text-blue-800",
+  production_started: "bg-yellow-100 text-yellow-800",
+  on_hold: "bg-orange-100 text-orange-800",
+  cancelled: "bg-red-100 text-red-800",
   draft: "bg-gray-100 text-gray-800",
 }
 
+// Icons for the transitions that need a reason, keyed by target status
+const REASON_TRANSITION_ICONS: Record<string, typeof XCircle> = {
+  draft: Undo2,
+  in_production: RotateCcw,
+  on_hold: PauseCircle,
+  cancelled: XCircle,
+}
+
 interface Sheet {
   id: string
   job_number: string | null
   status: string
   estimated_completion_date: string | null
   completed_at: string | null
+  status_reason: string | null
+  salesforce_order_id: string | null
+  salesforce_order_updates: {
+    state: "pending" | "sent" | "failed"
+    attempts: number
+    last_error: string | null
+    last_sent_at: string | null
+  } | null
   sheet_templates: {
     name: string
     field_definitions: any[]
   } | null
 }
 
+interface StatusHistoryEntry {
+  id: string
+  from_status: string | null
+  to_status: string
+  source: string
+  reason: string | null
+  created_at: string
+  users: { name: string | null; email: string } | null
+}
+
+interface PdfSnapshot {
+  id: string
+  version: number
+  byte_size: number
+  sheet_status: string | null
+  created_at: string
+  url: string | null
+  users: { name: string | null; email: string } | null
+}
+
 interface SheetItem {
   id: string
   banner_sku: string
@@ -62,6 +121,7 @@ interface SheetItem {
   qty_in_order: number
   stock_qty: number
   custom_fields: any
+  status: string
 }
 
 export default function SheetDetailPage() {
@@ -78,9 +138,20 @@ export default function SheetDetailPage() {
   const [estimatedDate, setEstimatedDate] = useState("")
   const [statusChanging, setStatusChanging] = useState(false)
 
+  // Reopen / cancel (backwards moves need a reason)
+  const [reasonTransition, setReasonTransition] = useState<SheetStatusTransition | null>(null)
+  const [transitionReason, setTransitionReason] = useState("")
+
+  const [history, setHistory] = useState<StatusHistoryEntry[]>([])
+  const [retryingSalesforce, setRetryingSalesforce] = useState(false)
+  const [pdfSnapshots, setPdfSnapshots] = useState<PdfSnapshot[]>([])
+  const [savingPdf, setSavingPdf] = useState(false)
+
   useEffect(() => {
     if (params.id) {
       fetchSheet()
+      fetchHistory()
+      fetchPdfSnapshots()
     }
   }, [params.id])
 
@@ -106,6 +177,30 @@ export default function SheetDetailPage() {
     }
   }
 
+  const fetchHistory = async () => {
+    try {
+      const response = await fetch(`/api/sheets/${params.id}/history`)
+      const data = await response.json()
+      if (data.history) {
+        setHistory(data.history)
+      }
+    } catch {
+      setHistory([])
+    }
+  }
+
+  const fetchPdfSnapshots = async () => {
+    try {
+      const response = await fetch(`/api/sheets/${params.id}/pdf/snapshots`)
+      const data = await response.json()
+      if (data.snapshots) {
+        setPdfSnapshots(data.snapshots)
+      }
+    } catch {
+      setPdfSnapshots([])
+    }
+  }
+
   const handleMoveToProduction = async () => {
     if (!estimatedDate) {
       toast({
@@ -128,7 +223,8 @@ export default function SheetDetailPage() {
       })
 
       if (!response.ok) {
-        throw new Error("Failed to update status")
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to update status")
       }
 
       toast({
@@ -139,6 +235,8 @@ export default function SheetDetailPage() {
       setShowProductionModal(false)
       setEstimatedDate("")
       fetchSheet()
+      fetchHistory()
+      fetchPdfSnapshots()
     } catch (error: any) {
       toast({
         title: "Error",
@@ -162,7 +260,8 @@ export default function SheetDetailPage() {
       })
 
       if (!response.ok) {
-        throw new Error("Failed to update status")
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to update status")
       }
 
       toast({
@@ -172,6 +271,138 @@ export default function SheetDetailPage() {
 
       setShowCompleteModal(false)
       fetchSheet()
+      fetchHistory()
+      fetchPdfSnapshots()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update status",
+        variant: "destructive",
+      })
+    } finally {
+      setStatusChanging(false)
+    }
+  }
+
+  const handleResume = async () => {
+    const to = getResumeStatus(items)
+
+    setStatusChanging(true)
+    try {
+      const response = await fetch(`/api/sheets/${params.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: to }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update status")
+      }
+
+      toast({
+        title: "Success",
+        description: `Sheet resumed (${STATUS_LABELS[to]})`,
+      })
+
+      fetchSheet()
+      fetchHistory()
+      fetchPdfSnapshots()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update status",
+        variant: "destructive",
+      })
+    } finally {
+      setStatusChanging(false)
+    }
+  }
+
+  const retrySalesforceUpdate = async () => {
+    setRetryingSalesforce(true)
+    try {
+      const response = await fetch("/api/salesforce/order-updates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ retry: [params.id] }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update Salesforce")
+      }
+
+      toast({
+        title: data.sent > 0 ? "Salesforce updated" : "Salesforce update queued",
+        description: data.sent > 0 ? "The order shows the sheet's current status" : "It will be retried shortly",
+      })
+      fetchSheet()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update Salesforce",
+        variant: "destructive",
+      })
+    } finally {
+      setRetryingSalesforce(false)
+    }
+  }
+
+  const savePdfVersion = async () => {
+    setSavingPdf(true)
+    try {
+      const response = await fetch(`/api/sheets/${params.id}/pdf`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save PDF")
+      }
+
+      toast({
+        title: "PDF saved",
+        description: `Printed version ${data.version}`,
+      })
+      fetchPdfSnapshots()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save PDF",
+        variant: "destructive",
+      })
+    } finally {
+      setSavingPdf(false)
+    }
+  }
+
+  const handleReasonTransition = async () => {
+    if (!reasonTransition) return
+
+    setStatusChanging(true)
+    try {
+      const response = await fetch(`/api/sheets/${params.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          status: reasonTransition.to,
+          reason: transitionReason,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update status")
+      }
+
+      toast({
+        title: "Success",
+        description: `Sheet moved to ${STATUS_LABELS[reasonTransition.to]}`,
+      })
+
+      setReasonTransition(null)
+      setTransitionReason("")
+      fetchSheet()
+      fetchHistory()
+      fetchPdfSnapshots()
     } catch (error: any) {
       toast({
         title: "Error",
@@ -204,6 +435,7 @@ export default function SheetDetailPage() {
 
   const statusLabel = STATUS_LABELS[sheet.status] || sheet.status
   const statusBg = STATUS_BG[sheet.status] || "bg-gray-100 text-gray-800"
+  const reasonTransitions = getManualTransitions(sheet.status).filter((t) => t.requiresReason)
 
   return (
     <div className="container mx-auto py-8">
@@ -225,12 +457,59 @@ export default function SheetDetailPage() {
           <p className="text-muted-foreground mt-2">
             Template: {sheet.sheet_templates?.name || "N/A"}
           </p>
+          {sheet.salesforce_order_id && (
+            <p className="text-sm text-muted-foreground mt-1">
+              <a
+                href={`/api/salesforce/orders/${sheet.salesforce_order_id}/open`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 underline"
+              >
+                <ExternalLink className="h-3 w-3" />
+                Salesforce order
+              </a>
+              {sheet.salesforce_order_updates?.state === "sent" && sheet.salesforce_order_updates.last_sent_at && (
+                <> · Status sent {new Date(sheet.salesforce_order_updates.last_sent_at).toLocaleString()}</>
+              )}
+              {sheet.salesforce_order_updates?.state === "pending" && (
+                <>
+                  {" "}· Status update pending
+                  {sheet.salesforce_order_updates.attempts > 0 &&
+                    ` (retry ${sheet.salesforce_order_updates.attempts}: ${sheet.salesforce_order_updates.last_error})`}
+                </>
+              )}
+              {sheet.salesforce_order_updates?.state === "failed" && (
+                <span className="text-red-600">
+                  {" "}· Status update failed: {sheet.salesforce_order_updates.last_error}
+                </span>
+              )}
+              {sheet.salesforce_order_updates && sheet.salesforce_order_updates.state !== "sent" && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 ml-2"
+                  onClick={retrySalesforceUpdate}
+                  disabled={retryingSalesforce}
+                >
+                  {retryingSalesforce ? "Sending..." : "Send now"}
+                </Button>
+              )}
+            </p>
+          )}
           {sheet.estimated_completion_date && (
             <p className="text-sm text-muted-foreground mt-1 flex items-center gap-1">
               <Calendar className="h-3 w-3" />
               Est. Completion: {new Date(sheet.estimated_completion_date).toLocaleDateString()}
             </p>
           )}
+          {sheet.status_reason && (sheet.status === "on_hold" || sheet.status === "cancelled") && (
+            <p className="text-sm text-muted-foreground mt-1">
+              <span className="font-medium">
+                {sheet.status === "on_hold" ? "On hold" : "Cancelled"}:
+              </span>{" "}
+              {sheet.status_reason}
+            </p>
+          )}
           {sheet.completed_at && (
             <p className="text-sm text-green-600 mt-1 flex items-center gap-1">
               <CheckCircle2 className="h-3 w-3" />
@@ -240,7 +519,10 @@ export default function SheetDetailPage() {
         </div>
         <div className="flex gap-2">
           {/* Edit button - available for draft and production sheets */}
-          {(sheet.status === "draft" || sheet.status === "in_production" || sheet.status === "production_started") && (
+          {(sheet.status === "draft" ||
+            sheet.status === "in_production" ||
+            sheet.status === "production_started" ||
+            sheet.status === "on_hold") && (
             <Link href={`/sheets/${params.id}/edit`}>
               <Button variant="outline">
                 <Edit className="mr-2 h-4 w-4" />
@@ -259,7 +541,7 @@ export default function SheetDetailPage() {
               Move to Production
             </Button>
           )}
-          {sheet.status === "in_production" && (
+          {canTransitionSheetStatus(sheet.status, "completed") && (
             <Button
               variant="default"
               onClick={() => setShowCompleteModal(true)}
@@ -269,6 +551,34 @@ export default function SheetDetailPage() {
               Mark Complete
             </Button>
           )}
+          {sheet.status === "on_hold" && (
+            <Button variant="default" onClick={handleResume} disabled={statusChanging}>
+              <PlayCircle className="mr-2 h-4 w-4" />
+              Resume
+            </Button>
+          )}
+          {reasonTransitions.map((transition) => {
+            const Icon = REASON_TRANSITION_ICONS[transition.to] || RotateCcw
+            return (
+              <Button
+                key={transition.to}
+                variant="outline"
+                onClick={() => setReasonTransition(transition)}
+              >
+                <Icon className="mr-2 h-4 w-4" />
+                {transition.label}
+              </Button>
+            )
+          })}
+
+          {items.length > 0 && (
+            <Link href={`/sheets/layout?ids=${params.id}`}>
+              <Button variant="outline">
+                <LayoutGrid className="mr-2 h-4 w-4" />
+                Plan Layout
+              </Button>
+            </Link>
+          )}
 
           <Link href={`/sheets/${params.id}/print`}>
             <Button variant="outline">
@@ -276,6 +586,13 @@ export default function SheetDetailPage() {
               Print Sheet
             </Button>
           </Link>
+
+          <Button variant="outline" asChild>
+            <a href={`/api/sheets/${params.id}/export`} download>
+              <FileDown className="mr-2 h-4 w-4" />
+              Export to Excel
+            </a>
+          </Button>
         </div>
       </div>
 
@@ -322,6 +639,97 @@ export default function SheetDetailPage() {
         </CardContent>
       </Card>
 
+      {items.length > 0 && (
+        <MaterialReportCard endpoint={`/api/sheets/${params.id}/materials`} className="mt-6" />
+      )}
+
+      {history.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Status History
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {history.map((entry) => (
+                <div key={entry.id} className="flex flex-wrap items-baseline gap-x-3 gap-y-1 text-sm border-b pb-2 last:border-0">
+                  <span className="font-medium">
+                    {entry.from_status
+                      ? `${STATUS_LABELS[entry.from_status] || entry.from_status} → `
+                      : ""}
+                    {STATUS_LABELS[entry.to_status] || entry.to_status}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {entry.source === "auto"
+                      ? "Automatic"
+                      : entry.users?.name || entry.users?.email || "Unknown"}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </span>
+                  {entry.reason && (
+                    <span className="w-full text-muted-foreground">{entry.reason}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="mt-6">
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <FileDown className="h-4 w-4" />
+              Printed Versions
+            </CardTitle>
+            <CardDescription>
+              A PDF is archived when the status changes or when you save one
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={savePdfVersion} disabled={savingPdf}>
+            {savingPdf ? "Saving..." : "Save PDF"}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {pdfSnapshots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No printed versions yet</p>
+          ) : (
+            <div className="space-y-3">
+              {pdfSnapshots.map((snapshot) => (
+                <div key={snapshot.id} className="flex flex-wrap items-baseline gap-x-3 gap-y-1 text-sm border-b pb-2 last:border-0">
+                  <span className="font-medium">Version {snapshot.version}</span>
+                  {snapshot.sheet_status && (
+                    <span className="text-muted-foreground">
+                      {STATUS_LABELS[snapshot.sheet_status] || snapshot.sheet_status}
+                    </span>
+                  )}
+                  <span className="text-muted-foreground">
+                    {snapshot.users?.name || snapshot.users?.email || "Unknown"}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {new Date(snapshot.created_at).toLocaleString()}
+                  </span>
+                  {snapshot.url && (
+                    <a
+                      href={snapshot.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="ml-auto text-primary hover:underline"
+                    >
+                      Open PDF
+                    </a>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Move to Production Modal */}
       <Dialog open={showProductionModal} onOpenChange={setShowProductionModal}>
         <DialogContent>
@@ -384,6 +792,54 @@ export default function SheetDetailPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Reopen / Cancel Production (reason required) */}
+      <Dialog
+        open={reasonTransition !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReasonTransition(null)
+            setTransitionReason("")
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{reasonTransition?.label}</DialogTitle>
+            <DialogDescription>
+              This moves the sheet to{" "}
+              {reasonTransition ? STATUS_LABELS[reasonTransition.to] : ""}. The reason is kept
+              in the status history.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Label htmlFor="transitionReason">Reason</Label>
+            <Input
+              id="transitionReason"
+              value={transitionReason}
+              onChange={(e) => setTransitionReason(e.target.value)}
+              className="mt-2"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setReasonTransition(null)
+                setTransitionReason("")
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReasonTransition}
+              disabled={statusChanging || !transitionReason.trim()}
+            >
+              {statusChanging ? "Updating..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -5,9 +5,13 @@ import { useParams, useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { useToast } from "@/hooks/use-toast"
-import { Printer, Save, ArrowLeft } from "lucide-react"
+import { Printer, Save, ArrowLeft, FileDown } from "lucide-react"
 import Link from "next/link"
 import { Skeleton } from "@/components/ui/skeleton"
+import { canTransitionSheetStatus } from "@/lib/sheet-status"
+import { QrCode } from "@/components/QrCode"
+import { ProductThumbnail } from "@/components/ProductThumbnail"
+import { encodeSheetCode, encodeSheetItemCode, formatManualCode } from "@/lib/scan-codes"
 
 interface Sheet {
   id: string
@@ -24,6 +28,7 @@ interface SheetItem {
   banner_sku: string
   banner_name: string
   image_url: string | null
+  thumbnail_url: string | null
   quantity: number
   qty_in_order: number
   stock_qty: number
@@ -85,7 +90,8 @@ export default function PrintSheetPage() {
       })
 
       if (!response.ok) {
-        throw new Error("Failed to save sheet")
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to save sheet")
       }
 
       toast({
@@ -118,7 +124,8 @@ export default function PrintSheetPage() {
       })
 
       if (!response.ok) {
-        throw new Error("Failed to update sheet status")
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to update sheet status")
       }
 
       toast({
@@ -168,23 +175,39 @@ export default function PrintSheetPage() {
           <Printer className="mr-2 h-4 w-4" />
           Print
         </Button>
-        <Button onClick={handleMarkInProduction} variant="outline">
-          Mark as In Production
-        </Button>
-        <Button onClick={handleFinishAndSave} disabled={saving}>
-          <Save className="mr-2 h-4 w-4" />
-          {saving ? "Saving..." : "Finish & Save"}
-        </Button>
+        <a href={`/api/sheets/${params.id}/pdf?download=1`}>
+          <Button variant="outline">
+            <FileDown className="mr-2 h-4 w-4" />
+            Download PDF
+          </Button>
+        </a>
+        {sheet.status === "draft" && canTransitionSheetStatus(sheet.status, "in_production") && (
+          <Button onClick={handleMarkInProduction} variant="outline">
+            Mark as In Production
+          </Button>
+        )}
+        {canTransitionSheetStatus(sheet.status, "completed") && (
+          <Button onClick={handleFinishAndSave} disabled={saving}>
+            <Save className="mr-2 h-4 w-4" />
+            {saving ? "Saving..." : "Finish & Save"}
+          </Button>
+        )}
       </div>
 
       <div className="container mx-auto py-8 print-container">
-        <div className="mb-6">
-          <h1 className="text-2xl font-bold">
-            Banner Production Sheet - {sheet.job_number || "N/A"}
-          </h1>
-          <p className="text-muted-foreground">
-            Date: {new Date().toLocaleDateString()}
-          </p>
+        <div className="mb-6 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">
+              Banner Production Sheet - {sheet.job_number || "N/A"}
+            </h1>
+            <p className="text-muted-foreground">
+              Date: {new Date().toLocaleDateString()}
+            </p>
+          </div>
+          <div className="flex flex-col items-center">
+            <QrCode value={encodeSheetCode(sheet.id)} size={80} />
+            <span className="font-mono text-[10px] mt-1">{formatManualCode(sheet.id)}</span>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -194,15 +217,19 @@ export default function PrintSheetPage() {
                 <div className="flex gap-4">
                   <div className="flex-shrink-0 w-48">
                     <div className="border border-black h-48 bg-gray-100 flex items-center justify-center mb-4">
-                      {item.image_url ? (
-                        <img
-                          src={item.image_url}
-                          alt={item.banner_sku}
-                          className="max-w-full max-h-full object-contain"
-                        />
-                      ) : (
-                        <span className="text-sm font-bold">IMAGE</span>
-                      )}
+                      <ProductThumbnail
+                        thumbnailUrl={item.thumbnail_url}
+                        imageUrl={item.image_url}
+                        alt={item.banner_sku}
+                        className="max-w-full max-h-full object-contain"
+                        fallback={<span className="text-sm font-bold">IMAGE</span>}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2 mb-4">
+                      <QrCode value={encodeSheetItemCode(sheet.id, item.id)} size={72} />
+                      <span className="font-mono text-[10px] break-all">
+                        {formatManualCode(sheet.id, item.id)}
+                      </span>
                     </div>
                     <div className="space-y-3">
                       <div>
@@ -0,0 +1,431 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useToast } from "@/hooks/use-toast"
+import { ArrowLeft, LayoutGrid, Loader2, Printer } from "lucide-react"
+import { SHEET_STATUS_LABELS } from "@/lib/sheet-status"
+import type { NestingLayout } from "@/lib/nesting"
+
+interface Sheet {
+  id: string
+  job_number: string | null
+  status: string
+  created_at: string
+  sheet_templates: { name: string } | null
+}
+
+interface LayoutResponse {
+  sheets: { id: string; job_number: string | null; status: string }[]
+  layout: NestingLayout
+  unsized: { sku: string; name: string | null; sheetId: string; pieces: number }[]
+}
+
+// Sheets that still have printing to do
+const OPEN_STATUSES = "draft,in_production,production_started,on_hold"
+
+const PIECE_COLORS = [
+  "#bfdbfe",
+  "#bbf7d0",
+  "#fde68a",
+  "#fbcfe8",
+  "#ddd6fe",
+  "#fed7aa",
+  "#a5f3fc",
+  "#d9f99d",
+  "#fecaca",
+  "#e5e7eb",
+]
+
+function formatLength(inches: number) {
+  const feet = Math.floor(inches / 12)
+  const rest = Math.round((inches - feet * 12) * 10) / 10
+  return feet > 0 ? `${feet}' ${rest}"` : `${rest}"`
+}
+
+export default function LayoutPlannerPage() {
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+  const [sheets, setSheets] = useState<Sheet[]>([])
+  const [sheetsLoading, setSheetsLoading] = useState(true)
+  const [selectedIds, setSelectedIds] = useState<string[]>(() =>
+    (searchParams.get("ids") || "").split(",").filter(Boolean)
+  )
+  const [mediaWidth, setMediaWidth] = useState("60")
+  const [gap, setGap] = useState("0.5")
+  const [margin, setMargin] = useState("0.5")
+  const [allowRotation, setAllowRotation] = useState(true)
+  const [result, setResult] = useState<LayoutResponse | null>(null)
+  const [planning, setPlanning] = useState(false)
+
+  useEffect(() => {
+    fetchSheets()
+    if (selectedIds.length > 0) planLayout()
+  }, [])
+
+  const fetchSheets = async () => {
+    try {
+      const response = await fetch(`/api/sheets?status=${OPEN_STATUSES}`)
+      const data = await response.json()
+      if (data.sheets) setSheets(data.sheets)
+    } catch {
+      setSheets([])
+    } finally {
+      setSheetsLoading(false)
+    }
+  }
+
+  const planLayout = async () => {
+    if (selectedIds.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select at least one sheet",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setPlanning(true)
+    try {
+      const params = new URLSearchParams({
+        ids: selectedIds.join(","),
+        mediaWidth,
+        gap,
+        margin,
+        rotate: allowRotation ? "1" : "0",
+      })
+      const response = await fetch(`/api/sheets/layout?${params}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to plan layout")
+      setResult(data)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to plan layout",
+        variant: "destructive",
+      })
+    } finally {
+      setPlanning(false)
+    }
+  }
+
+  const toggleSheet = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((s) => s !== id)))
+  }
+
+  // One color per SKU, with a legend row each
+  const legend = useMemo(() => {
+    const rows = new Map<string, { sku: string; color: string; count: number; size: string }>()
+    result?.layout.placements.forEach((placement) => {
+      const { piece } = placement
+      const row = rows.get(piece.sku) || {
+        sku: piece.sku,
+        color: PIECE_COLORS[rows.size % PIECE_COLORS.length],
+        count: 0,
+        size: `${piece.widthIn}" × ${piece.heightIn}"`,
+      }
+      row.count += 1
+      rows.set(piece.sku, row)
+    })
+    return rows
+  }, [result])
+
+  const layout = result?.layout
+  const jobNumbers = (result?.sheets || []).map((sheet) => sheet.job_number || "No job #")
+
+  return (
+    <>
+      <div className="no-print container mx-auto py-8">
+        <div className="mb-6 flex items-center gap-4">
+          <Link href="/sheets">
+            <Button variant="outline" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold">Layout Planner</h1>
+            <p className="text-muted-foreground mt-1">
+              Nest the banners of one or more sheets onto a single print run
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Sheets</CardTitle>
+              <CardDescription>{selectedIds.length} selected</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {sheetsLoading ? (
+                <div className="space-y-2">
+                  {[1, 2, 3].map((i) => (
+                    <Skeleton key={i} className="h-8 w-full" />
+                  ))}
+                </div>
+              ) : sheets.length === 0 ? (
+                <div className="text-center py-6 text-muted-foreground text-sm">
+                  No open sheets
+                </div>
+              ) : (
+                <div className="space-y-2 max-h-80 overflow-y-auto">
+                  {sheets.map((sheet) => (
+                    <label key={sheet.id} className="flex items-center gap-3 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={selectedIds.includes(sheet.id)}
+                        onCheckedChange={(checked) => toggleSheet(sheet.id, checked === true)}
+                      />
+                      <span className="font-medium">{sheet.job_number || "No job #"}</span>
+                      <span className="text-muted-foreground truncate">
+                        {sheet.sheet_templates?.name || ""}
+                      </span>
+                      <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+                        {SHEET_STATUS_LABELS[sheet.status as keyof typeof SHEET_STATUS_LABELS] || sheet.status}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Media</CardTitle>
+              <CardDescription>
+                Sizes come from the product catalog; pieces are qty in order plus stock qty
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+                <div>
+                  <Label htmlFor="mediaWidth" className="text-xs text-muted-foreground">Media width (in)</Label>
+                  <Input
+                    id="mediaWidth"
+                    type="number"
+                    min={1}
+                    value={mediaWidth}
+                    onChange={(e) => setMediaWidth(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="gap" className="text-xs text-muted-foreground">Gap (in)</Label>
+                  <Input
+                    id="gap"
+                    type="number"
+                    min={0}
+                    step={0.25}
+                    value={gap}
+                    onChange={(e) => setGap(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="margin" className="text-xs text-muted-foreground">Edge margin (in)</Label>
+                  <Input
+                    id="margin"
+                    type="number"
+                    min={0}
+                    step={0.25}
+                    value={margin}
+                    onChange={(e) => setMargin(e.target.value)}
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm h-10 cursor-pointer">
+                  <Checkbox
+                    checked={allowRotation}
+                    onCheckedChange={(checked) => setAllowRotation(checked === true)}
+                  />
+                  Allow rotation
+                </label>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={planLayout} disabled={planning || selectedIds.length === 0}>
+                  {planning ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <LayoutGrid className="mr-2 h-4 w-4" />
+                  )}
+                  Plan Layout
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => window.print()}
+                  disabled={!layout || layout.placements.length === 0}
+                >
+                  <Printer className="mr-2 h-4 w-4" />
+                  Print Layout
+                </Button>
+              </div>
+
+              {layout && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-2">
+                  <div>
+                    <div className="text-xs text-muted-foreground">Pieces placed</div>
+                    <div className="text-2xl font-bold">{layout.placements.length}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Run length</div>
+                    <div className="text-2xl font-bold">{formatLength(layout.lengthIn)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Utilization</div>
+                    <div className="text-2xl font-bold">{(layout.utilization * 100).toFixed(1)}%</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Media used</div>
+                    <div className="text-2xl font-bold">{layout.mediaSquareFeet} sq ft</div>
+                  </div>
+                </div>
+              )}
+
+              {layout && layout.unplaced.length > 0 && (
+                <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                  {layout.unplaced.length} piece{layout.unplaced.length !== 1 ? "s do" : " does"} not fit
+                  across {layout.options.mediaWidthIn}&quot; media:{" "}
+                  {Array.from(new Set(layout.unplaced.map((piece) => piece.sku))).join(", ")}
+                </div>
+              )}
+              {result && result.unsized.length > 0 && (
+                <div className="rounded-md border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800">
+                  Left out, no size in the catalog:{" "}
+                  {result.unsized.map((item) => `${item.sku} (${item.pieces})`).join(", ")}. Set their
+                  size in Products → Attribute Review.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {layout && layout.placements.length > 0 && (
+        <div className="container mx-auto pb-8 print-container">
+          <div className="mb-4">
+            <h2 className="text-2xl font-bold">Gang Sheet Layout</h2>
+            <p className="text-sm text-muted-foreground">
+              Jobs: {jobNumbers.join(", ")} · {layout.options.mediaWidthIn}&quot; media ·{" "}
+              {formatLength(layout.lengthIn)} long · {(layout.utilization * 100).toFixed(1)}% utilization ·{" "}
+              {new Date().toLocaleDateString()}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <div className="lg:col-span-3 border rounded-md p-2 bg-muted/30 overflow-auto max-h-[80vh] print-layout">
+              <svg
+                viewBox={`0 0 ${layout.options.mediaWidthIn} ${layout.lengthIn}`}
+                className="w-full h-auto"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <rect
+                  x={0}
+                  y={0}
+                  width={layout.options.mediaWidthIn}
+                  height={layout.lengthIn}
+                  fill="#ffffff"
+                  stroke="#9ca3af"
+                  strokeWidth={0.2}
+                />
+                {/* A tick every foot along the run */}
+                {Array.from({ length: Math.floor(layout.lengthIn / 12) }, (_, i) => (
+                  <line
+                    key={i}
+                    x1={0}
+                    x2={1.5}
+                    y1={(i + 1) * 12}
+                    y2={(i + 1) * 12}
+                    stroke="#6b7280"
+                    strokeWidth={0.2}
+                  />
+                ))}
+                {layout.placements.map((placement) => {
+                  const color = legend.get(placement.piece.sku)?.color || PIECE_COLORS[0]
+                  const fontSize = Math.max(0.8, Math.min(placement.width / 10, placement.height / 4, 4))
+                  return (
+                    <g key={placement.piece.id}>
+                      <rect
+                        x={placement.x}
+                        y={placement.y}
+                        width={placement.width}
+                        height={placement.height}
+                        fill={color}
+                        stroke="#374151"
+                        strokeWidth={0.15}
+                      />
+                      <text
+                        x={placement.x + placement.width / 2}
+                        y={placement.y + placement.height / 2}
+                        fontSize={fontSize}
+                        textAnchor="middle"
+                        dominantBaseline="middle"
+                        fill="#111827"
+                      >
+                        {placement.piece.sku}
+                        {placement.rotated ? " ↻" : ""}
+                      </text>
+                      {placement.height >= fontSize * 3 && (
+                        <text
+                          x={placement.x + placement.width / 2}
+                          y={placement.y + placement.height / 2 + fontSize * 1.2}
+                          fontSize={fontSize * 0.7}
+                          textAnchor="middle"
+                          dominantBaseline="middle"
+                          fill="#374151"
+                        >
+                          {placement.piece.label}
+                        </text>
+                      )}
+                    </g>
+                  )
+                })}
+              </svg>
+            </div>
+
+            <div className="text-sm">
+              <div className="font-semibold mb-2">Legend</div>
+              <div className="space-y-1">
+                {Array.from(legend.values()).map((row) => (
+                  <div key={row.sku} className="flex items-center gap-2">
+                    <span
+                      className="inline-block h-3 w-3 rounded-sm border border-gray-500 shrink-0"
+                      style={{ backgroundColor: row.color }}
+                    />
+                    <span className="font-mono">{row.sku}</span>
+                    <span className="text-muted-foreground">{row.size}</span>
+                    <span className="ml-auto">× {row.count}</span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-3">↻ rotated 90°. Ticks mark every foot.</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <style jsx global>{`
+        @media print {
+          .no-print {
+            display: none !important;
+          }
+          .print-container {
+            padding: 0;
+          }
+          .print-layout {
+            max-height: none !important;
+            overflow: visible !important;
+            border: none;
+            background: none;
+          }
+          @page {
+            margin: 1cm;
+          }
+        }
+      `}</style>
+    </>
+  )
+}
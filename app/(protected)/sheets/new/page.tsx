@@ -8,7 +8,8 @@ import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { useToast } from "@/hooks/use-toast"
 import { BannerSelector } from "@/components/BannerSelector"
-import { Save, Plus, ArrowLeft, Edit } from "lucide-react"
+import { SalesforceOrderImport, type ImportedSalesforceOrder } from "@/components/SalesforceOrderImport"
+import { Save, Plus, ArrowLeft, Edit, Download, X, ExternalLink } from "lucide-react"
 
 interface Template {
   id: string
@@ -27,6 +28,11 @@ interface Banner {
   product_code: string
   category: string
   image_url?: string
+  stock_min?: number | null
+  stock_max?: number | null
+  on_hand?: number
+  in_production?: number
+  suggested_stock_qty?: number
   qtyInOrder?: number
   stockQty?: number
 }
@@ -40,6 +46,8 @@ export default function NewSheetPage() {
   const [jobNumber, setJobNumber] = useState("")
   const [banners, setBanners] = useState<Banner[]>([])
   const [bannerSelectorOpen, setBannerSelectorOpen] = useState(false)
+  const [orderImportOpen, setOrderImportOpen] = useState(false)
+  const [salesforceOrder, setSalesforceOrder] = useState<ImportedSalesforceOrder["order"] | null>(null)
   const [saving, setSaving] = useState(false)
   const [loading, setLoading] = useState(true)
 
@@ -92,11 +100,29 @@ export default function NewSheetPage() {
     const bannersWithQuantities = selected.map(banner => ({
       ...banner,
       qtyInOrder: 0,
-      stockQty: 0,
+      // Pre-fill stock from the min/max reorder points
+      stockQty: banner.suggested_stock_qty || 0,
     }))
     setBanners([...banners, ...bannersWithQuantities])
   }
 
+  // An imported order replaces the job number and the banners
+  const handleOrderImport = (imported: ImportedSalesforceOrder) => {
+    setSalesforceOrder(imported.order)
+    setJobNumber(imported.order.orderNumber)
+    setBanners(imported.banners.map((banner: Banner) => ({
+      ...banner,
+      stockQty: banner.suggested_stock_qty || 0,
+    })))
+
+    if (imported.unmatched.length > 0) {
+      toast({
+        title: "Some order items were not added",
+        description: `${imported.unmatched.length} item${imported.unmatched.length !== 1 ? "s" : ""} did not match an active catalog product`,
+      })
+    }
+  }
+
   const removeBanner = (index: number) => {
     setBanners(banners.filter((_, i) => i !== index))
   }
@@ -148,6 +174,7 @@ export default function NewSheetPage() {
         body: JSON.stringify({
           templateId: selectedTemplateId,
           jobNumber: jobNumber.trim() || null,
+          salesforceOrderId: salesforceOrder?.id || null,
           items,
         }),
       })
@@ -227,9 +254,36 @@ export default function NewSheetPage() {
       {/* Job Number Card */}
       <Card className="mb-6">
         <CardHeader>
-          <CardTitle>Sheet Details</CardTitle>
+          <div className="flex justify-between items-center">
+            <CardTitle>Sheet Details</CardTitle>
+            <Button variant="outline" size="sm" onClick={() => setOrderImportOpen(true)}>
+              <Download className="mr-2 h-4 w-4" />
+              Import Salesforce Order
+            </Button>
+          </div>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {salesforceOrder && (
+            <div className="flex items-center justify-between p-3 bg-muted rounded-lg text-sm">
+              <div>
+                Imported from Salesforce order{" "}
+                <a
+                  href={salesforceOrder.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium underline inline-flex items-center gap-1"
+                >
+                  {salesforceOrder.orderNumber}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+                {salesforceOrder.accountName && ` · ${salesforceOrder.accountName}`}
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setSalesforceOrder(null)}>
+                <X className="mr-1 h-4 w-4" />
+                Unlink
+              </Button>
+            </div>
+          )}
           <div>
             <Label htmlFor="jobNumber">Job Number (Optional)</Label>
             <Input
@@ -312,6 +366,15 @@ export default function NewSheetPage() {
                         onChange={(e) => updateBannerQuantity(index, 'stockQty', parseInt(e.target.value) || 0)}
                         className="mt-1"
                       />
+                      {banner.on_hand !== undefined && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          On hand: {banner.on_hand}
+                          {!!banner.in_production && ` · ${banner.in_production} on open sheets`}
+                          {banner.stock_min != null &&
+                            ` · Min ${banner.stock_min}${banner.stock_max != null ? ` / Max ${banner.stock_max}` : ""}`}
+                          {!!banner.suggested_stock_qty && ` · Suggested ${banner.suggested_stock_qty}`}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -342,6 +405,12 @@ export default function NewSheetPage() {
         productsToExclude={selectedTemplate?.products_to_exclude}
         categoriesToExclude={selectedTemplate?.categories_to_exclude}
       />
+
+      <SalesforceOrderImport
+        open={orderImportOpen}
+        onOpenChange={setOrderImportOpen}
+        onImport={handleOrderImport}
+      />
     </div>
   )
 }
@@ -6,7 +6,7 @@ import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { useToast } from "@/hooks/use-toast"
-import { Plus, Eye, Pencil, Printer, Trash2 } from "lucide-react"
+import { Plus, Eye, Pencil, Printer, Trash2, LayoutGrid, PackagePlus } from "lucide-react"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,6 +19,7 @@ import {
 } from "@/components/ui/alert-dialog"
 import { DataTable } from "@/components/ui/data-table"
 import type { ColumnsDefine } from "@/components/ui/data-table"
+import { ReorderPlanner } from "@/components/ReorderPlanner"
 
 interface Sheet {
   id: string
@@ -35,6 +36,8 @@ const STATUS_BG: Record<string, string> = {
   completed: "#dcfce7",
   in_production: "#dbeafe",
   production_started: "#fef3c7",
+  on_hold: "#ffedd5",
+  cancelled: "#fee2e2",
   draft: "#f3f4f6",
 }
 
@@ -42,6 +45,8 @@ const STATUS_FG: Record<string, string> = {
   completed: "#166534",
   in_production: "#1e40af",
   production_started: "#92400e",
+  on_hold: "#9a3412",
+  cancelled: "#991b1b",
   draft: "#374151",
 }
 
@@ -49,6 +54,8 @@ const STATUS_LABELS: Record<string, string> = {
   completed: "Completed",
   in_production: "In Production",
   production_started: "Production Started",
+  on_hold: "On Hold",
+  cancelled: "Cancelled",
   draft: "Draft",
 }
 
@@ -56,6 +63,8 @@ const STATUS_BADGE_CLASSES: Record<string, string> = {
   completed: "bg-green-100 text-green-800",
   in_production: "bg-blue-100 text-blue-800",
   production_started: "bg-yellow-100 text-yellow-800",
+  on_hold: "bg-orange-100 text-orange-800",
+  cancelled: "bg-red-100 text-red-800",
   draft: "bg-gray-100 text-gray-800",
 }
 
@@ -161,6 +170,7 @@ export default function SheetsPage() {
   const [sheets, setSheets] = useState<Sheet[]>([])
   const [loading, setLoading] = useState(true)
   const [deleteId, setDeleteId] = useState<string | null>(null)
+  const [reorderOpen, setReorderOpen] = useState(false)
   const { toast } = useToast()
   const router = useRouter()
 
@@ -218,11 +228,17 @@ export default function SheetsPage() {
     [sheets]
   )
   const inProductionSheets = useMemo(
-    () => sheets.filter((s) => s.status === "in_production" || s.status === "production_started"),
+    () =>
+      sheets.filter(
+        (s) =>
+          s.status === "in_production" ||
+          s.status === "production_started" ||
+          s.status === "on_hold"
+      ),
     [sheets]
   )
   const completedSheets = useMemo(
-    () => sheets.filter((s) => s.status === "completed"),
+    () => sheets.filter((s) => s.status === "completed" || s.status === "cancelled"),
     [sheets]
   )
 
@@ -613,12 +629,20 @@ export default function SheetsPage() {
             Manage your production sheets
           </p>
         </div>
-        <Link href="/sheets/new/select-template" className="self-start sm:self-auto">
-          <Button className="w-full sm:w-auto">
-            <Plus className="mr-2 h-4 w-4" />
-            New Sheet
-          </Button>
-        </Link>
+        <div className="flex gap-2 self-start sm:self-auto">
+          <Link href="/sheets/layout">
+            <Button variant="outline" className="w-full sm:w-auto">
+              <LayoutGrid className="mr-2 h-4 w-4" />
+              Layout Planner
+            </Button>
+          </Link>
+          <Link href="/sheets/new/select-template">
+            <Button className="w-full sm:w-auto">
+              <Plus className="mr-2 h-4 w-4" />
+              New Sheet
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Draft Section */}
@@ -631,6 +655,10 @@ export default function SheetsPage() {
                 Sheets that are still being prepared
               </CardDescription>
             </div>
+            <Button variant="outline" size="sm" onClick={() => setReorderOpen(true)}>
+              <PackagePlus className="mr-2 h-4 w-4" />
+              Plan Restock
+            </Button>
           </div>
         </CardHeader>
         <CardContent className="p-4 pt-0 md:p-6 md:pt-0">
@@ -712,7 +740,7 @@ export default function SheetsPage() {
             <div>
               <CardTitle className="text-lg md:text-2xl">Completed ({completedSheets.length})</CardTitle>
               <CardDescription>
-                Sheets that have been completed
+                Sheets that have been completed or cancelled
               </CardDescription>
             </div>
           </div>
@@ -768,6 +796,8 @@ export default function SheetsPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <ReorderPlanner open={reorderOpen} onOpenChange={setReorderOpen} onCreated={fetchSheets} />
     </div>
   )
 }
@@ -6,6 +6,25 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { useToast } from "@/hooks/use-toast"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { CodeScanner } from "@/components/CodeScanner"
+import { matchesScanRef, parseScanCode } from "@/lib/scan-codes"
 import {
   Clock,
   FileText,
@@ -18,6 +37,8 @@ import {
   Play,
   Package,
   CheckCircle,
+  Undo2,
+  ScanLine,
 } from "lucide-react"
 
 // ── Interfaces ──────────────────────────────────────────────
@@ -33,6 +54,7 @@ interface SheetOption {
 
 interface SheetItem {
   id: string
+  sheet_id: string
   banner_sku: string
   banner_name: string | null
   image_url: string | null
@@ -41,6 +63,7 @@ interface SheetItem {
   qty_in_order_completed: number
   stock_qty_completed: number
   status: string
+  version: number
 }
 
 interface WorkLogPhoto {
@@ -58,7 +81,10 @@ interface WorkLog {
   item_id: string | null
   items_completed: any[]
   created_at: string
+  reversed_at: string | null
+  reversal_reason: string | null
   users: { name: string | null; email: string } | null
+  reverser: { name: string | null; email: string } | null
   work_log_photos: WorkLogPhoto[]
 }
 
@@ -74,7 +100,9 @@ const ITEM_STATUS_BADGE: Record<string, { bg: string; text: string; label: strin
 const JOB_STATUS_BADGE: Record<string, { bg: string; text: string; label: string }> = {
   in_production: { bg: "bg-blue-100", text: "text-blue-800", label: "In Production" },
   production_started: { bg: "bg-yellow-100", text: "text-yellow-800", label: "Production Started" },
+  on_hold: { bg: "bg-orange-100", text: "text-orange-800", label: "On Hold" },
   completed: { bg: "bg-green-100", text: "text-green-800", label: "Completed" },
+  cancelled: { bg: "bg-red-100", text: "text-red-800", label: "Cancelled" },
   draft: { bg: "bg-gray-100", text: "text-gray-800", label: "Draft" },
 }
 
@@ -118,6 +146,16 @@ export default function WorkLogPage() {
   const [loadingLogs, setLoadingLogs] = useState(false)
   const [expandedLog, setExpandedLog] = useState<string | null>(null)
 
+  // Reversal
+  const [reverseLog, setReverseLog] = useState<WorkLog | null>(null)
+  const [reverseReason, setReverseReason] = useState("")
+  const [reversing, setReversing] = useState(false)
+
+  // Scan to log
+  const [showScanner, setShowScanner] = useState(false)
+  const [resolvingScan, setResolvingScan] = useState(false)
+  const [highlightedItemId, setHighlightedItemId] = useState<string | null>(null)
+
   // Fetch in-production and production_started sheets
   useEffect(() => {
     fetchSheets()
@@ -184,6 +222,89 @@ export default function WorkLogPage() {
     }
   }
 
+  // Bring a scanned product into view
+  useEffect(() => {
+    if (highlightedItemId) {
+      document
+        .getElementById(`item-${highlightedItemId}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" })
+    }
+  }, [highlightedItemId])
+
+  // ── Scan Code ─────────────────────────────────────────────
+
+  const handleScannedCode = async (text: string) => {
+    if (resolvingScan) return
+
+    const code = parseScanCode(text)
+    if (!code) {
+      toast({ title: "Unknown code", description: "That is not a production sheet code", variant: "destructive" })
+      return
+    }
+
+    const sheet = sheets.find((s) => matchesScanRef(s.id, code.sheetRef))
+    if (!sheet) {
+      toast({
+        title: "Job not found",
+        description: "This job is not in production, or the code was mistyped",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (!code.itemRef) {
+      setShowScanner(false)
+      setLoggingItemId(null)
+      setHighlightedItemId(null)
+      setSelectedSheetId(sheet.id)
+      return
+    }
+
+    setResolvingScan(true)
+    try {
+      const response = await fetch(`/api/sheets/${sheet.id}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load products")
+
+      const items: SheetItem[] = data.items || []
+      const item = items.find((i) => matchesScanRef(i.id, code.itemRef!))
+      if (!item) {
+        toast({
+          title: "Product not found",
+          description: `This product is no longer on job ${sheet.job_number || ""}`.trim(),
+          variant: "destructive",
+        })
+        return
+      }
+
+      setShowScanner(false)
+      setLoggingItemId(null)
+      setSheetItems(items)
+      setSelectedSheetId(sheet.id)
+      setHighlightedItemId(item.id)
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message, variant: "destructive" })
+    } finally {
+      setResolvingScan(false)
+    }
+  }
+
+  const scannerDialog = (
+    <Dialog open={showScanner} onOpenChange={setShowScanner}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Scan Sheet Code</DialogTitle>
+          <DialogDescription>
+            Point the camera at the QR code on a printed sheet or product row
+          </DialogDescription>
+        </DialogHeader>
+        {showScanner && (
+          <CodeScanner onCode={handleScannedCode} paused={resolvingScan} />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+
   // ── Start Working ─────────────────────────────────────────
 
   const handleStartWorking = async (itemId: string) => {
@@ -235,10 +356,30 @@ export default function WorkLogPage() {
           work_type: "log_completion",
           hours: hours ? parseFloat(hours) : null,
           notes: notes || null,
-          items: [{ item_id: loggingItemId, qty_completed: qty }],
+          items: [
+            {
+              item_id: loggingItemId,
+              qty_completed: qty,
+              expected_version: sheetItems.find((i) => i.id === loggingItemId)?.version,
+            },
+          ],
         }),
       })
       const data = await response.json()
+
+      // Someone else logged against this product first – show the fresh
+      // quantities and let the worker re-check before resubmitting
+      if (response.status === 409) {
+        if (Array.isArray(data.items)) {
+          const fresh = new Map<string, SheetItem>(
+            data.items.map((i: SheetItem) => [i.id, i])
+          )
+          setSheetItems((prev) => prev.map((i) => fresh.get(i.id) || i))
+        }
+        toast({ title: "Updated elsewhere", description: data.error, variant: "destructive" })
+        return
+      }
+
       if (!response.ok) throw new Error(data.error || "Failed")
 
       // 2. Upload photos if any
@@ -271,6 +412,35 @@ export default function WorkLogPage() {
     }
   }
 
+  // ── Reverse Entry ─────────────────────────────────────────
+
+  const handleReverseLog = async () => {
+    if (!reverseLog || !selectedSheetId) return
+
+    setReversing(true)
+    try {
+      const response = await fetch(`/api/work-logs/${reverseLog.id}`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason: reverseReason || null }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed")
+
+      toast({ title: "Reversed", description: "Entry reversed and quantities restored" })
+
+      fetchSheetItems(selectedSheetId)
+      fetchLogs(selectedSheetId)
+      fetchSheets()
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message, variant: "destructive" })
+    } finally {
+      setReversing(false)
+      setReverseLog(null)
+      setReverseReason("")
+    }
+  }
+
   // ── Photo helpers ─────────────────────────────────────────
 
   const handlePhotoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -497,6 +667,7 @@ export default function WorkLogPage() {
             onClick={() => {
               setSelectedSheetId("")
               setSelectedSheet(null)
+              setHighlightedItemId(null)
             }}
             className="mb-3"
           >
@@ -520,10 +691,18 @@ export default function WorkLogPage() {
         {/* Products list */}
         <Card className="mb-4">
           <CardHeader className="p-4 md:p-6 pb-2 md:pb-2">
-            <CardTitle className="text-base md:text-lg">
-              Products ({sheetItems.length})
-            </CardTitle>
-            <CardDescription>Select a product to start working or log progress</CardDescription>
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <CardTitle className="text-base md:text-lg">
+                  Products ({sheetItems.length})
+                </CardTitle>
+                <CardDescription>Select a product to start working or log progress</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setShowScanner(true)}>
+                <ScanLine className="mr-1.5 h-3.5 w-3.5" />
+                Scan
+              </Button>
+            </div>
           </CardHeader>
           <CardContent className="p-4 pt-2 md:p-6 md:pt-2">
             {loadingItems ? (
@@ -542,7 +721,10 @@ export default function WorkLogPage() {
                   return (
                     <div
                       key={item.id}
-                      className="border rounded-lg p-4"
+                      id={`item-${item.id}`}
+                      className={`border rounded-lg p-4 ${
+                        highlightedItemId === item.id ? "ring-2 ring-primary border-primary" : ""
+                      }`}
                     >
                       {/* Top row: SKU + status */}
                       <div className="flex items-start justify-between gap-2 mb-2">
@@ -631,6 +813,7 @@ export default function WorkLogPage() {
                   const isExpanded = expandedLog === log.id
                   const logItem = getItemForLog(log)
                   const isStart = log.work_type === "start_working"
+                  const isReversed = !!log.reversed_at
 
                   return (
                     <div key={log.id} className="border rounded-lg overflow-hidden">
@@ -641,11 +824,16 @@ export default function WorkLogPage() {
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center gap-2 text-sm">
                             <User className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
-                            <span className="font-medium truncate">
+                            <span className={`font-medium truncate ${isReversed ? "line-through text-muted-foreground" : ""}`}>
                               {log.users?.name || log.users?.email || "Unknown"}
                             </span>
+                            {isReversed && (
+                              <span className="inline-flex items-center rounded-full bg-red-100 text-red-800 px-2 py-0.5 text-xs font-semibold">
+                                Reversed
+                              </span>
+                            )}
                           </div>
-                          <div className="flex flex-wrap gap-x-3 gap-y-0.5 mt-1 text-xs text-muted-foreground">
+                          <div className={`flex flex-wrap gap-x-3 gap-y-0.5 mt-1 text-xs text-muted-foreground ${isReversed ? "line-through" : ""}`}>
                             <span>{new Date(log.created_at).toLocaleString()}</span>
                             {isStart ? (
                               <span className="text-yellow-700 font-medium">
@@ -678,6 +866,18 @@ export default function WorkLogPage() {
 
                       {isExpanded && (
                         <div className="border-t p-3 space-y-3 bg-muted/10">
+                          {isReversed && (
+                            <div>
+                              <p className="text-xs font-medium text-muted-foreground mb-0.5">Reversed</p>
+                              <p className="text-sm">
+                                {new Date(log.reversed_at!).toLocaleString()}
+                                {log.reverser && ` by ${log.reverser.name || log.reverser.email}`}
+                              </p>
+                              {log.reversal_reason && (
+                                <p className="text-sm text-muted-foreground whitespace-pre-wrap">{log.reversal_reason}</p>
+                              )}
+                            </div>
+                          )}
                           {log.hours && (
                             <div>
                               <p className="text-xs font-medium text-muted-foreground mb-0.5">Hours</p>
@@ -701,8 +901,10 @@ export default function WorkLogPage() {
                                       <span className="inline-flex items-center rounded-full bg-green-100 text-green-800 px-2 py-0.5 text-xs font-medium">
                                         {itm?.banner_sku || ic.item_id?.slice(0, 8)}
                                       </span>
-                                      <span>+{ic.qty_completed} completed</span>
-                                      {ic.status === "complete" && (
+                                      <span className={isReversed ? "line-through text-muted-foreground" : ""}>
+                                        +{ic.qty_completed} completed
+                                      </span>
+                                      {ic.status === "complete" && !isReversed && (
                                         <span className="text-green-600 text-xs font-medium">(Done!)</span>
                                       )}
                                     </div>
@@ -733,6 +935,17 @@ export default function WorkLogPage() {
                               </div>
                             </div>
                           )}
+                          {!isStart && !isReversed && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setReverseLog(log)}
+                              disabled={reversing}
+                            >
+                              <Undo2 className="mr-1.5 h-3.5 w-3.5" />
+                              Reverse Entry
+                            </Button>
+                          )}
                         </div>
                       )}
                     </div>
@@ -742,6 +955,50 @@ export default function WorkLogPage() {
             )}
           </CardContent>
         </Card>
+
+        {/* Reverse Confirmation */}
+        <AlertDialog
+          open={reverseLog !== null}
+          onOpenChange={(open) => {
+            if (!open) {
+              setReverseLog(null)
+              setReverseReason("")
+            }
+          }}
+        >
+          <AlertDialogContent className="mx-4 max-w-[calc(100vw-2rem)] sm:mx-auto sm:max-w-lg">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Reverse this entry?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The quantities it recorded will be subtracted from the products and the job
+                status recalculated. The entry stays in the history, struck through.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div>
+              <Label htmlFor="reverse-reason" className="mb-1.5 block">
+                Reason (optional)
+              </Label>
+              <Input
+                id="reverse-reason"
+                value={reverseReason}
+                onChange={(e) => setReverseReason(e.target.value)}
+                placeholder="e.g. Typo in quantity"
+              />
+            </div>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={reversing}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={handleReverseLog}
+                disabled={reversing}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                {reversing ? "Reversing..." : "Reverse"}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {scannerDialog}
       </div>
     )
   }
@@ -752,10 +1009,18 @@ export default function WorkLogPage() {
     <div className="container mx-auto px-4 py-4 md:py-8 max-w-4xl">
       {/* Header */}
       <div className="mb-4 md:mb-6">
-        <h1 className="text-2xl md:text-3xl font-bold">Work Log</h1>
-        <p className="text-muted-foreground mt-1 text-sm md:text-base">
-          Select a job to log your work
-        </p>
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold">Work Log</h1>
+            <p className="text-muted-foreground mt-1 text-sm md:text-base">
+              Select a job or scan a printed sheet to log your work
+            </p>
+          </div>
+          <Button onClick={() => setShowScanner(true)} disabled={loadingSheets}>
+            <ScanLine className="mr-2 h-4 w-4" />
+            Scan Code
+          </Button>
+        </div>
       </div>
 
       {/* Jobs List */}
@@ -819,6 +1084,8 @@ export default function WorkLogPage() {
           )}
         </CardContent>
       </Card>
+
+      {scannerDialog}
     </div>
   )
 }
@@ -0,0 +1,109 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import {
+  buildMaterialReport,
+  loadProductSizes,
+  materialDateRangeFromParams,
+  materialOptionsFromParams,
+  materialReportToCsv,
+} from "@/lib/material-report"
+
+const BATCH_SIZE = 200
+
+/**
+ * GET /api/analytics/materials?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Material requirements across every sheet created in the date range
+ * (inclusive, UTC). Cancelled sheets are left out.
+ * Query: waste (percent), substrate (roll | sheet), width, length, format=csv
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { range, error: rangeError } = materialDateRangeFromParams(searchParams)
+
+    if (!range) {
+      return NextResponse.json({ error: rangeError }, { status: 400 })
+    }
+
+    const options = materialOptionsFromParams(searchParams)
+
+    const sheetIds: string[] = []
+    let sheetOffset = 0
+
+    while (true) {
+      const { data: sheets, error: sheetsError } = await supabase
+        .from("production_sheets")
+        .select("id")
+        .gte("created_at", range.start)
+        .lt("created_at", range.end)
+        .neq("status", "cancelled")
+        .order("id", { ascending: true })
+        .range(sheetOffset, sheetOffset + 999)
+
+      if (sheetsError) {
+        return NextResponse.json({ error: sheetsError.message }, { status: 500 })
+      }
+
+      sheetIds.push(...(sheets || []).map((sheet: any) => sheet.id))
+      if (!sheets || sheets.length < 1000) break
+      sheetOffset += 1000
+    }
+
+    const items: any[] = []
+
+    for (let i = 0; i < sheetIds.length; i += BATCH_SIZE) {
+      const batch = sheetIds.slice(i, i + BATCH_SIZE)
+      let offset = 0
+
+      while (true) {
+        const { data, error } = await supabase
+          .from("sheet_items")
+          .select("banner_sku, banner_name, qty_in_order, stock_qty")
+          .in("sheet_id", batch)
+          .order("id", { ascending: true })
+          .range(offset, offset + 999)
+
+        if (error) {
+          return NextResponse.json({ error: error.message }, { status: 500 })
+        }
+
+        items.push(...(data || []))
+        if (!data || data.length < 1000) break
+        offset += 1000
+      }
+    }
+
+    const sizes = await loadProductSizes(supabase, items.map((item) => item.banner_sku))
+    const report = buildMaterialReport(items, sizes, options)
+
+    if (searchParams.get("format") === "csv") {
+      return new NextResponse(
+        materialReportToCsv(report, `Material requirements: ${range.from} to ${range.to} (${sheetIds.length} sheets)`),
+        {
+          status: 200,
+          headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": `attachment; filename="materials-${range.from}-to-${range.to}.csv"`,
+            "Cache-Control": "no-store",
+          },
+        }
+      )
+    }
+
+    return NextResponse.json({ report, sheetCount: sheetIds.length })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to build material report" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,49 +1,8 @@
 import { createClient } from "@/lib/supabase/server"
 import { NextResponse } from "next/server"
-
-function parseCSV(text: string) {
-  const lines = text.split('\n').filter(line => line.trim())
-  if (lines.length < 2) return []
-
-  const headers = lines[0].split(',').map(h => h.trim())
-  const data = []
-
-  for (let i = 1; i < lines.length; i++) {
-    const values = []
-    let current = ''
-    let inQuotes = false
-
-    for (let j = 0; j < lines[i].length; j++) {
-      const char = lines[i][j]
-      if (char === '"') {
-        inQuotes = !inQuotes
-      } else if (char === ',' && !inQuotes) {
-        values.push(current.trim())
-        current = ''
-      } else {
-        current += char
-      }
-    }
-    values.push(current.trim())
-
-    if (values.length >= 4) {
-      data.push({
-        id: values[0] || '',
-        name: values[1] || '',
-        sku: values[2] || '',
-        productCode: values[3] || ''
-      })
-    }
-  }
-
-  return data
-}
-
-function getCategoryFromProductCode(productCode: string): string {
-  if (!productCode) return 'Other'
-  const parts = productCode.split(':')
-  return parts[0] || 'Other'
-}
+import { openCSV } from "@/lib/csv-parser"
+import { startImportRun, finishImportRun, validationSummary } from "@/lib/import-runs"
+import { legacyCSVSource, applyCatalogImport } from "@/lib/catalog-import"
 
 export async function POST(request: Request) {
   try {
@@ -63,38 +22,61 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 })
     }
 
-    const text = await file.text()
-    const banners = parseCSV(text)
-
-    if (banners.length === 0) {
-      return NextResponse.json({ error: "No valid banner data found" }, { status: 400 })
+    // Legacy single-file format: ID, Name, SKU, ProductCode
+    const banners = await openCSV(file)
+    if (banners.headers.length < 4) {
+      return NextResponse.json(
+        { error: `Expected 4 columns (ID, Name, SKU, ProductCode), found ${banners.headers.length}` },
+        { status: 400 }
+      )
     }
 
-    // Insert banners into product_catalog (legacy single-file import)
-    const bannerData = banners.map(banner => ({
-      product_id: banner.id || null,
-      sku: banner.sku,
-      name: banner.name,
-      product_code: banner.productCode,
-      category: getCategoryFromProductCode(banner.productCode),
-      imported_by: user.id,
-    }))
+    const runId = await startImportRun(supabase, {
+      source: "legacy_csv",
+      userId: user.id,
+      metadata: { files: [file.name] },
+    })
+
+    // Invalid rows and earlier duplicates of a SKU (the last row wins) are skipped
+    const result = await applyCatalogImport(supabase, legacyCSVSource(banners), {
+      runId,
+      userId: user.id,
+    })
 
-    const { error } = await supabase
-      .from("product_catalog")
-      .upsert(bannerData, {
-        onConflict: "sku",
-        ignoreDuplicates: false,
+    if (result.error) {
+      await finishImportRun(supabase, runId, {
+        status: "failed",
+        rows: result.rows,
+        error: result.error,
       })
+      return NextResponse.json({ error: result.error, runId }, { status: 500 })
+    }
+
+    const validation = validationSummary(runId, result.rows)
 
-    if (error) {
-      console.error("Error importing banners:", error)
-      return NextResponse.json({ error: error.message }, { status: 500 })
+    if (result.imported === 0) {
+      const message = "No valid banner data found"
+      await finishImportRun(supabase, runId, {
+        status: "failed",
+        rows: result.rows,
+        error: message,
+      })
+      return NextResponse.json({ error: message, runId, validation }, { status: 400 })
     }
 
+    const counts = await finishImportRun(supabase, runId, {
+      status: "succeeded",
+      rows: result.rows,
+    })
+
     return NextResponse.json({
       success: true,
-      count: banners.length,
+      runId,
+      count: result.imported,
+      created: counts.created,
+      updated: counts.updated,
+      skipped: counts.skipped,
+      validation,
     })
   } catch (error: any) {
     console.error("Error in CSV import:", error)
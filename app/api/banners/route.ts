@@ -1,5 +1,6 @@
 import { createClient } from "@/lib/supabase/server"
 import { NextResponse } from "next/server"
+import { loadStockLevels } from "@/lib/inventory"
 
 function parseJsonParam(value: string | null): string[] {
   if (!value) return []
@@ -24,6 +25,7 @@ export async function GET(request: Request) {
     const limit = parseInt(searchParams.get("limit") || "60", 10)
     const categoriesOnly = searchParams.get("categoriesOnly") === "true"
     const includeCategoryDetails = searchParams.get("includeCategoryDetails") === "true"
+    const includeStock = searchParams.get("includeStock") === "true"
 
     // Template-level filter params
     const categoriesToInclude = parseJsonParam(searchParams.get("categoriesToInclude"))
@@ -95,6 +97,7 @@ export async function GET(request: Request) {
     let query = supabase
       .from("product_catalog")
       .select(includeCategoryDetails ? "*, product_categories!product_catalog_primary_category_id_fkey(id, name)" : "*", { count: "exact" })
+      .eq("is_active", true) // Products deactivated in Salesforce can't be added to sheets
       .order("sku", { ascending: true })
       .range(from, to)
 
@@ -144,8 +147,24 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
 
+    let banners: any[] = data || []
+
+    // On-hand and suggested stock qty for the new-sheet flow
+    if (includeStock && banners.length > 0) {
+      const levels = await loadStockLevels(supabase, banners.map((b) => b.sku), banners)
+      banners = banners.map((banner) => {
+        const level = levels.get(banner.sku)
+        return {
+          ...banner,
+          on_hand: level?.onHand ?? 0,
+          in_production: level?.inProduction ?? 0,
+          suggested_stock_qty: level?.suggestedQty ?? 0,
+        }
+      })
+    }
+
     return NextResponse.json({
-      banners: data || [],
+      banners,
       total: count || 0,
       page,
       limit,
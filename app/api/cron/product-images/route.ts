@@ -0,0 +1,40 @@
+import { createAdminClient } from "@/lib/supabase/admin"
+import { NextResponse } from "next/server"
+import { runImageChecks } from "@/lib/product-images"
+
+// Checks and thumbnails for a batch of products
+export const maxDuration = 300
+
+/**
+ * GET /api/cron/product-images
+ *
+ * Checks catalog image URLs and caches thumbnails, run by the Vercel cron
+ * in vercel.json.
+ * Vercel sends `Authorization: Bearer <CRON_SECRET>`; any other caller is
+ * rejected.
+ */
+export async function GET(request: Request) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: "CRON_SECRET is not configured" },
+        { status: 500 }
+      )
+    }
+
+    if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const supabase = createAdminClient()
+    const result = await runImageChecks(supabase)
+    return NextResponse.json({ success: true, ...result })
+  } catch (error: any) {
+    console.error("Error checking product images:", error)
+    return NextResponse.json(
+      { error: error.message || "Failed to check product images" },
+      { status: 500 }
+    )
+  }
+}
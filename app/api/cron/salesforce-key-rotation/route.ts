@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { rotateTokenKey } from "@/lib/salesforce/client"
+
+/**
+ * POST /api/cron/salesforce-key-rotation
+ *
+ * Re-encrypts the stored Salesforce tokens with the active key version
+ * (SALESFORCE_TOKEN_KEY_VERSION). Run by `npm run rotate:salesforce-key`
+ * after a new key is deployed, before the old one is removed.
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ * Body: { force?: boolean } re-encrypt even when already on the active version
+ */
+export async function POST(request: Request) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: "CRON_SECRET is not configured" },
+        { status: 500 }
+      )
+    }
+
+    if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    let force = false
+    try {
+      const body = await request.json()
+      force = body.force === true
+    } catch {
+      // No body: only rotate when needed
+    }
+
+    const result = await rotateTokenKey({ force })
+    return NextResponse.json({ success: true, ...result })
+  } catch (error: any) {
+    console.error("Error rotating Salesforce token key:", error)
+    return NextResponse.json(
+      { error: error.message || "Failed to rotate Salesforce token key" },
+      { status: 500 }
+    )
+  }
+}
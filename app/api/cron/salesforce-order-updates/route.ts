@@ -0,0 +1,37 @@
+import { createAdminClient } from "@/lib/supabase/admin"
+import { NextResponse } from "next/server"
+import { processOrderUpdates } from "@/lib/salesforce/order-updates"
+
+/**
+ * GET /api/cron/salesforce-order-updates
+ *
+ * Sends queued production status updates to Salesforce orders, run by the
+ * Vercel cron in vercel.json.
+ * Vercel sends `Authorization: Bearer <CRON_SECRET>`; any other caller is
+ * rejected.
+ */
+export async function GET(request: Request) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: "CRON_SECRET is not configured" },
+        { status: 500 }
+      )
+    }
+
+    if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const supabase = createAdminClient()
+    const result = await processOrderUpdates(supabase)
+    return NextResponse.json({ success: true, ...result })
+  } catch (error: any) {
+    console.error("Error sending Salesforce order updates:", error)
+    return NextResponse.json(
+      { error: error.message || "Failed to send Salesforce order updates" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { createAdminClient } from "@/lib/supabase/admin"
+import { NextResponse } from "next/server"
+import { runCatalogSync } from "@/lib/salesforce/sync"
+
+// Large first (full) syncs page through the whole catalog
+export const maxDuration = 300
+
+/**
+ * GET /api/cron/salesforce-sync
+ *
+ * Delta catalog sync from Salesforce, run by the Vercel cron in vercel.json.
+ * Vercel sends `Authorization: Bearer <CRON_SECRET>`; any other caller is
+ * rejected.
+ */
+export async function GET(request: Request) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: "CRON_SECRET is not configured" },
+        { status: 500 }
+      )
+    }
+
+    if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const supabase = createAdminClient()
+    const result = await runCatalogSync(supabase, { trigger: "cron" })
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "A catalog sync is already running" },
+        { status: 409 }
+      )
+    }
+
+    if (result.status === "failed") {
+      return NextResponse.json({ error: result.error, run: result }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, run: result })
+  } catch (error: any) {
+    console.error("Error in scheduled Salesforce sync:", error)
+    return NextResponse.json(
+      { error: error.message || "Failed to sync from Salesforce" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+
+/**
+ * DELETE /api/import-mapping-profiles/[id]
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json({ error: "Only managers can import products" }, { status: 403 })
+    }
+
+    const { error } = await supabase
+      .from("import_mapping_profiles")
+      .delete()
+      .eq("id", params.id)
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to delete mapping profile" },
+      { status: 500 }
+    )
+  }
+}
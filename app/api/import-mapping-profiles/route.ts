@@ -0,0 +1,106 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { parseColumnMapping } from "@/lib/import-mapping"
+
+/**
+ * GET /api/import-mapping-profiles
+ * Saved column mappings for the CSV import wizard
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json({ error: "Only managers can import products" }, { status: 403 })
+    }
+
+    const { data, error } = await supabase
+      .from("import_mapping_profiles")
+      .select("*")
+      .order("name", { ascending: true })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ profiles: data || [] })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch mapping profiles" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/import-mapping-profiles
+ * Save a mapping under a name; saving an existing name replaces its mapping
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json({ error: "Only managers can import products" }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const name = typeof body.name === "string" ? body.name.trim() : ""
+    const mapping = parseColumnMapping(body.mapping)
+
+    if (!name || !mapping) {
+      return NextResponse.json({ error: "Name and mapping are required" }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from("import_mapping_profiles")
+      .upsert(
+        {
+          name,
+          mapping,
+          created_by: user.id,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "name" }
+      )
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ profile: data })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to save mapping profile" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { toCSVLine } from "@/lib/csv-parser"
+
+/**
+ * GET /api/import-runs/[id]/report
+ * Validation report of an import as CSV: every row that was skipped or
+ * failed, with its line in the uploaded file, the column at fault and why.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json({ error: "Only managers can view import history" }, { status: 403 })
+    }
+
+    const { data: run, error: runError } = await supabase
+      .from("import_runs")
+      .select("id, source, started_at")
+      .eq("id", params.id)
+      .single()
+
+    if (runError || !run) {
+      return NextResponse.json({ error: "Import run not found" }, { status: 404 })
+    }
+
+    const lines = [toCSVLine(["Line", "Column", "SKU", "External ID", "Action", "Error"])]
+    const batchSize = 1000
+    let offset = 0
+
+    while (true) {
+      const { data, error } = await supabase
+        .from("import_run_rows")
+        .select("row_number, column_name, sku, external_id, action, message")
+        .eq("run_id", params.id)
+        .in("action", ["skipped", "failed"])
+        .order("row_number", { ascending: true, nullsFirst: false })
+        .range(offset, offset + batchSize - 1)
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 })
+      }
+
+      for (const row of data || []) {
+        lines.push(toCSVLine([
+          row.row_number,
+          row.column_name,
+          row.sku,
+          row.external_id,
+          row.action,
+          row.message,
+        ]))
+      }
+      if (!data || data.length < batchSize) break
+      offset += batchSize
+    }
+
+    const date = String(run.started_at || "").slice(0, 10)
+    const fileName = `import-report-${run.source}-${date || run.id}.csv`
+    return new NextResponse(lines.join("\r\n") + "\r\n", {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to build import report" },
+      { status: 500 }
+    )
+  }
+}
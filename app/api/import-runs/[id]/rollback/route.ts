@@ -0,0 +1,118 @@
+import { createClient } from "@/lib/supabase/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { NextResponse } from "next/server"
+import { countSnapshots, rollbackImportRun } from "@/lib/import-snapshots"
+
+export const maxDuration = 300
+
+/**
+ * POST /api/import-runs/[id]/rollback
+ * Restore product_catalog, product_categories and product_category_assignments
+ * to their state before the import. Products get back only the columns the
+ * import wrote; stock levels, image checks and banner attributes set by hand
+ * are left as they are. Runs are rolled back newest first: a run
+ * cannot be rolled back while a later import or catalog sync is still applied.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json({ error: "Only managers can roll back imports" }, { status: 403 })
+    }
+
+    const { data: run, error: runError } = await supabase
+      .from("import_runs")
+      .select("id, status, started_at, rolled_back_at")
+      .eq("id", params.id)
+      .single()
+
+    if (runError || !run) {
+      return NextResponse.json({ error: "Import run not found" }, { status: 404 })
+    }
+
+    if (run.rolled_back_at) {
+      return NextResponse.json({ error: "This import has already been rolled back" }, { status: 409 })
+    }
+
+    if (run.status === "running") {
+      return NextResponse.json({ error: "This import is still running" }, { status: 409 })
+    }
+
+    const adminSupabase = createAdminClient()
+
+    // Later writes would be overwritten by the snapshot. Failed imports can
+    // still have written rows, so any later run with snapshots counts.
+    const { data: laterImports } = await supabase
+      .from("import_runs")
+      .select("id")
+      .gt("started_at", run.started_at)
+      .is("rolled_back_at", null)
+
+    for (const later of laterImports || []) {
+      if ((await countSnapshots(adminSupabase, later.id)) > 0) {
+        return NextResponse.json(
+          { error: "A later import is still applied. Roll back newer imports first." },
+          { status: 409 }
+        )
+      }
+    }
+
+    const { data: laterSyncs } = await supabase
+      .from("sync_runs")
+      .select("id")
+      .gt("started_at", run.started_at)
+      .eq("status", "succeeded")
+      .or("products_upserted.gt.0,products_deactivated.gt.0,categories_upserted.gt.0,mappings_upserted.gt.0")
+      .limit(1)
+
+    if (laterSyncs && laterSyncs.length > 0) {
+      return NextResponse.json(
+        { error: "The catalog has been synced from Salesforce since this import and can no longer be rolled back." },
+        { status: 409 }
+      )
+    }
+
+    if ((await countSnapshots(adminSupabase, params.id)) === 0) {
+      return NextResponse.json(
+        { error: "This import has no snapshot to roll back" },
+        { status: 400 }
+      )
+    }
+
+    const result = await rollbackImportRun(adminSupabase, params.id)
+
+    const { error: updateError } = await adminSupabase
+      .from("import_runs")
+      .update({ rolled_back_at: new Date().toISOString(), rolled_back_by: user.id })
+      .eq("id", params.id)
+
+    if (updateError) {
+      console.error("Failed to mark import run as rolled back", params.id, updateError)
+    }
+
+    return NextResponse.json({ success: true, result })
+  } catch (error: any) {
+    console.error("Error rolling back import:", error)
+    return NextResponse.json(
+      { error: error.message || "Failed to roll back import" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+
+/**
+ * GET /api/import-runs/[id]
+ * A single import run with its per-row results. Optional ?action= filter.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json({ error: "Only managers can view import history" }, { status: 403 })
+    }
+
+    const { data: run, error: runError } = await supabase
+      .from("import_runs")
+      .select(
+        "*, users!import_runs_user_id_fkey(name, email), rolled_back_by_user:users!import_runs_rolled_back_by_fkey(name, email)"
+      )
+      .eq("id", params.id)
+      .single()
+
+    if (runError || !run) {
+      return NextResponse.json({ error: "Import run not found" }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const action = searchParams.get("action") || ""
+
+    // Page through rows; large imports exceed the default 1000 row limit
+    const rows: any[] = []
+    const batchSize = 1000
+    let offset = 0
+
+    while (true) {
+      let query = supabase
+        .from("import_run_rows")
+        .select("id, row_number, sku, external_id, action, column_name, message")
+        .eq("run_id", params.id)
+        .order("row_number", { ascending: true, nullsFirst: false })
+        .range(offset, offset + batchSize - 1)
+
+      if (action) {
+        query = query.eq("action", action)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 })
+      }
+
+      rows.push(...(data || []))
+      if (!data || data.length < batchSize) break
+      offset += batchSize
+    }
+
+    return NextResponse.json({ run, rows })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch import run" },
+      { status: 500 }
+    )
+  }
+}
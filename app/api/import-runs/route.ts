@@ -0,0 +1,68 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+
+/**
+ * GET /api/import-runs
+ * Catalog import history, newest first. Optional ?source= filter.
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json({ error: "Only managers can view import history" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const source = searchParams.get("source") || ""
+    const page = parseInt(searchParams.get("page") || "1", 10)
+    const limit = parseInt(searchParams.get("limit") || "25", 10)
+    const from = (page - 1) * limit
+    const to = from + limit - 1
+
+    let query = supabase
+      .from("import_runs")
+      .select(
+        "*, users!import_runs_user_id_fkey(name, email), rolled_back_by_user:users!import_runs_rolled_back_by_fkey(name, email)",
+        { count: "exact" }
+      )
+      .order("started_at", { ascending: false })
+      .range(from, to)
+
+    if (source) {
+      query = query.eq("source", source)
+    }
+
+    const { data, error, count } = await query
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      runs: data || [],
+      total: count || 0,
+      page,
+      limit,
+      hasMore: from + (data?.length || 0) < (count || 0),
+    })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch import history" },
+      { status: 500 }
+    )
+  }
+}
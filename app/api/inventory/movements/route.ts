@@ -0,0 +1,157 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+
+/**
+ * GET /api/inventory/movements?sku=xxx
+ * Stock changes for a SKU, newest first
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const sku = searchParams.get("sku")
+    const limit = parseInt(searchParams.get("limit") || "50", 10)
+
+    if (!sku) {
+      return NextResponse.json({ error: "sku is required" }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from("inventory_movements")
+      .select("*, users(name, email), production_sheets(job_number)")
+      .eq("sku", sku)
+      .order("created_at", { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ movements: data || [] })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch inventory movements" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/inventory/movements
+ *
+ * Shipment: { sku, reason: "shipment", quantity, sheet_id?, notes? }
+ *   takes quantity out of stock
+ * Stock count: { sku, reason: "adjustment", counted_qty, notes? }
+ *   records the difference between the count and the current on-hand
+ *
+ * Production is booked from the work log (migration 022), not here.
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json(
+        { error: "Only managers can record shipments and stock counts" },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { sku, reason, quantity, counted_qty, sheet_id, notes } = body
+
+    if (!sku || typeof sku !== "string") {
+      return NextResponse.json({ error: "sku is required" }, { status: 400 })
+    }
+
+    const { data: current, error: currentError } = await supabase
+      .from("inventory")
+      .select("on_hand")
+      .eq("sku", sku)
+      .maybeSingle()
+
+    if (currentError) {
+      return NextResponse.json({ error: currentError.message }, { status: 500 })
+    }
+
+    const onHand = current?.on_hand || 0
+    let delta: number
+
+    if (reason === "shipment") {
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        return NextResponse.json(
+          { error: "quantity must be a positive whole number" },
+          { status: 400 }
+        )
+      }
+      if (quantity > onHand) {
+        return NextResponse.json(
+          { error: `Only ${onHand} of ${sku} on hand` },
+          { status: 400 }
+        )
+      }
+      delta = -quantity
+    } else if (reason === "adjustment") {
+      if (!Number.isInteger(counted_qty) || counted_qty < 0) {
+        return NextResponse.json(
+          { error: "counted_qty must be a whole number of zero or more" },
+          { status: 400 }
+        )
+      }
+      delta = counted_qty - onHand
+      if (delta === 0) {
+        return NextResponse.json({ movement: null, onHand })
+      }
+    } else {
+      return NextResponse.json(
+        { error: "reason must be shipment or adjustment" },
+        { status: 400 }
+      )
+    }
+
+    const { data: movement, error } = await supabase
+      .from("inventory_movements")
+      .insert({
+        sku,
+        quantity: delta,
+        reason,
+        sheet_id: sheet_id || null,
+        notes: typeof notes === "string" && notes.trim() ? notes.trim() : null,
+        user_id: user.id,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ movement, onHand: onHand + delta })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to record inventory movement" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { loadStockLevels } from "@/lib/inventory"
+
+const PRODUCT_COLUMNS = "id, sku, name, is_active, stock_min, stock_max"
+
+/**
+ * GET /api/inventory
+ * Stock levels per product: on hand, on open sheets, min/max and the
+ * suggested stock qty. reorder=true lists only products at or below their min.
+ * Query: search, page, limit, reorder
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const search = searchParams.get("search") || ""
+    const page = parseInt(searchParams.get("page") || "1", 10)
+    const limit = parseInt(searchParams.get("limit") || "50", 10)
+    const reorderOnly = searchParams.get("reorder") === "true"
+    const from = (page - 1) * limit
+
+    if (reorderOnly) {
+      // Whether a product needs stock depends on live quantities, so every
+      // product with a min is checked and the result paged here
+      const products: any[] = []
+      let offset = 0
+
+      while (true) {
+        let query = supabase
+          .from("product_catalog")
+          .select(PRODUCT_COLUMNS)
+          .eq("is_active", true)
+          .not("stock_min", "is", null)
+          .order("sku", { ascending: true })
+          .range(offset, offset + 999)
+
+        if (search) {
+          query = query.or(`sku.ilike.%${search}%,name.ilike.%${search}%`)
+        }
+
+        const { data, error } = await query
+        if (error) {
+          return NextResponse.json({ error: error.message }, { status: 500 })
+        }
+
+        products.push(...(data || []))
+        if (!data || data.length < 1000) break
+        offset += 1000
+      }
+
+      const levels = await loadStockLevels(supabase, products.map((p) => p.sku), products)
+      const needed = products
+        .map((product) => ({ ...product, ...levels.get(product.sku) }))
+        .filter((product) => product.suggestedQty > 0)
+
+      return NextResponse.json({
+        items: needed.slice(from, from + limit),
+        total: needed.length,
+        page,
+        limit,
+        hasMore: from + limit < needed.length,
+      })
+    }
+
+    let query = supabase
+      .from("product_catalog")
+      .select(PRODUCT_COLUMNS, { count: "exact" })
+      .order("sku", { ascending: true })
+      .range(from, from + limit - 1)
+
+    if (search) {
+      query = query.or(`sku.ilike.%${search}%,name.ilike.%${search}%`)
+    }
+
+    const { data, error, count } = await query
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const products = data || []
+    const levels = await loadStockLevels(supabase, products.map((p: any) => p.sku), products)
+
+    return NextResponse.json({
+      items: products.map((product: any) => ({ ...product, ...levels.get(product.sku) })),
+      total: count || 0,
+      page,
+      limit,
+      hasMore: products.length === limit && from + products.length < (count || 0),
+    })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch inventory" },
+      { status: 500 }
+    )
+  }
+}
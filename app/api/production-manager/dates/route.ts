@@ -19,6 +19,20 @@ export async function PUT(request: Request) {
       return NextResponse.json({ error: "Sheet ID is required" }, { status: 400 })
     }
 
+    // Held jobs are frozen on the schedule until they are resumed
+    const { data: existing } = await supabase
+      .from("production_sheets")
+      .select("status")
+      .eq("id", sheetId)
+      .single()
+
+    if (existing?.status === "on_hold" || existing?.status === "cancelled") {
+      return NextResponse.json(
+        { error: "This job is on hold or cancelled and cannot be rescheduled" },
+        { status: 409 }
+      )
+    }
+
     const updates: any = {
       updated_at: new Date().toISOString(),
     }
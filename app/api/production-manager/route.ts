@@ -12,11 +12,12 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    // Fetch all In Production + Completed sheets with template and user info
+    // Fetch all In Production, On Hold + Completed sheets with template and
+    // user info. Drafts and cancelled jobs are not part of the schedule.
     const { data: sheets, error: sheetsError } = await supabase
       .from("production_sheets")
       .select("*, sheet_templates(name), users(name, email)")
-      .in("status", ["in_production", "production_started", "completed"])
+      .in("status", ["in_production", "production_started", "on_hold", "completed"])
       .order("sort_order", { ascending: true })
 
     if (sheetsError) {
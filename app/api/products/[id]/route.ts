@@ -1,5 +1,9 @@
 import { createClient } from "@/lib/supabase/server"
 import { NextResponse } from "next/server"
+import { orientationFromSize } from "@/lib/banner-attributes"
+
+const ATTRIBUTE_FIELDS = ["width_in", "height_in", "orientation", "color", "material"]
+const ORIENTATIONS = ["horizontal", "vertical", "square"]
 
 export async function GET(
   request: Request,
@@ -87,6 +91,54 @@ export async function PUT(
       }
     }
 
+    // Attributes set by hand are marked manual so imports no longer overwrite them
+    if (ATTRIBUTE_FIELDS.some(field => body[field] !== undefined)) {
+      for (const field of ["width_in", "height_in"]) {
+        if (body[field] === undefined) continue
+        const value = body[field] === null || body[field] === "" ? null : Number(body[field])
+        if (value !== null && (!Number.isFinite(value) || value <= 0)) {
+          return NextResponse.json({ error: `${field} must be a positive number of inches` }, { status: 400 })
+        }
+        updateData[field] = value
+      }
+
+      if (body.orientation !== undefined) {
+        if (body.orientation !== null && body.orientation !== "" && !ORIENTATIONS.includes(body.orientation)) {
+          return NextResponse.json({ error: "orientation must be horizontal, vertical or square" }, { status: 400 })
+        }
+        updateData.orientation = body.orientation || null
+      }
+      if (!updateData.orientation && updateData.width_in && updateData.height_in) {
+        updateData.orientation = orientationFromSize(updateData.width_in, updateData.height_in)
+      }
+
+      for (const field of ["color", "material"]) {
+        if (body[field] !== undefined) {
+          updateData[field] = typeof body[field] === "string" && body[field].trim() ? body[field].trim() : null
+        }
+      }
+
+      updateData.attributes_status = "manual"
+      updateData.attributes_issue = null
+    }
+
+    // Min/max reorder points for finished-goods stock
+    for (const field of ["stock_min", "stock_max"]) {
+      if (body[field] === undefined) continue
+      const value = body[field] === null || body[field] === "" ? null : Number(body[field])
+      if (value !== null && (!Number.isInteger(value) || value < 0)) {
+        return NextResponse.json({ error: `${field} must be a whole number of zero or more` }, { status: 400 })
+      }
+      updateData[field] = value
+    }
+    if (
+      updateData.stock_min != null &&
+      updateData.stock_max != null &&
+      updateData.stock_max < updateData.stock_min
+    ) {
+      return NextResponse.json({ error: "stock_max cannot be below stock_min" }, { status: 400 })
+    }
+
     const { data, error } = await supabase
       .from("product_catalog")
       .update(updateData)
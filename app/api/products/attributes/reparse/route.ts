@@ -0,0 +1,106 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { bannerAttributeColumns } from "@/lib/banner-attributes"
+
+export const maxDuration = 300
+
+const BATCH_SIZE = 500
+
+/**
+ * POST /api/products/attributes/reparse
+ * Parse size, orientation, color and material from product names again.
+ * Without a body every product except manually reviewed ones is parsed
+ * (e.g. rows imported before parsing existed). With { ids } only those
+ * products are parsed, including manual ones, which resets them.
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json({ error: "Only managers can parse product attributes" }, { status: 403 })
+    }
+
+    let ids: string[] | null = null
+    try {
+      const body = await request.json()
+      if (Array.isArray(body.ids)) ids = body.ids.filter(Boolean)
+    } catch {
+      // No body: parse the whole catalog
+    }
+
+    const products: { id: string; sku: string; name: string | null }[] = []
+
+    if (ids) {
+      for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        const { data, error } = await supabase
+          .from("product_catalog")
+          .select("id, sku, name")
+          .in("id", ids.slice(i, i + BATCH_SIZE))
+
+        if (error) {
+          return NextResponse.json({ error: error.message }, { status: 500 })
+        }
+        products.push(...(data || []))
+      }
+    } else {
+      let offset = 0
+      while (true) {
+        const { data, error } = await supabase
+          .from("product_catalog")
+          .select("id, sku, name")
+          .neq("attributes_status", "manual")
+          .order("sku", { ascending: true })
+          .range(offset, offset + 999)
+
+        if (error) {
+          return NextResponse.json({ error: error.message }, { status: 500 })
+        }
+        products.push(...(data || []))
+        if (!data || data.length < 1000) break
+        offset += 1000
+      }
+    }
+
+    let parsed = 0
+    let needsReview = 0
+
+    for (let i = 0; i < products.length; i += BATCH_SIZE) {
+      const rows = products.slice(i, i + BATCH_SIZE).map(product => {
+        const columns = bannerAttributeColumns(product.name)
+        if (columns.attributes_status === "parsed") parsed++
+        else needsReview++
+        return { id: product.id, sku: product.sku, ...columns }
+      })
+
+      // Every row already exists, so the upsert only updates the attribute columns
+      const { error } = await supabase
+        .from("product_catalog")
+        .upsert(rows, { onConflict: "id", ignoreDuplicates: false })
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 })
+      }
+    }
+
+    return NextResponse.json({ success: true, total: products.length, parsed, needsReview })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to parse product attributes" },
+      { status: 500 }
+    )
+  }
+}
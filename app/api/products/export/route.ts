@@ -0,0 +1,78 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { buildWorkbook, XLSX_CONTENT_TYPE } from "@/lib/xlsx"
+import { catalogExportSheets } from "@/lib/workbook-exports"
+
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000
+
+async function fetchAll(supabase: any, table: string, columns: string, orderBy: string) {
+  const rows: any[] = []
+  let offset = 0
+
+  while (true) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .order(orderBy, { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) throw new Error(error.message)
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+    offset += PAGE_SIZE
+  }
+
+  return rows
+}
+
+/**
+ * GET /api/products/export
+ * The whole product catalog with its categories as an .xlsx workbook
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json({ error: "Only managers can export the catalog" }, { status: 403 })
+    }
+
+    const [products, categories, assignments] = await Promise.all([
+      fetchAll(supabase, "product_catalog", "*", "sku"),
+      fetchAll(supabase, "product_categories", "id, name, salesforce_id, parent_category_id, is_custom", "name"),
+      fetchAll(supabase, "product_category_assignments", "id, product_id, category_id, is_primary", "id"),
+    ])
+
+    const workbook = await buildWorkbook(catalogExportSheets(products, categories, assignments))
+    const date = new Date().toISOString().slice(0, 10)
+
+    return new NextResponse(Buffer.from(workbook), {
+      status: 200,
+      headers: {
+        "Content-Type": XLSX_CONTENT_TYPE,
+        "Content-Disposition": `attachment; filename="product-catalog-${date}.xlsx"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to export the catalog" },
+      { status: 500 }
+    )
+  }
+}
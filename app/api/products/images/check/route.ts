@@ -0,0 +1,44 @@
+import { createClient } from "@/lib/supabase/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { NextResponse } from "next/server"
+import { runImageChecks } from "@/lib/product-images"
+
+export const maxDuration = 300
+
+/**
+ * POST /api/products/images/check
+ * Check the next batch of product images now instead of waiting for the
+ * scheduled job. Thumbnails are written with the service role, as the job
+ * writes them.
+ */
+export async function POST() {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json({ error: "Only managers can check product images" }, { status: 403 })
+    }
+
+    const result = await runImageChecks(createAdminClient())
+    return NextResponse.json({ success: true, ...result })
+  } catch (error: any) {
+    console.error("Error checking product images:", error)
+    return NextResponse.json(
+      { error: error.message || "Failed to check product images" },
+      { status: 500 }
+    )
+  }
+}
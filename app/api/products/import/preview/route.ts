@@ -0,0 +1,71 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { openCSV, type CSVReader, type ParsedCSVRow } from "@/lib/csv-parser"
+import { isXLSXFile, openXLSX, type XLSXReader } from "@/lib/xlsx"
+
+// Rows returned for the mapping step
+const PREVIEW_ROWS = 5
+
+/**
+ * POST /api/products/import/preview
+ * Headers and the first rows of a products file, for the import wizard.
+ * Workbooks also return their worksheets and the detected header row;
+ * pass `sheet` and `headerRow` to preview a different one.
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get("file") as File
+    const sheet = formData.get("sheet")
+    const headerRow = formData.get("headerRow")
+
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 })
+    }
+
+    let reader: CSVReader | XLSXReader
+    try {
+      reader = isXLSXFile(file)
+        ? await openXLSX(file, {
+            sheet: typeof sheet === "string" && sheet ? sheet : null,
+            headerRow: Number(headerRow) || null,
+          })
+        : await openCSV(file)
+    } catch (readError: any) {
+      return NextResponse.json(
+        { error: `Could not read the file: ${readError.message}` },
+        { status: 400 }
+      )
+    }
+
+    const rows: ParsedCSVRow[] = []
+    for await (const record of reader.rows) {
+      rows.push(record.row)
+      if (rows.length >= PREVIEW_ROWS) break
+    }
+
+    return NextResponse.json({
+      headers: reader.headers,
+      rows,
+      delimiter: reader.delimiter,
+      encoding: reader.encoding,
+      sheets: "sheets" in reader ? reader.sheets : null,
+      sheet: "sheet" in reader ? reader.sheet : null,
+      headerRow: "headerRow" in reader ? reader.headerRow : 1,
+    })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to preview file" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,17 +1,22 @@
 import { createClient } from "@/lib/supabase/server"
 import { NextResponse } from "next/server"
 import {
-  parseProductsCSV,
-  parseProductMediaCSV,
-  parseManagedContentCSV,
+  openCSV,
+  findProductColumns,
+  readProductMediaCSV,
+  readManagedContentCSV,
+  type CSVReader,
 } from "@/lib/csv-parser"
 import { buildImageMappings } from "@/lib/image-url-builder"
-
-function getCategoryFromProductCode(productCode: string): string {
-  if (!productCode) return 'Other'
-  const parts = productCode.split(':')
-  return parts[0] || 'Other'
-}
+import { isXLSXFile, openXLSX, type XLSXReader } from "@/lib/xlsx"
+import {
+  parseColumnMapping,
+  validateMapping,
+  mappedProductColumns,
+  type ColumnMapping,
+} from "@/lib/import-mapping"
+import { startImportRun, finishImportRun, validationSummary } from "@/lib/import-runs"
+import { applyCatalogImport, productFileSource } from "@/lib/catalog-import"
 
 export async function POST(request: Request) {
   try {
@@ -28,98 +33,159 @@ export async function POST(request: Request) {
     const productsFile = formData.get("productsFile") as File
     const productMediaFile = formData.get("productMediaFile") as File
     const managedContentFile = formData.get("managedContentFile") as File
+    const mappingField = formData.get("mapping")
+    // Worksheet and header row of an .xlsx products file; detected when not given
+    const sheetField = formData.get("sheet")
+    const headerRowField = formData.get("headerRow")
+
+    // Column mapping chosen in the import wizard; without one, columns are found by name
+    let mapping: ColumnMapping | null = null
+    if (typeof mappingField === "string" && mappingField) {
+      try {
+        mapping = parseColumnMapping(JSON.parse(mappingField))
+      } catch {
+        mapping = null
+      }
+      if (!mapping) {
+        return NextResponse.json({ error: "Invalid column mapping" }, { status: 400 })
+      }
+    }
 
-    // Validate all files are provided
-    if (!productsFile || !productMediaFile || !managedContentFile) {
+    // Validate all files are provided; with a mapping the media files are optional
+    if (!productsFile) {
+      return NextResponse.json({ error: "Products CSV file is required" }, { status: 400 })
+    }
+    if (!mapping && (!productMediaFile || !managedContentFile)) {
       return NextResponse.json(
         { error: "All three CSV files are required: products, productMedia, and managedContent" },
         { status: 400 }
       )
     }
-
-    // Read and parse all three files
-    const [productsText, productMediaText, managedContentText] = await Promise.all([
-      productsFile.text(),
-      productMediaFile.text(),
-      managedContentFile.text(),
-    ])
-
-    // Parse CSVs
-    const products = parseProductsCSV(productsText)
-    const productMedia = parseProductMediaCSV(productMediaText)
-    const managedContent = parseManagedContentCSV(managedContentText)
-
-    if (products.length === 0) {
+    if (!productMediaFile !== !managedContentFile) {
       return NextResponse.json(
-        { error: "No valid products found in products CSV" },
+        { error: "The productMedia and managedContent files must be uploaded together" },
         { status: 400 }
       )
     }
 
-    // Build image URL mappings
+    // Image URL mappings come from the two media files, read in full first
+    const [productMedia, managedContent] = productMediaFile
+      ? await Promise.all([
+          readProductMediaCSV(productMediaFile),
+          readManagedContentCSV(managedContentFile),
+        ])
+      : [[], []]
     const imageMappings = buildImageMappings(productMedia, managedContent)
+    // Without an image source, imported products keep the image they have
+    const hasImageSource = !!productMediaFile || !!mapping?.image_url
+
+    // Products are read as a stream (or worksheet) and written in chunks
+    let products: CSVReader | XLSXReader
+    if (isXLSXFile(productsFile)) {
+      try {
+        products = await openXLSX(productsFile, {
+          sheet: typeof sheetField === "string" && sheetField ? sheetField : null,
+          headerRow: Number(headerRowField) || null,
+        })
+      } catch (workbookError: any) {
+        return NextResponse.json(
+          { error: `Could not read the workbook: ${workbookError.message}` },
+          { status: 400 }
+        )
+      }
+    } else {
+      products = await openCSV(productsFile)
+    }
 
-    // Fetch existing products to preserve product_code and category if new data is missing
-    const existingSkus = products.map(p => p.sku)
-    const { data: existingProducts } = await supabase
-      .from("product_catalog")
-      .select("sku, product_code, category")
-      .in("sku", existingSkus)
+    if (mapping) {
+      const mappingErrors = validateMapping(mapping, products.headers)
+      if (mappingErrors.length > 0) {
+        return NextResponse.json({ error: mappingErrors.join(". ") }, { status: 400 })
+      }
+    }
 
-    const existingMap = new Map(
-      (existingProducts || []).map(p => [p.sku, { product_code: p.product_code, category: p.category }])
-    )
+    const columns = mapping ? mappedProductColumns(mapping) : findProductColumns(products.headers)
 
-    // Prepare product data with image URLs, preserving existing product_code/category if new is empty
-    const productData = products.map(product => {
-      const imageMapping = imageMappings.get(product.id)
-      const imageUrl = imageMapping?.imageUrl || null
-      const existing = existingMap.get(product.sku)
-
-      // Preserve existing product_code if new one is empty
-      const productCode = product.productCode || existing?.product_code || null
-      // Preserve existing category if product_code is empty, otherwise derive from product_code
-      const category = productCode 
-        ? getCategoryFromProductCode(productCode)
-        : (existing?.category || 'Other')
-
-      return {
-        product_id: product.id,
-        sku: product.sku,
-        name: product.name,
-        product_code: productCode,
-        category: category,
-        image_url: imageUrl,
-        imported_by: user.id,
-      }
+    if (!columns.skuKey) {
+      return NextResponse.json(
+        { error: "Products CSV needs an ID, Name, SKU and ProductCode column" },
+        { status: 400 }
+      )
+    }
+
+    const files = [productsFile, productMediaFile, managedContentFile]
+      .filter(Boolean)
+      .map(file => file.name)
+    const runMetadata: Record<string, any> = { files }
+    if (mapping) runMetadata.mapping = mapping
+    if ("headerRow" in products) runMetadata.worksheet = { sheet: products.sheet, headerRow: products.headerRow }
+    const runId = await startImportRun(supabase, {
+      source: "csv",
+      userId: user.id,
+      metadata: runMetadata,
     })
 
-    // Upsert products into database
-    const { error } = await supabase
-      .from("product_catalog")
-      .upsert(productData, {
-        onConflict: "sku",
-        ignoreDuplicates: false,
+    // Invalid rows and earlier duplicates of a SKU (the last row wins) are skipped
+    const result = await applyCatalogImport(
+      supabase,
+      productFileSource(products, {
+        columns,
+        requireId: !mapping,
+        imageMappings,
+        hasImageSource,
+      }),
+      { runId, userId: user.id }
+    )
+
+    if (result.error) {
+      await finishImportRun(supabase, runId, {
+        status: "failed",
+        rows: result.rows,
+        error: result.error,
       })
+      return NextResponse.json({ error: result.error, runId }, { status: 500 })
+    }
 
-    if (error) {
-      console.error("Error importing products:", error)
-      return NextResponse.json({ error: error.message }, { status: 500 })
+    const validation = validationSummary(runId, result.rows)
+
+    if (result.imported === 0) {
+      const message = "No valid products found in products CSV"
+      await finishImportRun(supabase, runId, {
+        status: "failed",
+        rows: result.rows,
+        error: message,
+      })
+      return NextResponse.json({ error: message, runId, validation }, { status: 400 })
     }
 
     // Calculate statistics
-    const productsWithImages = productData.filter(p => p.image_url !== null).length
-    const productsWithoutImages = productData.length - productsWithImages
+    const statistics = {
+      totalProducts: result.total,
+      productsImported: result.imported,
+      productsWithImages: result.withImages,
+      productsWithoutImages: result.imported - result.withImages,
+      imageMappingsFound: imageMappings.size,
+    }
+
+    const counts = await finishImportRun(supabase, runId, {
+      status: "succeeded",
+      rows: result.rows,
+      metadata: {
+        ...runMetadata,
+        statistics,
+      },
+    })
 
     return NextResponse.json({
       success: true,
+      runId,
       statistics: {
-        totalProducts: products.length,
-        productsImported: productData.length,
-        productsWithImages,
-        productsWithoutImages,
-        imageMappingsFound: imageMappings.size,
+        ...statistics,
+        created: counts.created,
+        updated: counts.updated,
+        skipped: counts.skipped,
       },
+      validation,
     })
   } catch (error: any) {
     console.error("Error in product import:", error)
@@ -129,4 +195,3 @@ export async function POST(request: Request) {
     )
   }
 }
-
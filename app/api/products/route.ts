@@ -10,6 +10,8 @@ export async function GET(request: Request) {
     const page = parseInt(searchParams.get("page") || "1", 10)
     const limit = parseInt(searchParams.get("limit") || "50", 10)
     const includeCategoryDetails = searchParams.get("includeCategoryDetails") === "true"
+    const attributesStatus = searchParams.get("attributesStatus") || ""
+    const imageStatus = searchParams.get("imageStatus") || ""
 
     // Build paginated query
     const from = (page - 1) * limit
@@ -36,6 +38,16 @@ export async function GET(request: Request) {
       query = query.eq("primary_category_id", categoryId)
     }
 
+    // Filter by attribute parse state (the review queue uses needs_review)
+    if (attributesStatus) {
+      query = query.eq("attributes_status", attributesStatus)
+    }
+
+    // Filter by the result of the last image check (lib/product-images.ts)
+    if (imageStatus) {
+      query = query.eq("image_status", imageStatus)
+    }
+
     const { data, error, count } = await query
 
     if (error) {
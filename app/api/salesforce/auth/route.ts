@@ -1,11 +1,11 @@
 import { createClient } from "@/lib/supabase/server"
 import { NextResponse } from "next/server"
-import { getStoredToken } from "@/lib/salesforce/client"
+import { disconnect, getConnectionStatus } from "@/lib/salesforce/connection"
 import crypto from "crypto"
 
 /**
  * GET /api/salesforce/auth
- * Initiate OAuth flow or check token status
+ * Initiate the OAuth flow that connects (or reconnects) the organization
  */
 export async function GET(request: Request) {
   try {
@@ -32,19 +32,6 @@ export async function GET(request: Request) {
       )
     }
 
-    // Check if user has existing valid token
-    const stored = await getStoredToken(user.id)
-    const hasValidToken = stored && stored.expires_at && new Date(stored.expires_at) > new Date()
-
-    // If has valid token, return status
-    if (hasValidToken) {
-      return NextResponse.json({
-        connected: true,
-        instance_url: stored.instance_url,
-      })
-    }
-
-    // Otherwise, initiate OAuth flow
     const clientId = process.env.SALESFORCE_CLIENT_ID
     const redirectUri = process.env.SALESFORCE_REDIRECT_URI || process.env.NEXT_PUBLIC_SITE_URL + "/api/salesforce/callback"
     const instanceUrl = process.env.SALESFORCE_INSTANCE_URL
@@ -100,7 +87,7 @@ export async function GET(request: Request) {
 
 /**
  * POST /api/salesforce/auth
- * Check token status for current user
+ * Check whether the organization is connected to Salesforce
  */
 export async function POST(request: Request) {
   try {
@@ -113,19 +100,13 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const stored = await getStoredToken(user.id)
-    
-    if (!stored) {
-      return NextResponse.json({ connected: false })
-    }
-
-    const expiresAt = stored.expires_at ? new Date(stored.expires_at) : null
-    const isExpired = expiresAt ? expiresAt <= new Date() : false
+    const status = await getConnectionStatus()
 
     return NextResponse.json({
-      connected: !isExpired,
-      instance_url: stored.instance_url,
-      expires_at: stored.expires_at,
+      connected: status.connected,
+      health: status.health,
+      instance_url: status.instanceUrl,
+      expires_at: status.expiresAt,
     })
   } catch (error: any) {
     return NextResponse.json(
@@ -137,7 +118,7 @@ export async function POST(request: Request) {
 
 /**
  * DELETE /api/salesforce/auth
- * Revoke token and delete from database
+ * Revoke the organization's tokens and remove the connection
  */
 export async function DELETE(request: Request) {
   try {
@@ -150,37 +131,23 @@ export async function DELETE(request: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    // Get stored token to revoke it
-    const stored = await getStoredToken(user.id)
-    
-    if (stored && stored.refresh_token) {
-      // Revoke token in Salesforce
-      const revokeUrl = `${stored.instance_url}/services/oauth2/revoke`
-      try {
-        await fetch(revokeUrl, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/x-www-form-urlencoded",
-          },
-          body: `token=${encodeURIComponent(stored.refresh_token)}`,
-        })
-      } catch (error) {
-        // Continue even if revocation fails
-        console.error("Failed to revoke token in Salesforce:", error)
-      }
-    }
-
-    // Delete token from database
-    const { error } = await supabase
-      .from("salesforce_tokens")
-      .delete()
-      .eq("user_id", user.id)
+    // Check if user is manager
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
 
-    if (error) {
-      return NextResponse.json({ error: error.message }, { status: 500 })
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json(
+        { error: "Only managers can disconnect Salesforce" },
+        { status: 403 }
+      )
     }
 
-    return NextResponse.json({ success: true })
+    const { revoked } = await disconnect()
+
+    return NextResponse.json({ success: true, revoked })
   } catch (error: any) {
     return NextResponse.json(
       { error: error.message || "Failed to revoke token" },
@@ -188,4 +155,3 @@ export async function DELETE(request: Request) {
     )
   }
 }
-
@@ -19,6 +19,17 @@ export async function GET(request: Request) {
       return NextResponse.redirect(new URL("/login", request.url))
     }
 
+    // The connection is shared by the whole organization; only managers set it
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.redirect(new URL("/settings?error=not_manager", request.url))
+    }
+
     const { searchParams } = new URL(request.url)
     const code = searchParams.get("code")
     const state = searchParams.get("state")
@@ -28,13 +39,13 @@ export async function GET(request: Request) {
     if (error) {
       console.error("OAuth error:", error, errorDescription)
       return NextResponse.redirect(
-        new URL(`/banners?error=salesforce_auth_failed&details=${encodeURIComponent(errorDescription || error)}`, request.url)
+        new URL(`/settings?error=salesforce_auth_failed&details=${encodeURIComponent(errorDescription || error)}`, request.url)
       )
     }
 
     if (!code) {
       return NextResponse.redirect(
-        new URL("/banners?error=no_code", request.url)
+        new URL("/settings?error=no_code", request.url)
       )
     }
 
@@ -47,7 +58,7 @@ export async function GET(request: Request) {
 
     if (!clientId || !redirectUri || !instanceUrl) {
       return NextResponse.redirect(
-        new URL("/banners?error=config_missing", request.url)
+        new URL("/settings?error=config_missing", request.url)
       )
     }
 
@@ -79,7 +90,7 @@ export async function GET(request: Request) {
     if (!codeVerifier) {
       // If no code_verifier, this is an error - PKCE is required
       return NextResponse.redirect(
-        new URL("/banners?error=missing_code_verifier", request.url)
+        new URL("/settings?error=missing_code_verifier", request.url)
       )
     }
     params.append('code_verifier', codeVerifier)
@@ -129,9 +140,9 @@ export async function GET(request: Request) {
             issued_at: new Date().toISOString(),
             expires_in: retryData.expires_in,
           }
-          await storeToken(user.id, token)
+          await storeToken(token, { connectedBy: user.id })
           return NextResponse.redirect(
-            new URL("/banners?success=salesforce_connected", request.url)
+            new URL("/settings?success=salesforce_connected", request.url)
           )
         } else {
           const retryErrorText = await retryResponse.text()
@@ -146,7 +157,7 @@ export async function GET(request: Request) {
       
       console.error("Token exchange failed:", errorText)
       return NextResponse.redirect(
-        new URL("/banners?error=token_exchange_failed", request.url)
+        new URL("/settings?error=token_exchange_failed", request.url)
       )
     }
 
@@ -161,17 +172,17 @@ export async function GET(request: Request) {
       expires_in: data.expires_in,
     }
 
-    // Store token in database
-    await storeToken(user.id, token)
+    // Store token in database (encrypted) as the organization's connection
+    await storeToken(token, { connectedBy: user.id })
 
-    // Redirect to banners page with success message
+    // Redirect to the settings page with success message
     return NextResponse.redirect(
-      new URL("/banners?success=salesforce_connected", request.url)
+      new URL("/settings?success=salesforce_connected", request.url)
     )
   } catch (error: any) {
     console.error("Callback error:", error)
     return NextResponse.redirect(
-      new URL("/banners?error=callback_failed", request.url)
+      new URL("/settings?error=callback_failed", request.url)
     )
   }
 }
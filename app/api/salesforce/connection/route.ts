@@ -0,0 +1,89 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { checkConnection, getConnectionStatus } from "@/lib/salesforce/connection"
+
+/**
+ * GET /api/salesforce/connection
+ * The organization's Salesforce connection: who connected it and when,
+ * last token refresh, last successful check and health
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Check that the requesting user is a manager
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json(
+        { error: "Only managers can view the Salesforce connection" },
+        { status: 403 }
+      )
+    }
+
+    const connection = await getConnectionStatus()
+    return NextResponse.json({ connection })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to load Salesforce connection" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/salesforce/connection
+ * Check the connection with a live call to Salesforce
+ */
+export async function POST() {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Check that the requesting user is a manager
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json(
+        { error: "Only managers can check the Salesforce connection" },
+        { status: 403 }
+      )
+    }
+
+    const status = await getConnectionStatus()
+    if (status.health === "disconnected") {
+      return NextResponse.json({ error: "Salesforce is not connected" }, { status: 400 })
+    }
+
+    const check = await checkConnection()
+    const connection = await getConnectionStatus()
+
+    return NextResponse.json({ check, connection })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to check Salesforce connection" },
+      { status: 500 }
+    )
+  }
+}
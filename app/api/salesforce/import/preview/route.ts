@@ -1,6 +1,7 @@
 import { createClient } from "@/lib/supabase/server"
 import { NextResponse } from "next/server"
-import { getAccessToken, queryAll, buildImageUrl, getApiLimits } from "@/lib/salesforce/client"
+import { openSession, queryAll, getApiLimits, type SalesforceSession } from "@/lib/salesforce/client"
+import { salesforceErrorStatus } from "@/lib/salesforce/errors"
 import type {
   SalesforceProduct,
   SalesforceProductMedia,
@@ -8,16 +9,22 @@ import type {
   SalesforceProductCategory,
   SalesforceProductCategoryProduct,
 } from "@/lib/salesforce/types"
-
-function getCategoryFromProductCode(productCode: string | null | undefined): string {
-  if (!productCode) return 'Other'
-  const parts = productCode.split(':')
-  return parts[0] || 'Other'
-}
+import {
+  buildCatalogProductRow,
+  buildPrimaryCategoryNames,
+  countProductDiff,
+  diffCatalogProducts,
+  type CatalogProductRow,
+  type ExistingCatalogProduct,
+  type ProductDiffEntry,
+} from "@/lib/salesforce/catalog-diff"
+import { salesforceImageMappings } from "@/lib/catalog-import"
 
 /**
  * POST /api/salesforce/import/preview
- * Preview what would be imported without actually importing
+ * Preview what would be imported without actually importing: a field-level
+ * diff of every product against product_catalog. Unchanged products are only
+ * counted.
  */
 export async function POST(request: Request) {
   try {
@@ -67,49 +74,40 @@ export async function POST(request: Request) {
     }
 
     // Get valid access token
-    let accessToken: string
-    let instanceUrl: string
+    let session: SalesforceSession
     try {
-      const token = await getAccessToken(user.id)
-      accessToken = token.access_token
-      instanceUrl = token.instance_url
+      session = await openSession()
     } catch (error: any) {
       return NextResponse.json(
         { error: error.message || "Not connected to Salesforce. Please connect first." },
-        { status: 401 }
+        { status: salesforceErrorStatus(error, 401) }
       )
     }
 
-    // Track API usage
-    let totalApiCalls = 0
-
-    // Get API limits before preview
-    let apiLimitsBefore: any = null
-    try {
-      apiLimitsBefore = await getApiLimits(accessToken, instanceUrl)
-      totalApiCalls++
-    } catch (error: any) {
-      console.warn("Failed to get API limits before preview:", error.message)
-    }
+    // Track API usage; opening the session read the API limits
+    let totalApiCalls = session.apiCalls
+    const apiLimitsBefore: any = session.limits
 
     // Fetch Products from Salesforce (if selected)
     let products: SalesforceProduct[] = []
     if (importProducts) {
       const productsResult = await queryAll<SalesforceProduct>(
         "SELECT Id, Name, StockKeepingUnit, ProductCode, IsActive FROM Product2 WHERE IsActive = true",
-        accessToken,
-        instanceUrl
+        session
       )
       products = productsResult.records
       totalApiCalls += productsResult.apiCalls
 
       if (products.length === 0 && importCategories) {
         return NextResponse.json({
-          preview: [],
+          diff: [],
           statistics: {
             totalProducts: 0,
             newProducts: 0,
             existingProducts: 0,
+            changedProducts: 0,
+            unchangedProducts: 0,
+            removedProducts: 0,
             productsWithImages: 0,
             productsWithoutImages: 0,
             ...(importCategories && { categoriesImported: 0 }),
@@ -125,8 +123,7 @@ export async function POST(request: Request) {
       try {
         const categoriesResult = await queryAll<SalesforceProductCategory>(
           "SELECT Id, Name, CatalogId, ParentCategoryId FROM ProductCategory",
-          accessToken,
-          instanceUrl
+          session
         )
         categories = categoriesResult.records
         totalApiCalls += categoriesResult.apiCalls
@@ -141,8 +138,7 @@ export async function POST(request: Request) {
       try {
         const mappingsResult = await queryAll<SalesforceProductCategoryProduct>(
           "SELECT Id, ProductId, ProductCategoryId FROM ProductCategoryProduct",
-          accessToken,
-          instanceUrl
+          session
         )
         categoryMappings = mappingsResult.records
         totalApiCalls += mappingsResult.apiCalls
@@ -166,8 +162,7 @@ export async function POST(request: Request) {
           const mediaQuery = `SELECT Id, ProductId, ElectronicMediaId FROM ProductMedia WHERE ProductId IN (${batchIds})`
           const batchMediaResult = await queryAll<SalesforceProductMedia>(
             mediaQuery,
-            accessToken,
-            instanceUrl
+            session
           )
           productMedia.push(...batchMediaResult.records)
           totalApiCalls += batchMediaResult.apiCalls
@@ -190,8 +185,7 @@ export async function POST(request: Request) {
             const contentQuery = `SELECT Id, ContentKey FROM ManagedContent WHERE Id IN (${batchIds})`
             const batchContentResult = await queryAll<SalesforceManagedContent>(
               contentQuery,
-              accessToken,
-              instanceUrl
+              session
             )
             managedContent.push(...batchContentResult.records)
             totalApiCalls += batchContentResult.apiCalls
@@ -202,104 +196,76 @@ export async function POST(request: Request) {
       }
     }
 
-    // Build image URL mappings (only if products are selected)
-    const imageMappings = new Map<string, string | null>()
-    if (importProducts && products.length > 0 && productMedia.length > 0) {
-      const mediaToContent = new Map<string, string>()
-      managedContent.forEach(content => {
-        if (content.Id && content.ContentKey) {
-          mediaToContent.set(content.Id, content.ContentKey)
-        }
-      })
-
-      const productToMedia = new Map<string, SalesforceProductMedia>()
-      productMedia.forEach(media => {
-        if (!productToMedia.has(media.ProductId)) {
-          productToMedia.set(media.ProductId, media)
-        }
-      })
+    // Build image URL mappings, as the import does
+    const imageMappings = salesforceImageMappings(productMedia, managedContent)
 
-      productToMedia.forEach((media, productId) => {
-        if (media.ElectronicMediaId) {
-          const contentKey = mediaToContent.get(media.ElectronicMediaId)
-          const imageUrl = buildImageUrl(contentKey)
-          imageMappings.set(productId, imageUrl)
-        }
-      })
-    }
-
-    // Build preview data (only if products are selected)
-    let previewData: any[] = []
-    let newProducts = 0
-    let existingProductsCount = 0
+    // Build the diff (only if products are selected)
+    let diffEntries: ProductDiffEntry[] = []
     let productsWithImages = 0
     let productsWithoutImages = 0
 
     if (importProducts && products.length > 0) {
-      // Get existing products to determine what's new vs existing
-      const existingSkus = products
-        .map(p => p.StockKeepingUnit)
-        .filter((sku): sku is string => !!sku)
-      
-      // Batch the query to avoid Supabase's IN clause limit (typically 1000 items)
-      const existingMap = new Map<string, any>()
+      // Load the whole catalog: removed SKUs can only be found against all of it
+      const existing: ExistingCatalogProduct[] = []
       const batchSize = 1000
-      
-      for (let i = 0; i < existingSkus.length; i += batchSize) {
-        const batch = existingSkus.slice(i, i + batchSize)
-        const { data: existingProducts } = await supabase
+      let offset = 0
+
+      while (true) {
+        const { data: existingProducts, error: existingError } = await supabase
           .from("product_catalog")
-          .select("sku, product_code, category, name")
-          .in("sku", batch)
-        
-        existingProducts?.forEach(p => {
-          existingMap.set(p.sku, p)
+          .select("sku, product_id, name, product_code, category, image_url, is_active, product_categories!product_catalog_primary_category_id_fkey(name)")
+          .order("sku", { ascending: true })
+          .range(offset, offset + batchSize - 1)
+
+        if (existingError) {
+          return NextResponse.json({ error: existingError.message }, { status: 500 })
+        }
+
+        existingProducts?.forEach((p: any) => {
+          existing.push({
+            sku: p.sku,
+            product_id: p.product_id,
+            name: p.name,
+            product_code: p.product_code,
+            category: p.category,
+            image_url: p.image_url,
+            is_active: p.is_active !== false,
+            primary_category_name: p.product_categories?.name || null,
+          })
         })
+
+        if (!existingProducts || existingProducts.length < batchSize) break
+        offset += batchSize
       }
 
-      // Build preview data
-      previewData = products
-        .filter(p => p.StockKeepingUnit)
-        .slice(0, 50) // Limit preview to first 50 products
-        .map(product => {
-          const imageUrl = imageMappings.get(product.Id) || null
-          const existing = existingMap.get(product.StockKeepingUnit || "")
-          const productCode = product.ProductCode || existing?.product_code || null
-          const category = productCode
-            ? getCategoryFromProductCode(productCode)
-            : (existing?.category || 'Other')
-
-          return {
-            product_id: product.Id,
-            sku: product.StockKeepingUnit!,
-            name: product.Name || null,
-            product_code: productCode,
-            category: category,
-            image_url: imageUrl,
-            isNew: !existing,
-            existingName: existing?.name || null,
-            willUpdate: !!existing,
-          }
-        })
+      const existingMap = new Map(existing.map(p => [p.sku, p]))
 
-      // Calculate statistics for all products (not just preview)
-      const allProductData = products
+      // Same rows the import would write; for duplicate SKUs the last product wins
+      const incomingBySku = new Map<string, CatalogProductRow>()
+      products
         .filter(p => p.StockKeepingUnit)
-        .map(product => {
-          const imageUrl = imageMappings.get(product.Id) || null
-          const existing = existingMap.get(product.StockKeepingUnit || "")
-          return {
-            isNew: !existing,
-            hasImage: !!imageUrl,
-          }
+        .forEach(product => {
+          const imageUrl = imageMappings.get(product.Id)?.imageUrl || null
+          const row = buildCatalogProductRow(product, existingMap.get(product.StockKeepingUnit!), imageUrl)
+          incomingBySku.set(row.sku, row)
         })
+      const incoming = Array.from(incomingBySku.values())
 
-      newProducts = allProductData.filter(p => p.isNew).length
-      existingProductsCount = allProductData.filter(p => !p.isNew).length
-      productsWithImages = allProductData.filter(p => p.hasImage).length
-      productsWithoutImages = allProductData.length - productsWithImages
+      // Mappings only apply together with categories, as in the import
+      const primaryCategories = importMappings && categories.length > 0
+        ? buildPrimaryCategoryNames(
+            categoryMappings,
+            new Map(categories.map(c => [c.Id, c.Name]))
+          )
+        : null
+
+      diffEntries = diffCatalogProducts(incoming, existing, primaryCategories)
+      productsWithImages = incoming.filter(p => p.image_url).length
+      productsWithoutImages = incoming.length - productsWithImages
     }
 
+    const diffCounts = countProductDiff(diffEntries)
+
     // Calculate category statistics
     let categoriesImported: number | undefined
     let mappingsImported: number | undefined
@@ -319,7 +285,7 @@ export async function POST(request: Request) {
     // Get API limits after preview
     let apiLimitsAfter: any = null
     try {
-      apiLimitsAfter = await getApiLimits(accessToken, instanceUrl)
+      apiLimitsAfter = await getApiLimits(session)
       totalApiCalls++
     } catch (error: any) {
       console.warn("Failed to get API limits after preview:", error.message)
@@ -335,15 +301,16 @@ export async function POST(request: Request) {
     } : null
 
     return NextResponse.json({
-      preview: previewData,
+      diff: diffEntries.filter(entry => entry.status !== "unchanged"),
       statistics: {
         totalProducts: products.length,
-        newProducts,
-        existingProducts: existingProductsCount,
+        newProducts: diffCounts.new,
+        existingProducts: diffCounts.changed + diffCounts.unchanged,
+        changedProducts: diffCounts.changed,
+        unchangedProducts: diffCounts.unchanged,
+        removedProducts: diffCounts.removed,
         productsWithImages,
         productsWithoutImages,
-        previewLimit: 50,
-        totalPreviewable: products.filter(p => p.StockKeepingUnit).length,
         ...(categoriesImported !== undefined && { categoriesImported }),
         ...(mappingsImported !== undefined && { mappingsImported }),
         ...(productsWithCategories !== undefined && { productsWithCategories }),
@@ -354,7 +321,7 @@ export async function POST(request: Request) {
     console.error("Error in Salesforce preview:", error)
     return NextResponse.json(
       { error: error.message || "Failed to preview Salesforce import" },
-      { status: 500 }
+      { status: salesforceErrorStatus(error) }
     )
   }
 }
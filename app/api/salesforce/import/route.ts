@@ -1,6 +1,7 @@
 import { createClient } from "@/lib/supabase/server"
 import { NextResponse } from "next/server"
-import { getAccessToken, queryAll, buildImageUrl, getApiLimits } from "@/lib/salesforce/client"
+import { openSession, queryAll, getApiLimits, type SalesforceSession } from "@/lib/salesforce/client"
+import { salesforceErrorStatus } from "@/lib/salesforce/errors"
 import type {
   SalesforceProduct,
   SalesforceProductMedia,
@@ -8,18 +9,37 @@ import type {
   SalesforceProductCategory,
   SalesforceProductCategoryProduct,
 } from "@/lib/salesforce/types"
-
-function getCategoryFromProductCode(productCode: string | null | undefined): string {
-  if (!productCode) return 'Other'
-  const parts = productCode.split(':')
-  return parts[0] || 'Other'
-}
+import {
+  startImportRun,
+  finishImportRun,
+  validationSummary,
+  type ImportRowResult,
+} from "@/lib/import-runs"
+import { applyCatalogImport, salesforceImageMappings, salesforceSource } from "@/lib/catalog-import"
+import {
+  snapshotProducts,
+  snapshotCategories,
+  recordCreatedCategories,
+  snapshotAssignments,
+} from "@/lib/import-snapshots"
+
+const DEACTIVATE_BATCH_SIZE = 500
 
 /**
  * POST /api/salesforce/import
  * Import products from Salesforce
+ *
+ * Optional body fields from the preview diff: excludeSkus (products the
+ * manager deselected; left untouched, including their category mappings)
+ * and deactivateSkus (approved removals; marked inactive).
+ *
+ * Every row is snapshotted before it is written so the run can be rolled
+ * back; a failed snapshot aborts the import through the catch below.
  */
 export async function POST(request: Request) {
+  // Kept outside the try so an unexpected error still closes the import run
+  let importRun: { supabase: any; runId: string | null; rows: ImportRowResult[] } | null = null
+
   try {
     const supabase = await createClient()
     const {
@@ -48,12 +68,16 @@ export async function POST(request: Request) {
     let importProducts = true
     let importCategories = false
     let importMappings = false
+    let excludeSkus = new Set<string>()
+    let deactivateSkus: string[] = []
     
     try {
       const body = await request.json()
       importProducts = body.importProducts !== undefined ? body.importProducts : true
       importCategories = body.importCategories === true
       importMappings = body.importMappings === true
+      if (Array.isArray(body.excludeSkus)) excludeSkus = new Set(body.excludeSkus.filter(Boolean))
+      if (Array.isArray(body.deactivateSkus)) deactivateSkus = body.deactivateSkus.filter(Boolean)
     } catch {
       // No body or invalid JSON, use defaults
     }
@@ -67,55 +91,66 @@ export async function POST(request: Request) {
     }
 
     // Get valid access token
-    let accessToken: string
-    let instanceUrl: string
+    let session: SalesforceSession
     try {
-      const token = await getAccessToken(user.id)
-      accessToken = token.access_token
-      instanceUrl = token.instance_url
+      session = await openSession()
     } catch (error: any) {
       return NextResponse.json(
         { error: error.message || "Not connected to Salesforce. Please connect first." },
-        { status: 401 }
+        { status: salesforceErrorStatus(error, 401) }
       )
     }
 
-    // Track API usage
-    let totalApiCalls = 0
-
-    // Get API limits before import
-    let apiLimitsBefore: any = null
-    try {
-      apiLimitsBefore = await getApiLimits(accessToken, instanceUrl)
-      totalApiCalls++
-    } catch (error: any) {
-      console.warn("Failed to get API limits before import:", error.message)
+    // Track API usage; opening the session read the API limits
+    let totalApiCalls = session.apiCalls
+    const apiLimitsBefore: any = session.limits
+
+    const runId = await startImportRun(supabase, {
+      source: "salesforce",
+      userId: user.id,
+      metadata: {
+        importProducts,
+        importCategories,
+        importMappings,
+        excludedSkus: excludeSkus.size,
+        deactivateSkus: deactivateSkus.length,
+      },
+    })
+    const run = { supabase, runId, rows: [] as ImportRowResult[] }
+    importRun = run
+
+    // Close the run as failed and respond with the error
+    const failImport = async (message: string, status = 500, extra: Record<string, any> = {}) => {
+      await finishImportRun(supabase, runId, {
+        status: "failed",
+        rows: run.rows,
+        apiCalls: totalApiCalls,
+        apiLimits: apiLimitsBefore,
+        error: message,
+      })
+      importRun = null
+      return NextResponse.json({ error: message, runId, ...extra }, { status })
     }
 
     // Fetch Products from Salesforce (if selected)
     let products: SalesforceProduct[] = []
     if (importProducts) {
-      console.log("Fetching products from Salesforce...")
       const productsResult = await queryAll<SalesforceProduct>(
         "SELECT Id, Name, StockKeepingUnit, ProductCode, IsActive FROM Product2 WHERE IsActive = true",
-        accessToken,
-        instanceUrl
+        session
       )
       products = productsResult.records
       totalApiCalls += productsResult.apiCalls
 
       if (products.length === 0 && importCategories) {
-        return NextResponse.json(
-          { error: "No active products found in Salesforce. Products are required for category imports." },
-          { status: 400 }
+        return failImport(
+          "No active products found in Salesforce. Products are required for category imports.",
+          400
         )
       }
-
-      console.log(`Found ${products.length} products`)
     }
 
     // Fetch Product Media
-    console.log("Fetching product media...")
     const productIds = products.map(p => `'${p.Id}'`).join(",")
     let productMedia: SalesforceProductMedia[] = []
     
@@ -128,8 +163,7 @@ export async function POST(request: Request) {
         const mediaQuery = `SELECT Id, ProductId, ElectronicMediaId FROM ProductMedia WHERE ProductId IN (${batchIds})`
         const batchMediaResult = await queryAll<SalesforceProductMedia>(
           mediaQuery,
-          accessToken,
-          instanceUrl
+          session
         )
         productMedia.push(...batchMediaResult.records)
         totalApiCalls += batchMediaResult.apiCalls
@@ -139,54 +173,47 @@ export async function POST(request: Request) {
       // Continue without media
     }
 
-    console.log(`Found ${productMedia.length} product media records`)
-
     // Fetch Categories from Salesforce (if selected)
     let categories: SalesforceProductCategory[] = []
     if (importCategories) {
-      console.log("Fetching categories from Salesforce...")
       try {
         const categoriesResult = await queryAll<SalesforceProductCategory>(
           "SELECT Id, Name, CatalogId, ParentCategoryId FROM ProductCategory",
-          accessToken,
-          instanceUrl
+          session
         )
         categories = categoriesResult.records
         totalApiCalls += categoriesResult.apiCalls
-        console.log(`Found ${categories.length} categories`)
       } catch (error: any) {
         console.warn("Failed to fetch categories:", error.message)
-        return NextResponse.json(
-          { error: `Failed to fetch categories: ${error.message}` },
-          { status: 500 }
-        )
+        return failImport(`Failed to fetch categories: ${error.message}`)
       }
     }
 
     // Fetch Category Mappings from Salesforce (if selected)
     let categoryMappings: SalesforceProductCategoryProduct[] = []
     if (importMappings) {
-      console.log("Fetching category mappings from Salesforce...")
       try {
         const mappingsResult = await queryAll<SalesforceProductCategoryProduct>(
           "SELECT Id, ProductId, ProductCategoryId FROM ProductCategoryProduct",
-          accessToken,
-          instanceUrl
+          session
         )
         categoryMappings = mappingsResult.records
         totalApiCalls += mappingsResult.apiCalls
-        console.log(`Found ${categoryMappings.length} category mappings`)
+
+        // Deselected products keep their current category assignments
+        if (excludeSkus.size > 0) {
+          const excludedProductIds = new Set(
+            products.filter(p => p.StockKeepingUnit && excludeSkus.has(p.StockKeepingUnit)).map(p => p.Id)
+          )
+          categoryMappings = categoryMappings.filter(m => !excludedProductIds.has(m.ProductId))
+        }
       } catch (error: any) {
         console.warn("Failed to fetch category mappings:", error.message)
-        return NextResponse.json(
-          { error: `Failed to fetch category mappings: ${error.message}` },
-          { status: 500 }
-        )
+        return failImport(`Failed to fetch category mappings: ${error.message}`)
       }
     }
 
     // Fetch Managed Content (for image URLs)
-    console.log("Fetching managed content...")
     let managedContent: SalesforceManagedContent[] = []
     
     try {
@@ -203,8 +230,7 @@ export async function POST(request: Request) {
           const contentQuery = `SELECT Id, ContentKey FROM ManagedContent WHERE Id IN (${batchIds})`
           const batchContentResult = await queryAll<SalesforceManagedContent>(
             contentQuery,
-            accessToken,
-            instanceUrl
+            session
           )
           managedContent.push(...batchContentResult.records)
           totalApiCalls += batchContentResult.apiCalls
@@ -215,41 +241,13 @@ export async function POST(request: Request) {
       // Continue without managed content
     }
 
-    console.log(`Found ${managedContent.length} managed content records`)
-
-    // Build image URL mappings
-    // Step 1: Map ElectronicMediaId to ContentKey
-    const mediaToContent = new Map<string, string>()
-    managedContent.forEach(content => {
-      if (content.Id && content.ContentKey) {
-        mediaToContent.set(content.Id, content.ContentKey)
-      }
-    })
-
-    // Step 2: Map ProductId to ImageMapping
-    const productToMedia = new Map<string, SalesforceProductMedia>()
-    productMedia.forEach(media => {
-      if (!productToMedia.has(media.ProductId)) {
-        productToMedia.set(media.ProductId, media)
-      }
-    })
-
-    // Step 3: Build final image mappings
-    const imageMappings = new Map<string, string | null>()
-    productToMedia.forEach((media, productId) => {
-      if (media.ElectronicMediaId) {
-        const contentKey = mediaToContent.get(media.ElectronicMediaId)
-        const imageUrl = buildImageUrl(contentKey)
-        imageMappings.set(productId, imageUrl)
-      }
-    })
+    // Build image URL mappings, as the CSV import does
+    const imageMappings = salesforceImageMappings(productMedia, managedContent)
 
     // Import Categories (if selected)
     let categoriesImported = 0
     const categoryIdMap = new Map<string, string>() // Maps Salesforce category ID to our UUID
     if (importCategories && categories.length > 0) {
-      console.log(`Importing ${categories.length} categories...`)
-      
       // Build category data for upsert - only Salesforce categories (skip custom ones)
       const categoryData = categories
         .filter(cat => cat.Id) // Only categories with Salesforce ID
@@ -292,9 +290,11 @@ export async function POST(request: Request) {
 
         if (insertError) {
           console.error("Error inserting categories:", insertError)
-          return NextResponse.json({ error: insertError.message }, { status: 500 })
+          return failImport(insertError.message)
         }
 
+        await recordCreatedCategories(supabase, runId, (insertedCategories || []).map(cat => cat.id))
+
         insertedCategories?.forEach(cat => {
           if (cat.salesforce_id) {
             categoryIdMap.set(cat.salesforce_id, cat.id)
@@ -304,6 +304,12 @@ export async function POST(request: Request) {
 
       // Update existing categories
       if (toUpdate.length > 0) {
+        await snapshotCategories(
+          supabase,
+          runId,
+          toUpdate.map(cat => existingMap.get(cat.salesforce_id!)!).filter(Boolean)
+        )
+
         for (const cat of toUpdate) {
           const existingId = existingMap.get(cat.salesforce_id!)
           if (existingId) {
@@ -319,7 +325,7 @@ export async function POST(request: Request) {
 
             if (updateError) {
               console.error("Error updating category:", updateError)
-              return NextResponse.json({ error: updateError.message }, { status: 500 })
+              return failImport(updateError.message)
             }
 
             categoryIdMap.set(cat.salesforce_id!, existingId)
@@ -342,111 +348,76 @@ export async function POST(request: Request) {
           }
         }
       }
-
-      console.log(`Imported ${categoriesImported} categories`)
     }
 
-    // Fetch existing products to preserve product_code and category if new data is missing
-    let productData: any[] = []
+    let productsImported = 0
     let productsWithImages = 0
     let productsWithoutImages = 0
-    
+    let productsDeactivated = 0
+
     if (importProducts && products.length > 0) {
-      const existingSkus = products
-        .map(p => p.StockKeepingUnit)
-        .filter((sku): sku is string => !!sku)
-      
-      // Batch the query to avoid Supabase's IN clause limit (typically 1000 items)
-      const existingMap = new Map<string, { product_code: string | null; category: string | null }>()
-      const batchSize = 1000
-      
-      for (let i = 0; i < existingSkus.length; i += batchSize) {
-        const batch = existingSkus.slice(i, i + batchSize)
-        const { data: existingProducts } = await supabase
+      // Products without a SKU, deselected ones and earlier duplicates of a SKU (the last one wins) are skipped
+      const result = await applyCatalogImport(
+        supabase,
+        salesforceSource(products, { imageMappings, excludeSkus }),
+        { runId, userId: user.id }
+      )
+      run.rows.push(...result.rows)
+
+      if (result.error) {
+        return failImport(result.error)
+      }
+
+      productsImported = result.imported
+      productsWithImages = result.withImages
+      productsWithoutImages = result.imported - result.withImages
+
+      // Deactivate approved removals; never a SKU that is still active in Salesforce
+      const activeSkus = new Set(products.map(p => p.StockKeepingUnit).filter(Boolean))
+      const toDeactivate = deactivateSkus.filter(sku => !activeSkus.has(sku))
+      const now = new Date().toISOString()
+      await snapshotProducts(supabase, runId, toDeactivate)
+
+      for (let i = 0; i < toDeactivate.length; i += DEACTIVATE_BATCH_SIZE) {
+        const batch = toDeactivate.slice(i, i + DEACTIVATE_BATCH_SIZE)
+        const { data: deactivated, error: deactivateError } = await supabase
           .from("product_catalog")
-          .select("sku, product_code, category")
+          .update({ is_active: false, deactivated_at: now, updated_at: now })
           .in("sku", batch)
-        
-        existingProducts?.forEach(p => {
-          existingMap.set(p.sku, { product_code: p.product_code, category: p.category })
-        })
-      }
+          .eq("is_active", true)
+          .select("sku, product_id")
 
-      // Prepare product data with image URLs, preserving existing product_code/category if new is empty
-      productData = products
-        .filter(p => p.StockKeepingUnit) // Only products with SKU
-        .map(product => {
-          const imageUrl = imageMappings.get(product.Id) || null
-          const existing = existingMap.get(product.StockKeepingUnit || "")
-
-          // Preserve existing product_code if new one is empty
-          const productCode = product.ProductCode || existing?.product_code || null
-          // Preserve existing category if product_code is empty, otherwise derive from product_code
-          const category = productCode
-            ? getCategoryFromProductCode(productCode)
-            : (existing?.category || 'Other')
-
-          return {
-            product_id: product.Id,
-            sku: product.StockKeepingUnit!,
-            name: product.Name || null,
-            product_code: productCode,
-            category: category,
-            image_url: imageUrl,
-            imported_by: user.id,
-          }
-        })
+        if (deactivateError) {
+          console.error("Error deactivating products:", deactivateError)
+          return failImport(deactivateError.message)
+        }
 
-      // Upsert products into database
-      console.log(`Upserting ${productData.length} products...`)
-      const { error: upsertError } = await supabase
-        .from("product_catalog")
-        .upsert(productData, {
-          onConflict: "sku",
-          ignoreDuplicates: false,
+        deactivated?.forEach(p => {
+          productsDeactivated++
+          run.rows.push({
+            rowNumber: null,
+            sku: p.sku,
+            externalId: p.product_id,
+            action: "updated",
+            message: "Deactivated: no longer active in Salesforce",
+          })
         })
-
-      if (upsertError) {
-        console.error("Error importing products:", upsertError)
-        return NextResponse.json({ error: upsertError.message }, { status: 500 })
       }
-
-      // Calculate statistics
-      productsWithImages = productData.filter(p => p.image_url !== null).length
-      productsWithoutImages = productData.length - productsWithImages
     }
 
     // Import Category Mappings (if selected)
     let mappingsImported = 0
     let productsWithCategories = 0
     let assignmentData: any[] = [] // Declare outside for diagnostics
-    
-    console.log(`Category mapping import check: importMappings=${importMappings}, categoryMappings.length=${categoryMappings.length}, products.length=${products.length}, categories.length=${categories.length}`)
-    
-    if (!importMappings) {
-      console.log("SKIPPING category mappings: importMappings is false")
-    } else if (categoryMappings.length === 0) {
-      console.log("SKIPPING category mappings: categoryMappings array is empty")
-    } else if (products.length === 0) {
-      console.log("SKIPPING category mappings: products array is empty")
-    } else if (categories.length === 0) {
-      console.log("SKIPPING category mappings: categories array is empty")
-    }
-    
-    if (importMappings && categoryMappings.length > 0 && products.length > 0 && categories.length > 0) {
-      console.log(`Importing ${categoryMappings.length} category mappings...`)
-      console.log(`Category ID map size: ${categoryIdMap.size}`)
-      console.log(`Categories in map: ${Array.from(categoryIdMap.keys()).slice(0, 5).join(', ')}...`)
 
+    if (importMappings && categoryMappings.length > 0 && products.length > 0 && categories.length > 0) {
       // Get product IDs from our database (map Salesforce Product2.Id to our product_catalog.id)
       const salesforceProductIds = products.map(p => p.Id)
       const { data: ourProducts } = await supabase
         .from("product_catalog")
-        .select("id, product_id")
+        .select("id, product_id, sku")
         .in("product_id", salesforceProductIds)
 
-      console.log(`Found ${ourProducts?.length || 0} products in database matching ${salesforceProductIds.length} Salesforce product IDs`)
-
       const productIdMap = new Map<string, string>() // Maps Salesforce product_id to our UUID
       if (ourProducts) {
         ourProducts.forEach(p => {
@@ -456,26 +427,14 @@ export async function POST(request: Request) {
         })
       }
 
-      console.log(`Product ID map size: ${productIdMap.size}`)
-
       // Build assignment data
       assignmentData = []
       const productCategoryCounts = new Map<string, number>() // Track how many categories per product
-      let unmatchedMappings = 0
-      let unmatchedProducts = 0
-      let unmatchedCategories = 0
 
       for (const mapping of categoryMappings) {
         const ourProductId = productIdMap.get(mapping.ProductId)
         const ourCategoryId = categoryIdMap.get(mapping.ProductCategoryId)
 
-        if (!ourProductId) {
-          unmatchedProducts++
-        }
-        if (!ourCategoryId) {
-          unmatchedCategories++
-        }
-
         if (ourProductId && ourCategoryId) {
           const currentCount = productCategoryCounts.get(ourProductId) || 0
           assignmentData.push({
@@ -486,25 +445,22 @@ export async function POST(request: Request) {
             is_primary: currentCount === 0, // First category is primary
           })
           productCategoryCounts.set(ourProductId, currentCount + 1)
-        } else {
-          unmatchedMappings++
         }
       }
 
-      console.log(`Built ${assignmentData.length} assignments from ${categoryMappings.length} mappings`)
-      console.log(`Unmatched: ${unmatchedMappings} total (${unmatchedProducts} products, ${unmatchedCategories} categories)`)
-
       if (assignmentData.length > 0) {
-        console.log(`Sample assignment data (first 3):`, assignmentData.slice(0, 3).map(a => ({
-          product_id: a.product_id?.substring(0, 8) + '...',
-          category_id: a.category_id?.substring(0, 8) + '...',
-          is_primary: a.is_primary,
-          salesforce_product_id: a.salesforce_product_id?.substring(0, 8) + '...',
-          salesforce_category_id: a.salesforce_category_id?.substring(0, 8) + '...',
-        })))
         // Delete existing Salesforce-sourced assignments for these products to avoid duplicates
         // Preserve custom category assignments (those without salesforce_category_id)
         const productIdsToUpdate = Array.from(new Set(assignmentData.map(a => a.product_id)))
+
+        // Snapshot the assignments about to be replaced and the products whose primary category changes
+        await snapshotAssignments(supabase, runId, productIdsToUpdate)
+        const productIdsToUpdateSet = new Set(productIdsToUpdate)
+        await snapshotProducts(
+          supabase,
+          runId,
+          (ourProducts || []).filter(p => productIdsToUpdateSet.has(p.id)).map(p => p.sku)
+        )
         
         // Only delete assignments that have salesforce_category_id (Salesforce-sourced)
         // Custom category assignments (salesforce_category_id IS NULL) will be preserved
@@ -521,55 +477,23 @@ export async function POST(request: Request) {
         }
 
         // Insert new assignments
-        console.log(`Attempting to insert ${assignmentData.length} assignments into product_category_assignments`)
-        console.log(`First assignment sample:`, JSON.stringify(assignmentData[0], null, 2))
-        
-        const { data: insertedAssignments, error: assignmentError } = await supabase
+        const { error: assignmentError } = await supabase
           .from("product_category_assignments")
           .insert(assignmentData)
-          .select("id, product_id, category_id, is_primary")
 
         if (assignmentError) {
           console.error("ERROR importing category mappings:", assignmentError)
-          console.error("Error details:", JSON.stringify(assignmentError, null, 2))
           // Return detailed error for debugging
-          return NextResponse.json({ 
-            error: assignmentError.message,
+          return failImport(assignmentError.message, 500, {
             details: assignmentError,
             assignmentDataSample: assignmentData.slice(0, 2),
             assignmentDataLength: assignmentData.length
-          }, { status: 500 })
-        }
-
-        console.log(`Successfully inserted ${insertedAssignments?.length || 0} assignments`)
-        if (insertedAssignments && insertedAssignments.length > 0) {
-          console.log(`Sample inserted assignment:`, insertedAssignments[0])
-        } else {
-          console.error("CRITICAL: Insert returned success but no data! This means inserts were silently ignored.")
-        }
-        if (insertedAssignments && insertedAssignments.length > 0) {
-          const primaryCount = insertedAssignments.filter(a => a.is_primary).length
-          console.log(`Of inserted assignments, ${primaryCount} are marked as primary`)
+          })
         }
 
         mappingsImported = assignmentData.length
         productsWithCategories = productIdsToUpdate.length
 
-        console.log(`Starting to update primary_category_id for ${productIdsToUpdate.length} products`)
-
-        // Verify assignments were actually inserted by querying the database
-        const { data: verifyAssignments, error: verifyError } = await supabase
-          .from("product_category_assignments")
-          .select("id, product_id, category_id, is_primary")
-          .in("product_id", productIdsToUpdate.slice(0, 10)) // Check first 10
-          .eq("is_primary", true)
-        
-        if (verifyError) {
-          console.error("Error verifying assignments:", verifyError)
-        } else {
-          console.log(`Verified: Found ${verifyAssignments?.length || 0} primary assignments in database for sample products`)
-        }
-
         // Update product_catalog with primary_category_id and category name
         // Build a map of product_id -> primary assignment for efficient lookup
         const primaryAssignmentsMap = new Map<string, typeof assignmentData[0]>()
@@ -579,12 +503,6 @@ export async function POST(request: Request) {
           }
         })
 
-        console.log(`Found ${primaryAssignmentsMap.size} primary assignments in memory out of ${assignmentData.length} total assignments`)
-        
-        if (primaryAssignmentsMap.size === 0) {
-          console.error("CRITICAL: No primary assignments found! This means is_primary is not being set correctly.")
-        }
-
         // Get all category names in one query
         const categoryIds = Array.from(new Set(assignmentData.map(a => a.category_id)))
         const { data: allCategories, error: categoriesError } = await supabase
@@ -601,79 +519,26 @@ export async function POST(request: Request) {
           categoryNameMap.set(cat.id, cat.name)
         })
 
-        // Update products in batches
-        let productsUpdated = 0
-        let productsUpdateFailed = 0
-        let productsNoPrimary = 0
-        const batchSize = 100
-
-        for (let i = 0; i < productIdsToUpdate.length; i += batchSize) {
-          const batch = productIdsToUpdate.slice(i, i + batchSize)
-          const updates: Array<{ id: string; primary_category_id: string; category: string }> = []
-
-          for (const productId of batch) {
-            const primaryAssignment = primaryAssignmentsMap.get(productId)
-            if (primaryAssignment) {
-              const categoryName = categoryNameMap.get(primaryAssignment.category_id)
-              if (categoryName) {
-                updates.push({
-                  id: productId,
-                  primary_category_id: primaryAssignment.category_id,
-                  category: categoryName,
-                })
-              } else {
-                console.warn(`Category name not found for category_id ${primaryAssignment.category_id} (product ${productId})`)
-                productsUpdateFailed++
-              }
-            } else {
-              productsNoPrimary++
-            }
-          }
+        for (const productId of productIdsToUpdate) {
+          const primaryAssignment = primaryAssignmentsMap.get(productId)
+          if (!primaryAssignment) continue
 
-          // Batch update products
-          if (updates.length > 0) {
-            console.log(`Updating ${updates.length} products in batch ${Math.floor(i / batchSize) + 1}`)
-            for (const update of updates) {
-              const { data: updatedProduct, error: updateError } = await supabase
-                .from("product_catalog")
-                .update({
-                  primary_category_id: update.primary_category_id,
-                  category: update.category,
-                })
-                .eq("id", update.id)
-                .select("id, primary_category_id")
-                .single()
-
-              if (updateError) {
-                console.error(`Error updating product ${update.id} with primary category ${update.primary_category_id}:`, updateError)
-                productsUpdateFailed++
-              } else {
-                if (updatedProduct?.primary_category_id) {
-                  productsUpdated++
-                } else {
-                  console.warn(`Product ${update.id} update returned but primary_category_id is still null`)
-                  productsUpdateFailed++
-                }
-              }
-            }
+          const categoryName = categoryNameMap.get(primaryAssignment.category_id)
+          if (!categoryName) {
+            console.warn(`Category name not found for category_id ${primaryAssignment.category_id} (product ${productId})`)
+            continue
           }
-        }
 
-        console.log(`Imported ${mappingsImported} category mappings for ${productsWithCategories} products`)
-        console.log(`Updated primary_category_id: ${productsUpdated} succeeded, ${productsUpdateFailed} failed, ${productsNoPrimary} no primary assignment`)
-        
-        // Final verification - check a few products to confirm primary_category_id was set
-        if (productsUpdated > 0) {
-          const { data: sampleProducts, error: sampleError } = await supabase
+          const { error: updateError } = await supabase
             .from("product_catalog")
-            .select("id, sku, primary_category_id")
-            .in("id", productIdsToUpdate.slice(0, 5))
-            .not("primary_category_id", "is", null)
-          
-          if (sampleError) {
-            console.error("Error verifying updated products:", sampleError)
-          } else {
-            console.log(`Verification: ${sampleProducts?.length || 0} out of 5 sample products have primary_category_id set`)
+            .update({
+              primary_category_id: primaryAssignment.category_id,
+              category: categoryName,
+            })
+            .eq("id", productId)
+
+          if (updateError) {
+            console.error(`Error updating product ${productId} with primary category ${primaryAssignment.category_id}:`, updateError)
           }
         }
       } else {
@@ -681,12 +546,10 @@ export async function POST(request: Request) {
       }
     }
 
-    console.log("Import completed successfully")
-
     // Get API limits after import
     let apiLimitsAfter: any = null
     try {
-      apiLimitsAfter = await getApiLimits(accessToken, instanceUrl)
+      apiLimitsAfter = await getApiLimits(session)
       totalApiCalls++
     } catch (error: any) {
       console.warn("Failed to get API limits after import:", error.message)
@@ -701,11 +564,38 @@ export async function POST(request: Request) {
       usedInThisImport: totalApiCalls,
     } : null
 
+    const counts = await finishImportRun(supabase, runId, {
+      status: "succeeded",
+      rows: run.rows,
+      apiCalls: totalApiCalls,
+      apiLimits: apiLimitsAfter || apiLimitsBefore,
+      metadata: {
+        importProducts,
+        importCategories,
+        importMappings,
+        statistics: {
+          totalProducts: products.length,
+          productsImported,
+          productsDeactivated,
+          productsWithImages,
+          productsWithoutImages,
+          ...(importCategories && { categoriesImported }),
+          ...(importMappings && { mappingsImported, productsWithCategories }),
+        },
+      },
+    })
+    importRun = null
+
     return NextResponse.json({
       success: true,
+      runId,
       statistics: {
         totalProducts: products.length,
-        productsImported: productData.length,
+        productsImported,
+        productsCreated: counts.created,
+        productsUpdated: counts.updated,
+        productsSkipped: counts.skipped,
+        productsDeactivated,
         productsWithImages,
         productsWithoutImages,
         imageMappingsFound: imageMappings.size,
@@ -720,12 +610,20 @@ export async function POST(request: Request) {
         }),
         apiUsage,
       },
+      validation: validationSummary(runId, run.rows),
     })
   } catch (error: any) {
     console.error("Error in Salesforce import:", error)
+    if (importRun) {
+      await finishImportRun(importRun.supabase, importRun.runId, {
+        status: "failed",
+        rows: importRun.rows,
+        error: error.message || "Failed to import from Salesforce",
+      })
+    }
     return NextResponse.json(
       { error: error.message || "Failed to import from Salesforce" },
-      { status: 500 }
+      { status: salesforceErrorStatus(error) }
     )
   }
 }
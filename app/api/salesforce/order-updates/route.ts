@@ -0,0 +1,122 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { getAccessToken } from "@/lib/salesforce/client"
+import { salesforceErrorStatus } from "@/lib/salesforce/errors"
+import { processOrderUpdates, requeueOrderUpdates } from "@/lib/salesforce/order-updates"
+
+/**
+ * GET /api/salesforce/order-updates
+ * The outbound queue of production status updates for Salesforce orders.
+ * Query: state (pending | sent | failed), sheetId
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Check that the requesting user is a manager
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json(
+        { error: "Only managers can view Salesforce order updates" },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const state = searchParams.get("state")
+    const sheetId = searchParams.get("sheetId")
+
+    let query = supabase
+      .from("salesforce_order_updates")
+      .select("*, production_sheets(job_number, status)")
+      .order("updated_at", { ascending: false })
+      .limit(200)
+
+    if (state) query = query.eq("state", state)
+    if (sheetId) query = query.eq("sheet_id", sheetId)
+
+    const { data, error } = await query
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ updates: data || [] })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch Salesforce order updates" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/salesforce/order-updates
+ * Send due updates now instead of waiting for the cron.
+ * Body: { retry?: string[] } sheet ids to put back in the queue first
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Check that the requesting user is a manager
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json(
+        { error: "Only managers can send Salesforce order updates" },
+        { status: 403 }
+      )
+    }
+
+    let retry: string[] = []
+    try {
+      const body = await request.json()
+      if (Array.isArray(body.retry)) retry = body.retry.filter(Boolean)
+    } catch {
+      // No body: just send what is due
+    }
+
+    try {
+      await getAccessToken()
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message || "Not connected to Salesforce. Please connect first." },
+        { status: salesforceErrorStatus(error, 401) }
+      )
+    }
+
+    const requeued = await requeueOrderUpdates(supabase, retry)
+    const result = await processOrderUpdates(supabase)
+
+    return NextResponse.json({ requeued, ...result })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to send Salesforce order updates" },
+      { status: salesforceErrorStatus(error) }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { getStoredToken } from "@/lib/salesforce/client"
+import { isSalesforceId, orderRecordUrl } from "@/lib/salesforce/orders"
+
+/**
+ * GET /api/salesforce/orders/[id]/open
+ * Redirect to the order in the connected Salesforce org. Used for the link
+ * on sheets imported from an order.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (!isSalesforceId(params.id)) {
+      return NextResponse.json({ error: "Invalid Salesforce order id" }, { status: 400 })
+    }
+
+    const stored = await getStoredToken()
+    const instanceUrl = stored?.instance_url || process.env.SALESFORCE_INSTANCE_URL
+    if (!instanceUrl) {
+      return NextResponse.json(
+        { error: "Salesforce instance not known. Please connect to Salesforce first." },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.redirect(orderRecordUrl(instanceUrl, params.id))
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to open Salesforce order" },
+      { status: 500 }
+    )
+  }
+}
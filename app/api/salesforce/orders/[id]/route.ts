@@ -0,0 +1,127 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { openSession, type SalesforceSession } from "@/lib/salesforce/client"
+import { salesforceErrorStatus } from "@/lib/salesforce/errors"
+import {
+  buildOrderSheetLines,
+  fetchOrderWithItems,
+  isSalesforceId,
+  orderRecordUrl,
+} from "@/lib/salesforce/orders"
+import { loadStockLevels } from "@/lib/inventory"
+
+const SKU_BATCH_SIZE = 500
+
+/**
+ * GET /api/salesforce/orders/[id]
+ * An order mapped onto the catalog, ready to fill the new-sheet form: the
+ * job number, one banner per SKU with its qty in order (and the same stock
+ * info as the product picker), and the items that could not be matched.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Check that the requesting user is a manager
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json(
+        { error: "Only managers can import Salesforce orders" },
+        { status: 403 }
+      )
+    }
+
+    if (!isSalesforceId(params.id)) {
+      return NextResponse.json({ error: "Invalid Salesforce order id" }, { status: 400 })
+    }
+
+    let session: SalesforceSession
+    try {
+      session = await openSession()
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message || "Not connected to Salesforce. Please connect first." },
+        { status: salesforceErrorStatus(error, 401) }
+      )
+    }
+
+    const { order, items, apiCalls } = await fetchOrderWithItems(params.id, session)
+    if (!order) {
+      return NextResponse.json({ error: "Order not found in Salesforce" }, { status: 404 })
+    }
+
+    // Active catalog products for the order's SKUs
+    const orderSkus = Array.from(
+      new Set(items.map((item) => item.Product2?.StockKeepingUnit?.trim()).filter((sku): sku is string => !!sku))
+    )
+    const products: any[] = []
+    for (let i = 0; i < orderSkus.length; i += SKU_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from("product_catalog")
+        .select("id, sku, name, product_code, category, image_url, stock_min, stock_max")
+        .in("sku", orderSkus.slice(i, i + SKU_BATCH_SIZE))
+        .eq("is_active", true)
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 })
+      }
+      products.push(...(data || []))
+    }
+
+    const productsBySku = new Map(products.map((product) => [product.sku, product]))
+    const { lines, unmatched } = buildOrderSheetLines(items, new Set(productsBySku.keys()))
+    const levels = await loadStockLevels(supabase, lines.map((line) => line.sku), products)
+
+    const { data: sheets } = await supabase
+      .from("production_sheets")
+      .select("id, job_number, status")
+      .eq("salesforce_order_id", order.Id)
+      .neq("status", "cancelled")
+
+    return NextResponse.json({
+      order: {
+        id: order.Id,
+        orderNumber: order.OrderNumber,
+        status: order.Status || order.StatusCode || null,
+        effectiveDate: order.EffectiveDate || null,
+        poNumber: order.PoNumber || null,
+        accountName: order.Account?.Name || null,
+        url: orderRecordUrl(session.instanceUrl, order.Id),
+      },
+      banners: lines.map((line) => {
+        const level = levels.get(line.sku)
+        return {
+          ...productsBySku.get(line.sku),
+          on_hand: level?.onHand ?? 0,
+          in_production: level?.inProduction ?? 0,
+          suggested_stock_qty: level?.suggestedQty ?? 0,
+          qtyInOrder: line.qtyInOrder,
+        }
+      }),
+      unmatched,
+      sheets: sheets || [],
+      apiCalls,
+    })
+  } catch (error: any) {
+    console.error("Error fetching Salesforce order:", error)
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch Salesforce order" },
+      { status: salesforceErrorStatus(error) }
+    )
+  }
+}
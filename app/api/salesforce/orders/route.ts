@@ -0,0 +1,90 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { openSession, type SalesforceSession } from "@/lib/salesforce/client"
+import { salesforceErrorStatus } from "@/lib/salesforce/errors"
+import { fetchOpenOrders } from "@/lib/salesforce/orders"
+
+/**
+ * GET /api/salesforce/orders
+ * Open Salesforce orders to build a sheet from, with any sheets already
+ * imported from each. Query: search (order number, account or PO number)
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Check that the requesting user is a manager
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json(
+        { error: "Only managers can import Salesforce orders" },
+        { status: 403 }
+      )
+    }
+
+    let session: SalesforceSession
+    try {
+      session = await openSession()
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message || "Not connected to Salesforce. Please connect first." },
+        { status: salesforceErrorStatus(error, 401) }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { records, apiCalls } = await fetchOpenOrders(session, searchParams.get("search"))
+
+    // Sheets already built from these orders
+    const sheetsByOrder = new Map<string, any[]>()
+    if (records.length > 0) {
+      const { data: sheets, error: sheetsError } = await supabase
+        .from("production_sheets")
+        .select("id, job_number, status, salesforce_order_id")
+        .in("salesforce_order_id", records.map((order) => order.Id))
+        .neq("status", "cancelled")
+
+      if (sheetsError) {
+        return NextResponse.json({ error: sheetsError.message }, { status: 500 })
+      }
+
+      sheets?.forEach((sheet: any) => {
+        const list = sheetsByOrder.get(sheet.salesforce_order_id) || []
+        list.push({ id: sheet.id, job_number: sheet.job_number, status: sheet.status })
+        sheetsByOrder.set(sheet.salesforce_order_id, list)
+      })
+    }
+
+    return NextResponse.json({
+      orders: records.map((order) => ({
+        id: order.Id,
+        orderNumber: order.OrderNumber,
+        status: order.Status || order.StatusCode || null,
+        effectiveDate: order.EffectiveDate || null,
+        poNumber: order.PoNumber || null,
+        accountName: order.Account?.Name || null,
+        totalAmount: order.TotalAmount ?? null,
+        sheets: sheetsByOrder.get(order.Id) || [],
+      })),
+      apiCalls,
+    })
+  } catch (error: any) {
+    console.error("Error fetching Salesforce orders:", error)
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch Salesforce orders" },
+      { status: salesforceErrorStatus(error) }
+    )
+  }
+}
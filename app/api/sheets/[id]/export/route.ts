@@ -0,0 +1,74 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { buildWorkbook, XLSX_CONTENT_TYPE } from "@/lib/xlsx"
+import { sheetExportSheets } from "@/lib/workbook-exports"
+
+/**
+ * GET /api/sheets/[id]/export
+ * The sheet's items with their template fields as an .xlsx workbook
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: sheet, error: sheetError } = await supabase
+      .from("production_sheets")
+      .select("id, job_number, status, sheet_templates(name, field_definitions)")
+      .eq("id", params.id)
+      .maybeSingle()
+
+    if (sheetError) {
+      return NextResponse.json({ error: sheetError.message }, { status: 500 })
+    }
+
+    if (!sheet) {
+      return NextResponse.json({ error: "Sheet not found" }, { status: 404 })
+    }
+
+    const { data: items, error: itemsError } = await supabase
+      .from("sheet_items")
+      .select("*")
+      .eq("sheet_id", params.id)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+
+    if (itemsError) {
+      return NextResponse.json({ error: itemsError.message }, { status: 500 })
+    }
+
+    const template: any = sheet.sheet_templates
+    const fieldDefinitions = template?.field_definitions
+    const workbook = await buildWorkbook(
+      sheetExportSheets(
+        { job_number: sheet.job_number, status: sheet.status, template_name: template?.name || null },
+        Array.isArray(fieldDefinitions) ? fieldDefinitions : [],
+        items || []
+      )
+    )
+
+    const fileName = `sheet-${(sheet.job_number || sheet.id).replace(/[^A-Za-z0-9_-]+/g, "_")}.xlsx`
+    return new NextResponse(Buffer.from(workbook), {
+      status: 200,
+      headers: {
+        "Content-Type": XLSX_CONTENT_TYPE,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to export sheet" },
+      { status: 500 }
+    )
+  }
+}
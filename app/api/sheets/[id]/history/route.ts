@@ -0,0 +1,39 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+
+/**
+ * GET /api/sheets/[id]/history
+ * Status change history for a sheet, newest first
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from("sheet_status_history")
+      .select("*, users(name, email)")
+      .eq("sheet_id", params.id)
+      .order("created_at", { ascending: false })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ history: data || [] })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch status history" },
+      { status: 500 }
+    )
+  }
+}
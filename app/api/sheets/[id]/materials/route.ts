@@ -0,0 +1,74 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import {
+  buildMaterialReport,
+  loadProductSizes,
+  materialOptionsFromParams,
+  materialReportToCsv,
+} from "@/lib/material-report"
+
+/**
+ * GET /api/sheets/[id]/materials
+ * Square footage and substrate needed for the sheet's items.
+ * Query: waste (percent), substrate (roll | sheet), width, length, format=csv
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const options = materialOptionsFromParams(searchParams)
+
+    const { data: sheet, error: sheetError } = await supabase
+      .from("production_sheets")
+      .select("id, job_number")
+      .eq("id", params.id)
+      .single()
+
+    if (sheetError || !sheet) {
+      return NextResponse.json({ error: "Sheet not found" }, { status: 404 })
+    }
+
+    const { data: items, error: itemsError } = await supabase
+      .from("sheet_items")
+      .select("banner_sku, banner_name, qty_in_order, stock_qty")
+      .eq("sheet_id", params.id)
+
+    if (itemsError) {
+      return NextResponse.json({ error: itemsError.message }, { status: 500 })
+    }
+
+    const sizes = await loadProductSizes(supabase, (items || []).map((item: any) => item.banner_sku))
+    const report = buildMaterialReport(items || [], sizes, options)
+
+    if (searchParams.get("format") === "csv") {
+      const label = sheet.job_number || sheet.id
+      const fileName = `materials-${label.replace(/[^A-Za-z0-9_-]+/g, "_")}.csv`
+      return new NextResponse(materialReportToCsv(report, `Material requirements: sheet ${label}`), {
+        status: 200,
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+          "Cache-Control": "no-store",
+        },
+      })
+    }
+
+    return NextResponse.json({ report })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to build material report" },
+      { status: 500 }
+    )
+  }
+}
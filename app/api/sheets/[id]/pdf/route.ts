@@ -0,0 +1,88 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { buildSheetPdf, saveSheetPdfSnapshot } from "@/lib/sheet-pdf-snapshots"
+
+/**
+ * GET /api/sheets/[id]/pdf
+ *
+ * Renders the sheet to PDF server-side. Nothing is stored; printed versions
+ * are saved with POST and on status changes (see lib/sheet-pdf-snapshots.ts).
+ *
+ * Query: ?download=1 to send as an attachment instead of inline
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const built = await buildSheetPdf(supabase, params.id)
+
+    if (!built) {
+      return NextResponse.json({ error: "Sheet not found" }, { status: 404 })
+    }
+
+    const { sheet, pdf } = built
+    const fileName = `sheet-${(sheet.job_number || sheet.id).replace(/[^A-Za-z0-9_-]+/g, "_")}.pdf`
+    const download = new URL(request.url).searchParams.get("download") === "1"
+
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Length": String(pdf.byteLength),
+        "Cache-Control": "no-store",
+        "Content-Disposition": `${download ? "attachment" : "inline"}; filename="${fileName}"`,
+      },
+    })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to generate sheet PDF" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/sheets/[id]/pdf
+ *
+ * Saves the sheet as it is now as a printed version in Supabase Storage
+ * (see migration 017). A render identical to the latest version keeps that
+ * version's number.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const version = await saveSheetPdfSnapshot(supabase, params.id, user.id)
+
+    if (version === null) {
+      return NextResponse.json({ error: "Sheet not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ version })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to save sheet PDF" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+/**
+ * GET /api/sheets/[id]/pdf/snapshots
+ * Printed PDF versions of a sheet, newest first, with short-lived download URLs
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from("sheet_pdf_snapshots")
+      .select("*, users(name, email)")
+      .eq("sheet_id", params.id)
+      .order("version", { ascending: false })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const snapshots = data || []
+    if (snapshots.length === 0) {
+      return NextResponse.json({ snapshots: [] })
+    }
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from("sheet-pdfs")
+      .createSignedUrls(
+        snapshots.map((s) => s.storage_path),
+        SIGNED_URL_TTL_SECONDS
+      )
+
+    if (signError) {
+      return NextResponse.json({ error: signError.message }, { status: 500 })
+    }
+
+    const urlByPath = new Map(
+      (signed || []).map((s) => [s.path, s.signedUrl] as const)
+    )
+
+    return NextResponse.json({
+      snapshots: snapshots.map((s) => ({
+        ...s,
+        url: urlByPath.get(s.storage_path) || null,
+      })),
+    })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch PDF snapshots" },
+      { status: 500 }
+    )
+  }
+}
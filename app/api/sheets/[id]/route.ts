@@ -1,5 +1,8 @@
 import { createClient } from "@/lib/supabase/server"
 import { NextResponse } from "next/server"
+import { applySheetStatusChange } from "@/lib/sheet-status"
+import { withCatalogThumbnails } from "@/lib/product-images"
+import { saveSheetPdfSnapshot } from "@/lib/sheet-pdf-snapshots"
 
 export async function GET(
   request: Request,
@@ -17,7 +20,8 @@ export async function GET(
 
     const { data: sheet, error: sheetError } = await supabase
       .from("production_sheets")
-      .select("*, sheet_templates(*), users(email, name)")
+      // Outbound Salesforce state is only visible to managers (RLS)
+      .select("*, sheet_templates(*), users(email, name), salesforce_order_updates(state, attempts, last_error, last_sent_at)")
       .eq("id", params.id)
       .single()
 
@@ -35,7 +39,10 @@ export async function GET(
       return NextResponse.json({ error: itemsError.message }, { status: 500 })
     }
 
-    return NextResponse.json({ sheet, items: items || [] })
+    // Cached thumbnails load faster than the CMS and survive it being down
+    const itemsWithThumbnails = await withCatalogThumbnails(supabase, items || [])
+
+    return NextResponse.json({ sheet, items: itemsWithThumbnails })
   } catch (error: any) {
     return NextResponse.json(
       { error: error.message || "Failed to fetch sheet" },
@@ -59,47 +66,65 @@ export async function PUT(
     }
 
     const body = await request.json()
-    const { jobNumber, status, items, estimated_completion_date } = body
+    const { jobNumber, status, reason, items, estimated_completion_date } = body
+
+    const { data: currentSheet, error: currentError } = await supabase
+      .from("production_sheets")
+      .select("status")
+      .eq("id", params.id)
+      .single()
+
+    if (currentError || !currentSheet) {
+      return NextResponse.json({ error: "Sheet not found" }, { status: 404 })
+    }
 
     const updates: any = {
       updated_at: new Date().toISOString(),
     }
 
     if (jobNumber !== undefined) updates.job_number = jobNumber
-    if (status !== undefined) {
-      updates.status = status
-      if ((status === "in_production" || status === "production_started") && estimated_completion_date) {
-        updates.estimated_completion_date = estimated_completion_date
-      }
-      if (status === "completed") {
-        updates.completed_at = new Date().toISOString()
-      }
-    }
-    if (estimated_completion_date !== undefined && status !== "in_production") {
+    if (estimated_completion_date !== undefined) {
       updates.estimated_completion_date = estimated_completion_date
     }
 
-    const { data: sheet, error: sheetError } = await supabase
-      .from("production_sheets")
-      .update(updates)
-      .eq("id", params.id)
-      .select()
-      .single()
+    const statusChanged = status !== undefined && status !== currentSheet.status
+    let sheet: any
+
+    if (statusChanged) {
+      // Status changes go through the state machine (validated, recorded in
+      // sheet_status_history)
+      const result = await applySheetStatusChange(supabase, {
+        sheetId: params.id,
+        from: currentSheet.status,
+        to: status,
+        userId: user.id,
+        reason,
+        extraUpdates: updates,
+      })
 
-    if (sheetError) {
-      return NextResponse.json({ error: sheetError.message }, { status: 500 })
-    }
+      if (result.error !== null) {
+        return NextResponse.json({ error: result.error }, { status: result.status })
+      }
 
-    // Update items if provided
-    if (items) {
-      // Get current sheet status to determine update strategy
-      const { data: currentSheet } = await supabase
+      sheet = result.sheet
+    } else {
+      const { data, error: sheetError } = await supabase
         .from("production_sheets")
-        .select("status")
+        .update(updates)
         .eq("id", params.id)
+        .select()
         .single()
 
-      const isDraft = currentSheet?.status === "draft"
+      if (sheetError) {
+        return NextResponse.json({ error: sheetError.message }, { status: 500 })
+      }
+
+      sheet = data
+    }
+
+    // Update items if provided
+    if (items) {
+      const isDraft = sheet.status === "draft"
 
       // Get existing items to preserve completion tracking
       const { data: existingItems } = await supabase
@@ -189,12 +214,19 @@ export async function PUT(
     }
 
     // Record analytics event if status changed
-    if (status) {
+    if (statusChanged) {
       await supabase.from("analytics_events").insert({
         sheet_id: params.id,
         event_type: status,
         user_id: user.id,
       })
+
+      // Keep the sheet as printed at the transition; the change stands if this fails
+      try {
+        await saveSheetPdfSnapshot(supabase, params.id, user.id)
+      } catch (snapshotError) {
+        console.error("Failed to store sheet PDF snapshot", params.id, snapshotError)
+      }
     }
 
     return NextResponse.json({ sheet })
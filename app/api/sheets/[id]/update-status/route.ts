@@ -1,5 +1,7 @@
 import { createClient } from "@/lib/supabase/server"
 import { NextResponse } from "next/server"
+import { syncSheetStatusWithItems } from "@/lib/sheet-status"
+import { saveSheetPdfSnapshot } from "@/lib/sheet-pdf-snapshots"
 
 /**
  * POST /api/sheets/[id]/update-status
@@ -7,11 +9,8 @@ import { NextResponse } from "next/server"
  * Recalculates the job (production_sheets) status based on the statuses of
  * all its products (sheet_items).
  *
- * Rules:
- *  - If ALL items are 'complete' → job status = 'completed'
- *  - If ANY item is 'working', 'partially_complete', or 'complete'
- *    (but not all complete) → job status = 'production_started'
- *  - Otherwise leave as-is (draft / in_production)
+ * The rules and the transitions that may be applied automatically live in
+ * lib/sheet-status.ts (deriveSheetStatusFromItems). Drafts are never moved.
  */
 export async function POST(
   request: Request,
@@ -27,55 +26,13 @@ export async function POST(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const sheetId = params.id
-
-    // Fetch all items for this sheet
-    const { data: items, error: itemsError } = await supabase
-      .from("sheet_items")
-      .select("id, status")
-      .eq("sheet_id", sheetId)
-
-    if (itemsError) {
-      return NextResponse.json({ error: itemsError.message }, { status: 500 })
-    }
-
-    if (!items || items.length === 0) {
-      return NextResponse.json({ status: "no_items" })
-    }
-
-    const allComplete = items.every((i) => i.status === "complete")
-    const anyStarted = items.some(
-      (i) =>
-        i.status === "working" ||
-        i.status === "partially_complete" ||
-        i.status === "complete"
-    )
-
-    let newStatus: string | null = null
-
-    if (allComplete) {
-      newStatus = "completed"
-    } else if (anyStarted) {
-      newStatus = "production_started"
-    }
+    const newStatus = await syncSheetStatusWithItems(supabase, params.id, user.id)
 
     if (newStatus) {
-      const updates: any = {
-        status: newStatus,
-        updated_at: new Date().toISOString(),
-      }
-
-      if (newStatus === "completed") {
-        updates.completed_at = new Date().toISOString()
-      }
-
-      const { error: updateError } = await supabase
-        .from("production_sheets")
-        .update(updates)
-        .eq("id", sheetId)
-
-      if (updateError) {
-        return NextResponse.json({ error: updateError.message }, { status: 500 })
+      try {
+        await saveSheetPdfSnapshot(supabase, params.id, user.id)
+      } catch (snapshotError) {
+        console.error("Failed to store sheet PDF snapshot", params.id, snapshotError)
       }
     }
 
@@ -0,0 +1,124 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { loadProductSizes } from "@/lib/material-report"
+import {
+  MAX_NESTING_PIECES,
+  nestingOptionsFromParams,
+  planNesting,
+  type NestingPiece,
+} from "@/lib/nesting"
+
+const MAX_SHEETS = 50
+
+/**
+ * GET /api/sheets/layout?ids=<sheet id>,<sheet id>
+ * Gang-sheet layout for every piece (qty in order + stock) on the sheets.
+ * Query: mediaWidth, gap, margin (inches), rotate=0 to disable rotation
+ */
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const ids = Array.from(
+      new Set((searchParams.get("ids") || "").split(",").map((id) => id.trim()).filter(Boolean))
+    )
+
+    if (ids.length === 0) {
+      return NextResponse.json({ error: "Select at least one sheet" }, { status: 400 })
+    }
+    if (ids.length > MAX_SHEETS) {
+      return NextResponse.json(
+        { error: `A layout can combine at most ${MAX_SHEETS} sheets` },
+        { status: 400 }
+      )
+    }
+
+    const options = nestingOptionsFromParams(searchParams)
+
+    const { data: sheets, error: sheetsError } = await supabase
+      .from("production_sheets")
+      .select("id, job_number, status")
+      .in("id", ids)
+
+    if (sheetsError) {
+      return NextResponse.json({ error: sheetsError.message }, { status: 500 })
+    }
+    if (!sheets || sheets.length === 0) {
+      return NextResponse.json({ error: "Sheets not found" }, { status: 404 })
+    }
+
+    const { data: items, error: itemsError } = await supabase
+      .from("sheet_items")
+      .select("id, sheet_id, banner_sku, banner_name, qty_in_order, stock_qty")
+      .in("sheet_id", sheets.map((sheet: any) => sheet.id))
+      .order("created_at", { ascending: true })
+
+    if (itemsError) {
+      return NextResponse.json({ error: itemsError.message }, { status: 500 })
+    }
+
+    const sizes = await loadProductSizes(supabase, (items || []).map((item: any) => item.banner_sku))
+    const jobNumbers = new Map(sheets.map((sheet: any) => [sheet.id, sheet.job_number || "No job #"]))
+    const sized: { item: any; count: number; widthIn: number; heightIn: number }[] = []
+    const unsized: { sku: string; name: string | null; sheetId: string; pieces: number }[] = []
+    let pieceCount = 0
+
+    for (const item of items || []) {
+      const count = (item.qty_in_order || 0) + (item.stock_qty || 0)
+      if (count <= 0) continue
+
+      const size = sizes.get(item.banner_sku)
+      const widthIn = size?.width_in ? Number(size.width_in) : 0
+      const heightIn = size?.height_in ? Number(size.height_in) : 0
+      if (!widthIn || !heightIn) {
+        unsized.push({ sku: item.banner_sku, name: item.banner_name, sheetId: item.sheet_id, pieces: count })
+        continue
+      }
+
+      sized.push({ item, count, widthIn, heightIn })
+      pieceCount += count
+    }
+
+    // Checked before the pieces are built, so a huge quantity is rejected cheaply
+    if (pieceCount > MAX_NESTING_PIECES) {
+      return NextResponse.json(
+        {
+          error: `These sheets have ${pieceCount} pieces; a layout can hold at most ${MAX_NESTING_PIECES}. Select fewer sheets.`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const pieces: NestingPiece[] = []
+    for (const { item, count, widthIn, heightIn } of sized) {
+      for (let n = 1; n <= count; n++) {
+        pieces.push({
+          id: `${item.id}:${n}`,
+          sku: item.banner_sku,
+          label: `${jobNumbers.get(item.sheet_id)} · ${n}/${count}`,
+          widthIn,
+          heightIn,
+        })
+      }
+    }
+
+    return NextResponse.json({
+      sheets,
+      layout: planNesting(pieces, options),
+      unsized,
+    })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to plan layout" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,118 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { planReorder } from "@/lib/reorder-planner"
+import { createDraftSheet } from "@/lib/draft-sheets"
+
+/**
+ * GET /api/sheets/reorder
+ * Products at or below their reorder point, grouped by the template each
+ * draft sheet would use
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json(
+        { error: "Only managers can plan restock sheets" },
+        { status: 403 }
+      )
+    }
+
+    const plan = await planReorder(supabase)
+    return NextResponse.json(plan)
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to plan restock" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/sheets/reorder
+ * Body: { templateIds?: string[] }
+ * Creates one draft sheet per template group (all groups when templateIds is
+ * left out) with stock_qty set to the suggested quantity. The plan is
+ * rebuilt here, so quantities already put on a sheet are not doubled.
+ */
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (!currentUser || currentUser.role !== "manager") {
+      return NextResponse.json(
+        { error: "Only managers can plan restock sheets" },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const templateIds: string[] | null = Array.isArray(body.templateIds) ? body.templateIds : null
+
+    const plan = await planReorder(supabase)
+    const groups = plan.groups.filter(
+      (group) => !templateIds || templateIds.includes(group.templateId)
+    )
+
+    if (groups.length === 0) {
+      return NextResponse.json(
+        { error: "Nothing to restock for the selected templates" },
+        { status: 400 }
+      )
+    }
+
+    const jobNumber = `RESTOCK-${new Date().toISOString().slice(0, 10).replace(/-/g, "")}`
+    const sheets: { id: string; templateName: string; items: number }[] = []
+
+    for (const group of groups) {
+      const sheet = await createDraftSheet(supabase, {
+        templateId: group.templateId,
+        jobNumber,
+        userId: user.id,
+        origin: "reorder",
+        items: group.lines.map((line) => ({
+          bannerSku: line.sku,
+          bannerName: line.name,
+          imageUrl: line.imageUrl,
+          qtyInOrder: 0,
+          stockQty: line.suggestedQty,
+        })),
+      })
+      sheets.push({ id: sheet.id, templateName: group.templateName, items: group.lines.length })
+    }
+
+    return NextResponse.json({ sheets, unmatched: plan.unmatched })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to create restock sheets" },
+      { status: 500 }
+    )
+  }
+}
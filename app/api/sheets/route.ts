@@ -1,5 +1,7 @@
 import { createClient } from "@/lib/supabase/server"
 import { NextResponse } from "next/server"
+import { createDraftSheet } from "@/lib/draft-sheets"
+import { isSalesforceId } from "@/lib/salesforce/orders"
 
 export async function GET(request: Request) {
   try {
@@ -62,7 +64,7 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json()
-    const { templateId, jobNumber, items } = body
+    const { templateId, jobNumber, items, salesforceOrderId } = body
 
     if (!templateId) {
       return NextResponse.json(
@@ -71,50 +73,27 @@ export async function POST(request: Request) {
       )
     }
 
-    // Create the sheet
-    const { data: sheet, error: sheetError } = await supabase
-      .from("production_sheets")
-      .insert({
-        template_id: templateId,
-        user_id: user.id,
-        job_number: jobNumber || null,
-        status: "draft",
-      })
-      .select()
-      .single()
-
-    if (sheetError) {
-      return NextResponse.json({ error: sheetError.message }, { status: 500 })
-    }
-
-    // Create sheet items if provided
-    if (items && items.length > 0) {
-      const sheetItems = items.map((item: any) => ({
-        sheet_id: sheet.id,
-        banner_sku: item.bannerSku,
-        banner_name: item.bannerName,
-        image_url: item.imageUrl,
-        qty_in_order: item.qtyInOrder || 0,
-        stock_qty: item.stockQty || 0,
-        custom_fields: item.customFields || {},
-      }))
-
-      const { error: itemsError } = await supabase
-        .from("sheet_items")
-        .insert(sheetItems)
-
-      if (itemsError) {
-        // Rollback sheet creation
-        await supabase.from("production_sheets").delete().eq("id", sheet.id)
-        return NextResponse.json({ error: itemsError.message }, { status: 500 })
-      }
+    if (salesforceOrderId && !isSalesforceId(salesforceOrderId)) {
+      return NextResponse.json(
+        { error: "Invalid Salesforce order id" },
+        { status: 400 }
+      )
     }
 
-    // Record analytics event
-    await supabase.from("analytics_events").insert({
-      sheet_id: sheet.id,
-      event_type: "created",
-      user_id: user.id,
+    const sheet = await createDraftSheet(supabase, {
+      templateId,
+      jobNumber,
+      userId: user.id,
+      origin: salesforceOrderId ? "salesforce" : "manual",
+      salesforceOrderId: salesforceOrderId || null,
+      items: (items || []).map((item: any) => ({
+        bannerSku: item.bannerSku,
+        bannerName: item.bannerName,
+        imageUrl: item.imageUrl,
+        qtyInOrder: item.qtyInOrder,
+        stockQty: item.stockQty,
+        customFields: item.customFields,
+      })),
     })
 
     return NextResponse.json({ sheet })
@@ -0,0 +1,96 @@
+import { createClient } from "@/lib/supabase/server"
+import { NextResponse } from "next/server"
+import { saveSheetPdfSnapshot } from "@/lib/sheet-pdf-snapshots"
+
+const REVERSAL_ERRORS: Record<string, { message: string; status: number }> = {
+  not_found: { message: "Work log not found", status: 404 },
+  forbidden: {
+    message: "Only the author of an entry or a manager can reverse it",
+    status: 403,
+  },
+  not_reversible: {
+    message: "Only completion entries can be reversed",
+    status: 400,
+  },
+  already_reversed: {
+    message: "This entry has already been reversed",
+    status: 409,
+  },
+}
+
+/**
+ * DELETE /api/work-logs/[id]
+ *
+ * Reverses a log_completion entry. The row is kept and stamped as reversed;
+ * the quantities it recorded are subtracted from the sheet items and item and
+ * job statuses are recomputed, all in one transaction (see migration 014).
+ * A job status change stores a printed version of the sheet.
+ *
+ * Body (optional): { reason }
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const reason =
+      typeof body?.reason === "string" && body.reason.trim()
+        ? body.reason.trim()
+        : null
+
+    const { data: result, error: rpcError } = await supabase.rpc(
+      "reverse_work_log",
+      { p_log_id: params.id, p_reason: reason }
+    )
+
+    if (rpcError) {
+      return NextResponse.json({ error: rpcError.message }, { status: 500 })
+    }
+
+    if (result?.error) {
+      const mapped = REVERSAL_ERRORS[result.error] || {
+        message: result.error,
+        status: 500,
+      }
+      return NextResponse.json({ error: mapped.message }, { status: mapped.status })
+    }
+
+    // Keep the sheet as printed at the transition; the reversal stands if this fails
+    if (result.to_status !== result.from_status) {
+      try {
+        await saveSheetPdfSnapshot(supabase, result.sheet_id, user.id)
+      } catch (snapshotError) {
+        console.error("Failed to store sheet PDF snapshot", result.sheet_id, snapshotError)
+      }
+    }
+
+    const { data: log, error: logError } = await supabase
+      .from("work_logs")
+      .select(
+        "*, users!work_logs_user_id_fkey(name, email), reverser:users!work_logs_reversed_by_fkey(name, email)"
+      )
+      .eq("id", params.id)
+      .single()
+
+    if (logError) {
+      return NextResponse.json({ error: logError.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ log })
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to reverse work log" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,7 @@
 import { createClient } from "@/lib/supabase/server"
 import { NextResponse } from "next/server"
+import { syncSheetStatusWithItems } from "@/lib/sheet-status"
+import { saveSheetPdfSnapshot } from "@/lib/sheet-pdf-snapshots"
 
 // GET /api/work-logs?sheet_id=xxx - List work logs for a sheet
 export async function GET(request: Request) {
@@ -22,7 +24,9 @@ export async function GET(request: Request) {
 
     const { data: logs, error } = await supabase
       .from("work_logs")
-      .select("*, users(name, email), work_log_photos(*)")
+      .select(
+        "*, users!work_logs_user_id_fkey(name, email), reverser:users!work_logs_reversed_by_fkey(name, email), work_log_photos(*)"
+      )
       .eq("sheet_id", sheetId)
       .order("created_at", { ascending: false })
 
@@ -53,8 +57,11 @@ export async function GET(request: Request) {
  *      work_type: "log_completion",
  *      hours?,
  *      notes?,
- *      items: [{ item_id, qty_completed }]
+ *      items: [{ item_id, qty_completed, expected_version? }]
  *    }
+ *    expected_version is the sheet_items.version the client last saw. If any
+ *    item has moved on since, nothing is written and a 409 is returned with
+ *    the fresh item rows.
  */
 export async function POST(request: Request) {
   try {
@@ -103,7 +110,7 @@ export async function POST(request: Request) {
           notes: "Started working",
           items_completed: [],
         })
-        .select("*, users(name, email)")
+        .select("*, users!work_logs_user_id_fkey(name, email)")
         .single()
 
       if (logError) {
@@ -111,7 +118,7 @@ export async function POST(request: Request) {
       }
 
       // Update job status
-      await updateJobStatus(supabase, sheet_id)
+      await updateJobStatus(supabase, sheet_id, user.id)
 
       return NextResponse.json({ log })
     }
@@ -127,121 +134,75 @@ export async function POST(request: Request) {
         )
       }
 
-      // Process each item: calculate qty splits and update status
-      const completionDetails: any[] = []
-
       for (const entry of items) {
-        const { item_id, qty_completed } = entry
-
-        if (!item_id || qty_completed === undefined || qty_completed === null) {
-          continue
+        const qty = entry?.qty_completed
+        if (!entry?.item_id || !Number.isInteger(qty) || qty <= 0) {
+          return NextResponse.json(
+            { error: "Each item needs an item_id and a positive whole qty_completed" },
+            { status: 400 }
+          )
         }
+      }
 
-        // Fetch current item state
-        const { data: item, error: fetchError } = await supabase
-          .from("sheet_items")
-          .select("*")
-          .eq("id", item_id)
-          .single()
-
-        if (fetchError || !item) continue
-
-        const qtyInOrder = item.qty_in_order || 0
-        const stockQty = item.stock_qty || 0
-        const prevOrderCompleted = item.qty_in_order_completed || 0
-        const prevStockCompleted = item.stock_qty_completed || 0
-
-        // Calculate how to split the new qty_completed
-        // Priority: fill qty_in_order first, then stock_qty
-        const orderRemaining = Math.max(0, qtyInOrder - prevOrderCompleted)
-        const stockRemaining = Math.max(0, stockQty - prevStockCompleted)
-
-        const addToOrder = Math.min(qty_completed, orderRemaining)
-        const addToStock = Math.min(qty_completed - addToOrder, stockRemaining)
-
-        const newOrderCompleted = prevOrderCompleted + addToOrder
-        const newStockCompleted = prevStockCompleted + addToStock
-
-        // Determine new item status
-        const orderDone = newOrderCompleted >= qtyInOrder
-        const stockDone = newStockCompleted >= stockQty
-        let newStatus: string
-
-        if (orderDone && stockDone) {
-          newStatus = "complete"
-        } else {
-          newStatus = "partially_complete"
+      // Split, item status, work log insert and job status all happen in one
+      // transaction on the database side (see migration 013), which returns the
+      // job status before and after (migration 033)
+      const { data: result, error: rpcError } = await supabase.rpc(
+        "log_work_completion",
+        {
+          p_sheet_id: sheet_id,
+          p_items: items.map((entry: any) => ({
+            item_id: entry.item_id,
+            qty_completed: entry.qty_completed,
+            expected_version: entry.expected_version ?? null,
+          })),
+          p_hours: hours || null,
+          p_notes: notes || null,
         }
+      )
 
-        // Update the sheet_item
-        const { error: updateError } = await supabase
-          .from("sheet_items")
-          .update({
-            qty_in_order_completed: newOrderCompleted,
-            stock_qty_completed: newStockCompleted,
-            status: newStatus,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", item_id)
+      if (rpcError) {
+        return NextResponse.json({ error: rpcError.message }, { status: 500 })
+      }
 
-        if (updateError) {
-          console.error("Failed to update item", item_id, updateError)
-        }
+      if (result?.conflict) {
+        return NextResponse.json(
+          {
+            error: "This product was updated by someone else. Check the latest quantities and try again.",
+            items: result.items || [],
+          },
+          { status: 409 }
+        )
+      }
 
-        completionDetails.push({
-          item_id,
-          qty_completed,
-          qty_in_order_completed: newOrderCompleted,
-          stock_qty_completed: newStockCompleted,
-          status: newStatus,
-        })
+      // Keep the sheet as printed at the transition; the log stands if this fails
+      if (result.to_status !== result.from_status) {
+        try {
+          await saveSheetPdfSnapshot(supabase, sheet_id, user.id)
+        } catch (snapshotError) {
+          console.error("Failed to store sheet PDF snapshot", sheet_id, snapshotError)
+        }
       }
 
-      // Create the work log entry
       const { data: log, error: logError } = await supabase
         .from("work_logs")
-        .insert({
-          sheet_id,
-          user_id: user.id,
-          work_type: "log_completion",
-          hours: hours || null,
-          notes: notes || null,
-          items_completed: completionDetails,
-        })
-        .select("*, users(name, email)")
+        .select("*, users!work_logs_user_id_fkey(name, email)")
+        .eq("id", result.log_id)
         .single()
 
       if (logError) {
         return NextResponse.json({ error: logError.message }, { status: 500 })
       }
 
-      // Update job status
-      await updateJobStatus(supabase, sheet_id)
-
       return NextResponse.json({ log })
     }
 
-    // ── LEGACY / FALLBACK (old-style log without work_type) ───
-    const { hours, notes, items_completed } = body
-
-    const { data: log, error } = await supabase
-      .from("work_logs")
-      .insert({
-        sheet_id,
-        user_id: user.id,
-        hours: hours || null,
-        notes: notes || null,
-        items_completed: items_completed || [],
-        work_type: "log_completion",
-      })
-      .select("*, users(name, email)")
-      .single()
-
-    if (error) {
-      return NextResponse.json({ error: error.message }, { status: 500 })
-    }
-
-    return NextResponse.json({ log })
+    // Completions only go through log_work_completion, which computes the
+    // quantities (and stock) itself
+    return NextResponse.json(
+      { error: "work_type must be start_working or log_completion" },
+      { status: 400 }
+    )
   } catch (error: any) {
     return NextResponse.json(
       { error: error.message || "Failed to create work log" },
@@ -251,47 +212,16 @@ export async function POST(request: Request) {
 }
 
 /**
- * Helper: recalculate job status from product statuses.
+ * Helper: recalculate job status from product statuses, and store the
+ * sheet's printed version when it changes.
+ * The rules and allowed transitions live in lib/sheet-status.ts;
+ * public.refresh_sheet_status applies the same ones inside the
+ * log_completion transaction.
  */
-async function updateJobStatus(supabase: any, sheetId: string) {
+async function updateJobStatus(supabase: any, sheetId: string, userId: string) {
   try {
-    const { data: items } = await supabase
-      .from("sheet_items")
-      .select("id, status")
-      .eq("sheet_id", sheetId)
-
-    if (!items || items.length === 0) return
-
-    const allComplete = items.every((i: any) => i.status === "complete")
-    const anyStarted = items.some(
-      (i: any) =>
-        i.status === "working" ||
-        i.status === "partially_complete" ||
-        i.status === "complete"
-    )
-
-    let newStatus: string | null = null
-
-    if (allComplete) {
-      newStatus = "completed"
-    } else if (anyStarted) {
-      newStatus = "production_started"
-    }
-
-    if (newStatus) {
-      const updates: any = {
-        status: newStatus,
-        updated_at: new Date().toISOString(),
-      }
-      if (newStatus === "completed") {
-        updates.completed_at = new Date().toISOString()
-      }
-
-      await supabase
-        .from("production_sheets")
-        .update(updates)
-        .eq("id", sheetId)
-    }
+    const newStatus = await syncSheetStatusWithItems(supabase, sheetId, userId)
+    if (newStatus) await saveSheetPdfSnapshot(supabase, sheetId, userId)
   } catch (err) {
     console.error("Failed to update job status", err)
   }
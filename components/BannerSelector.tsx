@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Search, Loader2 } from "lucide-react"
+import { ProductThumbnail } from "@/components/ProductThumbnail"
 
 interface Banner {
   id: string
@@ -17,6 +18,12 @@ interface Banner {
   product_code: string
   category: string
   image_url?: string
+  thumbnail_url?: string | null
+  stock_min?: number | null
+  stock_max?: number | null
+  on_hand?: number
+  in_production?: number
+  suggested_stock_qty?: number
 }
 
 interface BannerSelectorProps {
@@ -118,6 +125,7 @@ export function BannerSelector({
       const params = new URLSearchParams({
         page: pageNum.toString(),
         limit: PAGE_SIZE.toString(),
+        includeStock: "true",
       })
       if (debouncedSearch) params.set("search", debouncedSearch)
       if (categoryFilter && categoryFilter !== "all") params.set("category", categoryFilter)
@@ -252,14 +260,12 @@ export function BannerSelector({
                   >
                     {banner.image_url && (
                       <div className="w-full h-32 mb-2 rounded border bg-gray-100 flex items-center justify-center overflow-hidden">
-                        <img
-                          src={banner.image_url}
+                        <ProductThumbnail
+                          thumbnailUrl={banner.thumbnail_url}
+                          imageUrl={banner.image_url}
                           alt={banner.sku}
                           className="max-w-full max-h-full object-contain"
                           loading="lazy"
-                          onError={(e) => {
-                            e.currentTarget.style.display = 'none'
-                          }}
                         />
                       </div>
                     )}
@@ -279,6 +285,23 @@ export function BannerSelector({
                             {banner.category}
                           </div>
                         )}
+                        {banner.on_hand !== undefined && (
+                          <div className="text-xs mt-1">
+                            <span className="text-muted-foreground">On hand: </span>
+                            <span className="font-medium">{banner.on_hand}</span>
+                            {banner.stock_min != null && (
+                              <span className="text-muted-foreground">
+                                {" "}· Min {banner.stock_min}
+                                {banner.stock_max != null ? ` / Max ${banner.stock_max}` : ""}
+                              </span>
+                            )}
+                            {!!banner.suggested_stock_qty && (
+                              <div className="text-orange-600 font-medium">
+                                Suggested stock: {banner.suggested_stock_qty}
+                              </div>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
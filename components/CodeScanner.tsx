@@ -0,0 +1,166 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import jsQR from "jsqr"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { CameraOff } from "lucide-react"
+
+interface CodeScannerProps {
+  /** Called with the raw text of a scanned or typed code */
+  onCode: (text: string) => void
+  /** Pause the camera while the parent is busy handling a code */
+  paused?: boolean
+}
+
+const SCAN_INTERVAL_MS = 250
+/** Ignore the same code for a while so one scan is not reported repeatedly */
+const REPEAT_DELAY_MS = 3000
+
+/**
+ * Camera QR scanner with a manual entry fallback.
+ *
+ * Uses the browser's BarcodeDetector where available (Chrome, Android) and
+ * falls back to decoding video frames with jsQR everywhere else.
+ */
+export function CodeScanner({ onCode, paused = false }: CodeScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const onCodeRef = useRef(onCode)
+  const [cameraError, setCameraError] = useState<string | null>(null)
+  const [manualCode, setManualCode] = useState("")
+
+  onCodeRef.current = onCode
+
+  useEffect(() => {
+    if (paused) return
+
+    let stream: MediaStream | null = null
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let cancelled = false
+    let lastCode: { text: string; at: number } | null = null
+
+    const BarcodeDetectorCtor = (window as any).BarcodeDetector
+    const detector = BarcodeDetectorCtor ? new BarcodeDetectorCtor({ formats: ["qr_code"] }) : null
+
+    const detect = async (video: HTMLVideoElement): Promise<string | null> => {
+      if (detector) {
+        const codes = await detector.detect(video)
+        return codes.length > 0 ? codes[0].rawValue : null
+      }
+
+      const canvas = canvasRef.current
+      const context = canvas?.getContext("2d", { willReadFrequently: true })
+      if (!canvas || !context || !video.videoWidth) return null
+
+      canvas.width = video.videoWidth
+      canvas.height = video.videoHeight
+      context.drawImage(video, 0, 0, canvas.width, canvas.height)
+      const frame = context.getImageData(0, 0, canvas.width, canvas.height)
+      return jsQR(frame.data, frame.width, frame.height)?.data || null
+    }
+
+    const scan = async () => {
+      const video = videoRef.current
+      if (cancelled || !video) return
+
+      try {
+        if (video.readyState >= video.HAVE_CURRENT_DATA) {
+          const text = await detect(video)
+          const now = Date.now()
+          if (text && !cancelled && (!lastCode || text !== lastCode.text || now - lastCode.at > REPEAT_DELAY_MS)) {
+            lastCode = { text, at: now }
+            onCodeRef.current(text)
+          }
+        }
+      } catch (error) {
+        console.error("QR detection failed", error)
+      }
+
+      timer = setTimeout(scan, SCAN_INTERVAL_MS)
+    }
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError("Camera is not available in this browser. Enter the code below.")
+        return
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" },
+          audio: false,
+        })
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop())
+          return
+        }
+
+        const video = videoRef.current
+        if (!video) return
+        video.srcObject = stream
+        await video.play()
+        setCameraError(null)
+        scan()
+      } catch {
+        setCameraError("Camera access was denied or is unavailable. Enter the code below.")
+      }
+    }
+
+    start()
+
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [paused])
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!manualCode.trim()) return
+    onCode(manualCode.trim())
+    setManualCode("")
+  }
+
+  return (
+    <div className="space-y-4">
+      {cameraError ? (
+        <div className="flex flex-col items-center justify-center gap-2 rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+          <CameraOff className="h-6 w-6" />
+          {cameraError}
+        </div>
+      ) : (
+        <div className="relative overflow-hidden rounded-lg bg-black aspect-square">
+          <video
+            ref={videoRef}
+            className="h-full w-full object-cover"
+            muted
+            playsInline
+          />
+          <div className="pointer-events-none absolute inset-8 rounded-lg border-2 border-white/80" />
+        </div>
+      )}
+      <canvas ref={canvasRef} className="hidden" />
+
+      <form onSubmit={handleManualSubmit} className="space-y-2">
+        <Label htmlFor="manualCode">Or enter the code printed under the QR</Label>
+        <div className="flex gap-2">
+          <Input
+            id="manualCode"
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            placeholder="e.g. 1A2B3C4D-5E6F7A8B"
+            autoComplete="off"
+            autoCapitalize="characters"
+            className="font-mono"
+          />
+          <Button type="submit" disabled={!manualCode.trim()}>
+            Go
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,254 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Loader2, Ruler, Download, RefreshCw } from "lucide-react"
+import type { MaterialReport, SubstrateType } from "@/lib/material-report"
+
+interface MaterialReportCardProps {
+  /** Report route, e.g. /api/sheets/[id]/materials */
+  endpoint: string
+  /** Extra query parameters sent with every request (date range) */
+  query?: Record<string, string>
+  title?: string
+  description?: string
+  className?: string
+}
+
+const SUBSTRATE_DEFAULTS: Record<SubstrateType, { width: string; length: string }> = {
+  roll: { width: "60", length: "150" },
+  sheet: { width: "48", length: "96" },
+}
+
+function formatNumber(value: number) {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+export function MaterialReportCard({
+  endpoint,
+  query,
+  title = "Material Requirements",
+  description = "Square footage and substrate needed to print these items",
+  className,
+}: MaterialReportCardProps) {
+  const [report, setReport] = useState<MaterialReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [waste, setWaste] = useState("10")
+  const [substrate, setSubstrate] = useState<SubstrateType>("roll")
+  const [width, setWidth] = useState(SUBSTRATE_DEFAULTS.roll.width)
+  const [length, setLength] = useState(SUBSTRATE_DEFAULTS.roll.length)
+
+  const buildParams = (extra: Record<string, string> = {}) =>
+    new URLSearchParams({ ...query, waste, substrate, width, length, ...extra })
+
+  const queryKey = JSON.stringify(query || {})
+
+  useEffect(() => {
+    fetchReport()
+  }, [endpoint, queryKey, substrate])
+
+  const fetchReport = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`${endpoint}?${buildParams()}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load material report")
+      setReport(data.report)
+    } catch (error: any) {
+      setError(error.message || "Failed to load material report")
+      setReport(null)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const changeSubstrate = (value: SubstrateType) => {
+    setSubstrate(value)
+    setWidth(SUBSTRATE_DEFAULTS[value].width)
+    setLength(SUBSTRATE_DEFAULTS[value].length)
+  }
+
+  const unitLabel = (report?.options.substrate || substrate) === "roll" ? "rolls" : "sheets"
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Ruler className="h-4 w-4" />
+              {title}
+            </CardTitle>
+            <CardDescription>{description}</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`${endpoint}?${buildParams({ format: "csv" })}`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+          <div>
+            <Label className="text-xs text-muted-foreground">Waste (%)</Label>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={waste}
+              onChange={(e) => setWaste(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label className="text-xs text-muted-foreground">Substrate</Label>
+            <Select value={substrate} onValueChange={(value) => changeSubstrate(value as SubstrateType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="roll">Roll</SelectItem>
+                <SelectItem value="sheet">Sheet</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs text-muted-foreground">Width (in)</Label>
+            <Input type="number" min={1} value={width} onChange={(e) => setWidth(e.target.value)} />
+          </div>
+          <div>
+            <Label className="text-xs text-muted-foreground">
+              {substrate === "roll" ? "Roll length (ft)" : "Sheet height (in)"}
+            </Label>
+            <Input type="number" min={1} value={length} onChange={(e) => setLength(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={fetchReport} disabled={loading}>
+            {loading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Recalculate
+          </Button>
+        </div>
+
+        {loading && !report ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-8 text-muted-foreground">{error}</div>
+        ) : report && report.totals.pieces === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No pieces to print</div>
+        ) : report ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <div className="text-xs text-muted-foreground">Pieces</div>
+                <div className="text-2xl font-bold">{formatNumber(report.totals.pieces)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">Square feet</div>
+                <div className="text-2xl font-bold">{formatNumber(report.totals.squareFeet)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">
+                  With {formatNumber(report.options.wasteFactor * 100)}% waste
+                </div>
+                <div className="text-2xl font-bold">{formatNumber(report.totals.squareFeetWithWaste)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">
+                  Substrate ({formatNumber(report.totals.substrateSquareFeet)} sq ft each)
+                </div>
+                <div className="text-2xl font-bold">
+                  {report.totals.substrateCount} {unitLabel}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatNumber(report.totals.substrateUnits)} {unitLabel} by area
+                </div>
+              </div>
+            </div>
+
+            {report.sizes.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Size</TableHead>
+                    <TableHead className="text-right">Pieces</TableHead>
+                    <TableHead className="text-right">Sq ft</TableHead>
+                    <TableHead>SKUs</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.sizes.map((group) => (
+                    <TableRow key={`${group.widthIn}x${group.heightIn}`}>
+                      <TableCell className="whitespace-nowrap">
+                        {formatNumber(group.widthIn)}&quot; × {formatNumber(group.heightIn)}&quot;
+                        {group.oversized && (
+                          <Badge variant="outline" className="ml-2 text-xs text-orange-600">
+                            Wider than substrate
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{group.pieces}</TableCell>
+                      <TableCell className="text-right">{formatNumber(group.squareFeet)}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground font-mono">
+                        {group.skus.join(", ")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {report.materials.length > 1 && (
+              <div className="flex flex-wrap gap-2 text-sm">
+                {report.materials.map((group) => (
+                  <Badge key={group.material} variant="secondary">
+                    {group.material}: {group.pieces} pcs · {formatNumber(group.squareFeet)} sq ft
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            {report.unsized.length > 0 && (
+              <div className="rounded-md border border-orange-200 bg-orange-50 p-3 text-sm">
+                <div className="font-medium text-orange-800">
+                  {report.unsized.length} SKU{report.unsized.length !== 1 ? "s" : ""} without a size
+                  are not counted
+                </div>
+                <div className="text-orange-700 text-xs mt-1">
+                  {report.unsized.map((item) => `${item.sku} (${item.pieces})`).join(", ")}. Set their
+                  size in Products → Attribute Review.
+                </div>
+              </div>
+            )}
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -31,6 +31,7 @@ interface SheetDetail {
   production_start_date: string | null
   estimated_completion_date: string | null
   completed_at: string | null
+  status_reason: string | null
   sheet_templates: {
     name: string
     field_definitions?: any[]
@@ -65,7 +66,10 @@ interface WorkLog {
   item_id: string | null
   items_completed: any[]
   created_at: string
+  reversed_at: string | null
+  reversal_reason: string | null
   users: { name: string | null; email: string } | null
+  reverser: { name: string | null; email: string } | null
   work_log_photos: WorkLogPhoto[]
 }
 
@@ -82,7 +86,9 @@ const JOB_STATUS: Record<string, { bg: string; text: string; label: string }> =
   draft: { bg: "bg-gray-100", text: "text-gray-800", label: "Draft" },
   in_production: { bg: "bg-blue-100", text: "text-blue-800", label: "In Production" },
   production_started: { bg: "bg-yellow-100", text: "text-yellow-800", label: "Started" },
+  on_hold: { bg: "bg-orange-100", text: "text-orange-800", label: "On Hold" },
   completed: { bg: "bg-green-100", text: "text-green-800", label: "Completed" },
+  cancelled: { bg: "bg-red-100", text: "text-red-800", label: "Cancelled" },
 }
 
 function Badge({ status, map }: { status: string; map: Record<string, { bg: string; text: string; label: string }> }) {
@@ -163,7 +169,9 @@ export function OrderDetailsDrawer({ sheetId, open, onOpenChange }: OrderDetails
 
   const totalItems = items.length
   const completedItems = items.filter((i) => i.status === "complete").length
-  const totalHours = logs.reduce((sum, l) => sum + (l.hours || 0), 0)
+  const totalHours = logs
+    .filter((l) => !l.reversed_at)
+    .reduce((sum, l) => sum + (l.hours || 0), 0)
 
   // ── Render ──────────────────────────────────────────────────
 
@@ -221,6 +229,15 @@ export function OrderDetailsDrawer({ sheetId, open, onOpenChange }: OrderDetails
                 )}
               </SheetDescription>
 
+              {sheet.status_reason && (sheet.status === "on_hold" || sheet.status === "cancelled") && (
+                <p className="text-sm text-muted-foreground">
+                  <span className="font-medium">
+                    {sheet.status === "on_hold" ? "On hold" : "Cancelled"}:
+                  </span>{" "}
+                  {sheet.status_reason}
+                </p>
+              )}
+
               {/* Summary stats */}
               <div className="flex flex-wrap gap-4 mt-2 pt-2">
                 <div className="flex items-center gap-2 text-sm">
@@ -332,6 +349,7 @@ export function OrderDetailsDrawer({ sheetId, open, onOpenChange }: OrderDetails
                   const isExpanded = expandedLog === log.id
                   const logItem = getItemForLog(log)
                   const isStart = log.work_type === "start_working"
+                  const isReversed = !!log.reversed_at
 
                   return (
                     <div key={log.id} className="border rounded-lg overflow-hidden">
@@ -343,11 +361,16 @@ export function OrderDetailsDrawer({ sheetId, open, onOpenChange }: OrderDetails
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center gap-2 text-sm">
                             <User className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
-                            <span className="font-medium truncate">
+                            <span className={`font-medium truncate ${isReversed ? "line-through text-muted-foreground" : ""}`}>
                               {log.users?.name || log.users?.email || "Unknown"}
                             </span>
+                            {isReversed && (
+                              <span className="inline-flex items-center rounded-full bg-red-100 text-red-800 px-2 py-0.5 text-xs font-semibold">
+                                Reversed
+                              </span>
+                            )}
                           </div>
-                          <div className="flex flex-wrap gap-x-3 gap-y-0.5 mt-1 text-xs text-muted-foreground">
+                          <div className={`flex flex-wrap gap-x-3 gap-y-0.5 mt-1 text-xs text-muted-foreground ${isReversed ? "line-through" : ""}`}>
                             <span>{new Date(log.created_at).toLocaleString()}</span>
                             {isStart ? (
                               <span className="text-yellow-700 font-medium">
@@ -395,6 +418,18 @@ export function OrderDetailsDrawer({ sheetId, open, onOpenChange }: OrderDetails
                       {/* Expanded details */}
                       {isExpanded && (
                         <div className="border-t p-3 space-y-3 bg-muted/10">
+                          {isReversed && (
+                            <div>
+                              <p className="text-xs font-medium text-muted-foreground mb-0.5">Reversed</p>
+                              <p className="text-sm">
+                                {new Date(log.reversed_at!).toLocaleString()}
+                                {log.reverser && ` by ${log.reverser.name || log.reverser.email}`}
+                              </p>
+                              {log.reversal_reason && (
+                                <p className="text-sm text-muted-foreground whitespace-pre-wrap">{log.reversal_reason}</p>
+                              )}
+                            </div>
+                          )}
                           {log.hours != null && log.hours > 0 && (
                             <div>
                               <p className="text-xs font-medium text-muted-foreground mb-0.5">Hours Worked</p>
@@ -418,8 +453,10 @@ export function OrderDetailsDrawer({ sheetId, open, onOpenChange }: OrderDetails
                                       <span className="inline-flex items-center rounded-full bg-green-100 text-green-800 px-2 py-0.5 text-xs font-medium">
                                         {itm?.banner_sku || ic.item_id?.slice(0, 8)}
                                       </span>
-                                      <span>+{ic.qty_completed} completed</span>
-                                      {ic.status === "complete" && (
+                                      <span className={isReversed ? "line-through text-muted-foreground" : ""}>
+                                        +{ic.qty_completed} completed
+                                      </span>
+                                      {ic.status === "complete" && !isReversed && (
                                         <span className="text-green-600 text-xs font-medium">(Done!)</span>
                                       )}
                                     </div>
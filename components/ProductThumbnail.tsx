@@ -0,0 +1,48 @@
+"use client"
+
+import { useEffect, useState, type ReactNode } from "react"
+
+interface ProductThumbnailProps {
+  /** Cached copy in storage (lib/product-images.ts), when there is one */
+  thumbnailUrl?: string | null
+  imageUrl?: string | null
+  alt: string
+  className?: string
+  loading?: "lazy" | "eager"
+  /** Shown when there is no image or none of the URLs load */
+  fallback?: ReactNode
+}
+
+/**
+ * Product image that loads the cached thumbnail first and falls back to the
+ * original image URL if the thumbnail is missing or fails
+ */
+export function ProductThumbnail({
+  thumbnailUrl,
+  imageUrl,
+  alt,
+  className,
+  loading,
+  fallback = null,
+}: ProductThumbnailProps) {
+  const sources = [thumbnailUrl, imageUrl].filter((src): src is string => !!src)
+  const [index, setIndex] = useState(0)
+
+  // Start over when the product changes
+  useEffect(() => {
+    setIndex(0)
+  }, [thumbnailUrl, imageUrl])
+
+  if (index >= sources.length) return <>{fallback}</>
+
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={sources[index]}
+      alt={alt}
+      className={className}
+      loading={loading}
+      onError={() => setIndex(i => i + 1)}
+    />
+  )
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import { useMemo } from "react"
+import { getQrModules } from "@/lib/scan-codes"
+
+interface QrCodeProps {
+  value: string
+  /** Rendered width/height in pixels */
+  size?: number
+  className?: string
+}
+
+/**
+ * QR code drawn as an SVG, so it prints sharply at any size
+ */
+export function QrCode({ value, size = 96, className }: QrCodeProps) {
+  const { path, count } = useMemo(() => {
+    const modules = getQrModules(value)
+    let d = ""
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) d += `M${x} ${y}h1v1h-1z`
+      })
+    })
+    return { path: d, count: modules.length }
+  }, [value])
+
+  // Four-module quiet zone on every side
+  const quiet = 4
+  const viewSize = count + quiet * 2
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`${-quiet} ${-quiet} ${viewSize} ${viewSize}`}
+      className={className}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code"
+    >
+      <rect x={-quiet} y={-quiet} width={viewSize} height={viewSize} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  )
+}
@@ -0,0 +1,170 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2 } from "lucide-react"
+import type { ReorderPlan } from "@/lib/reorder-planner"
+
+interface ReorderPlannerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Called after draft sheets were created */
+  onCreated: () => void
+}
+
+export function ReorderPlanner({ open, onOpenChange, onCreated }: ReorderPlannerProps) {
+  const [plan, setPlan] = useState<ReorderPlan | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (open) fetchPlan()
+  }, [open])
+
+  const fetchPlan = async () => {
+    setLoading(true)
+    setPlan(null)
+    try {
+      const response = await fetch("/api/sheets/reorder")
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to plan restock")
+      setPlan(data)
+      setSelected(new Set((data.groups || []).map((group: any) => group.templateId)))
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to plan restock",
+        variant: "destructive",
+      })
+      onOpenChange(false)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleGroup = (templateId: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(templateId)
+      else next.delete(templateId)
+      return next
+    })
+  }
+
+  const createSheets = async () => {
+    setCreating(true)
+    try {
+      const response = await fetch("/api/sheets/reorder", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ templateIds: Array.from(selected) }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to create restock sheets")
+
+      toast({
+        title: "Restock sheets created",
+        description: `${data.sheets.length} draft sheet${data.sheets.length !== 1 ? "s" : ""} ready for review`,
+      })
+      onOpenChange(false)
+      onCreated()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create restock sheets",
+        variant: "destructive",
+      })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const groups = plan?.groups || []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Plan Restock</DialogTitle>
+          <DialogDescription>
+            Products whose stock on hand plus stock on open sheets is at or below their min.
+            One draft sheet is created per template, with the stock qty filled in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : groups.length === 0 && (plan?.unmatched.length || 0) === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              Every product is above its min. Set reorder points in Products → Inventory.
+            </div>
+          ) : (
+            <>
+              {groups.map((group) => (
+                <div key={group.templateId} className="border rounded-lg p-4">
+                  <label className="flex items-center gap-3 cursor-pointer mb-3">
+                    <Checkbox
+                      checked={selected.has(group.templateId)}
+                      onCheckedChange={(checked) => toggleGroup(group.templateId, checked === true)}
+                    />
+                    <span className="font-semibold">{group.templateName}</span>
+                    <span className="text-sm text-muted-foreground">
+                      {group.lines.length} product{group.lines.length !== 1 ? "s" : ""}
+                    </span>
+                  </label>
+                  <div className="space-y-1 text-sm">
+                    {group.lines.map((line) => (
+                      <div key={line.sku} className="flex items-baseline gap-3">
+                        <span className="font-mono w-40 truncate">{line.sku}</span>
+                        <span className="text-muted-foreground flex-1 truncate">{line.name || ""}</span>
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {line.onHand} on hand
+                          {line.inProduction > 0 ? ` + ${line.inProduction} on sheets` : ""} · min{" "}
+                          {line.stockMin}
+                          {line.stockMax != null ? ` / max ${line.stockMax}` : ""}
+                        </span>
+                        <span className="font-semibold w-16 text-right">+{line.suggestedQty}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              {plan && plan.unmatched.length > 0 && (
+                <div className="rounded-md border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800">
+                  No template takes these products, so they are left out:{" "}
+                  {plan.unmatched.map((line) => `${line.sku} (+${line.suggestedQty})`).join(", ")}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={createSheets} disabled={creating || loading || selected.size === 0}>
+            {creating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create {selected.size} Draft Sheet{selected.size !== 1 ? "s" : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,233 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/hooks/use-toast"
+import { ArrowLeft, Loader2, Search } from "lucide-react"
+
+interface OrderSummary {
+  id: string
+  orderNumber: string
+  status: string | null
+  effectiveDate: string | null
+  poNumber: string | null
+  accountName: string | null
+  sheets: { id: string; job_number: string | null; status: string }[]
+}
+
+export interface ImportedSalesforceOrder {
+  order: {
+    id: string
+    orderNumber: string
+    accountName: string | null
+    url: string
+  }
+  /** Catalog products with qtyInOrder and stock info, as the new-sheet page keeps them */
+  banners: any[]
+  unmatched: { sku: string | null; name: string | null; quantity: number; reason: "no_sku" | "not_in_catalog" }[]
+  sheets: { id: string; job_number: string | null; status: string }[]
+}
+
+interface SalesforceOrderImportProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImport: (imported: ImportedSalesforceOrder) => void
+}
+
+export function SalesforceOrderImport({ open, onOpenChange, onImport }: SalesforceOrderImportProps) {
+  const [orders, setOrders] = useState<OrderSummary[]>([])
+  const [search, setSearch] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [preview, setPreview] = useState<ImportedSalesforceOrder | null>(null)
+  const [loadingOrderId, setLoadingOrderId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (open) {
+      setPreview(null)
+      fetchOrders("")
+    }
+  }, [open])
+
+  // Every search is a Salesforce query, so it runs on submit rather than per keystroke
+  const fetchOrders = async (term: string) => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams()
+      if (term.trim()) params.set("search", term.trim())
+      const response = await fetch(`/api/salesforce/orders?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load Salesforce orders")
+      setOrders(data.orders || [])
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load Salesforce orders",
+        variant: "destructive",
+      })
+      onOpenChange(false)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectOrder = async (orderId: string) => {
+    setLoadingOrderId(orderId)
+    try {
+      const response = await fetch(`/api/salesforce/orders/${orderId}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load Salesforce order")
+      setPreview(data)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load Salesforce order",
+        variant: "destructive",
+      })
+    } finally {
+      setLoadingOrderId(null)
+    }
+  }
+
+  const handleImport = () => {
+    if (!preview) return
+    onImport(preview)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            {preview ? `Order ${preview.order.orderNumber}` : "Import Salesforce Order"}
+          </DialogTitle>
+          <DialogDescription>
+            {preview
+              ? "Items are matched to the catalog by SKU. Review them before adding them to the sheet."
+              : "Open orders from Salesforce. The order number becomes the job number."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview ? (
+          <div className="flex-1 overflow-y-auto space-y-4">
+            {preview.sheets.length > 0 && (
+              <div className="rounded-md border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800">
+                This order is already on{" "}
+                {preview.sheets.map((sheet) => `${sheet.job_number || "a sheet"} (${sheet.status})`).join(", ")}.
+              </div>
+            )}
+
+            {preview.banners.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                None of the order items match an active product in the catalog.
+              </div>
+            ) : (
+              <div className="space-y-1 text-sm">
+                {preview.banners.map((banner) => (
+                  <div key={banner.sku} className="flex items-baseline gap-3">
+                    <span className="font-mono w-40 truncate">{banner.sku}</span>
+                    <span className="text-muted-foreground flex-1 truncate">{banner.name}</span>
+                    <span className="font-semibold w-16 text-right">{banner.qtyInOrder}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {preview.unmatched.length > 0 && (
+              <div className="rounded-md border border-orange-200 bg-orange-50 p-3 text-sm text-orange-800">
+                <div className="font-medium mb-1">Not added:</div>
+                {preview.unmatched.map((line, index) => (
+                  <div key={index}>
+                    {line.sku || line.name || "Unknown product"} × {line.quantity} —{" "}
+                    {line.reason === "no_sku" ? "no SKU in Salesforce" : "not an active catalog product"}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            <form
+              className="relative"
+              onSubmit={(e) => {
+                e.preventDefault()
+                fetchOrders(search)
+              }}
+            >
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by order number, account or PO number and press Enter..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+            </form>
+
+            <div className="flex-1 overflow-y-auto">
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                </div>
+              ) : orders.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">No open orders found</div>
+              ) : (
+                <div className="space-y-2">
+                  {orders.map((order) => (
+                    <button
+                      key={order.id}
+                      type="button"
+                      onClick={() => selectOrder(order.id)}
+                      disabled={loadingOrderId !== null}
+                      className="w-full text-left border rounded-lg p-3 hover:bg-muted transition-colors disabled:opacity-50"
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">{order.orderNumber}</span>
+                        {order.status && <Badge variant="outline">{order.status}</Badge>}
+                        {order.sheets.length > 0 && <Badge variant="secondary">On a sheet</Badge>}
+                        {loadingOrderId === order.id && <Loader2 className="h-4 w-4 animate-spin ml-auto" />}
+                      </div>
+                      <div className="text-sm text-muted-foreground mt-1">
+                        {[order.accountName, order.poNumber && `PO ${order.poNumber}`, order.effectiveDate]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          {preview ? (
+            <>
+              <Button variant="outline" onClick={() => setPreview(null)}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={preview.banners.length === 0}>
+                Use This Order
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,356 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2, RefreshCw, Save, Ruler } from "lucide-react"
+import { parseLength, type BannerOrientation } from "@/lib/banner-attributes"
+
+interface ReviewProduct {
+  id: string
+  sku: string
+  name: string | null
+  width_in: number | null
+  height_in: number | null
+  orientation: BannerOrientation | null
+  color: string | null
+  material: string | null
+  attributes_status: "pending" | "parsed" | "needs_review" | "manual"
+  attributes_issue: string | null
+}
+
+interface Draft {
+  width: string
+  height: string
+  orientation: string
+  color: string
+  material: string
+}
+
+type QueueFilter = "needs_review" | "pending" | "manual"
+
+const PAGE_SIZE = 25
+
+function toDraft(product: ReviewProduct): Draft {
+  return {
+    width: product.width_in != null ? String(product.width_in) : "",
+    height: product.height_in != null ? String(product.height_in) : "",
+    orientation: product.orientation || "auto",
+    color: product.color || "",
+    material: product.material || "",
+  }
+}
+
+export function AttributeReviewQueue() {
+  const [filter, setFilter] = useState<QueueFilter>("needs_review")
+  const [products, setProducts] = useState<ReviewProduct[]>([])
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({})
+  const [counts, setCounts] = useState<Record<QueueFilter, number>>({ needs_review: 0, pending: 0, manual: 0 })
+  const [page, setPage] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [reparsing, setReparsing] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchCounts()
+  }, [])
+
+  useEffect(() => {
+    fetchProducts()
+  }, [filter, page])
+
+  const fetchCounts = async () => {
+    try {
+      const statuses: QueueFilter[] = ["needs_review", "pending", "manual"]
+      const results = await Promise.all(
+        statuses.map(async (status) => {
+          const response = await fetch(`/api/products?attributesStatus=${status}&limit=1`)
+          const data = response.ok ? await response.json() : { total: 0 }
+          return [status, data.total || 0] as const
+        })
+      )
+      setCounts(Object.fromEntries(results) as Record<QueueFilter, number>)
+    } catch (error) {
+      console.error("Failed to fetch attribute counts:", error)
+    }
+  }
+
+  const fetchProducts = async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({
+        attributesStatus: filter,
+        page: page.toString(),
+        limit: PAGE_SIZE.toString(),
+      })
+      const response = await fetch(`/api/products?${params}`)
+      if (!response.ok) throw new Error("Failed to load review queue")
+
+      const data = await response.json()
+      const loaded: ReviewProduct[] = data.products || []
+      setProducts(loaded)
+      setDrafts(Object.fromEntries(loaded.map((p) => [p.id, toDraft(p)])))
+      setTotal(data.total || 0)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load review queue",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateDraft = (id: string, field: keyof Draft, value: string) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], [field]: value } }))
+  }
+
+  const saveProduct = async (product: ReviewProduct) => {
+    const draft = drafts[product.id]
+    const width = draft.width.trim() ? parseLength(draft.width) : null
+    const height = draft.height.trim() ? parseLength(draft.height) : null
+
+    if ((draft.width.trim() && width === null) || (draft.height.trim() && height === null)) {
+      toast({
+        title: "Invalid size",
+        description: `Enter sizes like 84, 30", 14' or 5'6"`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    setSavingId(product.id)
+    try {
+      const response = await fetch(`/api/products/${product.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          width_in: width,
+          height_in: height,
+          orientation: draft.orientation === "auto" ? null : draft.orientation,
+          color: draft.color,
+          material: draft.material,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save attributes")
+
+      toast({ title: "Saved", description: `${product.sku} marked as reviewed` })
+      setProducts((prev) => prev.filter((p) => p.id !== product.id))
+      setTotal((prev) => Math.max(0, prev - 1))
+      fetchCounts()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save attributes",
+        variant: "destructive",
+      })
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const reparseAll = async () => {
+    setReparsing(true)
+    try {
+      const response = await fetch("/api/products/attributes/reparse", { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to parse product names")
+
+      toast({
+        title: "Product names parsed",
+        description: `${data.parsed} parsed, ${data.needsReview} need review`,
+      })
+      setPage(1)
+      fetchProducts()
+      fetchCounts()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to parse product names",
+        variant: "destructive",
+      })
+    } finally {
+      setReparsing(false)
+    }
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h3 className="text-lg font-semibold">Attribute Review</h3>
+          <p className="text-sm text-muted-foreground">
+            Size, orientation and color are parsed from product names on import. Fix the products
+            whose names could not be parsed; saved values are kept on future imports.
+          </p>
+        </div>
+        <Button variant="outline" onClick={reparseAll} disabled={reparsing}>
+          {reparsing ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          Re-parse Names
+        </Button>
+      </div>
+
+      <div className="flex gap-2">
+        {([
+          ["needs_review", "Needs Review"],
+          ["pending", "Not Parsed"],
+          ["manual", "Reviewed"],
+        ] as [QueueFilter, string][]).map(([value, label]) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={filter === value ? "default" : "outline"}
+            onClick={() => {
+              setFilter(value)
+              setPage(1)
+            }}
+          >
+            {label} ({counts[value]})
+          </Button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : products.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <Ruler className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>
+            {filter === "needs_review"
+              ? "Nothing to review. Every product name was parsed."
+              : filter === "pending"
+              ? "Every product has been parsed."
+              : "No products have been reviewed by hand yet."}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {products.map((product) => {
+            const draft = drafts[product.id]
+            return (
+              <div key={product.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="font-semibold text-sm font-mono">{product.sku}</div>
+                    <div className="text-sm text-muted-foreground">{product.name || "No name"}</div>
+                  </div>
+                  {product.attributes_issue && (
+                    <Badge variant="outline" className="text-xs text-orange-600 shrink-0">
+                      {product.attributes_issue}
+                    </Badge>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+                  <div>
+                    <div className="text-xs text-muted-foreground mb-1">Width (in)</div>
+                    <Input
+                      value={draft.width}
+                      onChange={(e) => updateDraft(product.id, "width", e.target.value)}
+                      placeholder={`84 or 7'`}
+                    />
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground mb-1">Height (in)</div>
+                    <Input
+                      value={draft.height}
+                      onChange={(e) => updateDraft(product.id, "height", e.target.value)}
+                      placeholder={`30"`}
+                    />
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground mb-1">Orientation</div>
+                    <Select
+                      value={draft.orientation}
+                      onValueChange={(value) => updateDraft(product.id, "orientation", value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">From size</SelectItem>
+                        <SelectItem value="horizontal">Horizontal</SelectItem>
+                        <SelectItem value="vertical">Vertical</SelectItem>
+                        <SelectItem value="square">Square</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground mb-1">Color</div>
+                    <Input
+                      value={draft.color}
+                      onChange={(e) => updateDraft(product.id, "color", e.target.value)}
+                      placeholder="Hi Vis Orange"
+                    />
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground mb-1">Material</div>
+                    <Input
+                      value={draft.material}
+                      onChange={(e) => updateDraft(product.id, "material", e.target.value)}
+                      placeholder="Mesh"
+                    />
+                  </div>
+                  <Button onClick={() => saveProduct(product)} disabled={savingId === product.id}>
+                    {savingId === product.id ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4 mr-2" />
+                    )}
+                    Save
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-muted-foreground">
+                Page {page} of {totalPages} ({total} products)
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,558 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { ArrowLeft, CheckCircle2, Loader2, Save, Trash2, Upload } from "lucide-react"
+import { ImportValidationReport } from "@/components/products/ImportValidationReport"
+import { openCSV, type ParsedCSVRow } from "@/lib/csv-parser"
+import {
+  CATALOG_FIELDS,
+  applyMapping,
+  suggestMapping,
+  validateMapping,
+  type CatalogField,
+  type ColumnMapping,
+  type ImportMappingProfile,
+} from "@/lib/import-mapping"
+import type { ImportValidationSummary } from "@/lib/import-runs"
+
+type Step = "upload" | "map" | "result"
+
+interface FilePreview {
+  headers: string[]
+  rows: ParsedCSVRow[]
+  delimiter: string
+  encoding: string
+  /** Workbooks only: visible worksheets, the one shown and its header row */
+  sheets: string[] | null
+  sheet: string | null
+  headerRow: number
+}
+
+interface ImportResult {
+  statistics: any | null
+  validation: ImportValidationSummary | null
+  error: string | null
+}
+
+// Rows shown under each column while mapping
+const PREVIEW_ROWS = 5
+// Select value for a column that is not imported
+const IGNORE = "__ignore"
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ",": "comma",
+  ";": "semicolon",
+  "\t": "tab",
+  "|": "pipe",
+}
+
+const isWorkbook = (file: File) => /\.xlsx$/i.test(file.name)
+
+/**
+ * CSV files are previewed in the browser; workbooks need the server
+ */
+async function readPreview(
+  file: File,
+  worksheet: { sheet?: string | null; headerRow?: number | null } = {}
+): Promise<FilePreview> {
+  if (isWorkbook(file)) {
+    const formData = new FormData()
+    formData.append("file", file)
+    if (worksheet.sheet) formData.append("sheet", worksheet.sheet)
+    if (worksheet.headerRow) formData.append("headerRow", String(worksheet.headerRow))
+
+    const response = await fetch("/api/products/import/preview", { method: "POST", body: formData })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || "Failed to read the workbook")
+    return data
+  }
+
+  const reader = await openCSV(file)
+  const rows: ParsedCSVRow[] = []
+  for await (const record of reader.rows) {
+    rows.push(record.row)
+    if (rows.length >= PREVIEW_ROWS) break
+  }
+  return {
+    headers: reader.headers,
+    rows,
+    delimiter: reader.delimiter,
+    encoding: reader.encoding,
+    sheets: null,
+    sheet: null,
+    headerRow: 1,
+  }
+}
+
+/**
+ * Products import in three steps: pick a CSV or Excel file, map its columns
+ * to catalog fields (optionally from a saved profile), then import with
+ * that mapping.
+ */
+export function CSVImportWizard() {
+  const [step, setStep] = useState<Step>("upload")
+  const [productsFile, setProductsFile] = useState<File | null>(null)
+  const [productMediaFile, setProductMediaFile] = useState<File | null>(null)
+  const [managedContentFile, setManagedContentFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<FilePreview | null>(null)
+  const [headerRowInput, setHeaderRowInput] = useState("1")
+  const [readingFile, setReadingFile] = useState(false)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [profiles, setProfiles] = useState<ImportMappingProfile[]>([])
+  const [profileId, setProfileId] = useState("")
+  const [profileName, setProfileName] = useState("")
+  const [savingProfile, setSavingProfile] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const loadProfiles = async () => {
+      try {
+        const response = await fetch("/api/import-mapping-profiles")
+        if (!response.ok) throw new Error("Failed to load mapping profiles")
+        const data = await response.json()
+        setProfiles(data.profiles || [])
+      } catch (error: any) {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to load mapping profiles",
+          variant: "destructive",
+        })
+      }
+    }
+    loadProfiles()
+  }, [toast])
+
+  const mappingErrors = useMemo(
+    () => (preview ? validateMapping(mapping, preview.headers) : []),
+    [mapping, preview]
+  )
+
+  const fieldForColumn = (header: string): CatalogField | undefined =>
+    CATALOG_FIELDS.find(({ field }) => mapping[field] === header)?.field
+
+  const setColumnField = (header: string, value: string) => {
+    const next: ColumnMapping = {}
+    CATALOG_FIELDS.forEach(({ field }) => {
+      if (mapping[field] && mapping[field] !== header) next[field] = mapping[field]
+    })
+    if (value !== IGNORE) next[value as CatalogField] = header
+    setMapping(next)
+  }
+
+  const handleReadFile = async (worksheet: { sheet?: string | null; headerRow?: number | null } = {}) => {
+    if (!productsFile) return
+
+    setReadingFile(true)
+    try {
+      const filePreview = await readPreview(productsFile, worksheet)
+      if (filePreview.headers.length === 0) {
+        throw new Error("The file has no header row")
+      }
+
+      const profile = profiles.find(p => p.id === profileId)
+      setPreview(filePreview)
+      setHeaderRowInput(String(filePreview.headerRow))
+      setMapping(profile
+        ? applyMapping(profile.mapping, filePreview.headers)
+        : suggestMapping(filePreview.headers))
+      setStep("map")
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to read the file",
+        variant: "destructive",
+      })
+    } finally {
+      setReadingFile(false)
+    }
+  }
+
+  const handleSelectProfile = (id: string) => {
+    setProfileId(id)
+    const profile = profiles.find(p => p.id === id)
+    if (!profile) return
+    setProfileName(profile.name)
+    if (preview) setMapping(applyMapping(profile.mapping, preview.headers))
+  }
+
+  const handleSaveProfile = async () => {
+    const name = profileName.trim()
+    if (!name) return
+
+    setSavingProfile(true)
+    try {
+      const response = await fetch("/api/import-mapping-profiles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, mapping }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save mapping profile")
+
+      const saved: ImportMappingProfile = data.profile
+      setProfiles(prev =>
+        [...prev.filter(p => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+      )
+      setProfileId(saved.id)
+      toast({ title: "Saved", description: `Mapping profile "${saved.name}" saved` })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save mapping profile",
+        variant: "destructive",
+      })
+    } finally {
+      setSavingProfile(false)
+    }
+  }
+
+  const handleDeleteProfile = async () => {
+    const profile = profiles.find(p => p.id === profileId)
+    if (!profile) return
+
+    try {
+      const response = await fetch(`/api/import-mapping-profiles/${profile.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to delete mapping profile")
+      }
+      setProfiles(prev => prev.filter(p => p.id !== profile.id))
+      setProfileId("")
+      toast({ title: "Deleted", description: `Mapping profile "${profile.name}" deleted` })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete mapping profile",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleImport = async () => {
+    if (!productsFile || mappingErrors.length > 0) return
+
+    setImporting(true)
+    try {
+      const formData = new FormData()
+      formData.append("productsFile", productsFile)
+      formData.append("mapping", JSON.stringify(mapping))
+      if (preview?.sheet) {
+        formData.append("sheet", preview.sheet)
+        formData.append("headerRow", String(preview.headerRow))
+      }
+      if (productMediaFile && managedContentFile) {
+        formData.append("productMediaFile", productMediaFile)
+        formData.append("managedContentFile", managedContentFile)
+      }
+
+      const response = await fetch("/api/products/import", {
+        method: "POST",
+        body: formData,
+      })
+      const data = await response.json()
+
+      setResult({
+        statistics: response.ok ? data.statistics : null,
+        validation: data.validation || null,
+        error: response.ok ? null : data.error || "Failed to import products",
+      })
+      setStep("result")
+
+      if (response.ok) {
+        toast({
+          title: "Success",
+          description: `Imported ${data.statistics.productsImported} products (${data.statistics.created} new, ${data.statistics.updated} updated)`,
+        })
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import products",
+        variant: "destructive",
+      })
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const handleStartOver = () => {
+    setStep("upload")
+    setProductsFile(null)
+    setProductMediaFile(null)
+    setManagedContentFile(null)
+    setPreview(null)
+    setMapping({})
+    setResult(null)
+  }
+
+  if (step === "upload") {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Import products from any CSV or Excel file: choose the file, then map its columns to catalog fields.
+        </p>
+
+        <div className="space-y-2">
+          <Label htmlFor="wizard-products-csv">Products file (CSV or Excel)</Label>
+          <Input
+            id="wizard-products-csv"
+            type="file"
+            accept=".csv,.txt,.xlsx"
+            onChange={(e) => setProductsFile(e.target.files?.[0] || null)}
+            disabled={readingFile}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="wizard-product-media-csv">ProductMedia CSV (optional)</Label>
+            <Input
+              id="wizard-product-media-csv"
+              type="file"
+              accept=".csv"
+              onChange={(e) => setProductMediaFile(e.target.files?.[0] || null)}
+              disabled={readingFile}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="wizard-managed-content-csv">ManagedContent CSV (optional)</Label>
+            <Input
+              id="wizard-managed-content-csv"
+              type="file"
+              accept=".csv"
+              onChange={(e) => setManagedContentFile(e.target.files?.[0] || null)}
+              disabled={readingFile}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Add both Salesforce media extracts to build image URLs from product IDs, or map an image URL column instead.
+        </p>
+
+        {profiles.length > 0 && (
+          <div className="space-y-2">
+            <Label>Mapping profile</Label>
+            <Select value={profileId || IGNORE} onValueChange={(value) => setProfileId(value === IGNORE ? "" : value)}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={IGNORE}>Suggest from headers</SelectItem>
+                {profiles.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <Button
+          onClick={() => handleReadFile()}
+          disabled={!productsFile || !productMediaFile !== !managedContentFile || readingFile}
+        >
+          {readingFile ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+          Next: Map Columns
+        </Button>
+      </div>
+    )
+  }
+
+  if (step === "map" && preview) {
+    return (
+      <div className="space-y-4">
+        <div className="text-sm text-muted-foreground">
+          {productsFile?.name}: {preview.headers.length} columns
+          {preview.sheet
+            ? `, header on row ${preview.headerRow}`
+            : `, ${DELIMITER_LABELS[preview.delimiter] || preview.delimiter}-separated, ${preview.encoding}`}
+          . Showing the first {preview.rows.length} rows.
+        </div>
+
+        {preview.sheets && (
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-2">
+              <Label>Worksheet</Label>
+              <Select
+                value={preview.sheet || ""}
+                onValueChange={(sheet) => handleReadFile({ sheet })}
+                disabled={readingFile}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {preview.sheets.map(sheet => (
+                    <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="wizard-header-row">Header row</Label>
+              <Input
+                id="wizard-header-row"
+                type="number"
+                min={1}
+                value={headerRowInput}
+                onChange={(e) => setHeaderRowInput(e.target.value)}
+                className="w-24"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => handleReadFile({ sheet: preview.sheet, headerRow: Number(headerRowInput) || null })}
+              disabled={readingFile || Number(headerRowInput) === preview.headerRow}
+            >
+              {readingFile && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Use Row
+            </Button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-2">
+            <Label>Mapping profile</Label>
+            <Select value={profileId || IGNORE} onValueChange={(value) => handleSelectProfile(value === IGNORE ? "" : value)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={IGNORE}>No profile</SelectItem>
+                {profiles.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {profileId && (
+            <Button variant="outline" size="icon" onClick={handleDeleteProfile} title="Delete profile">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="mapping-profile-name">Save as</Label>
+            <Input
+              id="mapping-profile-name"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Profile name"
+              className="w-56"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleSaveProfile}
+            disabled={!profileName.trim() || savingProfile || mappingErrors.length > 0}
+          >
+            <Save className="mr-2 h-4 w-4" />
+            {savingProfile ? "Saving..." : "Save Profile"}
+          </Button>
+        </div>
+
+        <div className="overflow-x-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Column</TableHead>
+                <TableHead className="w-48">Catalog field</TableHead>
+                <TableHead>Sample values</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.headers.map(header => (
+                <TableRow key={header}>
+                  <TableCell className="font-medium">{header}</TableCell>
+                  <TableCell>
+                    <Select value={fieldForColumn(header) || IGNORE} onValueChange={(value) => setColumnField(header, value)}>
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE}>Don&apos;t import</SelectItem>
+                        {CATALOG_FIELDS.map(({ field, label, required }) => (
+                          <SelectItem key={field} value={field}>
+                            {label}{required ? " *" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {preview.rows.map(row => row[header]).filter(Boolean).slice(0, 3).join(" · ") || "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {mappingErrors.length > 0 && (
+          <div className="text-sm text-destructive border border-destructive/50 rounded-md p-3 space-y-1">
+            {mappingErrors.map(error => <div key={error}>{error}</div>)}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setStep("upload")} disabled={importing}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <Button onClick={handleImport} disabled={importing || mappingErrors.length > 0}>
+            {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            {importing ? "Importing..." : "Import Products"}
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {result?.error ? (
+        <div className="text-sm text-destructive border border-destructive/50 rounded-md p-3">
+          {result.error}
+        </div>
+      ) : result?.statistics && (
+        <div className="flex items-center gap-2 text-sm">
+          <CheckCircle2 className="h-4 w-4 text-green-600" />
+          Imported {result.statistics.productsImported} of {result.statistics.totalProducts} rows:{" "}
+          {result.statistics.created} new, {result.statistics.updated} updated,{" "}
+          {result.statistics.productsWithImages} with images
+        </div>
+      )}
+
+      {result?.validation && <ImportValidationReport validation={result.validation} />}
+
+      <div className="flex gap-2">
+        {result?.error && (
+          <Button variant="outline" onClick={() => setStep("map")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Mapping
+          </Button>
+        )}
+        <Button onClick={handleStartOver}>Import Another File</Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { ArrowRight } from "lucide-react"
+import type { ProductDiffEntry, ProductDiffField, ProductDiffStatus } from "@/lib/salesforce/catalog-diff"
+
+interface ImportDiffTableProps {
+  entries: ProductDiffEntry[]
+  selectedSkus: Set<string>
+  onSelectedSkusChange: (skus: Set<string>) => void
+}
+
+type StatusFilter = "all" | Exclude<ProductDiffStatus, "unchanged">
+
+const FIELD_LABELS: Record<ProductDiffField, string> = {
+  name: "Name",
+  product_code: "Product code",
+  image_url: "Image",
+  category: "Category",
+  primary_category: "Primary category",
+}
+
+const STATUS_STYLES: Record<ProductDiffStatus, { label: string; className: string }> = {
+  new: { label: "New", className: "text-green-600" },
+  changed: { label: "Changed", className: "text-blue-600" },
+  unchanged: { label: "Unchanged", className: "text-muted-foreground" },
+  removed: { label: "Removed", className: "text-red-600" },
+}
+
+function formatValue(field: ProductDiffField, value: string | null) {
+  if (value === null || value === "") return <span className="italic text-muted-foreground">empty</span>
+  if (field === "image_url") {
+    return (
+      <a href={value} target="_blank" rel="noopener noreferrer" className="underline">
+        image
+      </a>
+    )
+  }
+  return value
+}
+
+/**
+ * Field-level diff of a Salesforce import preview, with a checkbox per row
+ * to approve or skip it.
+ */
+export function ImportDiffTable({ entries, selectedSkus, onSelectedSkusChange }: ImportDiffTableProps) {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all")
+  const [search, setSearch] = useState("")
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return entries.filter((entry) => {
+      if (statusFilter !== "all" && entry.status !== statusFilter) return false
+      if (!term) return true
+      return entry.sku.toLowerCase().includes(term) || (entry.name || "").toLowerCase().includes(term)
+    })
+  }, [entries, statusFilter, search])
+
+  const allVisibleSelected = visible.length > 0 && visible.every((entry) => selectedSkus.has(entry.sku))
+
+  const toggle = (sku: string, checked: boolean) => {
+    const next = new Set(selectedSkus)
+    if (checked) next.add(sku)
+    else next.delete(sku)
+    onSelectedSkusChange(next)
+  }
+
+  const toggleVisible = (checked: boolean) => {
+    const next = new Set(selectedSkus)
+    visible.forEach((entry) => {
+      if (checked) next.add(entry.sku)
+      else next.delete(entry.sku)
+    })
+    onSelectedSkusChange(next)
+  }
+
+  const filterCount = (status: StatusFilter) =>
+    status === "all" ? entries.length : entries.filter((entry) => entry.status === status).length
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {(["all", "new", "changed", "removed"] as StatusFilter[]).map((status) => (
+          <Button
+            key={status}
+            size="sm"
+            variant={statusFilter === status ? "default" : "outline"}
+            onClick={() => setStatusFilter(status)}
+          >
+            {status === "all" ? "All" : STATUS_STYLES[status].label} ({filterCount(status)})
+          </Button>
+        ))}
+        <Input
+          placeholder="Search SKU or name..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="h-9 max-w-xs ml-auto"
+        />
+      </div>
+
+      <div className="max-h-96 overflow-y-auto border rounded p-2">
+        {visible.length === 0 ? (
+          <div className="text-center text-sm text-muted-foreground py-6">
+            {entries.length === 0 ? "Nothing to change: the catalog already matches Salesforce." : "No rows match this filter."}
+          </div>
+        ) : (
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-background">
+              <tr className="border-b">
+                <th className="p-2 w-8">
+                  <Checkbox
+                    checked={allVisibleSelected}
+                    onCheckedChange={(checked) => toggleVisible(checked === true)}
+                    aria-label="Select all visible rows"
+                  />
+                </th>
+                <th className="text-left p-2">SKU</th>
+                <th className="text-left p-2">Name</th>
+                <th className="text-left p-2">Status</th>
+                <th className="text-left p-2">Changes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((entry) => (
+                <tr
+                  key={entry.sku}
+                  className={`border-b align-top ${selectedSkus.has(entry.sku) ? "" : "opacity-50"}`}
+                >
+                  <td className="p-2">
+                    <Checkbox
+                      checked={selectedSkus.has(entry.sku)}
+                      onCheckedChange={(checked) => toggle(entry.sku, checked === true)}
+                      aria-label={`Apply ${entry.sku}`}
+                    />
+                  </td>
+                  <td className="p-2 font-mono text-xs">{entry.sku}</td>
+                  <td className="p-2">{entry.name || "-"}</td>
+                  <td className={`p-2 font-semibold ${STATUS_STYLES[entry.status].className}`}>
+                    {STATUS_STYLES[entry.status].label}
+                  </td>
+                  <td className="p-2">
+                    {entry.status === "new" && <span className="text-muted-foreground">Will be created</span>}
+                    {entry.status === "removed" && (
+                      <span className="text-muted-foreground">No longer active in Salesforce; will be deactivated</span>
+                    )}
+                    {entry.changes.map((change) => (
+                      <div key={change.field} className="flex flex-wrap items-center gap-1">
+                        <span className="font-medium">{FIELD_LABELS[change.field]}:</span>
+                        <span className="line-through text-muted-foreground">{formatValue(change.field, change.before)}</span>
+                        <ArrowRight className="h-3 w-3" />
+                        <span>{formatValue(change.field, change.after)}</span>
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
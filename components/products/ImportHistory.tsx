@@ -0,0 +1,491 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2, RefreshCw, History, Undo2, Download } from "lucide-react"
+
+interface ImportRun {
+  id: string
+  source: "salesforce" | "csv" | "legacy_csv"
+  status: "running" | "succeeded" | "failed"
+  total_rows: number
+  created_count: number
+  updated_count: number
+  skipped_count: number
+  failed_count: number
+  api_calls: number | null
+  api_requests_remaining: number | null
+  api_requests_max: number | null
+  metadata: Record<string, any>
+  error: string | null
+  started_at: string
+  finished_at: string | null
+  rolled_back_at: string | null
+  users: { name: string | null; email: string } | null
+  rolled_back_by_user: { name: string | null; email: string } | null
+}
+
+interface ImportRunRow {
+  id: string
+  row_number: number | null
+  sku: string | null
+  external_id: string | null
+  action: "created" | "updated" | "skipped" | "failed"
+  column_name: string | null
+  message: string | null
+}
+
+const SOURCE_LABELS: Record<ImportRun["source"], string> = {
+  salesforce: "Salesforce",
+  csv: "CSV",
+  legacy_csv: "Legacy CSV",
+}
+
+const PAGE_SIZE = 25
+
+function formatDateTime(value: string | null) {
+  return value ? new Date(value).toLocaleString() : "—"
+}
+
+function formatDuration(run: ImportRun) {
+  if (!run.finished_at) return ""
+  const seconds = Math.round(
+    (new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()) / 1000
+  )
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+function StatusBadge({ status, rolledBack }: { status: ImportRun["status"]; rolledBack?: boolean }) {
+  if (rolledBack) return <Badge variant="secondary">Rolled back</Badge>
+  if (status === "failed") return <Badge variant="destructive">Failed</Badge>
+  if (status === "running") return <Badge variant="secondary">Running</Badge>
+  return <Badge variant="outline">Succeeded</Badge>
+}
+
+function ActionBadge({ action }: { action: ImportRunRow["action"] }) {
+  if (action === "failed") return <Badge variant="destructive">Failed</Badge>
+  if (action === "skipped") return <Badge variant="secondary">Skipped</Badge>
+  if (action === "created") return <Badge>Created</Badge>
+  return <Badge variant="outline">Updated</Badge>
+}
+
+export function ImportHistory() {
+  const [runs, setRuns] = useState<ImportRun[]>([])
+  const [loading, setLoading] = useState(true)
+  const [page, setPage] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [sourceFilter, setSourceFilter] = useState("all")
+  const [selectedRun, setSelectedRun] = useState<ImportRun | null>(null)
+  const [rows, setRows] = useState<ImportRunRow[]>([])
+  const [rowsLoading, setRowsLoading] = useState(false)
+  const [actionFilter, setActionFilter] = useState("all")
+  const [rollbackDialogOpen, setRollbackDialogOpen] = useState(false)
+  const [rollingBack, setRollingBack] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchRuns()
+  }, [page, sourceFilter])
+
+  useEffect(() => {
+    if (selectedRun) fetchRows(selectedRun.id, actionFilter)
+  }, [selectedRun, actionFilter])
+
+  const fetchRuns = async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) })
+      if (sourceFilter !== "all") params.set("source", sourceFilter)
+
+      const response = await fetch(`/api/import-runs?${params}`)
+      if (!response.ok) throw new Error("Failed to load import history")
+
+      const data = await response.json()
+      setRuns(data.runs || [])
+      setTotal(data.total || 0)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load import history",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchRows = async (runId: string, action: string) => {
+    setRowsLoading(true)
+    try {
+      const params = new URLSearchParams()
+      if (action !== "all") params.set("action", action)
+
+      const response = await fetch(`/api/import-runs/${runId}?${params}`)
+      if (!response.ok) throw new Error("Failed to load import rows")
+
+      const data = await response.json()
+      setRows(data.rows || [])
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load import rows",
+        variant: "destructive",
+      })
+    } finally {
+      setRowsLoading(false)
+    }
+  }
+
+  const openRun = (run: ImportRun) => {
+    setRows([])
+    setActionFilter(run.failed_count > 0 ? "failed" : "all")
+    setSelectedRun(run)
+  }
+
+  const handleRollback = async () => {
+    if (!selectedRun) return
+
+    setRollingBack(true)
+    try {
+      const response = await fetch(`/api/import-runs/${selectedRun.id}/rollback`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to roll back import")
+
+      const { result } = data
+      toast({
+        title: "Import rolled back",
+        description: `Restored ${result.productsRestored} products and removed ${result.productsDeleted} created by the import`,
+      })
+      setRollbackDialogOpen(false)
+      setSelectedRun(null)
+      fetchRuns()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to roll back import",
+        variant: "destructive",
+      })
+    } finally {
+      setRollingBack(false)
+    }
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Import History</h3>
+          <p className="text-sm text-muted-foreground">
+            Every catalog import from Salesforce or CSV. Select a run to see its per-row results.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={sourceFilter}
+            onValueChange={(value) => {
+              setSourceFilter(value)
+              setPage(1)
+            }}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All sources</SelectItem>
+              <SelectItem value="salesforce">Salesforce</SelectItem>
+              <SelectItem value="csv">CSV</SelectItem>
+              <SelectItem value="legacy_csv">Legacy CSV</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={fetchRuns} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : runs.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>No imports recorded yet.</p>
+        </div>
+      ) : (
+        <>
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Finished</TableHead>
+                  <TableHead className="text-right">Created</TableHead>
+                  <TableHead className="text-right">Updated</TableHead>
+                  <TableHead className="text-right">Skipped</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead className="text-right">API Calls</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow
+                    key={run.id}
+                    className="cursor-pointer"
+                    onClick={() => openRun(run)}
+                  >
+                    <TableCell className="font-medium">{SOURCE_LABELS[run.source]}</TableCell>
+                    <TableCell>
+                      <StatusBadge status={run.status} rolledBack={!!run.rolled_back_at} />
+                    </TableCell>
+                    <TableCell>{run.users?.name || run.users?.email || "—"}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDateTime(run.started_at)}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDateTime(run.finished_at)}
+                      {run.finished_at && (
+                        <span className="text-xs text-muted-foreground ml-1">({formatDuration(run)})</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{run.created_count}</TableCell>
+                    <TableCell className="text-right">{run.updated_count}</TableCell>
+                    <TableCell className="text-right">{run.skipped_count}</TableCell>
+                    <TableCell className={`text-right ${run.failed_count > 0 ? "text-destructive font-semibold" : ""}`}>
+                      {run.failed_count}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {run.api_calls ?? "—"}
+                      {run.api_requests_remaining != null && run.api_requests_max != null && (
+                        <div className="text-xs text-muted-foreground">
+                          {run.api_requests_remaining.toLocaleString()} / {run.api_requests_max.toLocaleString()} left
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-muted-foreground">
+                Page {page} of {totalPages} ({total} imports)
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Run Detail Dialog */}
+      <Dialog open={!!selectedRun} onOpenChange={(open) => !open && setSelectedRun(null)}>
+        <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col">
+          {selectedRun && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {SOURCE_LABELS[selectedRun.source]} import
+                  <StatusBadge status={selectedRun.status} rolledBack={!!selectedRun.rolled_back_at} />
+                </DialogTitle>
+                <DialogDescription>
+                  {formatDateTime(selectedRun.started_at)} by{" "}
+                  {selectedRun.users?.name || selectedRun.users?.email || "unknown user"} ·{" "}
+                  {selectedRun.total_rows} rows: {selectedRun.created_count} created,{" "}
+                  {selectedRun.updated_count} updated, {selectedRun.skipped_count} skipped,{" "}
+                  {selectedRun.failed_count} failed
+                </DialogDescription>
+              </DialogHeader>
+
+              {selectedRun.rolled_back_at ? (
+                <div className="text-sm text-muted-foreground">
+                  Rolled back {formatDateTime(selectedRun.rolled_back_at)}
+                  {selectedRun.rolled_back_by_user &&
+                    ` by ${selectedRun.rolled_back_by_user.name || selectedRun.rolled_back_by_user.email}`}
+                </div>
+              ) : selectedRun.status !== "running" && (
+                <div>
+                  <Button variant="outline" size="sm" onClick={() => setRollbackDialogOpen(true)}>
+                    <Undo2 className="h-4 w-4 mr-2" />
+                    Roll Back Import
+                  </Button>
+                </div>
+              )}
+
+              {selectedRun.source !== "salesforce" && selectedRun.skipped_count + selectedRun.failed_count > 0 && (
+                <div>
+                  <Button asChild variant="outline" size="sm">
+                    <a href={`/api/import-runs/${selectedRun.id}/report`} download>
+                      <Download className="h-4 w-4 mr-2" />
+                      Download Validation Report
+                    </a>
+                  </Button>
+                </div>
+              )}
+
+              {selectedRun.error && (
+                <div className="text-sm text-destructive border border-destructive/50 rounded-md p-3">
+                  {selectedRun.error}
+                </div>
+              )}
+
+              {Array.isArray(selectedRun.metadata?.files) && (
+                <div className="text-xs text-muted-foreground">
+                  Files: {selectedRun.metadata.files.join(", ")}
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <div className="text-sm text-muted-foreground">
+                  {rowsLoading ? "Loading rows..." : `${rows.length} rows`}
+                </div>
+                <Select value={actionFilter} onValueChange={setActionFilter}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All rows</SelectItem>
+                    <SelectItem value="created">Created</SelectItem>
+                    <SelectItem value="updated">Updated</SelectItem>
+                    <SelectItem value="skipped">Skipped</SelectItem>
+                    <SelectItem value="failed">Failed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex-1 overflow-y-auto border rounded-lg">
+                {rowsLoading ? (
+                  <div className="flex items-center justify-center py-12">
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                  </div>
+                ) : rows.length === 0 ? (
+                  <div className="text-center py-12 text-sm text-muted-foreground">
+                    No rows match this filter.
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-20">{selectedRun.source === "salesforce" ? "#" : "Line"}</TableHead>
+                        <TableHead>SKU</TableHead>
+                        {selectedRun.source === "salesforce" && <TableHead>Salesforce ID</TableHead>}
+                        <TableHead>Result</TableHead>
+                        <TableHead>Message</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map((row) => (
+                        <TableRow key={row.id}>
+                          <TableCell>{row.row_number ?? "—"}</TableCell>
+                          <TableCell className="font-mono text-xs">{row.sku || "—"}</TableCell>
+                          {selectedRun.source === "salesforce" && (
+                            <TableCell className="font-mono text-xs">{row.external_id || "—"}</TableCell>
+                          )}
+                          <TableCell>
+                            <ActionBadge action={row.action} />
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {row.column_name ? `${row.column_name}: ` : ""}{row.message || ""}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Rollback Confirmation */}
+      <AlertDialog open={rollbackDialogOpen} onOpenChange={setRollbackDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back this import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Products, categories and category assignments touched by this import are restored to
+              their previous values. Products and categories it created are deleted. Newer imports
+              must be rolled back first.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={rollingBack}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleRollback()
+              }}
+              disabled={rollingBack}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {rollingBack ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Rolling back...
+                </>
+              ) : (
+                "Roll Back"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
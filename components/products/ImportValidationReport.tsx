@@ -0,0 +1,63 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, Download } from "lucide-react"
+import type { ImportValidationSummary } from "@/lib/import-runs"
+
+interface ImportValidationReportProps {
+  validation: ImportValidationSummary
+}
+
+/**
+ * Rows a CSV import left out, with a link to the full report
+ */
+export function ImportValidationReport({ validation }: ImportValidationReportProps) {
+  if (validation.errors === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="h-4 w-4 text-orange-600" />
+        <span className="text-sm font-semibold">
+          {validation.errors} {validation.errors === 1 ? "row was" : "rows were"} not imported
+        </span>
+        {validation.reportUrl && (
+          <Button asChild variant="outline" size="sm" className="ml-auto">
+            <a href={validation.reportUrl} download>
+              <Download className="mr-2 h-4 w-4" />
+              Download validation report
+            </a>
+          </Button>
+        )}
+      </div>
+
+      <div className="max-h-64 overflow-y-auto border rounded p-2">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-background">
+            <tr className="border-b">
+              <th className="text-left p-2">Line</th>
+              <th className="text-left p-2">Column</th>
+              <th className="text-left p-2">SKU</th>
+              <th className="text-left p-2">Error</th>
+            </tr>
+          </thead>
+          <tbody>
+            {validation.sample.map((row, index) => (
+              <tr key={`${row.rowNumber}-${index}`} className="border-b last:border-0">
+                <td className="p-2">{row.rowNumber ?? "-"}</td>
+                <td className="p-2">{row.column || "-"}</td>
+                <td className="p-2 font-mono text-xs">{row.sku || "-"}</td>
+                <td className="p-2">{row.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {validation.errors > validation.sample.length && (
+          <div className="text-center text-xs text-muted-foreground py-2">
+            Showing the first {validation.sample.length}; the report lists all {validation.errors}.
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
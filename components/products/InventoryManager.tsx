@@ -0,0 +1,483 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2, Search, Save, Truck, ClipboardCheck, History, Boxes } from "lucide-react"
+
+interface InventoryItem {
+  id: string
+  sku: string
+  name: string | null
+  is_active: boolean
+  stock_min: number | null
+  stock_max: number | null
+  onHand: number
+  inProduction: number
+  suggestedQty: number
+}
+
+interface Movement {
+  id: string
+  quantity: number
+  reason: "production" | "production_reversal" | "shipment" | "adjustment"
+  notes: string | null
+  created_at: string
+  users: { name: string | null; email: string } | null
+  production_sheets: { job_number: string | null } | null
+}
+
+type MovementAction = "shipment" | "adjustment"
+
+const PAGE_SIZE = 25
+
+const REASON_LABELS: Record<Movement["reason"], string> = {
+  production: "Produced",
+  production_reversal: "Production reversed",
+  shipment: "Shipped",
+  adjustment: "Stock count",
+}
+
+export function InventoryManager() {
+  const [items, setItems] = useState<InventoryItem[]>([])
+  const [limits, setLimits] = useState<Record<string, { min: string; max: string }>>({})
+  const [search, setSearch] = useState("")
+  const [debouncedSearch, setDebouncedSearch] = useState("")
+  const [reorderOnly, setReorderOnly] = useState(false)
+  const [page, setPage] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  const [action, setAction] = useState<{ item: InventoryItem; type: MovementAction } | null>(null)
+  const [actionQty, setActionQty] = useState("")
+  const [actionNotes, setActionNotes] = useState("")
+  const [recording, setRecording] = useState(false)
+
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null)
+  const [movements, setMovements] = useState<Movement[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search)
+      setPage(1)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  useEffect(() => {
+    fetchInventory()
+  }, [debouncedSearch, reorderOnly, page])
+
+  const fetchInventory = async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: PAGE_SIZE.toString(),
+      })
+      if (debouncedSearch) params.set("search", debouncedSearch)
+      if (reorderOnly) params.set("reorder", "true")
+
+      const response = await fetch(`/api/inventory?${params}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load inventory")
+
+      const loaded: InventoryItem[] = data.items || []
+      setItems(loaded)
+      setLimits(
+        Object.fromEntries(
+          loaded.map((item) => [
+            item.id,
+            {
+              min: item.stock_min != null ? String(item.stock_min) : "",
+              max: item.stock_max != null ? String(item.stock_max) : "",
+            },
+          ])
+        )
+      )
+      setTotal(data.total || 0)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load inventory",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveLimits = async (item: InventoryItem) => {
+    const draft = limits[item.id]
+    setSavingId(item.id)
+    try {
+      const response = await fetch(`/api/products/${item.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          stock_min: draft.min.trim() === "" ? null : Number(draft.min),
+          stock_max: draft.max.trim() === "" ? null : Number(draft.max),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save reorder points")
+
+      toast({ title: "Saved", description: `Reorder points updated for ${item.sku}` })
+      fetchInventory()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save reorder points",
+        variant: "destructive",
+      })
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const openAction = (item: InventoryItem, type: MovementAction) => {
+    setAction({ item, type })
+    setActionQty(type === "adjustment" ? String(item.onHand) : "")
+    setActionNotes("")
+  }
+
+  const recordMovement = async () => {
+    if (!action) return
+    const qty = parseInt(actionQty, 10)
+    if (!Number.isInteger(qty) || qty < 0 || (action.type === "shipment" && qty === 0)) {
+      toast({
+        title: "Error",
+        description: "Enter a whole quantity",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setRecording(true)
+    try {
+      const response = await fetch("/api/inventory/movements", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sku: action.item.sku,
+          reason: action.type,
+          ...(action.type === "shipment" ? { quantity: qty } : { counted_qty: qty }),
+          notes: actionNotes,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to record stock change")
+
+      toast({
+        title: action.type === "shipment" ? "Shipment recorded" : "Stock count recorded",
+        description: `${action.item.sku}: ${data.onHand} on hand`,
+      })
+      setAction(null)
+      fetchInventory()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record stock change",
+        variant: "destructive",
+      })
+    } finally {
+      setRecording(false)
+    }
+  }
+
+  const openHistory = async (item: InventoryItem) => {
+    setHistoryItem(item)
+    setMovements([])
+    setHistoryLoading(true)
+    try {
+      const response = await fetch(`/api/inventory/movements?sku=${encodeURIComponent(item.sku)}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load stock history")
+      setMovements(data.movements || [])
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load stock history",
+        variant: "destructive",
+      })
+    } finally {
+      setHistoryLoading(false)
+    }
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold">Inventory</h3>
+        <p className="text-sm text-muted-foreground">
+          Finished stock per SKU. Stock completions in the work log add to it; record shipments
+          and stock counts here. New sheets suggest a stock qty once a product is at or below its min.
+        </p>
+      </div>
+
+      <div className="flex gap-4 flex-wrap">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by SKU or name..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant={!reorderOnly ? "default" : "outline"}
+            onClick={() => {
+              setReorderOnly(false)
+              setPage(1)
+            }}
+          >
+            All Products
+          </Button>
+          <Button
+            size="sm"
+            variant={reorderOnly ? "default" : "outline"}
+            onClick={() => {
+              setReorderOnly(true)
+              setPage(1)
+            }}
+          >
+            Needs Stock
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <Boxes className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>{reorderOnly ? "No products are at or below their min." : "No products found."}</p>
+        </div>
+      ) : (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>SKU</TableHead>
+                <TableHead className="text-right">On Hand</TableHead>
+                <TableHead className="text-right">On Sheets</TableHead>
+                <TableHead className="w-24">Min</TableHead>
+                <TableHead className="w-24">Max</TableHead>
+                <TableHead className="text-right">Suggested</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="font-mono text-sm font-semibold">{item.sku}</div>
+                    <div className="text-xs text-muted-foreground line-clamp-1">{item.name || ""}</div>
+                    {!item.is_active && (
+                      <Badge variant="outline" className="text-xs mt-1">Inactive</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{item.onHand}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{item.inProduction}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={limits[item.id]?.min ?? ""}
+                      onChange={(e) =>
+                        setLimits((prev) => ({ ...prev, [item.id]: { ...prev[item.id], min: e.target.value } }))
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={limits[item.id]?.max ?? ""}
+                      onChange={(e) =>
+                        setLimits((prev) => ({ ...prev, [item.id]: { ...prev[item.id], max: e.target.value } }))
+                      }
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {item.suggestedQty > 0 ? (
+                      <span className="font-semibold text-orange-600">{item.suggestedQty}</span>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Save min/max"
+                      onClick={() => saveLimits(item)}
+                      disabled={savingId === item.id}
+                    >
+                      {savingId === item.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Save className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <Button variant="ghost" size="sm" title="Record shipment" onClick={() => openAction(item, "shipment")}>
+                      <Truck className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" title="Stock count" onClick={() => openAction(item, "adjustment")}>
+                      <ClipboardCheck className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" title="Stock history" onClick={() => openHistory(item)}>
+                      <History className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-muted-foreground">
+                Page {page} of {totalPages} ({total} products)
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Shipment / stock count */}
+      <Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {action?.type === "shipment" ? "Record Shipment" : "Stock Count"}: {action?.item.sku}
+            </DialogTitle>
+            <DialogDescription>
+              {action?.type === "shipment"
+                ? `Takes shipped banners out of stock. ${action?.item.onHand ?? 0} on hand.`
+                : "Enter the quantity counted on the shelf; the difference is recorded as an adjustment."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div>
+              <Label htmlFor="movementQty">
+                {action?.type === "shipment" ? "Quantity shipped" : "Counted quantity"}
+              </Label>
+              <Input
+                id="movementQty"
+                type="number"
+                min={0}
+                value={actionQty}
+                onChange={(e) => setActionQty(e.target.value)}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="movementNotes">Notes</Label>
+              <Input
+                id="movementNotes"
+                value={actionNotes}
+                onChange={(e) => setActionNotes(e.target.value)}
+                placeholder={action?.type === "shipment" ? "Order or customer" : ""}
+                className="mt-2"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)}>
+              Cancel
+            </Button>
+            <Button onClick={recordMovement} disabled={recording || actionQty.trim() === ""}>
+              {recording ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Stock history */}
+      <Dialog open={historyItem !== null} onOpenChange={(open) => !open && setHistoryItem(null)}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Stock History: {historyItem?.sku}</DialogTitle>
+            <DialogDescription>{historyItem?.onHand ?? 0} on hand</DialogDescription>
+          </DialogHeader>
+          {historyLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : movements.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No stock changes yet</div>
+          ) : (
+            <div className="space-y-3">
+              {movements.map((movement) => (
+                <div key={movement.id} className="flex flex-wrap items-baseline gap-x-3 gap-y-1 text-sm border-b pb-2 last:border-0">
+                  <span className={`font-medium ${movement.quantity > 0 ? "text-green-700" : "text-red-700"}`}>
+                    {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                  </span>
+                  <span>{REASON_LABELS[movement.reason] || movement.reason}</span>
+                  {movement.production_sheets?.job_number && (
+                    <span className="text-muted-foreground">Job {movement.production_sheets.job_number}</span>
+                  )}
+                  <span className="text-muted-foreground">
+                    {movement.users?.name || movement.users?.email || "Unknown"}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {new Date(movement.created_at).toLocaleString()}
+                  </span>
+                  {movement.notes && <span className="w-full text-muted-foreground">{movement.notes}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
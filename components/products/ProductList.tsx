@@ -5,7 +5,8 @@ import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/hooks/use-toast"
-import { Search, Loader2, Image as ImageIcon } from "lucide-react"
+import { Search, Loader2, Image as ImageIcon, ImageOff } from "lucide-react"
+import { ProductThumbnail } from "@/components/ProductThumbnail"
 import {
   Select,
   SelectContent,
@@ -21,6 +22,14 @@ interface Product {
   product_code: string | null
   category: string | null
   image_url: string | null
+  thumbnail_url?: string | null
+  image_status?: "ok" | "broken" | "unreachable" | null
+  image_error?: string | null
+  is_active?: boolean
+  width_in?: number | null
+  height_in?: number | null
+  orientation?: string | null
+  color?: string | null
   product_categories?: {
     id: string
     name: string
@@ -37,6 +46,8 @@ export function ProductList({ onRefresh }: ProductListProps) {
   const [loading, setLoading] = useState(true)
   const [search, setSearch] = useState("")
   const [categoryId, setCategoryId] = useState<string>("")
+  const [imageStatus, setImageStatus] = useState<string>("")
+  const [checkingImages, setCheckingImages] = useState(false)
   const [categories, setCategories] = useState<Array<{ id: string; name: string; is_custom: boolean }>>([])
   const [page, setPage] = useState(1)
   const [hasMore, setHasMore] = useState(false)
@@ -49,7 +60,7 @@ export function ProductList({ onRefresh }: ProductListProps) {
 
   useEffect(() => {
     fetchProducts()
-  }, [search, categoryId, page])
+  }, [search, categoryId, imageStatus, page])
 
   const fetchCategories = async () => {
     try {
@@ -73,6 +84,7 @@ export function ProductList({ onRefresh }: ProductListProps) {
       })
       if (search) params.append("search", search)
       if (categoryId) params.append("categoryId", categoryId)
+      if (imageStatus) params.append("imageStatus", imageStatus)
 
       const response = await fetch(`/api/products?${params}`)
       if (response.ok) {
@@ -113,6 +125,42 @@ export function ProductList({ onRefresh }: ProductListProps) {
     setPage(1)
   }
 
+  const handleImageStatusChange = (value: string) => {
+    setImageStatus(value === "__all__" ? "" : value)
+    setPage(1)
+  }
+
+  const handleCheckImages = async () => {
+    setCheckingImages(true)
+    try {
+      const response = await fetch("/api/products/images/check", { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to check images")
+      }
+
+      toast({
+        title: "Images checked",
+        description: data.checked === 0
+          ? "All images have been checked recently"
+          : `Checked ${data.checked} images: ${data.broken} broken, ${data.unreachable} unreachable`,
+      })
+      if (page === 1) {
+        fetchProducts()
+      } else {
+        setPage(1)
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to check images",
+        variant: "destructive",
+      })
+    } finally {
+      setCheckingImages(false)
+    }
+  }
+
   const loadMore = () => {
     setPage(prev => prev + 1)
   }
@@ -150,6 +198,24 @@ export function ProductList({ onRefresh }: ProductListProps) {
             ))}
           </SelectContent>
         </Select>
+        <Select value={imageStatus || "__all__"} onValueChange={handleImageStatusChange}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="All Images" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="__all__">All Images</SelectItem>
+            <SelectItem value="broken">Broken Images</SelectItem>
+            <SelectItem value="unreachable">Unreachable Images</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={handleCheckImages} disabled={checkingImages}>
+          {checkingImages ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <ImageOff className="h-4 w-4 mr-2" />
+          )}
+          Check Images
+        </Button>
       </div>
 
       {/* Results count */}
@@ -174,30 +240,49 @@ export function ProductList({ onRefresh }: ProductListProps) {
                 key={product.id}
                 className="border rounded-lg p-4 hover:border-primary/50 transition-colors"
               >
-                {product.image_url ? (
-                  <div className="w-full h-32 mb-3 rounded border bg-gray-100 flex items-center justify-center overflow-hidden">
-                    <img
-                      src={product.image_url}
-                      alt={product.sku}
-                      className="max-w-full max-h-full object-contain"
-                      loading="lazy"
-                      onError={(e) => {
-                        e.currentTarget.style.display = "none"
-                      }}
-                    />
-                  </div>
-                ) : (
-                  <div className="w-full h-32 mb-3 rounded border bg-gray-100 flex items-center justify-center">
-                    <ImageIcon className="h-8 w-8 text-muted-foreground" />
-                  </div>
-                )}
+                <div className="w-full h-32 mb-3 rounded border bg-gray-100 flex items-center justify-center overflow-hidden">
+                  <ProductThumbnail
+                    thumbnailUrl={product.thumbnail_url}
+                    imageUrl={product.image_url}
+                    alt={product.sku}
+                    className="max-w-full max-h-full object-contain"
+                    loading="lazy"
+                    fallback={<ImageIcon className="h-8 w-8 text-muted-foreground" />}
+                  />
+                </div>
                 <div className="space-y-1">
-                  <div className="font-semibold text-sm font-mono">{product.sku}</div>
+                  <div className="flex items-center gap-2">
+                    <div className="font-semibold text-sm font-mono">{product.sku}</div>
+                    {product.is_active === false && (
+                      <Badge variant="destructive" className="text-xs">
+                        Inactive
+                      </Badge>
+                    )}
+                    {product.image_status === "broken" && (
+                      <Badge variant="destructive" className="text-xs" title={product.image_error || undefined}>
+                        Broken image
+                      </Badge>
+                    )}
+                    {product.image_status === "unreachable" && (
+                      <Badge variant="outline" className="text-xs" title={product.image_error || undefined}>
+                        Image unreachable
+                      </Badge>
+                    )}
+                  </div>
                   {product.name && (
                     <div className="text-sm text-muted-foreground line-clamp-2">
                       {product.name}
                     </div>
                   )}
+                  {(product.width_in || product.color) && (
+                    <div className="text-xs text-muted-foreground">
+                      {[
+                        product.width_in && product.height_in && `${product.width_in}" × ${product.height_in}"`,
+                        product.orientation && product.orientation.charAt(0).toUpperCase() + product.orientation.slice(1),
+                        product.color,
+                      ].filter(Boolean).join(" · ")}
+                    </div>
+                  )}
                   {product.product_categories && (
                     <div className="flex items-center gap-2 mt-2">
                       <Badge variant="secondary" className="text-xs">
@@ -20,6 +20,8 @@ export interface GanttRecord {
   startDate: string
   endDate: string
   sort_order: number
+  /** Frozen bars (jobs on hold) cannot be moved or resized */
+  frozen?: boolean
 }
 
 export interface GanttLink {
@@ -303,7 +305,10 @@ export const GanttChart = forwardRef<GanttChartHandle, GanttChartProps>(
           endDateField: "endDate",
           labelText: "{job_number}",
           labelTextStyle: { fontSize: 12, color: "#ffffff" },
-          barStyle: { barColor: "#3b82f6", cornerRadius: 4 },
+          barStyle: (args: any) => ({
+            barColor: args?.taskRecord?.frozen ? "#f59e0b" : "#3b82f6",
+            cornerRadius: 4,
+          }),
           hoverBarStyle: { barOverlayColor: "rgba(0,0,0,0.1)", cornerRadius: 4 },
           selectedBarStyle: {
             shadowBlur: 6,
@@ -314,8 +319,8 @@ export const GanttChart = forwardRef<GanttChartHandle, GanttChartProps>(
             borderLineWidth: 2,
           },
           selectable: true,
-          resizable: true,
-          moveable: true,
+          resizable: (args: any) => !args?.taskRecord?.frozen,
+          moveable: (args: any) => !args?.taskRecord?.frozen,
           dragOrder: true,
         },
         taskKeyField: "id",
@@ -16,6 +16,7 @@ const NAV_LINKS = [
   { href: "/production-manager", label: "Production Manager" },
   { href: "/work-log", label: "Work Log" },
   { href: "/team", label: "Team" },
+  { href: "/settings", label: "Settings" },
 ]
 
 export function MobileNav() {
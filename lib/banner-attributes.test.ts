@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest'
+import {
+  bannerAttributeColumns,
+  orientationFromSize,
+  parseBannerName,
+  parseDimensions,
+  parseLength,
+  squareFeet,
+} from './banner-attributes'
+
+describe('parseDimensions', () => {
+  it('reads feet, inches and mixed units', () => {
+    expect(parseDimensions(`14' x 30"`)).toEqual({ widthIn: 168, heightIn: 30 })
+    expect(parseDimensions('3ft x 6ft')).toEqual({ widthIn: 36, heightIn: 72 })
+    expect(parseDimensions(`5'6" x 2'`)).toEqual({ widthIn: 66, heightIn: 24 })
+    expect(parseDimensions('24 in x 36 in')).toEqual({ widthIn: 24, heightIn: 36 })
+  })
+
+  it('applies a unit written once to both numbers', () => {
+    expect(parseDimensions('30 x 30"')).toEqual({ widthIn: 30, heightIn: 30 })
+    expect(parseDimensions("3x6'")).toEqual({ widthIn: 36, heightIn: 72 })
+  })
+
+  it('converts metric units and curly quotes', () => {
+    expect(parseDimensions('1m x 50cm')).toEqual({ widthIn: 39.37, heightIn: 19.69 })
+    expect(parseDimensions('4’ × 8’')).toEqual({ widthIn: 48, heightIn: 96 })
+  })
+
+  it('ignores numbers without units, model numbers and impossible sizes', () => {
+    expect(parseDimensions('Pack of 3 x 6')).toBeNull()
+    expect(parseDimensions('BF99x2 Banner')).toBeNull()
+    expect(parseDimensions("2000' x 3'")).toBeNull()
+  })
+})
+
+describe('parseLength', () => {
+  it('reads one length in inches', () => {
+    expect(parseLength(`14'`)).toBe(168)
+    expect(parseLength(`5'6"`)).toBe(66)
+    expect(parseLength('30')).toBe(30)
+    expect(parseLength('2m')).toBe(78.74)
+    expect(parseLength('wide')).toBeNull()
+    expect(parseLength('0')).toBeNull()
+  })
+})
+
+describe('orientationFromSize', () => {
+  it('compares width with height', () => {
+    expect(orientationFromSize(72, 36)).toBe('horizontal')
+    expect(orientationFromSize(36, 72)).toBe('vertical')
+    expect(orientationFromSize(36, 36)).toBe('square')
+  })
+})
+
+describe('parseBannerName', () => {
+  it('parses size, orientation, color and material', () => {
+    expect(parseBannerName(`BF99 Custom Text Black Banner Horizontal 14' x 30"`)).toEqual({
+      attributes: { widthIn: 168, heightIn: 30, orientation: 'horizontal', color: 'Black', material: null },
+      status: 'parsed',
+      issues: [],
+    })
+    expect(parseBannerName('4x8ft Heavy Mesh Banner - Hi Vis Orange').attributes).toEqual({
+      widthIn: 48,
+      heightIn: 96,
+      orientation: 'vertical',
+      color: 'Hi Vis Orange',
+      material: 'Heavy Mesh',
+    })
+  })
+
+  it('prefers an orientation named in the text over the size', () => {
+    expect(parseBannerName(`Vertical Sign 6' x 3' Red`).attributes.orientation).toBe('vertical')
+  })
+
+  it('takes the color after the last dash over words in the sign text', () => {
+    expect(parseBannerName(`Go Green Today 3' x 6' - Blue`).attributes.color).toBe('Blue')
+  })
+
+  it('flags names without a size or color for review', () => {
+    expect(parseBannerName('Custom Banner')).toMatchObject({
+      status: 'needs_review',
+      issues: ['No size found', 'No color found'],
+    })
+    expect(parseBannerName('NONE')).toMatchObject({ status: 'needs_review', issues: ['No product name'] })
+    expect(parseBannerName(null).issues).toEqual(['No product name'])
+  })
+})
+
+describe('bannerAttributeColumns', () => {
+  it('parses every column from the name', () => {
+    expect(bannerAttributeColumns(`Red Banner 3' x 6'`)).toEqual({
+      width_in: 36,
+      height_in: 72,
+      orientation: 'vertical',
+      color: 'Red',
+      material: null,
+      attributes_status: 'parsed',
+      attributes_issue: null,
+    })
+    expect(bannerAttributeColumns('Banner').attributes_issue).toBe('No size found; No color found')
+  })
+
+  it('keeps attributes a manager set by hand', () => {
+    const manual = {
+      width_in: 40,
+      height_in: 20,
+      orientation: 'horizontal' as const,
+      color: 'Purple',
+      material: 'Fabric',
+      attributes_status: 'manual' as const,
+      attributes_issue: null,
+    }
+    expect(bannerAttributeColumns(`Red Banner 3' x 6'`, manual)).toEqual(manual)
+  })
+
+  it('parses again when earlier attributes were parsed, not set by hand', () => {
+    const columns = bannerAttributeColumns(`Red Banner 3' x 6'`, { width_in: 1, attributes_status: 'parsed' })
+    expect(columns.width_in).toBe(36)
+  })
+})
+
+describe('squareFeet', () => {
+  it('needs both dimensions', () => {
+    expect(squareFeet(36, 72)).toBe(18)
+    expect(squareFeet(36, null)).toBeNull()
+  })
+})
@@ -0,0 +1,262 @@
+/**
+ * Banner attribute parsing
+ * Product names encode size, orientation, color and sometimes material, e.g.
+ * `BF99 Custom Text Black Banner Horizontal 14' x 30"`. Imports parse them
+ * into product_catalog columns (migration 021). Names without a size or color
+ * are flagged for review; values a manager sets by hand are never overwritten.
+ */
+
+import { round2 } from './utils'
+
+export type BannerOrientation = 'horizontal' | 'vertical' | 'square'
+
+/** pending: not parsed yet, parsed: from the name, needs_review: parse failed, manual: set by a manager */
+export type AttributesStatus = 'pending' | 'parsed' | 'needs_review' | 'manual'
+
+export interface BannerAttributes {
+  widthIn: number | null
+  heightIn: number | null
+  orientation: BannerOrientation | null
+  color: string | null
+  material: string | null
+}
+
+export interface BannerParseResult {
+  attributes: BannerAttributes
+  status: 'parsed' | 'needs_review'
+  issues: string[]
+}
+
+/** product_catalog columns written by imports */
+export interface BannerAttributeColumns {
+  width_in: number | null
+  height_in: number | null
+  orientation: BannerOrientation | null
+  color: string | null
+  material: string | null
+  attributes_status: AttributesStatus
+  attributes_issue: string | null
+}
+
+export const BANNER_ATTRIBUTE_COLUMNS =
+  'width_in, height_in, orientation, color, material, attributes_status, attributes_issue'
+
+/** Longest first, so "Hi Vis Orange" wins over "Orange" */
+const COLORS = [
+  'Hi Vis Green',
+  'Hi Vis Orange',
+  'Hi Vis Yellow',
+  'Hi Vis Pink',
+  'Medium Blue',
+  'Light Blue',
+  'Dark Blue',
+  'Dark Green',
+  'Black',
+  'White',
+  'Yellow',
+  'Orange',
+  'Green',
+  'Blue',
+  'Red',
+  'Pink',
+  'Purple',
+  'Grey',
+  'Gray',
+]
+
+const MATERIALS: { pattern: RegExp; material: string }[] = [
+  { pattern: /\bheavy\s+mesh\b/i, material: 'Heavy Mesh' },
+  { pattern: /\bmesh\b/i, material: 'Mesh' },
+  { pattern: /\bevent\s+fenc(e|ing)\b/i, material: 'Event Fence' },
+  { pattern: /\bvinyl\b/i, material: 'Vinyl' },
+  { pattern: /\bfabric\b/i, material: 'Fabric' },
+]
+
+const NUM = '(\\d+(?:\\.\\d+)?)'
+const FEET = `(?:'|ft\\b\\.?|feet\\b|foot\\b)`
+const INCH = `(?:"|in\\b\\.?|inch(?:es)?\\b)`
+// Groups: feet, inches after feet, inches, metric value, metric unit
+const MEASURE = `${NUM}\\s*${FEET}(?:\\s*-?\\s*${NUM}\\s*${INCH})?|${NUM}\\s*${INCH}|${NUM}\\s*(cm|mm|m)\\b`
+const SEPARATOR = '\\s*[x×]\\s*'
+const DIMENSION_PAIR = new RegExp(`(?<![\\w.])(?:${MEASURE})${SEPARATOR}(?:${MEASURE})`, 'i')
+// `30 x 30"`: the unit of the second measurement applies to both
+const SHARED_UNIT_PAIR = new RegExp(`(?<![\\w.])${NUM}${SEPARATOR}${NUM}\\s*(${FEET}|${INCH}|cm\\b|mm\\b|m\\b)`, 'i')
+
+const MAX_DIMENSION_IN = 12000
+
+function metricToInches(value: number, unit: string) {
+  switch (unit.toLowerCase()) {
+    case 'mm':
+      return value / 25.4
+    case 'cm':
+      return value / 2.54
+    default:
+      return value / 0.0254
+  }
+}
+
+/** Inches from one MEASURE match, given its five groups */
+function measureToInches(groups: (string | undefined)[]): number | null {
+  const [feet, feetInches, inches, metric, metricUnit] = groups
+  if (feet !== undefined) return parseFloat(feet) * 12 + (feetInches ? parseFloat(feetInches) : 0)
+  if (inches !== undefined) return parseFloat(inches)
+  if (metric !== undefined && metricUnit) return metricToInches(parseFloat(metric), metricUnit)
+  return null
+}
+
+function unitToInches(value: number, unit: string): number {
+  if (new RegExp(`^${FEET}$`, 'i').test(unit)) return value * 12
+  if (new RegExp(`^${INCH}$`, 'i').test(unit)) return value
+  return metricToInches(value, unit)
+}
+
+function normalizeName(name: string) {
+  return name
+    .replace(/[‘’′]/g, "'")
+    .replace(/[“”″]/g, '"')
+    .replace(/''/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Width and height in inches from the first `W x H` in the text. Feet,
+ * inches, feet-and-inches (5'6") and metric units are accepted.
+ */
+export function parseDimensions(text: string): { widthIn: number; heightIn: number } | null {
+  const normalized = normalizeName(text)
+  let width: number | null = null
+  let height: number | null = null
+
+  const pair = normalized.match(DIMENSION_PAIR)
+  if (pair) {
+    width = measureToInches(pair.slice(1, 6))
+    height = measureToInches(pair.slice(6, 11))
+  } else {
+    const shared = normalized.match(SHARED_UNIT_PAIR)
+    if (shared) {
+      width = unitToInches(parseFloat(shared[1]), shared[3])
+      height = unitToInches(parseFloat(shared[2]), shared[3])
+    }
+  }
+
+  if (!width || !height || width > MAX_DIMENSION_IN || height > MAX_DIMENSION_IN) return null
+  return { widthIn: round2(width), heightIn: round2(height) }
+}
+
+/**
+ * A single length in inches: `14'`, `5'6"`, `30"`, `2m`, or a bare number of inches
+ */
+export function parseLength(text: string): number | null {
+  const normalized = normalizeName(text)
+  if (/^\d+(\.\d+)?$/.test(normalized)) return round2(parseFloat(normalized)) || null
+
+  const match = normalized.match(new RegExp(`^(?:${MEASURE})$`, 'i'))
+  const inches = match ? measureToInches(match.slice(1, 6)) : null
+  return inches && inches <= MAX_DIMENSION_IN ? round2(inches) : null
+}
+
+export function orientationFromSize(widthIn: number, heightIn: number): BannerOrientation {
+  if (widthIn === heightIn) return 'square'
+  return widthIn > heightIn ? 'horizontal' : 'vertical'
+}
+
+/**
+ * The color is looked for after the last " - " (the part after the sign text),
+ * so words like "Green" in the sign text itself are not mistaken for it.
+ */
+function parseColor(name: string): string | null {
+  const dash = name.lastIndexOf(' - ')
+  const segments = dash >= 0 ? [name.slice(dash + 3), name] : [name]
+
+  for (const segment of segments) {
+    let best: { color: string; index: number } | null = null
+    for (const color of COLORS) {
+      const match = new RegExp(`\\b${color.replace(/ /g, '\\s+')}\\b`, 'i').exec(segment)
+      if (match && (!best || match.index < best.index)) {
+        best = { color, index: match.index }
+      }
+    }
+    if (best) return best.color
+  }
+
+  return null
+}
+
+export function parseBannerName(name: string | null | undefined): BannerParseResult {
+  const attributes: BannerAttributes = {
+    widthIn: null,
+    heightIn: null,
+    orientation: null,
+    color: null,
+    material: null,
+  }
+
+  if (!name || !name.trim() || name.trim().toUpperCase() === 'NONE') {
+    return { attributes, status: 'needs_review', issues: ['No product name'] }
+  }
+
+  const normalized = normalizeName(name)
+  const issues: string[] = []
+
+  const size = parseDimensions(normalized)
+  if (size) {
+    attributes.widthIn = size.widthIn
+    attributes.heightIn = size.heightIn
+  } else {
+    issues.push('No size found')
+  }
+
+  const keyword = normalized.match(/\b(horizontal|vertical|square)\b/i)
+  if (keyword) {
+    attributes.orientation = keyword[1].toLowerCase() as BannerOrientation
+  } else if (size) {
+    attributes.orientation = orientationFromSize(size.widthIn, size.heightIn)
+  }
+
+  attributes.color = parseColor(normalized)
+  if (!attributes.color) issues.push('No color found')
+
+  attributes.material = MATERIALS.find(m => m.pattern.test(normalized))?.material || null
+
+  return { attributes, status: issues.length === 0 ? 'parsed' : 'needs_review', issues }
+}
+
+/**
+ * Attribute columns for an imported product row. A row whose attributes a
+ * manager set by hand keeps them; every other row is parsed from its name.
+ * Always returns every column: a bulk upsert sets missing keys to NULL.
+ */
+export function bannerAttributeColumns(
+  name: string | null | undefined,
+  existing?: Partial<BannerAttributeColumns> | null
+): BannerAttributeColumns {
+  if (existing?.attributes_status === 'manual') {
+    return {
+      width_in: existing.width_in ?? null,
+      height_in: existing.height_in ?? null,
+      orientation: existing.orientation ?? null,
+      color: existing.color ?? null,
+      material: existing.material ?? null,
+      attributes_status: 'manual',
+      attributes_issue: null,
+    }
+  }
+
+  const { attributes, status, issues } = parseBannerName(name)
+  return {
+    width_in: attributes.widthIn,
+    height_in: attributes.heightIn,
+    orientation: attributes.orientation,
+    color: attributes.color,
+    material: attributes.material,
+    attributes_status: status,
+    attributes_issue: issues.length > 0 ? issues.join('; ') : null,
+  }
+}
+
+/** Area in square feet, or null without both dimensions */
+export function squareFeet(widthIn: number | null | undefined, heightIn: number | null | undefined): number | null {
+  if (!widthIn || !heightIn) return null
+  return (widthIn * heightIn) / 144
+}
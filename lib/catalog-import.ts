@@ -0,0 +1,339 @@
+/**
+ * Catalog import pipeline
+ * Every way products get into product_catalog (the CSV triple, the legacy
+ * single-file CSV, the Salesforce import and the scheduled Salesforce sync)
+ * is a source that turns its input into
+ * catalog records. applyCatalogImport writes them the same way for all of
+ * them: duplicates by SKU, validation results, chunked snapshots and
+ * upserts, and per-row results for the import run (import-runs.ts).
+ */
+
+import {
+  chunkRows,
+  findProductColumns,
+  validateProductRow,
+  type CSVReader,
+  type ProductColumns,
+} from './csv-parser'
+import { buildImageMappings, type ImageMapping } from './image-url-builder'
+import {
+  classifyUpsertRows,
+  failRows,
+  rejectRow,
+  keepLastBySku,
+  appendChunkResults,
+  type ImportRowResult,
+} from './import-runs'
+import { snapshotProducts } from './import-snapshots'
+import { BANNER_ATTRIBUTE_COLUMNS, bannerAttributeColumns } from './banner-attributes'
+import type {
+  SalesforceProduct,
+  SalesforceProductMedia,
+  SalesforceManagedContent,
+} from './salesforce/types'
+
+// Records snapshotted and written at a time
+export const CATALOG_IMPORT_CHUNK_SIZE = 500
+
+/** A product as a source provides it, before it is merged with the catalog */
+export interface CatalogImportRecord {
+  /** Line in the uploaded file, or position in the Salesforce result */
+  lineNumber: number
+  /** Salesforce Product2 Id; empty when the source has none */
+  id: string
+  sku: string
+  name: string
+  productCode: string
+  /** Category given by the source; otherwise derived from the product code */
+  category?: string
+  /** Image to store; undefined keeps the image the product already has */
+  imageUrl?: string | null
+  /** Further product_catalog columns the source sets, written as given */
+  columns?: Record<string, any>
+}
+
+export interface CatalogSourceChunk {
+  records: CatalogImportRecord[]
+  /** Rows the source rejected, already as import results */
+  rejected: ImportRowResult[]
+}
+
+export type CatalogSource = AsyncIterable<CatalogSourceChunk>
+
+export interface CatalogImportResult {
+  rows: ImportRowResult[]
+  /** Rows the source read, imported or not */
+  total: number
+  /** SKUs written */
+  imported: number
+  withImages: number
+  /** Set when a write failed; chunks before it stay written */
+  error: string | null
+}
+
+/** Fields of the existing catalog row that a record falls back to */
+export interface ExistingCatalogFields {
+  product_id?: string | null
+  name?: string | null
+  product_code: string | null
+  category: string | null
+  image_url?: string | null
+}
+
+export function getCategoryFromProductCode(productCode: string | null | undefined): string {
+  if (!productCode) return 'Other'
+  const parts = productCode.split(':')
+  return parts[0] || 'Other'
+}
+
+/**
+ * The product_catalog columns for a record. Fields the source leaves empty
+ * (or a column mapping leaves out) are kept from the existing row, so a
+ * partial file never clears the Salesforce product id or the name.
+ */
+export function catalogProductRow(record: CatalogImportRecord, existing?: ExistingCatalogFields) {
+  const productCode = record.productCode || existing?.product_code || null
+  const category = record.category
+    || (productCode ? getCategoryFromProductCode(productCode) : (existing?.category || 'Other'))
+
+  return {
+    product_id: record.id || existing?.product_id || null,
+    sku: record.sku,
+    name: record.name || existing?.name || null,
+    product_code: productCode,
+    category,
+    image_url: record.imageUrl === undefined ? existing?.image_url ?? null : record.imageUrl,
+  }
+}
+
+async function* fileSource(
+  reader: CSVReader,
+  columns: ProductColumns,
+  options: { requireId: boolean; imageUrl: (record: CatalogImportRecord) => string | null | undefined }
+): CatalogSource {
+  for await (const records of chunkRows(reader.rows, CATALOG_IMPORT_CHUNK_SIZE)) {
+    const chunk: CatalogSourceChunk = { records: [], rejected: [] }
+
+    records.forEach(record => {
+      const result = validateProductRow(record, columns, reader.headers.length, {
+        requireId: options.requireId,
+      })
+      if (!result.product) {
+        chunk.rejected.push(rejectRow({
+          rowNumber: record.lineNumber,
+          sku: record.row[columns.skuKey]?.trim(),
+          externalId: record.row[columns.idKey]?.trim(),
+        }, result.errors))
+        return
+      }
+
+      const { imageUrl, ...product } = result.product
+      const catalogRecord: CatalogImportRecord = {
+        ...product,
+        lineNumber: record.lineNumber,
+        category: product.category || undefined,
+        imageUrl: imageUrl || undefined,
+      }
+      catalogRecord.imageUrl = options.imageUrl(catalogRecord)
+      chunk.records.push(catalogRecord)
+    })
+
+    yield chunk
+  }
+}
+
+/**
+ * Products file of the CSV import (CSV or worksheet), with image URLs from
+ * the productMedia and managedContent files. A mapped image column wins over
+ * the media files; with neither, products keep the image they have.
+ */
+export function productFileSource(
+  reader: CSVReader,
+  options: {
+    columns: ProductColumns
+    requireId: boolean
+    imageMappings: Map<string, ImageMapping>
+    hasImageSource: boolean
+  }
+): CatalogSource {
+  return fileSource(reader, options.columns, {
+    requireId: options.requireId,
+    imageUrl: record => options.hasImageSource
+      ? record.imageUrl || options.imageMappings.get(record.id)?.imageUrl || null
+      : undefined,
+  })
+}
+
+/**
+ * Legacy single-file banner CSV: ID, Name, SKU, ProductCode. It has no
+ * images, so products keep the image they have.
+ */
+export function legacyCSVSource(reader: CSVReader): CatalogSource {
+  return fileSource(reader, findProductColumns(reader.headers), {
+    requireId: false,
+    imageUrl: () => undefined,
+  })
+}
+
+/**
+ * Image URL per Salesforce product, built like the CSV import's from
+ * ProductMedia and ManagedContent records
+ */
+export function salesforceImageMappings(
+  productMedia: SalesforceProductMedia[],
+  managedContent: SalesforceManagedContent[]
+): Map<string, ImageMapping> {
+  return buildImageMappings(
+    productMedia
+      .filter(media => media.ElectronicMediaId)
+      .map(media => ({ productId: media.ProductId, electronicMediaId: media.ElectronicMediaId! })),
+    managedContent
+      .filter(content => content.ContentKey)
+      .map(content => ({ id: content.Id, contentKey: content.ContentKey! }))
+  )
+}
+
+/**
+ * The record a Salesforce product imports as. A product without an image
+ * in Salesforce loses the one it has.
+ */
+export function salesforceRecord(
+  product: SalesforceProduct,
+  lineNumber: number,
+  imageUrl: string | null
+): CatalogImportRecord {
+  return {
+    lineNumber,
+    id: product.Id,
+    sku: product.StockKeepingUnit || '',
+    name: product.Name || '',
+    productCode: product.ProductCode || '',
+    imageUrl,
+  }
+}
+
+/**
+ * Active Salesforce products. Products without a SKU and those deselected
+ * in the import preview are skipped. With keepMissingImages a product
+ * without an image in Salesforce keeps the one it has instead of losing it.
+ */
+export async function* salesforceSource(
+  products: SalesforceProduct[],
+  options: {
+    imageMappings: Map<string, ImageMapping>
+    excludeSkus?: Set<string>
+    keepMissingImages?: boolean
+  }
+): CatalogSource {
+  for (let i = 0; i < products.length; i += CATALOG_IMPORT_CHUNK_SIZE) {
+    const chunk: CatalogSourceChunk = { records: [], rejected: [] }
+
+    products.slice(i, i + CATALOG_IMPORT_CHUNK_SIZE).forEach((product, index) => {
+      const rowNumber = i + index + 1
+      const sku = product.StockKeepingUnit
+      if (!sku) {
+        chunk.rejected.push({ rowNumber, sku: null, externalId: product.Id, action: 'skipped', message: 'No SKU in Salesforce' })
+      } else if (options.excludeSkus?.has(sku)) {
+        chunk.rejected.push({ rowNumber, sku, externalId: product.Id, action: 'skipped', message: 'Deselected in preview' })
+      } else {
+        const imageUrl = options.imageMappings.get(product.Id)?.imageUrl || null
+        const record = salesforceRecord(product, rowNumber, imageUrl)
+        if (!imageUrl && options.keepMissingImages) record.imageUrl = undefined
+        chunk.records.push(record)
+      }
+    })
+
+    yield chunk
+  }
+}
+
+/**
+ * Write a source to product_catalog chunk by chunk. Within the import the
+ * last record of a SKU wins; every written row is snapshotted first so the
+ * run can be rolled back. Stops at the first chunk that fails, with the
+ * rows of that chunk marked failed.
+ */
+export async function applyCatalogImport(
+  supabase: any,
+  source: CatalogSource,
+  options: { runId: string | null; userId: string | null }
+): Promise<CatalogImportResult> {
+  const rows: ImportRowResult[] = []
+  const resultIndexBySku = new Map<string, number>()
+  const skusWithImages = new Set<string>()
+  let total = 0
+
+  const result = (error: string | null): CatalogImportResult => ({
+    rows,
+    total,
+    imported: resultIndexBySku.size,
+    withImages: skusWithImages.size,
+    error,
+  })
+
+  try {
+    for await (const chunk of source) {
+      total += chunk.records.length + chunk.rejected.length
+      rows.push(...chunk.rejected)
+
+      const { rows: records, duplicates } = keepLastBySku(chunk.records)
+      rows.push(...duplicates)
+      if (records.length === 0) continue
+
+      const { data: existingProducts, error: existingError } = await supabase
+        .from('product_catalog')
+        .select(`sku, product_id, name, product_code, category, image_url, ${BANNER_ATTRIBUTE_COLUMNS}`)
+        .in('sku', records.map(record => record.sku))
+
+      if (existingError) throw new Error(`Failed to load existing products: ${existingError.message}`)
+      const existingMap = new Map<string, any>((existingProducts || []).map((p: any) => [p.sku, p]))
+
+      const productData = records.map(record => {
+        const existing = existingMap.get(record.sku)
+        const row = catalogProductRow(record, existing)
+        return {
+          ...row,
+          ...bannerAttributeColumns(row.name, existing),
+          ...record.columns,
+          imported_by: options.userId,
+        }
+      })
+
+      const upsertResults = classifyUpsertRows(
+        records.map((record, index) => ({
+          rowNumber: record.lineNumber,
+          externalId: record.id || null,
+          data: productData[index],
+        })),
+        new Set(existingMap.keys())
+      )
+
+      // Keep the previous state of every touched row so the run can be rolled back
+      await snapshotProducts(supabase, options.runId, productData.map(p => p.sku))
+
+      const { error } = await supabase
+        .from('product_catalog')
+        .upsert(productData, {
+          onConflict: 'sku',
+          ignoreDuplicates: false,
+        })
+
+      if (error) {
+        console.error('Error importing products:', error)
+        appendChunkResults(rows, resultIndexBySku, failRows(upsertResults, error.message))
+        return result(error.message)
+      }
+
+      appendChunkResults(rows, resultIndexBySku, upsertResults)
+      productData.forEach(p => {
+        if (p.image_url !== null) skusWithImages.add(p.sku)
+        else skusWithImages.delete(p.sku)
+      })
+    }
+  } catch (error: any) {
+    console.error('Error importing products:', error)
+    return result(error.message || 'Failed to import products')
+  }
+
+  return result(null)
+}
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest'
+import {
+  chunkRows,
+  findProductColumns,
+  openCSV,
+  parseCSV,
+  parseCSVWithLineNumbers,
+  sniffDelimiter,
+  toCSVLine,
+  validateProductRow,
+  validateRecordShape,
+  type CSVRecord,
+} from './csv-parser'
+
+async function readAll(source: Parameters<typeof openCSV>[0], options?: { delimiter?: string }) {
+  const reader = await openCSV(source, options)
+  const records: CSVRecord[] = []
+  for await (const record of reader.rows) records.push(record)
+  return { ...reader, records }
+}
+
+/** A byte stream that hands out `size` bytes at a time */
+function byteStream(bytes: Uint8Array, size: number): ReadableStream<Uint8Array> {
+  let offset = 0
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close()
+        return
+      }
+      controller.enqueue(bytes.slice(offset, offset + size))
+      offset += size
+    },
+  })
+}
+
+describe('openCSV', () => {
+  it('reads quoted fields with delimiters, doubled quotes and line breaks', async () => {
+    const { headers, records } = await readAll(
+      'SKU,Name,Note\nA1,"Banner, 3x5","He said ""hi"""\nB2,"Two\nlines",x\n'
+    )
+
+    expect(headers).toEqual(['SKU', 'Name', 'Note'])
+    expect(records.map(r => r.row)).toEqual([
+      { SKU: 'A1', Name: 'Banner, 3x5', Note: 'He said "hi"' },
+      { SKU: 'B2', Name: 'Two\nlines', Note: 'x' },
+    ])
+  })
+
+  it('numbers rows by the file line they start on', async () => {
+    const { records } = await readAll('SKU,Name\n"A\n1",x\r\nB,y\rC,z')
+    expect(records.map(r => [r.row.SKU, r.lineNumber])).toEqual([
+      ['A\n1', 2],
+      ['B', 4],
+      ['C', 5],
+    ])
+  })
+
+  it('sniffs semicolon and tab delimiters', async () => {
+    const semicolon = await readAll('SKU;Name\nA;Banner, red\nB;Flag\n')
+    expect(semicolon.delimiter).toBe(';')
+    expect(semicolon.records[0].row).toEqual({ SKU: 'A', Name: 'Banner, red' })
+
+    const tab = await readAll('SKU\tName\nA\tBanner\n')
+    expect(tab.delimiter).toBe('\t')
+    expect(tab.records[0].row.Name).toBe('Banner')
+  })
+
+  it('uses a given delimiter instead of sniffing', async () => {
+    const { records } = await readAll('SKU|Name,x\nA|B,y\n', { delimiter: '|' })
+    expect(records[0].row).toEqual({ SKU: 'A', 'Name,x': 'B,y' })
+  })
+
+  it('drops a UTF-8 byte order mark', async () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...Array.from(new TextEncoder().encode('SKU,Name\nA,Café\n'))])
+    const { headers, encoding, records } = await readAll(new Blob([bytes]))
+    expect(encoding).toBe('utf-8')
+    expect(headers).toEqual(['SKU', 'Name'])
+    expect(records[0].row.Name).toBe('Café')
+  })
+
+  it('decodes UTF-16LE files with a byte order mark', async () => {
+    const text = 'SKU,Name\nA,Café\n'
+    const bytes = new Uint8Array(2 + text.length * 2)
+    bytes.set([0xff, 0xfe])
+    for (let i = 0; i < text.length; i++) {
+      bytes[2 + i * 2] = text.charCodeAt(i) & 0xff
+      bytes[3 + i * 2] = text.charCodeAt(i) >> 8
+    }
+
+    const { encoding, records } = await readAll(new Blob([bytes]))
+    expect(encoding).toBe('utf-16le')
+    expect(records[0].row).toEqual({ SKU: 'A', Name: 'Café' })
+  })
+
+  it('falls back to Windows-1252 when the file is not valid UTF-8', async () => {
+    const bytes = new Uint8Array([...Array.from(new TextEncoder().encode('SKU,Name\nA,Caf')), 0xe9, 0x0a])
+    const { encoding, records } = await readAll(new Blob([bytes]))
+    expect(encoding).toBe('windows-1252')
+    expect(records[0].row.Name).toBe('Café')
+  })
+
+  it('reassembles characters and rows split across stream chunks', async () => {
+    const lines = ['SKU,Name', ...Array.from({ length: 300 }, (_, i) => `S${i},"Größe ${i}, rot"`)]
+    const bytes = new TextEncoder().encode(lines.join('\n'))
+
+    const { records } = await readAll(byteStream(bytes, 7))
+    expect(records).toHaveLength(300)
+    expect(records[299].row).toEqual({ SKU: 'S299', Name: 'Größe 299, rot' })
+  })
+
+  it('flags unterminated quotes and wrong column counts', async () => {
+    const { headers, records } = await readAll('SKU,Name\nA,x,extra\nB,"open\n')
+
+    expect(validateRecordShape(records[0], headers.length)).toEqual({
+      lineNumber: 2,
+      column: null,
+      message: 'Expected 2 columns, found 3',
+    })
+    expect(validateRecordShape(records[1], headers.length)).toEqual({
+      lineNumber: 3,
+      column: null,
+      message: 'Unterminated quoted field',
+    })
+  })
+
+  it('has no headers or rows for an empty file', async () => {
+    const { headers, records } = await readAll('')
+    expect(headers).toEqual([])
+    expect(records).toEqual([])
+  })
+})
+
+describe('sniffDelimiter', () => {
+  it('prefers the delimiter the lines agree on', () => {
+    expect(sniffDelimiter('a;b;c\n1;2,5;3\n4;5;6')).toBe(';')
+    expect(sniffDelimiter('just one column')).toBe(',')
+  })
+})
+
+describe('parseCSVWithLineNumbers', () => {
+  it('parses text in memory with line numbers', () => {
+    expect(parseCSVWithLineNumbers('SKU,Name\n"A",x\n\nB,y')).toEqual([
+      { row: { SKU: 'A', Name: 'x' }, lineNumber: 2 },
+      { row: { SKU: 'B', Name: 'y' }, lineNumber: 4 },
+    ])
+  })
+})
+
+describe('toCSVLine', () => {
+  it('quotes only the cells that need it and round-trips through the parser', () => {
+    const cells = ['plain', 'a,b', 'say "x"', 'two\nlines', null, 3.5]
+    const line = toCSVLine(cells)
+
+    expect(line).toBe('plain,"a,b","say ""x""","two\nlines",,3.5')
+    expect(parseCSV(`c1,c2,c3,c4,c5,c6\n${line}`)[0]).toEqual({
+      c1: 'plain',
+      c2: 'a,b',
+      c3: 'say "x"',
+      c4: 'two\nlines',
+      c5: '',
+      c6: '3.5',
+    })
+  })
+})
+
+describe('chunkRows', () => {
+  it('groups rows and yields the remainder', async () => {
+    async function* numbers() {
+      for (let i = 1; i <= 5; i++) yield i
+    }
+    const chunks: number[][] = []
+    for await (const chunk of chunkRows(numbers(), 2)) chunks.push(chunk)
+    expect(chunks).toEqual([[1, 2], [3, 4], [5]])
+  })
+})
+
+describe('validateProductRow', () => {
+  async function firstRecord(text: string) {
+    const { headers, records } = await readAll(text)
+    return { headers, record: records[0] }
+  }
+
+  it('finds the product columns by name', () => {
+    expect(findProductColumns(['Product Name', 'StockKeepingUnit', 'Id', 'ProductCode'])).toEqual({
+      idKey: 'Id',
+      nameKey: 'Product Name',
+      skuKey: 'StockKeepingUnit',
+      productCodeKey: 'ProductCode',
+    })
+  })
+
+  it('returns the product for a valid row', async () => {
+    const { headers, record } = await firstRecord('ID,Name,SKU,ProductCode\n01t1, Banner ,B-1,X:1\n')
+    const result = validateProductRow(record, findProductColumns(headers), headers.length)
+
+    expect(result.errors).toEqual([])
+    expect(result.product).toEqual({ id: '01t1', name: 'Banner', sku: 'B-1', productCode: 'X:1', lineNumber: 2 })
+  })
+
+  it('reports every problem on the row', async () => {
+    const { headers, record } = await firstRecord('ID,Name,SKU,ProductCode,Image\n,Banner,,X:1,ftp://img\n')
+    const columns = { ...findProductColumns(headers), imageUrlKey: 'Image' }
+    const result = validateProductRow(record, columns, headers.length)
+
+    expect(result.product).toBeNull()
+    expect(result.errors.map(e => e.message)).toEqual([
+      'Missing product ID',
+      'Missing SKU',
+      'Image URL must start with http:// or https://',
+    ])
+  })
+
+  it('does not require an ID for the legacy import', async () => {
+    const { headers, record } = await firstRecord('ID,Name,SKU,ProductCode\n,Banner,B-1,\n')
+    const result = validateProductRow(record, findProductColumns(headers), headers.length, { requireId: false })
+    expect(result.product?.sku).toBe('B-1')
+  })
+})
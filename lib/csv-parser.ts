@@ -1,73 +1,413 @@
 /**
- * Enhanced CSV Parser Utility
- * Handles quoted fields, multiple formats, and validates data
+ * CSV Parser Utility (RFC 4180)
+ * Quoted fields may contain delimiters, doubled quotes and line breaks; lines
+ * end in CRLF, LF or CR. Files are read as a stream and decoded as they
+ * arrive, so a large upload never has to be held as one string:
+ * - the encoding comes from the byte order mark (UTF-8, UTF-16LE/BE);
+ *   without one the file is UTF-8, or Windows-1252 if the start of it is not
+ *   valid UTF-8 (Excel's "CSV" on Windows)
+ * - the delimiter (comma, semicolon, tab or pipe) is sniffed from the first
+ *   lines unless given
  */
 
 export interface ParsedCSVRow {
   [key: string]: string
 }
 
-export function parseCSV(text: string): ParsedCSVRow[] {
-  const lines = text.split('\n').filter(line => line.trim())
-  if (lines.length < 2) {
-    return []
-  }
+export interface CSVRecord {
+  row: ParsedCSVRow
+  /** Line in the file where the row starts (header is line 1) */
+  lineNumber: number
+  /** Fields on the row; differs from the header count on malformed rows */
+  fieldCount: number
+  /** The file ended inside a quoted field that started on this row */
+  unterminated: boolean
+}
+
+export interface CSVReader {
+  headers: string[]
+  delimiter: string
+  encoding: string
+  rows: AsyncGenerator<CSVRecord>
+}
+
+/** A problem with one row of an uploaded file */
+export interface CSVValidationError {
+  lineNumber: number
+  /** Header of the offending column, or null when the whole row is at fault */
+  column: string | null
+  message: string
+}
+
+export type CSVSource = Blob | ReadableStream<Uint8Array> | string
 
-  // Parse header row
-  const headers = parseCSVLine(lines[0]).map(h => h.trim().replace(/^"|"$/g, ''))
+const DELIMITERS = [',', ';', '\t', '|']
+/** Text collected before sniffing the delimiter */
+const SNIFF_LINES = 10
+const SNIFF_CHARS = 64 * 1024
+/** Bytes read before deciding the encoding */
+const DETECT_BYTES = 4096
 
-  const data: ParsedCSVRow[] = []
+interface RawRecord {
+  fields: string[]
+  lineNumber: number
+  unterminated: boolean
+}
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i])
-    
-    if (values.length === 0) continue
+/**
+ * Incremental RFC 4180 tokenizer. Text can be pushed in pieces split
+ * anywhere, including inside a quoted field or between CR and LF. Blank
+ * lines are skipped.
+ */
+function createTokenizer(delimiter: string) {
+  let fields: string[] = []
+  let field = ''
+  // start: at the beginning of a field; quoted: inside quotes; quote: just
+  // saw a quote inside quotes (closing, or the first of a doubled quote)
+  let state: 'start' | 'unquoted' | 'quoted' | 'quote' = 'start'
+  let line = 1
+  let recordLine = 1
+  let lastWasCR = false
 
-    const row: ParsedCSVRow = {}
-    headers.forEach((header, index) => {
-      row[header] = values[index]?.trim().replace(/^"|"$/g, '') || ''
-    })
+  const endField = () => {
+    fields.push(field)
+    field = ''
+    state = 'start'
+  }
 
-    data.push(row)
+  const endRecord = (records: RawRecord[], unterminated = false) => {
+    endField()
+    if (fields.length > 1 || fields[0] !== '') {
+      records.push({ fields, lineNumber: recordLine, unterminated })
+    }
+    fields = []
   }
 
-  return data
+  return {
+    push(text: string): RawRecord[] {
+      const records: RawRecord[] = []
+
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+        const isNewline = char === '\n' || char === '\r'
+
+        // The LF of a CRLF was already counted with the CR
+        if (char === '\n' && lastWasCR) {
+          lastWasCR = false
+          if (state !== 'quoted') continue
+          field += char
+          continue
+        }
+        lastWasCR = char === '\r'
+        if (isNewline) line++
+
+        switch (state) {
+          case 'quoted':
+            if (char === '"') state = 'quote'
+            else field += char
+            break
+          case 'quote':
+            if (char === '"') {
+              field += '"'
+              state = 'quoted'
+            } else if (char === delimiter) {
+              endField()
+            } else if (isNewline) {
+              endRecord(records)
+              recordLine = line
+            } else {
+              // Text after a closing quote: keep it rather than lose data
+              field += char
+              state = 'unquoted'
+            }
+            break
+          default:
+            // Spaces before an opening quote are not part of the field
+            if (char === '"' && field.trim() === '') {
+              field = ''
+              state = 'quoted'
+            } else if (char === delimiter) {
+              endField()
+            } else if (isNewline) {
+              endRecord(records)
+              recordLine = line
+            } else {
+              field += char
+              state = 'unquoted'
+            }
+        }
+      }
+
+      return records
+    },
+
+    end(): RawRecord[] {
+      const records: RawRecord[] = []
+      if (state !== 'start' || field !== '' || fields.length > 0) {
+        endRecord(records, state === 'quoted')
+      }
+      return records
+    },
+  }
 }
 
+type Tokenizer = ReturnType<typeof createTokenizer>
+
 /**
- * Parse a single CSV line, handling quoted fields
+ * Count delimiters per line outside quotes, for the first lines of a sample
  */
-function parseCSVLine(line: string): string[] {
-  const values: string[] = []
-  let current = ''
+function countPerLine(sample: string, delimiter: string): number[] {
+  const counts: number[] = []
+  let count = 0
   let inQuotes = false
 
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i]
-    const nextChar = line[i + 1]
-
+  for (let i = 0; i < sample.length && counts.length < SNIFF_LINES; i++) {
+    const char = sample[i]
     if (char === '"') {
-      if (inQuotes && nextChar === '"') {
-        // Escaped quote
-        current += '"'
-        i++ // Skip next quote
-      } else {
-        // Toggle quote state
-        inQuotes = !inQuotes
+      inQuotes = !inQuotes
+    } else if (!inQuotes && char === delimiter) {
+      count++
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (char === '\r' && sample[i + 1] === '\n') i++
+      counts.push(count)
+      count = 0
+    }
+  }
+
+  return counts
+}
+
+/**
+ * The delimiter that splits the first lines into the same, largest number
+ * of columns. Comma when nothing else fits better.
+ */
+export function sniffDelimiter(sample: string): string {
+  let best = ','
+  let bestScore = -1
+
+  for (const delimiter of DELIMITERS) {
+    const counts = countPerLine(sample, delimiter)
+    const headerCount = counts[0] ?? 0
+    if (headerCount === 0) continue
+
+    // Lines agreeing with the header first, then more columns
+    const consistent = counts.filter(count => count === headerCount).length
+    const score = consistent * 1000 + headerCount
+    if (score > bestScore) {
+      best = delimiter
+      bestScore = score
+    }
+  }
+
+  return best
+}
+
+function detectEncoding(bytes: Uint8Array): { encoding: string; bomLength: number } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', bomLength: 3 }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', bomLength: 2 }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', bomLength: 2 }
+
+  try {
+    // stream: true so a character cut off at the end of the chunk is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true })
+    return { encoding: 'utf-8', bomLength: 0 }
+  } catch {
+    return { encoding: 'windows-1252', bomLength: 0 }
+  }
+}
+
+/**
+ * Decode a byte stream to text chunks, detecting the encoding from the
+ * first bytes
+ */
+async function* decodeStream(
+  stream: ReadableStream<Uint8Array>,
+  onEncoding: (encoding: string) => void
+): AsyncGenerator<string> {
+  const reader = stream.getReader()
+  let decoder: TextDecoder | null = null
+  // Bytes held back until there are enough to detect the encoding
+  let head = new Uint8Array(0)
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      if (!value || value.length === 0) continue
+
+      let bytes = value
+      if (!decoder) {
+        const joined = new Uint8Array(head.length + value.length)
+        joined.set(head)
+        joined.set(value, head.length)
+        head = joined
+        if (head.length < DETECT_BYTES) continue
+
+        const { encoding, bomLength } = detectEncoding(head)
+        onEncoding(encoding)
+        decoder = new TextDecoder(encoding)
+        bytes = head.subarray(bomLength)
       }
-    } else if (char === ',' && !inQuotes) {
-      // End of field
-      values.push(current)
-      current = ''
+
+      const text = decoder.decode(bytes, { stream: true })
+      if (text) yield text
+    }
+
+    let rest: string
+    if (decoder) {
+      rest = decoder.decode()
     } else {
-      current += char
+      // Smaller than DETECT_BYTES
+      const { encoding, bomLength } = detectEncoding(head)
+      onEncoding(encoding)
+      rest = new TextDecoder(encoding).decode(head.subarray(bomLength))
+    }
+    if (rest) yield rest
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+async function* textChunks(source: CSVSource, onEncoding: (encoding: string) => void): AsyncGenerator<string> {
+  if (typeof source === 'string') {
+    onEncoding('utf-8')
+    yield source.replace(/^\uFEFF/, '')
+    return
+  }
+  const stream = source instanceof Blob ? (source.stream() as ReadableStream<Uint8Array>) : source
+  yield* decodeStream(stream, onEncoding)
+}
+
+function toRow(headers: string[], fields: string[]): ParsedCSVRow {
+  const row: ParsedCSVRow = {}
+  headers.forEach((header, index) => {
+    row[header] = fields[index]?.trim() || ''
+  })
+  return row
+}
+
+/**
+ * Open a CSV file: reads as far as the header row and returns the data rows
+ * as an async iterator, parsed as they are read.
+ */
+export async function openCSV(source: CSVSource, options: { delimiter?: string } = {}): Promise<CSVReader> {
+  let encoding = 'utf-8'
+  let delimiter = options.delimiter || ','
+  const chunks = textChunks(source, detected => {
+    encoding = detected
+  })
+
+  async function* records(): AsyncGenerator<RawRecord> {
+    // Hold back the first lines until the delimiter is known
+    let sample = ''
+    let tokenizer: Tokenizer | null = null
+
+    const startTokenizer = () => {
+      if (!options.delimiter) delimiter = sniffDelimiter(sample)
+      return createTokenizer(delimiter)
+    }
+
+    for await (const text of chunks) {
+      if (tokenizer) {
+        yield* tokenizer.push(text)
+        continue
+      }
+      sample += text
+      if (sample.length >= SNIFF_CHARS || (sample.match(/\r\n|\r|\n/g) || []).length >= SNIFF_LINES) {
+        tokenizer = startTokenizer()
+        yield* tokenizer.push(sample)
+      }
+    }
+
+    if (!tokenizer) {
+      tokenizer = startTokenizer()
+      yield* tokenizer.push(sample)
+    }
+    yield* tokenizer.end()
+  }
+
+  const raw = records()
+  const first = await raw.next()
+  const headers = first.done ? [] : first.value.fields.map(h => h.trim())
+
+  async function* rows(): AsyncGenerator<CSVRecord> {
+    for await (const record of raw) {
+      yield {
+        row: toRow(headers, record.fields),
+        lineNumber: record.lineNumber,
+        fieldCount: record.fields.length,
+        unterminated: record.unterminated,
+      }
+    }
+  }
+
+  return { headers, delimiter, encoding, rows: rows() }
+}
+
+/**
+ * Read rows in groups of `size`, for imports that write as they go
+ */
+export async function* chunkRows<T>(rows: AsyncIterable<T>, size: number): AsyncGenerator<T[]> {
+  let batch: T[] = []
+  for await (const row of rows) {
+    batch.push(row)
+    if (batch.length >= size) {
+      yield batch
+      batch = []
     }
   }
+  if (batch.length > 0) yield batch
+}
 
-  // Add the last field
-  values.push(current)
+export function parseCSV(text: string): ParsedCSVRow[] {
+  return parseCSVWithLineNumbers(text).map(({ row }) => row)
+}
+
+/**
+ * Parse CSV text that is already in memory, keeping the file line number of
+ * each row (header is line 1)
+ */
+export function parseCSVWithLineNumbers(
+  text: string,
+  options: { delimiter?: string } = {}
+): { row: ParsedCSVRow; lineNumber: number }[] {
+  const input = text.replace(/^\uFEFF/, '')
+  const tokenizer = createTokenizer(options.delimiter || sniffDelimiter(input.slice(0, SNIFF_CHARS)))
+  const [header, ...records] = [...tokenizer.push(input), ...tokenizer.end()]
+  if (!header) return []
 
-  return values
+  const headers = header.fields.map(h => h.trim())
+  return records.map(record => ({ row: toRow(headers, record.fields), lineNumber: record.lineNumber }))
+}
+
+/**
+ * Row-level problems every import checks: broken quoting and a column
+ * count that does not match the header
+ */
+export function validateRecordShape(record: CSVRecord, expectedColumns: number): CSVValidationError | null {
+  if (record.unterminated) {
+    return { lineNumber: record.lineNumber, column: null, message: 'Unterminated quoted field' }
+  }
+  if (record.fieldCount !== expectedColumns) {
+    return {
+      lineNumber: record.lineNumber,
+      column: null,
+      message: `Expected ${expectedColumns} columns, found ${record.fieldCount}`,
+    }
+  }
+  return null
+}
+
+function csvCell(value: string | number | null | undefined) {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One line of CSV output, quoting cells as needed
+ */
+export function toCSVLine(cells: (string | number | null | undefined)[]): string {
+  return cells.map(csvCell).join(',')
 }
 
 /**
@@ -78,22 +418,29 @@ export interface ProductRow {
   name: string
   sku: string
   productCode: string
+  /** Only read when the column is mapped (lib/import-mapping.ts) */
+  category?: string
+  imageUrl?: string
+  /** Line in the file (header is line 1) */
+  lineNumber?: number
 }
 
-export function parseProductsCSV(text: string): ProductRow[] {
-  const rows = parseCSV(text)
-  
-  if (rows.length === 0) {
-    return []
-  }
-
-  // Get all possible column name variations
-  const firstRow = rows[0]
-  const allKeys = Object.keys(firstRow)
+export interface ProductColumns {
+  idKey: string
+  nameKey: string
+  skuKey: string
+  productCodeKey: string
+  categoryKey?: string
+  imageUrlKey?: string
+}
 
-  // Try to find ID column (could be first column or named column)
+/**
+ * Find the product columns by name, falling back to position (ID, Name,
+ * SKU, ProductCode)
+ */
+export function findProductColumns(headers: string[]): ProductColumns {
   const findColumn = (variations: string[], fallbackIndex?: number): string => {
-    for (const key of allKeys) {
+    for (const key of headers) {
       const lowerKey = key.toLowerCase()
       for (const variation of variations) {
         if (lowerKey === variation.toLowerCase() || lowerKey.includes(variation.toLowerCase())) {
@@ -101,37 +448,56 @@ export function parseProductsCSV(text: string): ProductRow[] {
         }
       }
     }
-    // If not found by name, try by position (first column = ID, second = Name, third = SKU, fourth = ProductCode)
-    if (fallbackIndex !== undefined && allKeys[fallbackIndex]) {
-      return allKeys[fallbackIndex]
+    if (fallbackIndex !== undefined && headers[fallbackIndex]) {
+      return headers[fallbackIndex]
     }
     return ''
   }
 
-  const idKey = findColumn(['id', 'productid', 'product_id'], 0)
-  const nameKey = findColumn(['name', 'productname', 'product_name'], 1)
-  const skuKey = findColumn(['sku', 'stockkeepingunit', 'stock_keeping_unit', 'productsku', 'product_sku'], 2)
-  const productCodeKey = findColumn(['productcode', 'product_code', 'productcode2'], 3)
-  
-  const products = rows
-    .map((row) => {
-      const id = idKey ? (row[idKey] || '') : ''
-      const name = nameKey ? (row[nameKey] || '') : ''
-      const sku = skuKey ? (row[skuKey] || '') : ''
-      const productCode = productCodeKey ? (row[productCodeKey] || '') : ''
-
-      if (!id || !sku) return null
-
-      return {
-        id: id.trim(),
-        name: name.trim(),
-        sku: sku.trim(),
-        productCode: productCode.trim(),
-      }
-    })
-    .filter((row): row is ProductRow => row !== null)
-  
-  return products
+  return {
+    idKey: findColumn(['id', 'productid', 'product_id'], 0),
+    nameKey: findColumn(['name', 'productname', 'product_name'], 1),
+    skuKey: findColumn(['sku', 'stockkeepingunit', 'stock_keeping_unit', 'productsku', 'product_sku'], 2),
+    productCodeKey: findColumn(['productcode', 'product_code', 'productcode2'], 3),
+  }
+}
+
+/**
+ * Validate one products CSV row. Returns the product, or every problem
+ * found on the row. The legacy single-file import does not require an ID.
+ */
+export function validateProductRow(
+  record: CSVRecord,
+  columns: ProductColumns,
+  expectedColumns: number,
+  options: { requireId?: boolean } = {}
+): { product: ProductRow; errors: [] } | { product: null; errors: CSVValidationError[] } {
+  const shapeError = validateRecordShape(record, expectedColumns)
+  if (shapeError) return { product: null, errors: [shapeError] }
+
+  const value = (key: string) => (key ? record.row[key] || '' : '').trim()
+  const product: ProductRow = {
+    id: value(columns.idKey),
+    name: value(columns.nameKey),
+    sku: value(columns.skuKey),
+    productCode: value(columns.productCodeKey),
+    lineNumber: record.lineNumber,
+  }
+  if (columns.categoryKey) product.category = value(columns.categoryKey)
+  if (columns.imageUrlKey) product.imageUrl = value(columns.imageUrlKey)
+
+  const errors: CSVValidationError[] = []
+  if (!product.id && options.requireId !== false) {
+    errors.push({ lineNumber: record.lineNumber, column: columns.idKey || 'Id', message: 'Missing product ID' })
+  }
+  if (!product.sku) {
+    errors.push({ lineNumber: record.lineNumber, column: columns.skuKey || 'SKU', message: 'Missing SKU' })
+  }
+  if (product.imageUrl && !/^https?:\/\//i.test(product.imageUrl)) {
+    errors.push({ lineNumber: record.lineNumber, column: columns.imageUrlKey!, message: 'Image URL must start with http:// or https://' })
+  }
+
+  return errors.length > 0 ? { product: null, errors } : { product, errors: [] }
 }
 
 /**
@@ -142,22 +508,19 @@ export interface ProductMediaRow {
   electronicMediaId: string
 }
 
-export function parseProductMediaCSV(text: string): ProductMediaRow[] {
-  const rows = parseCSV(text)
-  
-  return rows
-    .map(row => {
-      const productId = row['ProductId'] || row['productId'] || ''
-      const electronicMediaId = row['ElectronicMediaId'] || row['electronicMediaId'] || ''
+export async function readProductMediaCSV(source: CSVSource): Promise<ProductMediaRow[]> {
+  const { rows } = await openCSV(source)
+  const media: ProductMediaRow[] = []
 
-      if (!productId || !electronicMediaId) return null
+  for await (const { row } of rows) {
+    const productId = row['ProductId'] || row['productId'] || ''
+    const electronicMediaId = row['ElectronicMediaId'] || row['electronicMediaId'] || ''
+    if (productId && electronicMediaId) {
+      media.push({ productId: productId.trim(), electronicMediaId: electronicMediaId.trim() })
+    }
+  }
 
-      return {
-        productId: productId.trim(),
-        electronicMediaId: electronicMediaId.trim(),
-      }
-    })
-    .filter((row): row is ProductMediaRow => row !== null)
+  return media
 }
 
 /**
@@ -168,21 +531,17 @@ export interface ManagedContentRow {
   contentKey: string
 }
 
-export function parseManagedContentCSV(text: string): ManagedContentRow[] {
-  const rows = parseCSV(text)
-  
-  return rows
-    .map(row => {
-      const id = row['Id'] || row['id'] || ''
-      const contentKey = row['ContentKey'] || row['contentKey'] || ''
+export async function readManagedContentCSV(source: CSVSource): Promise<ManagedContentRow[]> {
+  const { rows } = await openCSV(source)
+  const content: ManagedContentRow[] = []
 
-      if (!id || !contentKey) return null
+  for await (const { row } of rows) {
+    const id = row['Id'] || row['id'] || ''
+    const contentKey = row['ContentKey'] || row['contentKey'] || ''
+    if (id && contentKey) {
+      content.push({ id: id.trim(), contentKey: contentKey.trim() })
+    }
+  }
 
-      return {
-        id: id.trim(),
-        contentKey: contentKey.trim(),
-      }
-    })
-    .filter((row): row is ManagedContentRow => row !== null)
+  return content
 }
-
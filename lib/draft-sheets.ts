@@ -0,0 +1,85 @@
+/**
+ * Draft sheet creation
+ * Shared by the new-sheet flow (POST /api/sheets) and the reorder planner,
+ * so every draft gets its items, its first status history entry and its
+ * analytics event the same way.
+ */
+
+import { recordSheetStatusChange } from './sheet-status'
+
+/** Where a sheet came from (production_sheets.origin, migrations 023 and 024) */
+export type SheetOrigin = 'manual' | 'reorder' | 'salesforce'
+
+export interface DraftSheetItem {
+  bannerSku: string
+  bannerName?: string | null
+  imageUrl?: string | null
+  qtyInOrder?: number
+  stockQty?: number
+  customFields?: Record<string, any>
+}
+
+export interface DraftSheetInput {
+  templateId: string
+  jobNumber?: string | null
+  userId: string
+  origin?: SheetOrigin
+  /** Salesforce Order the sheet was imported from */
+  salesforceOrderId?: string | null
+  items: DraftSheetItem[]
+}
+
+/**
+ * Insert a draft sheet and its items. If the items cannot be written the
+ * sheet is deleted again and the error is thrown.
+ */
+export async function createDraftSheet(supabase: any, input: DraftSheetInput) {
+  const { data: sheet, error: sheetError } = await supabase
+    .from('production_sheets')
+    .insert({
+      template_id: input.templateId,
+      user_id: input.userId,
+      job_number: input.jobNumber || null,
+      status: 'draft',
+      origin: input.origin || 'manual',
+      salesforce_order_id: input.salesforceOrderId || null,
+    })
+    .select()
+    .single()
+
+  if (sheetError) throw new Error(sheetError.message)
+
+  if (input.items.length > 0) {
+    const { error: itemsError } = await supabase.from('sheet_items').insert(
+      input.items.map(item => ({
+        sheet_id: sheet.id,
+        banner_sku: item.bannerSku,
+        banner_name: item.bannerName,
+        image_url: item.imageUrl,
+        qty_in_order: item.qtyInOrder || 0,
+        stock_qty: item.stockQty || 0,
+        custom_fields: item.customFields || {},
+      }))
+    )
+
+    if (itemsError) {
+      await supabase.from('production_sheets').delete().eq('id', sheet.id)
+      throw new Error(itemsError.message)
+    }
+  }
+
+  await recordSheetStatusChange(supabase, {
+    sheetId: sheet.id,
+    from: null,
+    to: 'draft',
+    userId: input.userId,
+  })
+
+  await supabase.from('analytics_events').insert({
+    sheet_id: sheet.id,
+    event_type: 'created',
+    user_id: input.userId,
+  })
+
+  return sheet
+}
@@ -54,6 +54,20 @@ export function buildImageMappings(
   return mappings
 }
 
+/**
+ * Whether an image URL is on the CMS the catalog's images are built for,
+ * the only host the server downloads product images from
+ */
+export function isCatalogImageUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url)
+    const base = new URL(IMAGE_URL_BASE)
+    return parsed.protocol === base.protocol && parsed.host === base.host
+  } catch {
+    return false
+  }
+}
+
 /**
  * Get image URL for a product ID
  */
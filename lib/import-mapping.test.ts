@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyMapping,
+  mappedProductColumns,
+  parseColumnMapping,
+  suggestMapping,
+  validateMapping,
+} from './import-mapping'
+import { validateProductRow } from './csv-parser'
+import { catalogProductRow } from './catalog-import'
+
+describe('suggestMapping', () => {
+  it('maps headers whose whole name matches a field', () => {
+    expect(suggestMapping(['Stock Keeping Unit', 'Product_Name', 'image-url', 'Product Code', 'Notes'])).toEqual({
+      sku: 'Stock Keeping Unit',
+      name: 'Product_Name',
+      product_code: 'Product Code',
+      image_url: 'image-url',
+    })
+  })
+
+  it('does not map headers that only contain a field name', () => {
+    expect(suggestMapping(['SKU (old)', 'Category notes', 'Secondary image'])).toEqual({})
+  })
+
+  it('maps each header to one field only', () => {
+    expect(suggestMapping(['Id', 'SKU', 'Product ID'])).toEqual({ sku: 'SKU', product_id: 'Id' })
+  })
+})
+
+describe('applyMapping', () => {
+  it('keeps only the columns the file has', () => {
+    const saved = { sku: 'Item', name: 'Title', category: 'Group' }
+    expect(applyMapping(saved, ['Item', 'Group', 'Price'])).toEqual({ sku: 'Item', category: 'Group' })
+  })
+})
+
+describe('parseColumnMapping', () => {
+  it('drops unknown fields and empty or non-string columns', () => {
+    expect(parseColumnMapping({ sku: 'Item', name: '', category: 3, price: 'Price' })).toEqual({ sku: 'Item' })
+  })
+
+  it('rejects values that are not mappings', () => {
+    expect(parseColumnMapping(null)).toBeNull()
+    expect(parseColumnMapping('sku')).toBeNull()
+    expect(parseColumnMapping(['Item'])).toBeNull()
+  })
+})
+
+describe('validateMapping', () => {
+  const headers = ['Item', 'Title', 'Group']
+
+  it('accepts a mapping with the SKU and columns in the file', () => {
+    expect(validateMapping({ sku: 'Item', name: 'Title' }, headers)).toEqual([])
+  })
+
+  it('requires the SKU', () => {
+    expect(validateMapping({ name: 'Title' }, headers)).toEqual(['SKU must be mapped to a column'])
+  })
+
+  it('reports columns missing from the file', () => {
+    expect(validateMapping({ sku: 'Item', category: 'Type' }, headers)).toEqual([
+      'Column "Type" for Category is not in the file',
+    ])
+  })
+
+  it('reports a column mapped to two fields', () => {
+    expect(validateMapping({ sku: 'Item', name: 'Title', product_code: 'Title' }, headers)).toEqual([
+      'Column "Title" is mapped to both Name and Product code',
+    ])
+  })
+})
+
+describe('mappedProductColumns', () => {
+  it('reads rows by the mapped headers and leaves unmapped fields out', () => {
+    const headers = ['Item', 'Group', 'Picture']
+    const columns = mappedProductColumns({ sku: 'Item', category: 'Group', image_url: 'Picture' })
+    const record = {
+      row: { Item: ' A-1 ', Group: 'Flags', Picture: 'https://example.com/a.png' },
+      lineNumber: 2,
+      fieldCount: 3,
+      unterminated: false,
+    }
+
+    const result = validateProductRow(record, columns, headers.length, { requireId: false })
+    expect(result.product).toEqual({
+      id: '',
+      name: '',
+      sku: 'A-1',
+      productCode: '',
+      category: 'Flags',
+      imageUrl: 'https://example.com/a.png',
+      lineNumber: 2,
+    })
+  })
+
+  it('keeps the existing product id, name and code for unmapped fields', () => {
+    const columns = mappedProductColumns({ sku: 'Item', category: 'Group' })
+    const record = { row: { Item: 'A-1', Group: 'Flags' }, lineNumber: 2, fieldCount: 2, unterminated: false }
+    const { product } = validateProductRow(record, columns, 2, { requireId: false })
+
+    expect(catalogProductRow({ ...product!, lineNumber: record.lineNumber }, {
+      product_id: '01tA',
+      name: 'Red Vinyl Banner',
+      product_code: 'BAN:1',
+      category: 'BAN',
+      image_url: 'https://example.com/old.png',
+    })).toEqual({
+      product_id: '01tA',
+      sku: 'A-1',
+      name: 'Red Vinyl Banner',
+      product_code: 'BAN:1',
+      category: 'Flags',
+      image_url: 'https://example.com/old.png',
+    })
+  })
+})
@@ -0,0 +1,136 @@
+/**
+ * Column mappings for CSV imports
+ * The import wizard lets a manager say which column of an uploaded file
+ * holds each catalog field, instead of guessing from header names and
+ * positions. Mappings can be saved as named profiles in
+ * import_mapping_profiles (migration 029) and reused for the next file.
+ */
+
+import type { ProductColumns } from './csv-parser'
+
+export type CatalogField = 'sku' | 'name' | 'product_code' | 'category' | 'image_url' | 'product_id'
+
+/** Catalog field -> header of the column it is read from */
+export type ColumnMapping = Partial<Record<CatalogField, string>>
+
+export interface ImportMappingProfile {
+  id: string
+  name: string
+  mapping: ColumnMapping
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Fields left unmapped keep the value the product already has (catalog-import.ts)
+export const CATALOG_FIELDS: { field: CatalogField; label: string; required: boolean }[] = [
+  { field: 'sku', label: 'SKU', required: true },
+  { field: 'name', label: 'Name', required: false },
+  { field: 'product_id', label: 'Product ID', required: false },
+  { field: 'product_code', label: 'Product code', required: false },
+  { field: 'category', label: 'Category', required: false },
+  { field: 'image_url', label: 'Image URL', required: false },
+]
+
+// Headers suggested for each field, compared without case, spaces, - or _.
+// Only whole names match, so an extra column is never picked up by accident.
+const FIELD_ALIASES: Record<CatalogField, string[]> = {
+  sku: ['sku', 'stockkeepingunit', 'productsku'],
+  name: ['name', 'productname'],
+  product_id: ['id', 'productid', 'salesforceid'],
+  product_code: ['productcode', 'code'],
+  category: ['category', 'productcategory'],
+  image_url: ['imageurl', 'image', 'imagelink'],
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]+/g, '')
+}
+
+/**
+ * Starting point for the wizard: fields whose header name is unambiguous
+ */
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const used = new Set<string>()
+
+  CATALOG_FIELDS.forEach(({ field }) => {
+    const header = headers.find(h => !used.has(h) && FIELD_ALIASES[field].includes(normalizeHeader(h)))
+    if (header) {
+      mapping[field] = header
+      used.add(header)
+    }
+  })
+
+  return mapping
+}
+
+/**
+ * Apply a saved mapping to a file, keeping only the columns it has
+ */
+export function applyMapping(mapping: ColumnMapping, headers: string[]): ColumnMapping {
+  const applied: ColumnMapping = {}
+  CATALOG_FIELDS.forEach(({ field }) => {
+    const header = mapping[field]
+    if (header && headers.includes(header)) applied[field] = header
+  })
+  return applied
+}
+
+/**
+ * Read a mapping sent by a client. Returns null when it is not a mapping;
+ * unknown fields and empty columns are dropped.
+ */
+export function parseColumnMapping(value: unknown): ColumnMapping | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+
+  const mapping: ColumnMapping = {}
+  CATALOG_FIELDS.forEach(({ field }) => {
+    const header = (value as Record<string, unknown>)[field]
+    if (typeof header === 'string' && header) mapping[field] = header
+  })
+  return mapping
+}
+
+/**
+ * Problems that stop a file from being imported with this mapping
+ */
+export function validateMapping(mapping: ColumnMapping, headers: string[]): string[] {
+  const errors: string[] = []
+  const fieldByHeader = new Map<string, CatalogField>()
+
+  CATALOG_FIELDS.forEach(({ field, label, required }) => {
+    const header = mapping[field]
+    if (!header) {
+      if (required) errors.push(`${label} must be mapped to a column`)
+      return
+    }
+    if (!headers.includes(header)) {
+      errors.push(`Column "${header}" for ${label} is not in the file`)
+      return
+    }
+    const other = fieldByHeader.get(header)
+    if (other) {
+      const otherLabel = CATALOG_FIELDS.find(f => f.field === other)!.label
+      errors.push(`Column "${header}" is mapped to both ${otherLabel} and ${label}`)
+    }
+    fieldByHeader.set(header, field)
+  })
+
+  return errors
+}
+
+/**
+ * The product columns the CSV reader validates rows with. Unmapped fields
+ * are left empty.
+ */
+export function mappedProductColumns(mapping: ColumnMapping): ProductColumns {
+  return {
+    idKey: mapping.product_id || '',
+    nameKey: mapping.name || '',
+    skuKey: mapping.sku || '',
+    productCodeKey: mapping.product_code || '',
+    categoryKey: mapping.category || '',
+    imageUrlKey: mapping.image_url || '',
+  }
+}
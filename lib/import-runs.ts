@@ -0,0 +1,255 @@
+/**
+ * Import run history
+ * Records every catalog import in import_runs with a per-row outcome in
+ * import_run_rows (migration 019). Recording is best effort: a failure to
+ * write history is logged and never fails the import itself.
+ */
+
+import type { SalesforceApiLimits } from './salesforce/types'
+
+export type ImportSource = 'salesforce' | 'csv' | 'legacy_csv'
+
+export type ImportRowAction = 'created' | 'updated' | 'skipped' | 'failed'
+
+export interface ImportRowResult {
+  /** Line in the uploaded file (header is line 1), or position in the Salesforce result */
+  rowNumber: number | null
+  sku: string | null
+  externalId?: string | null
+  action: ImportRowAction
+  /** Column at fault when a row was rejected by validation */
+  column?: string | null
+  message?: string | null
+}
+
+export interface ImportRunCounts {
+  total: number
+  created: number
+  updated: number
+  skipped: number
+  failed: number
+}
+
+export interface ImportValidationSummary {
+  /** Rows that were not imported: rejected by validation or replaced by a later duplicate */
+  errors: number
+  /** The first few, for showing next to the import result */
+  sample: { rowNumber: number | null; column: string | null; sku: string | null; message: string | null }[]
+  /** CSV of every row that was not imported, or null when the run was not recorded */
+  reportUrl: string | null
+}
+
+const ROW_BATCH_SIZE = 500
+const VALIDATION_SAMPLE_SIZE = 20
+
+export function countImportRows(rows: ImportRowResult[]): ImportRunCounts {
+  const counts: ImportRunCounts = { total: rows.length, created: 0, updated: 0, skipped: 0, failed: 0 }
+  rows.forEach(row => {
+    counts[row.action]++
+  })
+  return counts
+}
+
+/**
+ * Classify rows about to be upserted by SKU: created when the SKU is new,
+ * updated when it already exists.
+ */
+export function classifyUpsertRows<T extends { sku: string }>(
+  rows: { rowNumber: number | null; externalId?: string | null; data: T }[],
+  existingSkus: Set<string>
+): ImportRowResult[] {
+  return rows.map(row => ({
+    rowNumber: row.rowNumber,
+    sku: row.data.sku,
+    externalId: row.externalId ?? null,
+    action: existingSkus.has(row.data.sku) ? 'updated' : 'created',
+  }))
+}
+
+/**
+ * Mark rows as failed after their write was rejected
+ */
+export function failRows(rows: ImportRowResult[], message: string): ImportRowResult[] {
+  return rows.map(row =>
+    row.action === 'created' || row.action === 'updated'
+      ? { ...row, action: 'failed', message }
+      : row
+  )
+}
+
+/**
+ * Skip a row that failed validation, with every problem found on it
+ */
+export function rejectRow(
+  row: { rowNumber: number | null; sku?: string | null; externalId?: string | null },
+  errors: { column: string | null; message: string }[]
+): ImportRowResult {
+  const columns = Array.from(new Set(errors.map(e => e.column).filter(Boolean)))
+  return {
+    rowNumber: row.rowNumber,
+    sku: row.sku || null,
+    externalId: row.externalId || null,
+    action: 'skipped',
+    column: columns.length > 0 ? columns.join(', ') : null,
+    message: errors.map(e => e.message).join('; '),
+  }
+}
+
+/**
+ * Keep the last row of each SKU in one chunk of an import. Earlier rows
+ * come back as skipped duplicates.
+ */
+export function keepLastBySku<T extends { sku: string; lineNumber?: number; id?: string }>(
+  rows: T[]
+): { rows: T[]; duplicates: ImportRowResult[] } {
+  const lastRowBySku = new Map(rows.map(row => [row.sku, row]))
+  const duplicates: ImportRowResult[] = []
+  const kept = rows.filter(row => {
+    const last = lastRowBySku.get(row.sku)!
+    if (last === row) return true
+    duplicates.push({
+      rowNumber: row.lineNumber ?? null,
+      sku: row.sku,
+      externalId: row.id || null,
+      action: 'skipped',
+      message: `Duplicate SKU, replaced by line ${last.lineNumber}`,
+    })
+    return false
+  })
+  return { rows: kept, duplicates }
+}
+
+/**
+ * Add the rows one chunk wrote to the results of a chunked import. A SKU
+ * already written by an earlier chunk is replaced: the earlier row becomes
+ * a skipped duplicate and the new row takes over its created/updated
+ * action, since the catalog only had the SKU because of this import.
+ */
+export function appendChunkResults(
+  results: ImportRowResult[],
+  resultIndexBySku: Map<string, number>,
+  chunkResults: ImportRowResult[]
+) {
+  chunkResults.forEach(row => {
+    const earlierIndex = row.sku ? resultIndexBySku.get(row.sku) : undefined
+    if (earlierIndex === undefined || row.action === 'failed') {
+      if (row.sku && row.action !== 'failed') resultIndexBySku.set(row.sku, results.length)
+      results.push(row)
+      return
+    }
+
+    const earlier = results[earlierIndex]
+    results[earlierIndex] = {
+      ...earlier,
+      action: 'skipped',
+      message: `Duplicate SKU, replaced by line ${row.rowNumber}`,
+    }
+    resultIndexBySku.set(row.sku!, results.length)
+    results.push({ ...row, action: earlier.action })
+  })
+}
+
+/**
+ * What an import response reports about rows it left out
+ */
+export function validationSummary(runId: string | null, rows: ImportRowResult[]): ImportValidationSummary {
+  const rejected = rows
+    .filter(row => row.action === 'skipped' || row.action === 'failed')
+    .sort((a, b) => (a.rowNumber ?? Infinity) - (b.rowNumber ?? Infinity))
+
+  return {
+    errors: rejected.length,
+    sample: rejected.slice(0, VALIDATION_SAMPLE_SIZE).map(row => ({
+      rowNumber: row.rowNumber,
+      column: row.column ?? null,
+      sku: row.sku,
+      message: row.message ?? null,
+    })),
+    reportUrl: runId && rejected.length > 0 ? `/api/import-runs/${runId}/report` : null,
+  }
+}
+
+/**
+ * Start recording an import. Returns the run id, or null if it could not be recorded.
+ */
+export async function startImportRun(
+  supabase: any,
+  options: { source: ImportSource; userId: string; metadata?: Record<string, any> }
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('import_runs')
+    .insert({
+      source: options.source,
+      user_id: options.userId,
+      metadata: options.metadata || {},
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('Failed to record import run', error)
+    return null
+  }
+
+  return data.id
+}
+
+/**
+ * Store the per-row results and final counts of an import
+ */
+export async function finishImportRun(
+  supabase: any,
+  runId: string | null,
+  result: {
+    status: 'succeeded' | 'failed'
+    rows: ImportRowResult[]
+    apiCalls?: number | null
+    apiLimits?: SalesforceApiLimits | null
+    error?: string | null
+    metadata?: Record<string, any>
+  }
+): Promise<ImportRunCounts> {
+  const counts = countImportRows(result.rows)
+  if (!runId) return counts
+
+  for (let i = 0; i < result.rows.length; i += ROW_BATCH_SIZE) {
+    const batch = result.rows.slice(i, i + ROW_BATCH_SIZE).map(row => ({
+      run_id: runId,
+      row_number: row.rowNumber,
+      sku: row.sku,
+      external_id: row.externalId ?? null,
+      action: row.action,
+      column_name: row.column ?? null,
+      message: row.message ?? null,
+    }))
+
+    const { error } = await supabase.from('import_run_rows').insert(batch)
+    if (error) {
+      console.error('Failed to record import rows', runId, error)
+      break
+    }
+  }
+
+  const dailyApiRequests = result.apiLimits?.DailyApiRequests
+  const updates: Record<string, any> = {
+    status: result.status,
+    total_rows: counts.total,
+    created_count: counts.created,
+    updated_count: counts.updated,
+    skipped_count: counts.skipped,
+    failed_count: counts.failed,
+    api_calls: result.apiCalls ?? null,
+    api_requests_remaining: dailyApiRequests?.Remaining ?? null,
+    api_requests_max: dailyApiRequests?.Max ?? null,
+    error: result.error ?? null,
+    finished_at: new Date().toISOString(),
+  }
+  if (result.metadata) updates.metadata = result.metadata
+
+  const { error } = await supabase.from('import_runs').update(updates).eq('id', runId)
+  if (error) {
+    console.error('Failed to finish import run', runId, error)
+  }
+
+  return counts
+}
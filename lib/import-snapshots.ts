@@ -0,0 +1,287 @@
+/**
+ * Import snapshots and rollback
+ * Before an import writes to product_catalog, product_categories or
+ * product_category_assignments it records the previous state of every row it
+ * is about to touch in import_run_snapshots (migration 020). Rolling back a
+ * run restores those rows and deletes the ones the import created. For
+ * products only the columns imports write are kept and restored, so later
+ * edits to anything else (stock levels, image checks) survive a rollback.
+ *
+ * Unlike run history, snapshots are not best effort: if a snapshot cannot be
+ * written the import must not go ahead, so these functions throw.
+ */
+
+import { BANNER_ATTRIBUTE_COLUMNS } from './banner-attributes'
+import { chunk } from './utils'
+
+export type SnapshotTable = 'product_catalog' | 'product_categories' | 'product_category_assignments'
+
+export interface RollbackResult {
+  productsRestored: number
+  productsDeleted: number
+  categoriesRestored: number
+  categoriesDeleted: number
+  assignmentsRestored: number
+}
+
+const BATCH_SIZE = 500
+
+/** product_catalog columns written by imports, other than the banner attributes */
+const IMPORTED_PRODUCT_COLUMNS = [
+  'sku',
+  'product_id',
+  'name',
+  'product_code',
+  'category',
+  'primary_category_id',
+  'image_url',
+  'is_active',
+  'deactivated_at',
+  'imported_by',
+]
+const BANNER_ATTRIBUTE_KEYS = BANNER_ATTRIBUTE_COLUMNS.split(', ')
+
+async function insertSnapshots(
+  supabase: any,
+  runId: string,
+  table: SnapshotTable,
+  snapshots: { key: string; before: any }[]
+) {
+  for (const batch of chunk(snapshots, BATCH_SIZE)) {
+    const { error } = await supabase
+      .from('import_run_snapshots')
+      .upsert(
+        batch.map(s => ({ run_id: runId, table_name: table, record_key: s.key, before: s.before })),
+        // A row already snapshotted in this run keeps its pre-import state
+        { onConflict: 'run_id,table_name,record_key', ignoreDuplicates: true }
+      )
+
+    if (error) throw new Error(`Failed to snapshot ${table}: ${error.message}`)
+  }
+}
+
+/**
+ * Snapshot products by SKU before they are upserted, updated or deactivated.
+ * SKUs not in the catalog yet are recorded as created by the import.
+ */
+export async function snapshotProducts(supabase: any, runId: string | null, skus: string[]) {
+  if (!runId || skus.length === 0) return
+
+  const unique = Array.from(new Set(skus))
+  const existing = new Map<string, any>()
+
+  for (const batch of chunk(unique, BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from('product_catalog')
+      .select(`${IMPORTED_PRODUCT_COLUMNS.join(', ')}, ${BANNER_ATTRIBUTE_COLUMNS}`)
+      .in('sku', batch)
+    if (error) throw new Error(`Failed to read products for snapshot: ${error.message}`)
+    data?.forEach((row: any) => existing.set(row.sku, row))
+  }
+
+  await insertSnapshots(
+    supabase,
+    runId,
+    'product_catalog',
+    unique.map(sku => ({ key: sku, before: existing.get(sku) || null }))
+  )
+}
+
+/**
+ * Snapshot existing categories by id before they are updated
+ */
+export async function snapshotCategories(supabase: any, runId: string | null, categoryIds: string[]) {
+  if (!runId || categoryIds.length === 0) return
+
+  const rows: any[] = []
+  for (const batch of chunk(Array.from(new Set(categoryIds)), BATCH_SIZE)) {
+    const { data, error } = await supabase.from('product_categories').select('*').in('id', batch)
+    if (error) throw new Error(`Failed to read categories for snapshot: ${error.message}`)
+    rows.push(...(data || []))
+  }
+
+  await insertSnapshots(
+    supabase,
+    runId,
+    'product_categories',
+    rows.map(row => ({ key: row.id, before: row }))
+  )
+}
+
+/**
+ * Record categories the import inserted, so a rollback deletes them
+ */
+export async function recordCreatedCategories(supabase: any, runId: string | null, categoryIds: string[]) {
+  if (!runId || categoryIds.length === 0) return
+
+  await insertSnapshots(
+    supabase,
+    runId,
+    'product_categories',
+    categoryIds.map(id => ({ key: id, before: null }))
+  )
+}
+
+/**
+ * Snapshot the Salesforce-sourced category assignments of products before
+ * they are replaced. Custom assignments are never touched by imports.
+ */
+export async function snapshotAssignments(supabase: any, runId: string | null, productIds: string[]) {
+  if (!runId || productIds.length === 0) return
+
+  const unique = Array.from(new Set(productIds))
+  const byProduct = new Map<string, any[]>(unique.map(id => [id, []]))
+
+  for (const batch of chunk(unique, BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from('product_category_assignments')
+      .select('*')
+      .in('product_id', batch)
+      .not('salesforce_category_id', 'is', null)
+
+    if (error) throw new Error(`Failed to read category assignments for snapshot: ${error.message}`)
+    data?.forEach((row: any) => byProduct.get(row.product_id)?.push(row))
+  }
+
+  await insertSnapshots(
+    supabase,
+    runId,
+    'product_category_assignments',
+    Array.from(byProduct.entries()).map(([productId, rows]) => ({ key: productId, before: rows }))
+  )
+}
+
+export async function countSnapshots(supabase: any, runId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('import_run_snapshots')
+    .select('id', { count: 'exact', head: true })
+    .eq('run_id', runId)
+
+  if (error) throw new Error(`Failed to read import snapshots: ${error.message}`)
+  return count || 0
+}
+
+async function loadSnapshots(supabase: any, runId: string) {
+  const snapshots: { table_name: SnapshotTable; record_key: string; before: any }[] = []
+  let offset = 0
+
+  while (true) {
+    const { data, error } = await supabase
+      .from('import_run_snapshots')
+      .select('table_name, record_key, before')
+      .eq('run_id', runId)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + 999)
+
+    if (error) throw new Error(`Failed to read import snapshots: ${error.message}`)
+    snapshots.push(...(data || []))
+    if (!data || data.length < 1000) break
+    offset += 1000
+  }
+
+  return snapshots
+}
+
+/**
+ * The imported columns of a product snapshot. Banner attributes a manager
+ * has set by hand since are kept, as imports keep them.
+ */
+function restoredProduct(before: any, current: any) {
+  const row: Record<string, any> = {}
+  IMPORTED_PRODUCT_COLUMNS.forEach(column => {
+    row[column] = before[column] ?? null
+  })
+  const attributes = current?.attributes_status === 'manual' ? current : before
+  BANNER_ATTRIBUTE_KEYS.forEach(column => {
+    row[column] = attributes[column] ?? null
+  })
+  return row
+}
+
+/**
+ * Restore every row an import touched to its snapshot. Assignments go first,
+ * then products, then categories, so restored rows never point at a category
+ * that is about to be deleted. Needs a client that bypasses RLS: Salesforce
+ * categories cannot be written by users.
+ */
+export async function rollbackImportRun(supabase: any, runId: string): Promise<RollbackResult> {
+  const snapshots = await loadSnapshots(supabase, runId)
+  const byTable = (table: SnapshotTable) => snapshots.filter(s => s.table_name === table)
+  const result: RollbackResult = {
+    productsRestored: 0,
+    productsDeleted: 0,
+    categoriesRestored: 0,
+    categoriesDeleted: 0,
+    assignmentsRestored: 0,
+  }
+
+  // 1. Salesforce assignments: drop what the import wrote, put back what was there
+  const assignmentSnapshots = byTable('product_category_assignments')
+  for (const batch of chunk(assignmentSnapshots, BATCH_SIZE)) {
+    const { error: deleteError } = await supabase
+      .from('product_category_assignments')
+      .delete()
+      .in('product_id', batch.map(s => s.record_key))
+      .not('salesforce_category_id', 'is', null)
+
+    if (deleteError) throw new Error(`Failed to remove imported assignments: ${deleteError.message}`)
+  }
+
+  const previousAssignments = assignmentSnapshots.flatMap(s => (Array.isArray(s.before) ? s.before : []))
+  for (const batch of chunk(previousAssignments, BATCH_SIZE)) {
+    const { error } = await supabase.from('product_category_assignments').insert(batch)
+    if (error) throw new Error(`Failed to restore category assignments: ${error.message}`)
+    result.assignmentsRestored += batch.length
+  }
+
+  // 2. Products: restore the imported columns, delete the rows the import created
+  const productSnapshots = byTable('product_catalog')
+  const restoredProducts = productSnapshots.filter(s => s.before).map(s => s.before)
+  for (const batch of chunk(restoredProducts, BATCH_SIZE)) {
+    const { data: current, error: currentError } = await supabase
+      .from('product_catalog')
+      .select(`sku, ${BANNER_ATTRIBUTE_COLUMNS}`)
+      .in('sku', batch.map(before => before.sku))
+
+    if (currentError) throw new Error(`Failed to read products to restore: ${currentError.message}`)
+    const currentBySku = new Map<string, any>((current || []).map((row: any) => [row.sku, row]))
+
+    const { error } = await supabase
+      .from('product_catalog')
+      .upsert(
+        batch.map(before => restoredProduct(before, currentBySku.get(before.sku))),
+        { onConflict: 'sku', ignoreDuplicates: false }
+      )
+
+    if (error) throw new Error(`Failed to restore products: ${error.message}`)
+    result.productsRestored += batch.length
+  }
+
+  const createdSkus = productSnapshots.filter(s => !s.before).map(s => s.record_key)
+  for (const batch of chunk(createdSkus, BATCH_SIZE)) {
+    const { data, error } = await supabase.from('product_catalog').delete().in('sku', batch).select('id')
+    if (error) throw new Error(`Failed to delete imported products: ${error.message}`)
+    result.productsDeleted += data?.length || 0
+  }
+
+  // 3. Categories: restore previous rows, delete the ones the import created
+  const categorySnapshots = byTable('product_categories')
+  const restoredCategories = categorySnapshots.filter(s => s.before).map(s => s.before)
+  for (const batch of chunk(restoredCategories, BATCH_SIZE)) {
+    const { error } = await supabase
+      .from('product_categories')
+      .upsert(batch, { onConflict: 'id', ignoreDuplicates: false })
+
+    if (error) throw new Error(`Failed to restore categories: ${error.message}`)
+    result.categoriesRestored += batch.length
+  }
+
+  const createdCategoryIds = categorySnapshots.filter(s => !s.before).map(s => s.record_key)
+  for (const batch of chunk(createdCategoryIds, BATCH_SIZE)) {
+    const { data, error } = await supabase.from('product_categories').delete().in('id', batch).select('id')
+    if (error) throw new Error(`Failed to delete imported categories: ${error.message}`)
+    result.categoriesDeleted += data?.length || 0
+  }
+
+  return result
+}
@@ -0,0 +1,114 @@
+/**
+ * Finished-goods inventory
+ * On-hand quantities live in the inventory table and change only through
+ * inventory_movements (migration 022): stock completions logged in the work
+ * log add to it, reversals and shipments take away. Min/max reorder points
+ * are product_catalog.stock_min / stock_max.
+ */
+
+export type InventoryMovementReason = 'production' | 'production_reversal' | 'shipment' | 'adjustment'
+
+/** Sheets whose stock portion is still to be printed */
+export const OPEN_SHEET_STATUSES = ['draft', 'in_production', 'production_started', 'on_hold']
+
+export interface StockLevel {
+  sku: string
+  onHand: number
+  /** Stock qty on open sheets not completed yet */
+  inProduction: number
+  stockMin: number | null
+  stockMax: number | null
+  suggestedQty: number
+}
+
+const BATCH_SIZE = 500
+
+/**
+ * Stock qty to put on a new sheet. Once on-hand plus what is already being
+ * printed is at or below the min, top it up to the max (or the min when no
+ * max is set). Without a min there is no suggestion.
+ */
+export function suggestedStockQty(
+  onHand: number,
+  inProduction: number,
+  stockMin: number | null | undefined,
+  stockMax: number | null | undefined
+): number {
+  if (stockMin === null || stockMin === undefined) return 0
+
+  const available = onHand + inProduction
+  if (available > stockMin) return 0
+
+  const target = Math.max(stockMax ?? stockMin, stockMin)
+  return Math.max(0, target - available)
+}
+
+/**
+ * Stock levels for the given SKUs. Products already loaded with their
+ * stock_min / stock_max can be passed in to skip reading the catalog again.
+ */
+export async function loadStockLevels(
+  supabase: any,
+  skus: string[],
+  products?: { sku: string; stock_min: number | null; stock_max: number | null }[]
+): Promise<Map<string, StockLevel>> {
+  const unique = Array.from(new Set(skus.filter(Boolean)))
+  const onHand = new Map<string, number>()
+  const inProduction = new Map<string, number>()
+  const limits = new Map<string, { min: number | null; max: number | null }>()
+
+  products?.forEach(p => limits.set(p.sku, { min: p.stock_min ?? null, max: p.stock_max ?? null }))
+
+  for (let i = 0; i < unique.length; i += BATCH_SIZE) {
+    const batch = unique.slice(i, i + BATCH_SIZE)
+
+    const { data: inventory, error: inventoryError } = await supabase
+      .from('inventory')
+      .select('sku, on_hand')
+      .in('sku', batch)
+
+    if (inventoryError) throw new Error(`Failed to load inventory: ${inventoryError.message}`)
+    inventory?.forEach((row: any) => onHand.set(row.sku, row.on_hand || 0))
+
+    const { data: items, error: itemsError } = await supabase
+      .from('sheet_items')
+      .select('banner_sku, stock_qty, stock_qty_completed, production_sheets!inner(status)')
+      .in('banner_sku', batch)
+      .in('production_sheets.status', OPEN_SHEET_STATUSES)
+      .gt('stock_qty', 0)
+
+    if (itemsError) throw new Error(`Failed to load stock in production: ${itemsError.message}`)
+    items?.forEach((row: any) => {
+      const open = Math.max(0, (row.stock_qty || 0) - (row.stock_qty_completed || 0))
+      inProduction.set(row.banner_sku, (inProduction.get(row.banner_sku) || 0) + open)
+    })
+
+    const missing = batch.filter(sku => !limits.has(sku))
+    if (missing.length > 0) {
+      const { data: catalog, error: catalogError } = await supabase
+        .from('product_catalog')
+        .select('sku, stock_min, stock_max')
+        .in('sku', missing)
+
+      if (catalogError) throw new Error(`Failed to load reorder points: ${catalogError.message}`)
+      catalog?.forEach((row: any) => limits.set(row.sku, { min: row.stock_min, max: row.stock_max }))
+    }
+  }
+
+  const levels = new Map<string, StockLevel>()
+  for (const sku of unique) {
+    const level = {
+      sku,
+      onHand: onHand.get(sku) || 0,
+      inProduction: inProduction.get(sku) || 0,
+      stockMin: limits.get(sku)?.min ?? null,
+      stockMax: limits.get(sku)?.max ?? null,
+    }
+    levels.set(sku, {
+      ...level,
+      suggestedQty: suggestedStockQty(level.onHand, level.inProduction, level.stockMin, level.stockMax),
+    })
+  }
+
+  return levels
+}
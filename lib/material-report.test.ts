@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_MATERIAL_OPTIONS,
+  buildMaterialReport,
+  materialDateRangeFromParams,
+  materialOptionsFromParams,
+  materialReportToCsv,
+  type MaterialReportItem,
+  type ProductSize,
+} from './material-report'
+
+const item = (banner_sku: string, qty_in_order: number | null, stock_qty: number | null = null): MaterialReportItem => ({
+  banner_sku,
+  banner_name: `${banner_sku} Banner`,
+  qty_in_order,
+  stock_qty,
+})
+
+const size = (width_in: number | null, height_in: number | null, material: string | null = null): ProductSize => ({
+  width_in,
+  height_in,
+  material,
+})
+
+const NO_WASTE = { ...DEFAULT_MATERIAL_OPTIONS, wasteFactor: 0 }
+
+describe('buildMaterialReport', () => {
+  it('counts pieces for the order and for stock', () => {
+    const report = buildMaterialReport(
+      [item('A', 2, 1), item('A', null, 3), item('B', 0, 0)],
+      new Map([['A', size(36, 72, 'Vinyl')], ['B', size(24, 24)]]),
+      NO_WASTE
+    )
+
+    expect(report.totals).toMatchObject({ pieces: 6, sizedPieces: 6, squareFeet: 108 })
+    expect(report.sizes).toEqual([
+      { widthIn: 36, heightIn: 72, pieces: 6, squareFeet: 108, skus: ['A'], oversized: false },
+    ])
+    expect(report.materials).toEqual([{ material: 'Vinyl', pieces: 6, squareFeet: 108 }])
+  })
+
+  it('groups SKUs of one size, largest size first, and materials by area', () => {
+    const report = buildMaterialReport(
+      [item('A', 1), item('B', 2), item('C', 10)],
+      new Map([['A', size(24, 36, 'Mesh')], ['B', size(24, 36)], ['C', size(12, 12, 'Mesh')]]),
+      NO_WASTE
+    )
+
+    expect(report.sizes.map(group => [group.widthIn, group.heightIn, group.skus])).toEqual([
+      [24, 36, ['A', 'B']],
+      [12, 12, ['C']],
+    ])
+    expect(report.materials).toEqual([
+      { material: 'Mesh', pieces: 11, squareFeet: 16 },
+      { material: 'Unspecified', pieces: 2, squareFeet: 12 },
+    ])
+  })
+
+  it('lists items without a usable size apart from the totals', () => {
+    const report = buildMaterialReport(
+      [item('A', 1), item('NOSIZE', 2), item('NOSIZE', 1), item('HALF', 1), item('UNKNOWN', 4)],
+      new Map([['A', size(12, 12)], ['NOSIZE', size(null, null)], ['HALF', size(24, null)]]),
+      NO_WASTE
+    )
+
+    expect(report.unsized).toEqual([
+      { sku: 'NOSIZE', name: 'NOSIZE Banner', pieces: 3 },
+      { sku: 'HALF', name: 'HALF Banner', pieces: 1 },
+      { sku: 'UNKNOWN', name: 'UNKNOWN Banner', pieces: 4 },
+    ])
+    expect(report.totals).toMatchObject({ pieces: 9, sizedPieces: 1, squareFeet: 1 })
+  })
+
+  it('flags pieces wider than the substrate either way', () => {
+    const report = buildMaterialReport(
+      [item('WIDE', 1), item('LONG', 1)],
+      new Map([['WIDE', size(72, 96)], ['LONG', size(48, 240)]]),
+      { ...NO_WASTE, substrateWidthIn: 60 }
+    )
+
+    expect(report.sizes.map(group => [group.widthIn, group.oversized])).toEqual([
+      [48, false],
+      [72, true],
+    ])
+  })
+
+  it('adds the waste factor and rounds rolls and sheets up', () => {
+    const items = [item('A', 10)]
+    const sizes = new Map([['A', size(60, 120)]])
+
+    const rolls = buildMaterialReport(items, sizes, { wasteFactor: 0.1, substrate: 'roll', substrateWidthIn: 60, substrateLength: 150 })
+    expect(rolls.totals).toMatchObject({
+      squareFeet: 500,
+      squareFeetWithWaste: 550,
+      substrateSquareFeet: 750,
+      substrateUnits: 0.73,
+      substrateCount: 1,
+    })
+
+    const sheets = buildMaterialReport(items, sizes, { wasteFactor: 0.2, substrate: 'sheet', substrateWidthIn: 48, substrateLength: 96 })
+    expect(sheets.totals).toMatchObject({ squareFeetWithWaste: 600, substrateSquareFeet: 32, substrateUnits: 18.75, substrateCount: 19 })
+  })
+
+  it('does not round an exact number of sheets up', () => {
+    const report = buildMaterialReport(
+      [item('A', 2)],
+      new Map([['A', size(48, 96)]]),
+      { wasteFactor: 0, substrate: 'sheet', substrateWidthIn: 48, substrateLength: 96 }
+    )
+    expect(report.totals).toMatchObject({ substrateUnits: 2, substrateCount: 2 })
+  })
+})
+
+describe('materialOptionsFromParams', () => {
+  const options = (query: string) => materialOptionsFromParams(new URLSearchParams(query))
+
+  it('reads the options', () => {
+    expect(options('waste=15&substrate=sheet&width=54&length=108')).toEqual({
+      wasteFactor: 0.15,
+      substrate: 'sheet',
+      substrateWidthIn: 54,
+      substrateLength: 108,
+    })
+  })
+
+  it('defaults by substrate and for bad values', () => {
+    expect(options('')).toEqual(DEFAULT_MATERIAL_OPTIONS)
+    expect(options('waste=abc&width=-5&length=0')).toEqual(DEFAULT_MATERIAL_OPTIONS)
+    expect(options('substrate=sheet')).toMatchObject({ substrateWidthIn: 48, substrateLength: 96 })
+    expect(options('substrate=plank').substrate).toBe('roll')
+  })
+
+  it('keeps the waste percentage within 0 to 100', () => {
+    expect(options('waste=-10').wasteFactor).toBe(0)
+    expect(options('waste=250').wasteFactor).toBe(1)
+    expect(options('waste=0').wasteFactor).toBe(0)
+  })
+})
+
+describe('materialDateRangeFromParams', () => {
+  const range = (query: string) => materialDateRangeFromParams(new URLSearchParams(query))
+
+  it('covers whole UTC days up to and including the last one', () => {
+    expect(range('from=2024-02-28&to=2024-02-29').range).toEqual({
+      from: '2024-02-28',
+      to: '2024-02-29',
+      start: '2024-02-28T00:00:00.000Z',
+      end: '2024-03-01T00:00:00.000Z',
+    })
+  })
+
+  it('rejects missing, malformed and impossible dates', () => {
+    const required = 'from and to dates are required (YYYY-MM-DD)'
+    expect(range('from=2024-01-01').error).toBe(required)
+    expect(range('from=2024-1-1&to=2024-01-31').error).toBe(required)
+    expect(range('from=2024-02-30&to=2024-03-01').error).toBe(required)
+  })
+
+  it('rejects a range that ends before it starts', () => {
+    expect(range('from=2024-03-02&to=2024-03-01').error).toBe('from must not be after to')
+  })
+})
+
+describe('materialReportToCsv', () => {
+  it('writes each section under its header, quoting where needed', () => {
+    const report = buildMaterialReport(
+      [item('A', 2), { banner_sku: 'X', banner_name: 'Sign, "big"', qty_in_order: 1, stock_qty: null }],
+      new Map([['A', size(36, 72, 'Vinyl')]]),
+      DEFAULT_MATERIAL_OPTIONS
+    )
+
+    expect(materialReportToCsv(report, 'Materials: sheet, 1').split('\r\n')).toEqual([
+      '"Materials: sheet, 1"',
+      '',
+      'Width (in),Height (in),Pieces,Square Feet,SKUs,Oversized',
+      '36,72,2,36,A,',
+      '',
+      'Material,Pieces,Square Feet',
+      'Vinyl,2,36',
+      '',
+      'Unsized SKU,Name,Pieces',
+      'X,"Sign, ""big""",1',
+      '',
+      'Total pieces,3',
+      'Pieces with a size,2',
+      'Square feet,36',
+      'Waste factor,10%',
+      'Square feet with waste,39.6',
+      `Substrate,"60"" x 150' roll"`,
+      'Rolls (estimated),0.05',
+      'Rolls to pull,1',
+      '',
+    ])
+  })
+})
@@ -0,0 +1,318 @@
+/**
+ * Material requirements
+ * Square footage and substrate needed to print a set of sheet items. Sizes
+ * come from the parsed product_catalog attributes (migration 021), joined by
+ * SKU; items whose product has no size are listed separately so they can be
+ * fixed in the attribute review queue.
+ *
+ * Substrate is estimated from area: total square feet plus the waste factor,
+ * divided by the area of one roll or sheet. It does not plan a layout.
+ */
+
+import { squareFeet } from './banner-attributes'
+import { toCSVLine } from './csv-parser'
+import { round2 } from './utils'
+
+export type SubstrateType = 'roll' | 'sheet'
+
+export interface MaterialReportOptions {
+  /** Fraction added for trim, bleed and misprints, e.g. 0.1 for 10% */
+  wasteFactor: number
+  substrate: SubstrateType
+  /** Roll or sheet width in inches */
+  substrateWidthIn: number
+  /** Roll length in feet, or sheet height in inches */
+  substrateLength: number
+}
+
+export const DEFAULT_MATERIAL_OPTIONS: MaterialReportOptions = {
+  wasteFactor: 0.1,
+  substrate: 'roll',
+  substrateWidthIn: 60,
+  substrateLength: 150,
+}
+
+/** Days of a report over a date range, inclusive, in UTC */
+export interface MaterialDateRange {
+  from: string
+  to: string
+  /** Bounds on created_at: at or after start, before end */
+  start: string
+  end: string
+}
+
+export interface MaterialReportItem {
+  banner_sku: string
+  banner_name: string | null
+  qty_in_order: number | null
+  stock_qty: number | null
+}
+
+export interface ProductSize {
+  width_in: number | null
+  height_in: number | null
+  material: string | null
+}
+
+export interface MaterialSizeGroup {
+  widthIn: number
+  heightIn: number
+  pieces: number
+  squareFeet: number
+  skus: string[]
+  /** Neither side fits across the substrate, so the piece has to be tiled */
+  oversized: boolean
+}
+
+export interface MaterialGroup {
+  material: string
+  pieces: number
+  squareFeet: number
+}
+
+export interface UnsizedItem {
+  sku: string
+  name: string | null
+  pieces: number
+}
+
+export interface MaterialReport {
+  options: MaterialReportOptions
+  sizes: MaterialSizeGroup[]
+  materials: MaterialGroup[]
+  unsized: UnsizedItem[]
+  totals: {
+    pieces: number
+    sizedPieces: number
+    squareFeet: number
+    squareFeetWithWaste: number
+    /** Substrate area of one roll or sheet in square feet */
+    substrateSquareFeet: number
+    /** Fractional rolls or sheets, then rounded up to whole ones */
+    substrateUnits: number
+    substrateCount: number
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/** Midnight UTC of a YYYY-MM-DD date, or null for a day that does not exist */
+function utcDay(value: string): Date | null {
+  if (!DATE_PATTERN.test(value)) return null
+  const date = new Date(`${value}T00:00:00.000Z`)
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value ? date : null
+}
+
+/**
+ * The from and to dates of a report from query parameters, or the error
+ * to answer with when they are missing, invalid or out of order
+ */
+export function materialDateRangeFromParams(
+  params: URLSearchParams
+): { range: MaterialDateRange; error: null } | { range: null; error: string } {
+  const from = params.get('from') || ''
+  const to = params.get('to') || ''
+  const start = utcDay(from)
+  const last = utcDay(to)
+
+  if (!start || !last) {
+    return { range: null, error: 'from and to dates are required (YYYY-MM-DD)' }
+  }
+  if (start > last) {
+    return { range: null, error: 'from must not be after to' }
+  }
+
+  const end = new Date(last)
+  end.setUTCDate(end.getUTCDate() + 1)
+  return { range: { from, to, start: start.toISOString(), end: end.toISOString() }, error: null }
+}
+
+function positive(value: string | null | undefined, fallback: number) {
+  if (value === null || value === undefined || value.trim() === '') return fallback
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/**
+ * Report options from query parameters: waste (percent, kept within 0 to
+ * 100), substrate, width (inches) and length (roll feet or sheet inches).
+ * Bad or missing values fall back to the defaults.
+ */
+export function materialOptionsFromParams(params: URLSearchParams): MaterialReportOptions {
+  const substrate: SubstrateType = params.get('substrate') === 'sheet' ? 'sheet' : 'roll'
+  const waste = params.get('waste')
+  const wastePercent = waste !== null && waste.trim() !== '' ? parseFloat(waste) : NaN
+
+  return {
+    wasteFactor: Number.isFinite(wastePercent)
+      ? Math.min(Math.max(wastePercent, 0), 100) / 100
+      : DEFAULT_MATERIAL_OPTIONS.wasteFactor,
+    substrate,
+    substrateWidthIn: positive(params.get('width'), substrate === 'sheet' ? 48 : DEFAULT_MATERIAL_OPTIONS.substrateWidthIn),
+    substrateLength: positive(params.get('length'), substrate === 'sheet' ? 96 : DEFAULT_MATERIAL_OPTIONS.substrateLength),
+  }
+}
+
+/** Area of one roll or sheet in square feet */
+function substrateArea(options: MaterialReportOptions) {
+  return options.substrate === 'roll'
+    ? (options.substrateWidthIn / 12) * options.substrateLength
+    : (options.substrateWidthIn * options.substrateLength) / 144
+}
+
+export function buildMaterialReport(
+  items: MaterialReportItem[],
+  sizesBySku: Map<string, ProductSize>,
+  options: MaterialReportOptions = DEFAULT_MATERIAL_OPTIONS
+): MaterialReport {
+  const sizes = new Map<string, MaterialSizeGroup>()
+  const materials = new Map<string, MaterialGroup>()
+  const unsized = new Map<string, UnsizedItem>()
+  let pieces = 0
+  let sizedPieces = 0
+  let totalSquareFeet = 0
+
+  for (const item of items) {
+    const count = (item.qty_in_order || 0) + (item.stock_qty || 0)
+    if (count <= 0) continue
+    pieces += count
+
+    const product = sizesBySku.get(item.banner_sku)
+    const widthIn = product?.width_in != null ? Number(product.width_in) : null
+    const heightIn = product?.height_in != null ? Number(product.height_in) : null
+    const area = squareFeet(widthIn, heightIn)
+
+    if (area === null || widthIn === null || heightIn === null) {
+      const entry = unsized.get(item.banner_sku) || { sku: item.banner_sku, name: item.banner_name, pieces: 0 }
+      entry.pieces += count
+      unsized.set(item.banner_sku, entry)
+      continue
+    }
+
+    sizedPieces += count
+    totalSquareFeet += area * count
+
+    const key = `${widthIn}x${heightIn}`
+    const group = sizes.get(key) || {
+      widthIn,
+      heightIn,
+      pieces: 0,
+      squareFeet: 0,
+      skus: [],
+      oversized: Math.min(widthIn, heightIn) > options.substrateWidthIn,
+    }
+    group.pieces += count
+    group.squareFeet += area * count
+    if (!group.skus.includes(item.banner_sku)) group.skus.push(item.banner_sku)
+    sizes.set(key, group)
+
+    const materialName = product?.material || 'Unspecified'
+    const material = materials.get(materialName) || { material: materialName, pieces: 0, squareFeet: 0 }
+    material.pieces += count
+    material.squareFeet += area * count
+    materials.set(materialName, material)
+  }
+
+  const withWaste = totalSquareFeet * (1 + options.wasteFactor)
+  const unitArea = substrateArea(options)
+  const units = unitArea > 0 ? withWaste / unitArea : 0
+
+  return {
+    options,
+    // Largest pieces first
+    sizes: Array.from(sizes.values())
+      .map(group => ({ ...group, squareFeet: round2(group.squareFeet) }))
+      .sort((a, b) => b.widthIn * b.heightIn - a.widthIn * a.heightIn),
+    materials: Array.from(materials.values())
+      .map(group => ({ ...group, squareFeet: round2(group.squareFeet) }))
+      .sort((a, b) => b.squareFeet - a.squareFeet),
+    unsized: Array.from(unsized.values()),
+    totals: {
+      pieces,
+      sizedPieces,
+      squareFeet: round2(totalSquareFeet),
+      squareFeetWithWaste: round2(withWaste),
+      substrateSquareFeet: round2(unitArea),
+      substrateUnits: round2(units),
+      substrateCount: Math.ceil(units - 1e-9),
+    },
+  }
+}
+
+/**
+ * Sizes of the given SKUs from product_catalog
+ */
+export async function loadProductSizes(supabase: any, skus: string[]): Promise<Map<string, ProductSize>> {
+  const sizes = new Map<string, ProductSize>()
+  const unique = Array.from(new Set(skus.filter(Boolean)))
+
+  for (let i = 0; i < unique.length; i += 500) {
+    const { data, error } = await supabase
+      .from('product_catalog')
+      .select('sku, width_in, height_in, material')
+      .in('sku', unique.slice(i, i + 500))
+
+    if (error) throw new Error(`Failed to load product sizes: ${error.message}`)
+    data?.forEach((row: any) =>
+      sizes.set(row.sku, { width_in: row.width_in, height_in: row.height_in, material: row.material })
+    )
+  }
+
+  return sizes
+}
+
+function formatInches(value: number) {
+  return `${round2(value)}"`
+}
+
+/**
+ * The report as CSV: a row per size, then per material, unsized items and
+ * the totals, each section headed by its own column names
+ */
+export function materialReportToCsv(report: MaterialReport, title?: string): string {
+  const { options, totals } = report
+  const unitLabel = options.substrate === 'roll' ? 'Rolls' : 'Sheets'
+  const substrateLabel =
+    options.substrate === 'roll'
+      ? `${formatInches(options.substrateWidthIn)} x ${options.substrateLength}' roll`
+      : `${formatInches(options.substrateWidthIn)} x ${formatInches(options.substrateLength)} sheet`
+  const lines: string[] = []
+
+  if (title) lines.push(toCSVLine([title]), '')
+
+  lines.push(toCSVLine(['Width (in)', 'Height (in)', 'Pieces', 'Square Feet', 'SKUs', 'Oversized']))
+  report.sizes.forEach(group =>
+    lines.push(
+      toCSVLine([
+        group.widthIn,
+        group.heightIn,
+        group.pieces,
+        group.squareFeet,
+        group.skus.join(' '),
+        group.oversized ? 'yes' : '',
+      ])
+    )
+  )
+
+  lines.push('', toCSVLine(['Material', 'Pieces', 'Square Feet']))
+  report.materials.forEach(group => lines.push(toCSVLine([group.material, group.pieces, group.squareFeet])))
+
+  if (report.unsized.length > 0) {
+    lines.push('', toCSVLine(['Unsized SKU', 'Name', 'Pieces']))
+    report.unsized.forEach(item => lines.push(toCSVLine([item.sku, item.name, item.pieces])))
+  }
+
+  lines.push(
+    '',
+    toCSVLine(['Total pieces', totals.pieces]),
+    toCSVLine(['Pieces with a size', totals.sizedPieces]),
+    toCSVLine(['Square feet', totals.squareFeet]),
+    toCSVLine(['Waste factor', `${round2(options.wasteFactor * 100)}%`]),
+    toCSVLine(['Square feet with waste', totals.squareFeetWithWaste]),
+    toCSVLine(['Substrate', substrateLabel]),
+    toCSVLine([`${unitLabel} (estimated)`, totals.substrateUnits]),
+    toCSVLine([`${unitLabel} to pull`, totals.substrateCount])
+  )
+
+  return lines.join('\r\n') + '\r\n'
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_NESTING_OPTIONS,
+  nestingOptionsFromParams,
+  planNesting,
+  type NestingLayout,
+  type NestingPiece,
+} from './nesting'
+
+let nextId = 0
+const piece = (widthIn: number, heightIn: number, sku = `SKU-${widthIn}x${heightIn}`): NestingPiece => ({
+  id: `piece-${++nextId}`,
+  sku,
+  label: sku,
+  widthIn,
+  heightIn,
+})
+
+/** Placements stay inside the margins and keep the gap between each other */
+function expectValidLayout(layout: NestingLayout) {
+  const { mediaWidthIn, marginIn, gapIn } = layout.options
+  const EPSILON = 1e-6
+
+  layout.placements.forEach(p => {
+    expect(p.x).toBeGreaterThanOrEqual(marginIn - EPSILON)
+    expect(p.y).toBeGreaterThanOrEqual(marginIn - EPSILON)
+    expect(p.x + p.width).toBeLessThanOrEqual(mediaWidthIn - marginIn + EPSILON)
+    expect(p.y + p.height).toBeLessThanOrEqual(layout.lengthIn - marginIn + EPSILON)
+    const size = p.rotated ? [p.piece.heightIn, p.piece.widthIn] : [p.piece.widthIn, p.piece.heightIn]
+    expect([p.width, p.height]).toEqual(size)
+  })
+
+  layout.placements.forEach((a, i) => {
+    layout.placements.slice(i + 1).forEach(b => {
+      const apart =
+        a.x + a.width + gapIn <= b.x + EPSILON ||
+        b.x + b.width + gapIn <= a.x + EPSILON ||
+        a.y + a.height + gapIn <= b.y + EPSILON ||
+        b.y + b.height + gapIn <= a.y + EPSILON
+      expect(apart, `${a.piece.id} and ${b.piece.id} overlap`).toBe(true)
+    })
+  })
+}
+
+describe('planNesting', () => {
+  it('fits pieces side by side when they fill the width exactly', () => {
+    const layout = planNesting([piece(29.25, 10), piece(29.25, 10)])
+
+    expect(layout.placements.map(p => [p.x, p.y])).toEqual([[0.5, 0.5], [30.25, 0.5]])
+    expect(layout.lengthIn).toBe(11)
+    expectValidLayout(layout)
+  })
+
+  it('rotates a piece that only fits across the media turned', () => {
+    const layout = planNesting([piece(96, 48)])
+
+    expect(layout.placements[0]).toMatchObject({ rotated: true, width: 48, height: 96 })
+    expect(layout.lengthIn).toBe(97)
+  })
+
+  it('leaves pieces that do not fit in either orientation unplaced', () => {
+    const tooBig = piece(96, 72)
+    const layout = planNesting([tooBig, piece(12, 12)])
+
+    expect(layout.unplaced).toEqual([tooBig])
+    expect(layout.placements).toHaveLength(1)
+  })
+
+  it('keeps pieces as drawn when rotation is off', () => {
+    const layout = planNesting([piece(96, 48)], { ...DEFAULT_NESTING_OPTIONS, allowRotation: false })
+
+    expect(layout.placements).toEqual([])
+    expect(layout.unplaced).toHaveLength(1)
+    expect(layout.lengthIn).toBe(0)
+    expect(layout.utilization).toBe(0)
+  })
+
+  it('packs a mixed order without overlaps and places larger pieces first', () => {
+    const pieces = [
+      piece(36, 72),
+      piece(24, 36),
+      piece(24, 36),
+      piece(12, 18),
+      piece(30, 30),
+      piece(48, 24),
+      piece(6, 40),
+      piece(18, 12),
+      piece(18, 12),
+      piece(8, 8),
+    ]
+    const layout = planNesting(pieces)
+
+    expect(layout.unplaced).toEqual([])
+    expect(layout.placements).toHaveLength(pieces.length)
+    expect(layout.placements[0].piece.sku).toBe('SKU-36x72')
+    expectValidLayout(layout)
+  })
+
+  it('reports areas and utilization', () => {
+    const layout = planNesting([piece(12, 12), piece(12, 12)], {
+      mediaWidthIn: 24,
+      gapIn: 0,
+      marginIn: 0,
+      allowRotation: true,
+    })
+
+    expect(layout.lengthIn).toBe(12)
+    expect(layout.pieceSquareFeet).toBe(2)
+    expect(layout.mediaSquareFeet).toBe(2)
+    expect(layout.utilization).toBe(1)
+  })
+
+  it('plans the same layout for the same pieces in any order', () => {
+    const pieces = [piece(24, 36, 'A'), piece(36, 24, 'B'), piece(12, 12, 'C'), piece(20, 10, 'D')]
+    const positions = (layout: NestingLayout) => layout.placements.map(p => [p.piece.sku, p.x, p.y, p.rotated])
+
+    expect(positions(planNesting([...pieces].reverse()))).toEqual(positions(planNesting(pieces)))
+  })
+})
+
+describe('nestingOptionsFromParams', () => {
+  it('reads options and falls back to the defaults for bad values', () => {
+    expect(nestingOptionsFromParams(new URLSearchParams('mediaWidth=54&gap=0&margin=1&rotate=0'))).toEqual({
+      mediaWidthIn: 54,
+      gapIn: 0,
+      marginIn: 1,
+      allowRotation: false,
+    })
+    expect(nestingOptionsFromParams(new URLSearchParams('mediaWidth=0&gap=-1&margin=abc'))).toEqual(
+      DEFAULT_NESTING_OPTIONS
+    )
+  })
+})
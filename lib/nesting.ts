@@ -0,0 +1,220 @@
+/**
+ * Gang-sheet nesting
+ * Packs banner pieces onto a roll of fixed width and unbounded length, so
+ * many small banners can be printed in one run. Uses a skyline bottom-left
+ * heuristic: each piece goes where its top edge ends up lowest, trying both
+ * orientations when rotation is allowed. Not optimal, but fast and stable
+ * enough to re-run on every input change.
+ */
+
+import { round2 } from './utils'
+
+export interface NestingPiece {
+  id: string
+  sku: string
+  label: string
+  widthIn: number
+  heightIn: number
+}
+
+export interface NestingOptions {
+  /** Printable media width in inches */
+  mediaWidthIn: number
+  /** Space between pieces, in inches */
+  gapIn: number
+  /** Unprinted edge on every side of the media, in inches */
+  marginIn: number
+  allowRotation: boolean
+}
+
+export const DEFAULT_NESTING_OPTIONS: NestingOptions = {
+  mediaWidthIn: 60,
+  gapIn: 0.5,
+  marginIn: 0.5,
+  allowRotation: true,
+}
+
+/** Upper bound on pieces in one layout, to keep planning fast */
+export const MAX_NESTING_PIECES = 2000
+
+export interface NestingPlacement {
+  piece: NestingPiece
+  /** Offset from the left edge of the media */
+  x: number
+  /** Offset from the start of the run */
+  y: number
+  /** Placed size, after rotation */
+  width: number
+  height: number
+  rotated: boolean
+}
+
+export interface NestingLayout {
+  options: NestingOptions
+  placements: NestingPlacement[]
+  /** Pieces that do not fit across the media in either orientation */
+  unplaced: NestingPiece[]
+  /** Media used along the roll, margins included */
+  lengthIn: number
+  pieceSquareFeet: number
+  mediaSquareFeet: number
+  /** Piece area over media area used, 0 to 1 */
+  utilization: number
+}
+
+interface SkylineSegment {
+  x: number
+  y: number
+  width: number
+}
+
+const EPSILON = 1e-6
+
+/**
+ * Lowest y at which a piece of the given width can sit when its left edge
+ * is at the start of segment `index`, or null if it runs off the media
+ */
+function fitAt(skyline: SkylineSegment[], index: number, width: number, stripWidth: number): number | null {
+  const x = skyline[index].x
+  if (x + width > stripWidth + EPSILON) return null
+
+  let y = 0
+  let remaining = width
+  for (let i = index; i < skyline.length && remaining > EPSILON; i++) {
+    y = Math.max(y, skyline[i].y)
+    remaining -= skyline[i].width
+  }
+  return y
+}
+
+function placeOnSkyline(skyline: SkylineSegment[], index: number, width: number, top: number) {
+  const x = skyline[index].x
+  const next: SkylineSegment[] = skyline.slice(0, index)
+  next.push({ x, y: top, width })
+
+  const right = x + width
+  for (let i = index; i < skyline.length; i++) {
+    const segment = skyline[i]
+    const segmentRight = segment.x + segment.width
+    if (segmentRight <= right + EPSILON) continue
+    if (segment.x < right) {
+      next.push({ x: right, y: segment.y, width: segmentRight - right })
+    } else {
+      next.push(segment)
+    }
+  }
+
+  // Merge neighbours at the same height
+  const merged: SkylineSegment[] = []
+  for (const segment of next) {
+    const last = merged[merged.length - 1]
+    if (last && Math.abs(last.y - segment.y) < EPSILON) {
+      last.width += segment.width
+    } else {
+      merged.push({ ...segment })
+    }
+  }
+  return merged
+}
+
+/**
+ * Pack pieces onto the media. Larger pieces are placed first; the result
+ * keeps that order.
+ */
+export function planNesting(pieces: NestingPiece[], options: NestingOptions = DEFAULT_NESTING_OPTIONS): NestingLayout {
+  const { mediaWidthIn, gapIn, marginIn, allowRotation } = options
+  // Every piece reserves its gap on the right and bottom; the strip gets one
+  // extra gap so the last piece in a row can reach the margin
+  const stripWidth = mediaWidthIn - 2 * marginIn + gapIn
+
+  const sorted = [...pieces].sort(
+    (a, b) =>
+      Math.max(b.widthIn, b.heightIn) - Math.max(a.widthIn, a.heightIn) ||
+      b.widthIn * b.heightIn - a.widthIn * a.heightIn ||
+      a.sku.localeCompare(b.sku)
+  )
+
+  let skyline: SkylineSegment[] = stripWidth > 0 ? [{ x: 0, y: 0, width: stripWidth }] : []
+  const placements: NestingPlacement[] = []
+  const unplaced: NestingPiece[] = []
+  let bottom = 0
+
+  for (const piece of sorted) {
+    const orientations: { width: number; height: number; rotated: boolean }[] = [
+      { width: piece.widthIn, height: piece.heightIn, rotated: false },
+    ]
+    if (allowRotation && Math.abs(piece.widthIn - piece.heightIn) > EPSILON) {
+      orientations.push({ width: piece.heightIn, height: piece.widthIn, rotated: true })
+    }
+
+    let best: { index: number; y: number; width: number; height: number; rotated: boolean } | null = null
+    for (const orientation of orientations) {
+      const width = orientation.width + gapIn
+      const height = orientation.height + gapIn
+      for (let i = 0; i < skyline.length; i++) {
+        const y = fitAt(skyline, i, width, stripWidth)
+        if (y === null) continue
+        const top = y + height
+        if (
+          !best ||
+          top < best.y + best.height - EPSILON ||
+          (Math.abs(top - (best.y + best.height)) < EPSILON && skyline[i].x < skyline[best.index].x)
+        ) {
+          best = { index: i, y, width, height, rotated: orientation.rotated }
+        }
+      }
+    }
+
+    if (!best) {
+      unplaced.push(piece)
+      continue
+    }
+
+    const x = skyline[best.index].x
+    skyline = placeOnSkyline(skyline, best.index, best.width, best.y + best.height)
+    const width = best.width - gapIn
+    const height = best.height - gapIn
+    placements.push({
+      piece,
+      x: round2(marginIn + x),
+      y: round2(marginIn + best.y),
+      width,
+      height,
+      rotated: best.rotated,
+    })
+    bottom = Math.max(bottom, best.y + height)
+  }
+
+  const lengthIn = placements.length > 0 ? round2(bottom + 2 * marginIn) : 0
+  const pieceArea = placements.reduce((sum, p) => sum + p.width * p.height, 0)
+  const mediaArea = mediaWidthIn * lengthIn
+
+  return {
+    options,
+    placements,
+    unplaced,
+    lengthIn,
+    pieceSquareFeet: round2(pieceArea / 144),
+    mediaSquareFeet: round2(mediaArea / 144),
+    utilization: mediaArea > 0 ? Math.round((pieceArea / mediaArea) * 10000) / 10000 : 0,
+  }
+}
+
+function number(value: string | null, fallback: number, min: number) {
+  if (value === null || value.trim() === '') return fallback
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed >= min ? parsed : fallback
+}
+
+/**
+ * Options from query parameters: mediaWidth, gap and margin in inches and
+ * rotate (0 to keep every piece as drawn). Bad values fall back to defaults.
+ */
+export function nestingOptionsFromParams(params: URLSearchParams): NestingOptions {
+  return {
+    mediaWidthIn: number(params.get('mediaWidth'), DEFAULT_NESTING_OPTIONS.mediaWidthIn, 1),
+    gapIn: number(params.get('gap'), DEFAULT_NESTING_OPTIONS.gapIn, 0),
+    marginIn: number(params.get('margin'), DEFAULT_NESTING_OPTIONS.marginIn, 0),
+    allowRotation: params.get('rotate') !== '0',
+  }
+}
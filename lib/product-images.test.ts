@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { MAX_IMAGE_BYTES, checkImageUrl, downloadImage, runImageChecks } from './product-images'
+
+const CATALOG_IMAGE = 'https://inter-mtn.com/cms/delivery/media/MCABC123'
+
+function stubFetch(...responses: Response[]) {
+  const fetchMock = vi.fn(async (..._args: Parameters<typeof fetch>) => responses.shift() ?? new Response(null, { status: 404 }))
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+const redirect = (location: string) => new Response(null, { status: 302, headers: { Location: location } })
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('checkImageUrl', () => {
+  it('marks URLs off the catalog CMS broken without requesting them', async () => {
+    const fetchMock = stubFetch()
+
+    for (const url of ['http://169.254.169.254/latest/meta-data', 'http://inter-mtn.com/a.png', 'file:///etc/passwd', 'not a url']) {
+      expect(await checkImageUrl(url)).toEqual({
+        status: 'broken',
+        httpStatus: null,
+        error: 'Not on the catalog image host',
+      })
+    }
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('checks catalog images with HEAD', async () => {
+    const fetchMock = stubFetch(new Response(null, { status: 200, headers: { 'Content-Type': 'image/png' } }))
+
+    expect(await checkImageUrl(CATALOG_IMAGE)).toEqual({ status: 'ok', httpStatus: 200, error: null })
+    expect(fetchMock).toHaveBeenCalledWith(CATALOG_IMAGE, expect.objectContaining({ method: 'HEAD', redirect: 'manual' }))
+  })
+
+  it('follows redirects only to the catalog CMS', async () => {
+    const fetchMock = stubFetch(
+      redirect('/cms/delivery/media/MCNEW'),
+      redirect('http://10.0.0.1/admin'),
+    )
+
+    const check = await checkImageUrl(CATALOG_IMAGE)
+    expect(check.status).toBe('unreachable')
+    expect(check.error).toContain('not an image host')
+    expect(fetchMock.mock.calls.map(call => call[0])).toEqual([
+      CATALOG_IMAGE,
+      'https://inter-mtn.com/cms/delivery/media/MCNEW',
+    ])
+  })
+})
+
+describe('downloadImage', () => {
+  it('refuses other hosts unless the caller allows them', async () => {
+    const fetchMock = stubFetch(new Response(new Uint8Array([1, 2, 3])))
+
+    await expect(downloadImage('http://localhost:5432/')).rejects.toThrow('not an image host')
+    expect(fetchMock).not.toHaveBeenCalled()
+
+    const bytes = await downloadImage('https://storage.example.com/a.webp', 1000, url => url.startsWith('https://storage.example.com/'))
+    expect(Array.from(bytes)).toEqual([1, 2, 3])
+  })
+
+  it('stops reading a body over the size limit', async () => {
+    const chunk = new Uint8Array(1024 * 1024)
+    let sent = 0
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent++
+        controller.enqueue(chunk)
+      },
+    })
+    stubFetch(new Response(body))
+
+    await expect(downloadImage(CATALOG_IMAGE)).rejects.toThrow('Larger than 5 MB')
+    expect(sent * chunk.byteLength).toBeLessThanOrEqual(MAX_IMAGE_BYTES + 2 * chunk.byteLength)
+  })
+
+  it('refuses a declared length over the limit before reading', async () => {
+    stubFetch(new Response('x', { headers: { 'Content-Length': String(MAX_IMAGE_BYTES + 1) } }))
+    await expect(downloadImage(CATALOG_IMAGE)).rejects.toThrow('Larger than 5 MB')
+  })
+
+  it('gives up on a body that arrives too slowly', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new Uint8Array([1]))
+          init.signal!.addEventListener('abort', () => controller.error(new Error('aborted')))
+        },
+      })
+      return new Response(body)
+    }))
+
+    await expect(downloadImage(CATALOG_IMAGE, 50)).rejects.toThrow('aborted')
+  })
+})
+
+describe('runImageChecks', () => {
+  it('marks off-host images broken, drops their thumbnail and fetches nothing', async () => {
+    const fetchMock = stubFetch()
+    const updates: Record<string, any>[] = []
+    const query: any = {
+      select: () => query,
+      not: () => query,
+      or: () => query,
+      order: () => query,
+      limit: async () => ({
+        data: [{ id: 'p1', image_url: 'http://127.0.0.1:8080/secret.png', thumbnail_path: 'abc.webp' }],
+        error: null,
+      }),
+      update: (values: Record<string, any>) => {
+        updates.push(values)
+        return { eq: () => ({ eq: async () => ({ error: null }) }) }
+      },
+    }
+
+    const result = await runImageChecks({ from: () => query })
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(result).toMatchObject({ checked: 1, broken: 1, thumbnailsCreated: 0 })
+    expect(updates[0]).toMatchObject({
+      image_status: 'broken',
+      image_http_status: null,
+      thumbnail_path: null,
+      thumbnail_url: null,
+    })
+  })
+})
@@ -0,0 +1,382 @@
+/**
+ * Product image checks
+ * A background job HEAD-checks the image_url of catalog products, records
+ * the result on the product (migration 030) and keeps a resized copy of
+ * each working image in the product-thumbnails storage bucket. Product
+ * pickers and printed sheets load the thumbnail, so they stay fast and keep
+ * working when the CMS is slow or down.
+ *
+ * image_url comes from imports, so the server only requests it when it is
+ * on the catalog CMS (isCatalogImageUrl); any other URL is marked broken
+ * without being fetched, and redirects are only followed to the same hosts.
+ *
+ * Server only (sharp).
+ */
+
+import { createHash } from 'crypto'
+import sharp from 'sharp'
+import { isCatalogImageUrl } from './image-url-builder'
+
+export type ImageStatus = 'ok' | 'broken' | 'unreachable'
+
+export const THUMBNAIL_BUCKET = 'product-thumbnails'
+
+export interface ImageCheck {
+  status: ImageStatus
+  httpStatus: number | null
+  error: string | null
+}
+
+export interface ImageCheckRunResult {
+  checked: number
+  ok: number
+  broken: number
+  unreachable: number
+  thumbnailsCreated: number
+  thumbnailsFailed: number
+}
+
+// Longest side of a thumbnail, in pixels; enough for the printed sheet
+const THUMBNAIL_SIZE = 480
+// Largest image downloaded, and the most pixels sharp will decode from it
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+const MAX_IMAGE_PIXELS = 50 * 1000 * 1000
+const CHECK_TIMEOUT_MS = 10000
+const DOWNLOAD_TIMEOUT_MS = 30000
+// Longest sharp may spend decoding and resizing one image
+const SHARP_TIMEOUT_SECONDS = 20
+const MAX_REDIRECTS = 3
+// Working images are checked again after a week
+const RECHECK_AFTER_MS = 7 * 24 * 60 * 60 * 1000
+// Products per run, and checks in flight at once
+const DEFAULT_BATCH_SIZE = 200
+const CONCURRENCY = 4
+
+/**
+ * fetch that follows redirects itself, and only to URLs `allowed` accepts,
+ * so an allowed host cannot send the server anywhere else
+ */
+async function fetchAllowed(
+  url: string,
+  init: RequestInit,
+  allowed: (url: string) => boolean
+): Promise<Response> {
+  let current = url
+  for (let redirects = 0; ; redirects++) {
+    if (!allowed(current)) throw new Error(`Not fetching ${current}: not an image host`)
+
+    const response = await fetch(current, { ...init, redirect: 'manual', cache: 'no-store' })
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) return response
+
+    await response.body?.cancel()
+    if (redirects >= MAX_REDIRECTS) throw new Error('Too many redirects')
+    current = new URL(location, current).toString()
+  }
+}
+
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  allowed: (url: string) => boolean
+): Promise<Response> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    return await fetchAllowed(url, { ...init, signal: controller.signal }, allowed)
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Read a response body, giving up once it is larger than maxBytes instead of
+ * buffering all of it. A Content-Length over the limit is refused up front.
+ */
+async function readResponseBytes(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const tooLarge = () => new Error(`Larger than ${Math.round(maxBytes / 1024 / 1024)} MB`)
+
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel()
+    throw tooLarge()
+  }
+  if (!response.body) return new Uint8Array(0)
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+
+  const bytes = new Uint8Array(size)
+  let offset = 0
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  })
+  return bytes
+}
+
+/**
+ * Download an image, at most MAX_IMAGE_BYTES of it. The timeout covers
+ * reading the body too, not just the response headers. Only URLs `allowed`
+ * accepts are requested, by default those on the catalog CMS.
+ */
+export async function downloadImage(
+  url: string,
+  timeoutMs = DOWNLOAD_TIMEOUT_MS,
+  allowed: (url: string) => boolean = isCatalogImageUrl
+): Promise<Uint8Array> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    const response = await fetchAllowed(url, { signal: controller.signal }, allowed)
+    if (!response.ok) {
+      await response.body?.cancel()
+      throw new Error(`HTTP ${response.status}`)
+    }
+    return await readResponseBytes(response, MAX_IMAGE_BYTES)
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Check that an image URL answers with an image. Servers that do not
+ * support HEAD are asked with GET instead. URLs off the catalog CMS are
+ * broken without a request.
+ */
+export async function checkImageUrl(url: string): Promise<ImageCheck> {
+  if (!isCatalogImageUrl(url)) {
+    return { status: 'broken', httpStatus: null, error: 'Not on the catalog image host' }
+  }
+
+  let response: Response
+  try {
+    response = await fetchWithTimeout(url, { method: 'HEAD' }, CHECK_TIMEOUT_MS, isCatalogImageUrl)
+    if (response.status === 405 || response.status === 501) {
+      response = await fetchWithTimeout(url, { method: 'GET' }, CHECK_TIMEOUT_MS, isCatalogImageUrl)
+      await response.body?.cancel()
+    }
+  } catch (error: any) {
+    return {
+      status: 'unreachable',
+      httpStatus: null,
+      error: error.name === 'AbortError'
+        ? `No response after ${CHECK_TIMEOUT_MS / 1000}s`
+        : error.message || 'Request failed',
+    }
+  }
+
+  if (response.status >= 500 || response.status === 429) {
+    return { status: 'unreachable', httpStatus: response.status, error: `HTTP ${response.status}` }
+  }
+  if (!response.ok) {
+    return { status: 'broken', httpStatus: response.status, error: `HTTP ${response.status}` }
+  }
+
+  const contentType = response.headers.get('content-type')
+  if (contentType && !contentType.toLowerCase().startsWith('image/')) {
+    return { status: 'broken', httpStatus: response.status, error: `Not an image (${contentType})` }
+  }
+
+  return { status: 'ok', httpStatus: response.status, error: null }
+}
+
+/**
+ * Storage path of the thumbnail for an image URL. Products with the same
+ * image share a thumbnail.
+ */
+export function thumbnailPath(imageUrl: string): string {
+  return `${createHash('sha256').update(imageUrl).digest('hex').slice(0, 32)}.webp`
+}
+
+async function createThumbnail(supabase: any, imageUrl: string): Promise<{ path: string; url: string }> {
+  const bytes = await downloadImage(imageUrl)
+  const thumbnail = await sharp(bytes, { limitInputPixels: MAX_IMAGE_PIXELS })
+    .timeout({ seconds: SHARP_TIMEOUT_SECONDS })
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer()
+
+  const path = thumbnailPath(imageUrl)
+  const { error } = await supabase.storage
+    .from(THUMBNAIL_BUCKET)
+    .upload(path, thumbnail, {
+      contentType: 'image/webp',
+      // The path changes with the image, so the file never does
+      cacheControl: '31536000',
+      upsert: true,
+    })
+  if (error) throw new Error(error.message)
+
+  const { data } = supabase.storage.from(THUMBNAIL_BUCKET).getPublicUrl(path)
+  return { path, url: data.publicUrl }
+}
+
+/**
+ * The cached thumbnail of an image URL as PNG, for the PDF renderer, which
+ * cannot embed WebP. Null when the image check job has not made one.
+ */
+export async function loadThumbnailPng(
+  supabase: any,
+  imageUrl: string,
+  timeoutMs?: number
+): Promise<Uint8Array | null> {
+  const { data } = supabase.storage.from(THUMBNAIL_BUCKET).getPublicUrl(thumbnailPath(imageUrl))
+  const storageOrigin = new URL(data.publicUrl).origin
+  let webp: Uint8Array
+  try {
+    webp = await downloadImage(data.publicUrl, timeoutMs, url => new URL(url).origin === storageOrigin)
+  } catch {
+    return null
+  }
+  return new Uint8Array(
+    await sharp(webp, { limitInputPixels: MAX_IMAGE_PIXELS })
+      .timeout({ seconds: SHARP_TIMEOUT_SECONDS })
+      .png()
+      .toBuffer()
+  )
+}
+
+/**
+ * Check the images that were never checked, and those last checked more
+ * than a week ago, oldest first. Each working image gets a thumbnail if it
+ * does not have one yet; a thumbnail is kept while its image is broken or
+ * unreachable, so sheets still print, but not once the URL is off the
+ * catalog CMS.
+ */
+export async function runImageChecks(
+  supabase: any,
+  options: { limit?: number } = {}
+): Promise<ImageCheckRunResult> {
+  const cutoff = new Date(Date.now() - RECHECK_AFTER_MS).toISOString()
+  const { data: products, error } = await supabase
+    .from('product_catalog')
+    .select('id, image_url, thumbnail_path')
+    .not('image_url', 'is', null)
+    .or(`image_checked_at.is.null,image_checked_at.lt.${cutoff}`)
+    .order('image_checked_at', { ascending: true, nullsFirst: true })
+    .limit(options.limit ?? DEFAULT_BATCH_SIZE)
+
+  if (error) throw new Error(`Failed to load products: ${error.message}`)
+
+  const result: ImageCheckRunResult = {
+    checked: 0,
+    ok: 0,
+    broken: 0,
+    unreachable: 0,
+    thumbnailsCreated: 0,
+    thumbnailsFailed: 0,
+  }
+
+  // One check and one thumbnail per URL, however many products share it
+  const checks = new Map<string, Promise<ImageCheck>>()
+  const thumbnails = new Map<string, Promise<{ path: string; url: string } | null>>()
+
+  const processProduct = async (product: { id: string; image_url: string; thumbnail_path: string | null }) => {
+    const url = product.image_url
+    if (!checks.has(url)) checks.set(url, checkImageUrl(url))
+    const check = await checks.get(url)!
+
+    const updates: Record<string, any> = {
+      image_status: check.status,
+      image_http_status: check.httpStatus,
+      image_error: check.error,
+      image_checked_at: new Date().toISOString(),
+    }
+
+    // A thumbnail made before URLs were limited to the catalog CMS is dropped
+    if (!isCatalogImageUrl(url) && product.thumbnail_path) {
+      updates.thumbnail_path = null
+      updates.thumbnail_url = null
+    }
+
+    if (check.status === 'ok' && product.thumbnail_path !== thumbnailPath(url)) {
+      if (!thumbnails.has(url)) {
+        thumbnails.set(url, createThumbnail(supabase, url).catch(thumbnailError => {
+          console.error('Failed to create thumbnail', url, thumbnailError)
+          return null
+        }))
+      }
+      const thumbnail = await thumbnails.get(url)!
+      if (thumbnail) {
+        updates.thumbnail_path = thumbnail.path
+        updates.thumbnail_url = thumbnail.url
+        result.thumbnailsCreated++
+      } else {
+        result.thumbnailsFailed++
+      }
+    }
+
+    // Skipped if the image changed meanwhile; the new one is checked next run
+    const { error: updateError } = await supabase
+      .from('product_catalog')
+      .update(updates)
+      .eq('id', product.id)
+      .eq('image_url', url)
+
+    if (updateError) {
+      console.error('Failed to record image check', product.id, updateError)
+      return
+    }
+
+    result.checked++
+    result[check.status]++
+  }
+
+  const queue = [...(products || [])]
+  await Promise.all(
+    Array.from({ length: Math.min(CONCURRENCY, queue.length) }, async () => {
+      while (queue.length > 0) {
+        await processProduct(queue.shift()!)
+      }
+    })
+  )
+
+  return result
+}
+
+/**
+ * Add the catalog thumbnail and image status to sheet items, matched by
+ * SKU. An item whose image differs from the catalog's keeps only its own.
+ */
+export async function withCatalogThumbnails<T extends { banner_sku: string; image_url: string | null }>(
+  supabase: any,
+  items: T[]
+): Promise<(T & { thumbnail_url: string | null; image_status: ImageStatus | null })[]> {
+  const skus = Array.from(new Set(items.map(item => item.banner_sku).filter(Boolean)))
+  const catalog = new Map<string, any>()
+
+  if (skus.length > 0) {
+    const { data, error } = await supabase
+      .from('product_catalog')
+      .select('sku, image_url, image_status, thumbnail_url')
+      .in('sku', skus)
+
+    if (error) {
+      console.error('Failed to load catalog thumbnails', error)
+    }
+    data?.forEach((product: any) => catalog.set(product.sku, product))
+  }
+
+  return items.map(item => {
+    const product = catalog.get(item.banner_sku)
+    const matches = product && item.image_url && product.image_url === item.image_url
+    return {
+      ...item,
+      thumbnail_url: matches ? product.thumbnail_url : null,
+      image_status: matches ? product.image_status : null,
+    }
+  })
+}
@@ -0,0 +1,153 @@
+/**
+ * Reorder planner
+ * Finds active products whose stock (on hand plus stock already on open
+ * sheets) is at or below their reorder point, product_catalog.stock_min, and
+ * groups them by the sheet template whose product filters take them. Each
+ * group becomes one draft sheet with stock_qty pre-filled for a manager to
+ * review.
+ */
+
+import { loadStockLevels, type StockLevel } from './inventory'
+
+export interface TemplateFilters {
+  id: string
+  name: string
+  categories_to_include: string[] | null
+  products_to_include: string[] | null
+  products_to_exclude: string[] | null
+  categories_to_exclude: string[] | null
+}
+
+export interface ReorderProduct {
+  sku: string
+  name: string | null
+  category: string | null
+  image_url: string | null
+}
+
+export interface ReorderLine extends StockLevel {
+  name: string | null
+  imageUrl: string | null
+}
+
+export interface ReorderGroup {
+  templateId: string
+  templateName: string
+  lines: ReorderLine[]
+}
+
+export interface ReorderPlan {
+  groups: ReorderGroup[]
+  /** Products below their reorder point that no template takes */
+  unmatched: ReorderLine[]
+}
+
+/** How specifically a template takes a product: by SKU, by category, or by having no include filters */
+type TemplateMatch = 'sku' | 'category' | 'all'
+
+const MATCH_RANK: Record<TemplateMatch, number> = { sku: 0, category: 1, all: 2 }
+
+/**
+ * Same rules as the product picker in /api/banners: a product passes the
+ * include filters when its category or SKU is listed (or there are none),
+ * and must not be excluded by SKU or category.
+ */
+export function matchTemplate(product: ReorderProduct, template: TemplateFilters): TemplateMatch | null {
+  const categoriesToInclude = template.categories_to_include || []
+  const productsToInclude = template.products_to_include || []
+
+  if ((template.products_to_exclude || []).includes(product.sku)) return null
+  if (product.category && (template.categories_to_exclude || []).includes(product.category)) return null
+
+  if (productsToInclude.includes(product.sku)) return 'sku'
+  if (product.category && categoriesToInclude.includes(product.category)) return 'category'
+  if (categoriesToInclude.length === 0 && productsToInclude.length === 0) return 'all'
+  return null
+}
+
+/**
+ * Group products by template. A product goes to the template that names it
+ * most specifically; ties go to the template that sorts first by name.
+ */
+export function groupByTemplate(
+  lines: (ReorderLine & { category: string | null })[],
+  templates: TemplateFilters[]
+): ReorderPlan {
+  const sorted = [...templates].sort((a, b) => a.name.localeCompare(b.name))
+  const groups = new Map<string, ReorderGroup>()
+  const unmatched: ReorderLine[] = []
+
+  for (const { category, ...line } of lines) {
+    let best: { template: TemplateFilters; rank: number } | null = null
+    for (const template of sorted) {
+      const match = matchTemplate(
+        { sku: line.sku, name: line.name, category, image_url: line.imageUrl },
+        template
+      )
+      if (match && (!best || MATCH_RANK[match] < best.rank)) {
+        best = { template, rank: MATCH_RANK[match] }
+      }
+    }
+
+    if (!best) {
+      unmatched.push(line)
+      continue
+    }
+
+    const group = groups.get(best.template.id) || {
+      templateId: best.template.id,
+      templateName: best.template.name,
+      lines: [],
+    }
+    group.lines.push(line)
+    groups.set(best.template.id, group)
+  }
+
+  return {
+    groups: Array.from(groups.values()).sort((a, b) => a.templateName.localeCompare(b.templateName)),
+    unmatched,
+  }
+}
+
+/**
+ * Build the plan from the current catalog, inventory and templates
+ */
+export async function planReorder(supabase: any): Promise<ReorderPlan> {
+  const products: any[] = []
+  let offset = 0
+
+  while (true) {
+    const { data, error } = await supabase
+      .from('product_catalog')
+      .select('sku, name, category, image_url, stock_min, stock_max')
+      .eq('is_active', true)
+      .not('stock_min', 'is', null)
+      .order('sku', { ascending: true })
+      .range(offset, offset + 999)
+
+    if (error) throw new Error(`Failed to load reorder points: ${error.message}`)
+    products.push(...(data || []))
+    if (!data || data.length < 1000) break
+    offset += 1000
+  }
+
+  if (products.length === 0) return { groups: [], unmatched: [] }
+
+  const { data: templates, error: templatesError } = await supabase
+    .from('sheet_templates')
+    .select('id, name, categories_to_include, products_to_include, products_to_exclude, categories_to_exclude')
+
+  if (templatesError) throw new Error(`Failed to load templates: ${templatesError.message}`)
+
+  const levels = await loadStockLevels(supabase, products.map(p => p.sku), products)
+  const lines = products
+    .map(product => {
+      const level = levels.get(product.sku)
+      return level && level.suggestedQty > 0
+        ? { ...level, name: product.name, imageUrl: product.image_url, category: product.category }
+        : null
+    })
+    .filter((line): line is ReorderLine & { category: string | null } => line !== null)
+
+  return groupByTemplate(lines, templates || [])
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest"
+import {
+  buildCatalogProductRow,
+  buildPrimaryCategoryNames,
+  countProductDiff,
+  diffCatalogProducts,
+  type ExistingCatalogProduct,
+} from "./catalog-diff"
+
+const existing = (sku: string, fields: Partial<ExistingCatalogProduct> = {}): ExistingCatalogProduct => ({
+  sku,
+  product_id: `01t${sku}`,
+  name: `${sku} Banner`,
+  product_code: "Banners:3x6",
+  category: "Banners",
+  image_url: null,
+  is_active: true,
+  primary_category_name: null,
+  ...fields,
+})
+
+describe("buildCatalogProductRow", () => {
+  it("builds the row the import writes", () => {
+    expect(
+      buildCatalogProductRow(
+        { Id: "01tA", Name: "Red Banner", StockKeepingUnit: "A", ProductCode: "Flags:2x3" },
+        undefined,
+        "https://inter-mtn.com/cms/delivery/media/key"
+      )
+    ).toEqual({
+      product_id: "01tA",
+      sku: "A",
+      name: "Red Banner",
+      product_code: "Flags:2x3",
+      category: "Flags",
+      image_url: "https://inter-mtn.com/cms/delivery/media/key",
+    })
+  })
+
+  it("keeps the existing product code and category when Salesforce has no code", () => {
+    const row = buildCatalogProductRow(
+      { Id: "01tA", Name: "Red Banner", StockKeepingUnit: "A" },
+      { product_code: "Banners:3x6", category: "Custom" },
+      null
+    )
+    expect(row).toMatchObject({ product_code: "Banners:3x6", category: "Banners" })
+
+    const uncoded = buildCatalogProductRow(
+      { Id: "01tA", Name: "Red Banner", StockKeepingUnit: "A" },
+      { product_code: null, category: "Custom" },
+      null
+    )
+    expect(uncoded).toMatchObject({ product_code: null, category: "Custom" })
+  })
+})
+
+describe("diffCatalogProducts", () => {
+  const incoming = (sku: string, fields: Record<string, any> = {}) => ({
+    product_id: `01t${sku}`,
+    sku,
+    name: `${sku} Banner`,
+    product_code: "Banners:3x6",
+    category: "Banners",
+    image_url: null,
+    ...fields,
+  })
+
+  it("sorts SKUs into new, changed, unchanged and removed", () => {
+    const entries = diffCatalogProducts(
+      [incoming("A"), incoming("B", { name: "B Flag", image_url: "https://inter-mtn.com/b.png" }), incoming("C")],
+      [
+        existing("A"),
+        existing("B"),
+        existing("D"),
+        existing("E", { is_active: false }),
+        existing("F", { product_id: null }),
+      ],
+      null
+    )
+
+    expect(entries.map((entry) => [entry.sku, entry.status])).toEqual([
+      ["A", "unchanged"],
+      ["B", "changed"],
+      ["C", "new"],
+      ["D", "removed"],
+    ])
+    expect(entries[1].changes).toEqual([
+      { field: "name", before: "B Banner", after: "B Flag" },
+      { field: "image_url", before: null, after: "https://inter-mtn.com/b.png" },
+    ])
+    expect(countProductDiff(entries)).toEqual({ new: 1, changed: 1, unchanged: 1, removed: 1 })
+  })
+
+  it("lets the primary category replace the category", () => {
+    const [entry] = diffCatalogProducts(
+      [incoming("A")],
+      [existing("A", { primary_category_name: "Flags" })],
+      new Map([["01tA", "Event Banners"]])
+    )
+
+    expect(entry.changes).toEqual([
+      { field: "category", before: "Banners", after: "Event Banners" },
+      { field: "primary_category", before: "Flags", after: "Event Banners" },
+    ])
+  })
+
+  it("leaves the primary category alone when the product has no mapping", () => {
+    const [entry] = diffCatalogProducts(
+      [incoming("A")],
+      [existing("A", { primary_category_name: "Flags" })],
+      new Map()
+    )
+    expect(entry.status).toBe("unchanged")
+  })
+})
+
+describe("buildPrimaryCategoryNames", () => {
+  it("keeps the first named category of each product", () => {
+    const names = new Map([
+      ["0ZGflags", "Flags"],
+      ["0ZGbanners", "Banners"],
+    ])
+    expect(
+      buildPrimaryCategoryNames(
+        [
+          { ProductId: "01tA", ProductCategoryId: "0ZGunknown" },
+          { ProductId: "01tA", ProductCategoryId: "0ZGflags" },
+          { ProductId: "01tA", ProductCategoryId: "0ZGbanners" },
+          { ProductId: "01tB", ProductCategoryId: "0ZGbanners" },
+        ],
+        names
+      )
+    ).toEqual(
+      new Map([
+        ["01tA", "Flags"],
+        ["01tB", "Banners"],
+      ])
+    )
+  })
+})
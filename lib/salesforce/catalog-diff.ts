@@ -0,0 +1,177 @@
+import type { SalesforceProduct } from "./types"
+import { catalogProductRow, salesforceRecord, type ExistingCatalogFields } from "@/lib/catalog-import"
+
+/**
+ * Field-level diff of a Salesforce catalog import
+ *
+ * Compares the rows an import would write against product_catalog so the
+ * preview can show, per SKU, which fields change, which SKUs are new and
+ * which active Salesforce SKUs would no longer be in the catalog. The
+ * manager then approves a subset of rows and the import applies only those.
+ */
+
+export type ProductDiffStatus = "new" | "changed" | "unchanged" | "removed"
+
+export type ProductDiffField = "name" | "product_code" | "image_url" | "category" | "primary_category"
+
+export interface ProductFieldChange {
+  field: ProductDiffField
+  before: string | null
+  after: string | null
+}
+
+export interface ProductDiffEntry {
+  sku: string
+  /** Salesforce Product2 Id */
+  productId: string | null
+  name: string | null
+  status: ProductDiffStatus
+  changes: ProductFieldChange[]
+}
+
+/** Current product_catalog row, as needed for the diff */
+export interface ExistingCatalogProduct {
+  sku: string
+  product_id: string | null
+  name: string | null
+  product_code: string | null
+  category: string | null
+  image_url: string | null
+  is_active: boolean
+  primary_category_name: string | null
+}
+
+/** Row the import would write for a Salesforce product */
+export interface CatalogProductRow {
+  product_id: string
+  sku: string
+  name: string | null
+  product_code: string | null
+  category: string
+  image_url: string | null
+}
+
+export interface ProductDiffCounts {
+  new: number
+  changed: number
+  unchanged: number
+  removed: number
+}
+
+/**
+ * Build the product_catalog row for a Salesforce product, as the import
+ * writes it (lib/catalog-import.ts): the existing product_code, and the
+ * category derived from it, are preserved when Salesforce has none.
+ */
+export function buildCatalogProductRow(
+  product: SalesforceProduct,
+  existing: ExistingCatalogFields | undefined,
+  imageUrl: string | null
+): CatalogProductRow {
+  return {
+    ...catalogProductRow(salesforceRecord(product, 0, imageUrl), existing),
+    product_id: product.Id,
+  }
+}
+
+function change(
+  changes: ProductFieldChange[],
+  field: ProductDiffField,
+  before: string | null | undefined,
+  after: string | null | undefined
+) {
+  if ((before ?? null) !== (after ?? null)) {
+    changes.push({ field, before: before ?? null, after: after ?? null })
+  }
+}
+
+/**
+ * Diff incoming rows against the catalog.
+ *
+ * primaryCategories maps a Salesforce product Id to the name of the primary
+ * category the import would assign; pass null when mappings are not part of
+ * the import. A primary category also replaces the category column.
+ *
+ * Removed entries are active catalog products that came from Salesforce
+ * (have a product_id) but are not in the incoming set.
+ */
+export function diffCatalogProducts(
+  incoming: CatalogProductRow[],
+  existing: ExistingCatalogProduct[],
+  primaryCategories: Map<string, string> | null
+): ProductDiffEntry[] {
+  const existingBySku = new Map(existing.map((row) => [row.sku, row]))
+  const incomingSkus = new Set(incoming.map((row) => row.sku))
+  const entries: ProductDiffEntry[] = []
+
+  for (const row of incoming) {
+    const current = existingBySku.get(row.sku)
+    const primaryCategory = primaryCategories?.get(row.product_id)
+
+    if (!current) {
+      entries.push({
+        sku: row.sku,
+        productId: row.product_id,
+        name: row.name,
+        status: "new",
+        changes: [],
+      })
+      continue
+    }
+
+    const changes: ProductFieldChange[] = []
+    change(changes, "name", current.name, row.name)
+    change(changes, "product_code", current.product_code, row.product_code)
+    change(changes, "image_url", current.image_url, row.image_url)
+    change(changes, "category", current.category, primaryCategory ?? row.category)
+    if (primaryCategory !== undefined) {
+      change(changes, "primary_category", current.primary_category_name, primaryCategory)
+    }
+
+    entries.push({
+      sku: row.sku,
+      productId: row.product_id,
+      name: row.name,
+      status: changes.length > 0 ? "changed" : "unchanged",
+      changes,
+    })
+  }
+
+  for (const row of existing) {
+    if (!row.product_id || !row.is_active || incomingSkus.has(row.sku)) continue
+    entries.push({
+      sku: row.sku,
+      productId: row.product_id,
+      name: row.name,
+      status: "removed",
+      changes: [],
+    })
+  }
+
+  return entries
+}
+
+export function countProductDiff(entries: ProductDiffEntry[]): ProductDiffCounts {
+  const counts: ProductDiffCounts = { new: 0, changed: 0, unchanged: 0, removed: 0 }
+  entries.forEach((entry) => {
+    counts[entry.status]++
+  })
+  return counts
+}
+
+/**
+ * Primary category per Salesforce product: the first mapping of each product
+ * wins, as in the import.
+ */
+export function buildPrimaryCategoryNames(
+  mappings: { ProductId: string; ProductCategoryId: string }[],
+  categoryNames: Map<string, string>
+): Map<string, string> {
+  const primary = new Map<string, string>()
+  for (const mapping of mappings) {
+    if (primary.has(mapping.ProductId)) continue
+    const name = categoryNames.get(mapping.ProductCategoryId)
+    if (name) primary.set(mapping.ProductId, name)
+  }
+  return primary
+}
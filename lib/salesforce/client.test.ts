@@ -0,0 +1,154 @@
+import crypto from "crypto"
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { getStoredToken, openSession, query, queryAll, storeToken, updateRecord, type SalesforceSession } from "./client"
+import { SalesforceAuthError, SalesforceBudgetError, SalesforceError, SalesforceRateLimitError } from "./errors"
+import { startMockSalesforce, type MockSalesforce } from "./mock-server"
+
+// The stored connection row, in place of the salesforce_connection table
+const connection = vi.hoisted(() => ({ row: null as Record<string, any> | null }))
+
+vi.mock("@/lib/supabase/admin", () => ({
+  createAdminClient: () => ({
+    from: () => ({
+      select: () => ({
+        eq: () => ({ maybeSingle: async () => ({ data: connection.row, error: null }) }),
+      }),
+      upsert: async (row: Record<string, any>) => {
+        connection.row = { ...connection.row, ...row }
+        return { error: null }
+      },
+      update: (values: Record<string, any>) => ({
+        eq: async () => {
+          connection.row = { ...connection.row, ...values }
+          return { error: null }
+        },
+      }),
+    }),
+  }),
+}))
+
+let mock: MockSalesforce
+
+beforeAll(async () => {
+  mock = await startMockSalesforce({ MOCK_SF_PAGE_SIZE: "2" })
+})
+
+afterAll(async () => {
+  await mock.stop()
+})
+
+beforeEach(async () => {
+  await mock.reset()
+  vi.stubEnv("SALESFORCE_TOKEN_KEYS", `1:${crypto.randomBytes(32).toString("base64")}`)
+  vi.stubEnv("SALESFORCE_CLIENT_ID", "client-id")
+  vi.stubEnv("SALESFORCE_CLIENT_SECRET", "client-secret")
+  connection.row = null
+  await storeToken(
+    {
+      access_token: "mock-access-token",
+      refresh_token: "mock-refresh-token",
+      instance_url: mock.url,
+      token_type: "Bearer",
+      issued_at: new Date().toISOString(),
+      expires_in: 7200,
+    },
+    { connectedBy: "user-1" }
+  )
+})
+
+function session(budget: number | null = null): SalesforceSession {
+  return { accessToken: "mock-access-token", instanceUrl: mock.url, apiCalls: 0, budget, limits: null }
+}
+
+const PRODUCTS_SOQL = "SELECT Id, StockKeepingUnit FROM Product2 WHERE IsActive = true"
+
+describe("queryAll", () => {
+  it("follows nextRecordsUrl through every page", async () => {
+    const result = await queryAll<{ Id: string }>(PRODUCTS_SOQL, session())
+    expect(result.records.map((record) => record.Id)).toEqual([
+      "01tMOCK000000001AAA",
+      "01tMOCK000000002AAA",
+      "01tMOCK000000003AAA",
+    ])
+    expect(result.apiCalls).toBe(2)
+  })
+})
+
+describe("request retries", () => {
+  it("retries server errors and counts every attempt", async () => {
+    await mock.fault({ status: 503, count: 2, retryAfter: 0 })
+    const result = await query(PRODUCTS_SOQL, session())
+    expect(result.data.totalSize).toBe(3)
+    expect(result.apiCalls).toBe(3)
+  })
+
+  it("gives up after three retries", async () => {
+    await mock.fault({ status: 500, count: 10, retryAfter: 0 })
+    const current = session()
+    const error = await query(PRODUCTS_SOQL, current).catch((e) => e)
+
+    expect(error).toBeInstanceOf(SalesforceError)
+    expect(error.status).toBe(500)
+    expect(error.retryable).toBe(true)
+    expect(current.apiCalls).toBe(4)
+  })
+
+  it("does not retry once the daily limit is used up", async () => {
+    await mock.fault({ status: 403, count: 10, errorCode: "REQUEST_LIMIT_EXCEEDED" })
+    const current = session()
+    const error = await query(PRODUCTS_SOQL, current).catch((e) => e)
+
+    expect(error).toBeInstanceOf(SalesforceRateLimitError)
+    expect(error.errorCode).toBe("REQUEST_LIMIT_EXCEEDED")
+    expect(current.apiCalls).toBe(1)
+  })
+
+  it("does not retry requests Salesforce rejects", async () => {
+    const current = session()
+    const error = await updateRecord("Order", "801MOCK000000001AAA", { No_Such_Field__c: 1 }, current).catch((e) => e)
+
+    expect(error).toBeInstanceOf(SalesforceError)
+    expect(error.status).toBe(400)
+    expect(error.errorCode).toBe("INVALID_FIELD")
+    expect(error.retryable).toBe(false)
+    expect(current.apiCalls).toBe(1)
+  })
+})
+
+describe("refresh on 401", () => {
+  it("refreshes the token once, stores it and repeats the request", async () => {
+    await mock.expireTokens()
+    const current = session()
+    await updateRecord("Order", "801MOCK000000001AAA", { Production_Status__c: "Completed" }, current)
+
+    expect(current.accessToken).not.toBe("mock-access-token")
+    expect((await getStoredToken())?.access_token).toBe(current.accessToken)
+    expect((await mock.record("Order", "801MOCK000000001AAA")).Production_Status__c).toBe("Completed")
+  })
+
+  it("fails with an auth error when the refreshed token is rejected too", async () => {
+    await mock.fault({ status: 401, count: 2, errorCode: "INVALID_SESSION_ID" })
+    const error = await query(PRODUCTS_SOQL, session()).catch((e) => e)
+
+    expect(error).toBeInstanceOf(SalesforceAuthError)
+    expect(connection.row?.last_error).toContain("INVALID_SESSION_ID")
+  })
+})
+
+describe("API budget", () => {
+  it("sets the budget from the org's daily limit", async () => {
+    vi.stubEnv("SALESFORCE_API_BUDGET_SHARE", "0.1")
+    const opened = await openSession()
+    expect(opened.budget).toBe(1500)
+    expect(opened.apiCalls).toBe(1)
+  })
+
+  it("stops before a request over the budget is sent", async () => {
+    const current = session(1)
+    await query(PRODUCTS_SOQL, current)
+    const error = await query(PRODUCTS_SOQL, current).catch((e) => e)
+
+    expect(error).toBeInstanceOf(SalesforceBudgetError)
+    expect((await mock.requests()).filter((r) => r.path.includes("/query"))).toHaveLength(1)
+  })
+})
@@ -1,78 +1,198 @@
-import { createClient } from "@/lib/supabase/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { encryptTokens, decryptTokens, getActiveKeyVersion } from "./token-crypto"
 import type {
   SalesforceToken,
   SalesforceQueryResponse,
   SalesforceApiLimits,
 } from "./types"
+import {
+  SalesforceError,
+  SalesforceAuthError,
+  SalesforceRateLimitError,
+  SalesforceBudgetError,
+} from "./errors"
 
 const IMAGE_URL_BASE = 'https://inter-mtn.com/cms/delivery/media'
+const API_PATH = "/services/data/v58.0"
+const NOT_CONNECTED_MESSAGE = "Salesforce is not connected. A manager can connect it in Settings."
+/** Retries after the first attempt for network errors, 408, 429 and 5xx */
+const MAX_RETRIES = 3
+const BASE_RETRY_DELAY_MS = 500
+const MAX_RETRY_DELAY_MS = 10 * 1000
+const DEFAULT_BUDGET_SHARE = 0.1
 
 /**
- * Get stored Salesforce token for a user
+ * The organization's Salesforce connection (migration 026) is one row that
+ * only the service role can read, so these helpers always use the admin
+ * client. Tokens are encrypted at rest (envelope encryption, see
+ * token-crypto.ts) and decrypted here.
  */
-export async function getStoredToken(userId: string): Promise<{
+
+/**
+ * Get the stored Salesforce token, decrypted
+ */
+export async function getStoredToken(): Promise<{
   access_token: string
   refresh_token: string | null
   instance_url: string
   token_type: string
   expires_at: string | null
 } | null> {
-  const supabase = await createClient()
+  const supabase = createAdminClient()
   const { data, error } = await supabase
-    .from("salesforce_tokens")
-    .select("access_token, refresh_token, instance_url, token_type, expires_at")
-    .eq("user_id", userId)
-    .single()
+    .from("salesforce_connection")
+    .select("access_token, refresh_token, instance_url, token_type, expires_at, data_key, key_version")
+    .eq("id", true)
+    .maybeSingle()
 
-  if (error || !data) {
+  if (error) {
+    throw new Error(`Failed to load Salesforce connection: ${error.message}`)
+  }
+  if (!data) {
     return null
   }
 
-  return data
+  const tokens = decryptTokens(
+    { access_token: data.access_token, refresh_token: data.refresh_token },
+    data
+  )
+
+  return {
+    access_token: tokens.access_token!,
+    refresh_token: tokens.refresh_token,
+    instance_url: data.instance_url,
+    token_type: data.token_type || "Bearer",
+    expires_at: data.expires_at,
+  }
 }
 
 /**
- * Store Salesforce token for a user
+ * Store the Salesforce token. Pass connectedBy for a new connection made
+ * through OAuth; without it the token is a refresh of the current one.
  */
 export async function storeToken(
-  userId: string,
-  token: SalesforceToken
+  token: SalesforceToken,
+  options: { connectedBy?: string } = {}
 ): Promise<void> {
-  const supabase = await createClient()
-  
+  const supabase = createAdminClient()
+  const now = new Date().toISOString()
+
   // Calculate expires_at if expires_in is provided
   let expiresAt: Date | null = null
   if (token.expires_in) {
     expiresAt = new Date(Date.now() + token.expires_in * 1000)
   }
 
-  const { error } = await supabase
-    .from("salesforce_tokens")
-    .upsert({
-      user_id: userId,
-      access_token: token.access_token,
-      refresh_token: token.refresh_token || null,
-      instance_url: token.instance_url,
-      token_type: token.token_type || "Bearer",
-      issued_at: new Date().toISOString(),
-      expires_at: expiresAt?.toISOString() || null,
-      updated_at: new Date().toISOString(),
-    }, {
-      onConflict: "user_id",
+  const { tokens, envelope } = encryptTokens({
+    access_token: token.access_token,
+    refresh_token: token.refresh_token || null,
+  })
+
+  const row: Record<string, any> = {
+    id: true,
+    ...tokens,
+    ...envelope,
+    instance_url: token.instance_url,
+    token_type: token.token_type || "Bearer",
+    issued_at: now,
+    expires_at: expiresAt?.toISOString() || null,
+    updated_at: now,
+  }
+
+  if (options.connectedBy) {
+    Object.assign(row, {
+      connected_by: options.connectedBy,
+      connected_at: now,
+      last_refreshed_at: null,
+      last_checked_at: now,
+      last_error: null,
+      last_error_at: null,
     })
+  } else {
+    row.last_refreshed_at = now
+  }
+
+  const { error } = await supabase
+    .from("salesforce_connection")
+    .upsert(row, { onConflict: "id" })
 
   if (error) {
     throw new Error(`Failed to store token: ${error.message}`)
   }
 }
 
+/**
+ * Record a failed call on the connection, shown as its health on the
+ * settings page
+ */
+export async function recordConnectionError(message: string): Promise<void> {
+  const supabase = createAdminClient()
+  await supabase
+    .from("salesforce_connection")
+    .update({
+      last_error: message,
+      last_error_at: new Date().toISOString(),
+    })
+    .eq("id", true)
+}
+
+/**
+ * Re-encrypt the stored tokens under a new data key wrapped with the active
+ * key version, so older key versions can be removed from the environment.
+ * Tokens already on the active version are left alone unless force is set.
+ */
+export async function rotateTokenKey(options: { force?: boolean } = {}): Promise<{
+  rotated: boolean
+  fromVersion: number | null
+  toVersion: number
+}> {
+  const supabase = createAdminClient()
+  const toVersion = getActiveKeyVersion()
+
+  const { data, error } = await supabase
+    .from("salesforce_connection")
+    .select("access_token, refresh_token, data_key, key_version, updated_at")
+    .eq("id", true)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load Salesforce connection: ${error.message}`)
+  }
+  if (!data) {
+    return { rotated: false, fromVersion: null, toVersion }
+  }
+
+  // Migration 026 rows have no envelope yet and always need re-encrypting
+  const fromVersion = data.data_key ? data.key_version || 1 : null
+  if (fromVersion === toVersion && !options.force) {
+    return { rotated: false, fromVersion, toVersion }
+  }
+
+  const { tokens, envelope } = encryptTokens(
+    decryptTokens({ access_token: data.access_token, refresh_token: data.refresh_token }, data)
+  )
+
+  // Only replace the row that was read; a token refresh in between already
+  // re-encrypted it with the active version
+  const now = new Date().toISOString()
+  const { data: updated, error: updateError } = await supabase
+    .from("salesforce_connection")
+    .update({ ...tokens, ...envelope, key_rotated_at: now, updated_at: now })
+    .eq("id", true)
+    .eq("updated_at", data.updated_at)
+    .select("id")
+
+  if (updateError) {
+    throw new Error(`Failed to re-encrypt Salesforce tokens: ${updateError.message}`)
+  }
+
+  return { rotated: (updated?.length || 0) > 0, fromVersion, toVersion }
+}
+
 /**
  * Refresh Salesforce access token
  */
-export async function refreshToken(
-  userId: string,
-  refreshToken: string
-): Promise<SalesforceToken> {
+export async function refreshToken(refreshToken: string): Promise<SalesforceToken> {
   const clientId = process.env.SALESFORCE_CLIENT_ID
   const clientSecret = process.env.SALESFORCE_CLIENT_SECRET
 
@@ -81,9 +201,9 @@ export async function refreshToken(
   }
 
   // Get instance URL from stored token
-  const stored = await getStoredToken(userId)
+  const stored = await getStoredToken()
   if (!stored) {
-    throw new Error("No stored token found")
+    throw new SalesforceAuthError(NOT_CONNECTED_MESSAGE)
   }
 
   const tokenUrl = `${stored.instance_url}/services/oauth2/token`
@@ -95,17 +215,27 @@ export async function refreshToken(
     client_secret: clientSecret,
   })
 
-  const response = await fetch(tokenUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: params.toString(),
-  })
+  let response: Response
+  try {
+    response = await fetch(tokenUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params.toString(),
+    })
+  } catch (error: any) {
+    throw new SalesforceError(`Token refresh failed: ${error.message}`, { retryable: true })
+  }
 
   if (!response.ok) {
     const error = await response.text()
-    throw new Error(`Token refresh failed: ${error}`)
+    await recordConnectionError(`Token refresh failed: ${error}`)
+    // 400 invalid_grant: the refresh token was revoked or expired
+    if (response.status < 500) {
+      throw new SalesforceAuthError(`Token refresh failed: ${error}`, { status: response.status })
+    }
+    throw new SalesforceError(`Token refresh failed: ${error}`, { status: response.status, retryable: true })
   }
 
   const data = await response.json()
@@ -119,21 +249,21 @@ export async function refreshToken(
     expires_in: data.expires_in,
   }
 
-  await storeToken(userId, newToken)
+  await storeToken(newToken)
   return newToken
 }
 
 /**
  * Get valid access token, refreshing if expired
  */
-export async function getAccessToken(userId: string): Promise<{
+export async function getAccessToken(): Promise<{
   access_token: string
   instance_url: string
 }> {
-  const stored = await getStoredToken(userId)
+  const stored = await getStoredToken()
   
   if (!stored) {
-    throw new Error("No Salesforce token found. Please connect to Salesforce first.")
+    throw new SalesforceAuthError(NOT_CONNECTED_MESSAGE)
   }
 
   // Check if token is expired (with 5 minute buffer)
@@ -144,10 +274,10 @@ export async function getAccessToken(userId: string): Promise<{
   if (expiresAt && expiresAt.getTime() - now.getTime() < buffer) {
     // Token is expired or about to expire, refresh it
     if (!stored.refresh_token) {
-      throw new Error("Token expired and no refresh token available")
+      throw new SalesforceAuthError("Token expired and no refresh token available")
     }
     
-    const refreshed = await refreshToken(userId, stored.refresh_token)
+    const refreshed = await refreshToken(stored.refresh_token)
     return {
       access_token: refreshed.access_token,
       instance_url: refreshed.instance_url,
@@ -161,37 +291,204 @@ export async function getAccessToken(userId: string): Promise<{
 }
 
 /**
- * Execute a SOQL query against Salesforce
- * Returns the query response and API call count (always 1 for single query)
+ * The connection as used by one operation (an import, a sync run, a batch
+ * of order updates). It carries the current access token, replaced when
+ * Salesforce rejects it, and counts the API requests made so they can be
+ * held to the operation's budget.
  */
-export async function query<T>(
-  soql: string,
-  accessToken: string,
+export interface SalesforceSession {
+  accessToken: string
   instanceUrl: string
-): Promise<{ data: SalesforceQueryResponse<T>; apiCalls: number }> {
-  const encodedQuery = encodeURIComponent(soql)
-  const url = `${instanceUrl}/services/data/v58.0/query/?q=${encodedQuery}`
-
-  const response = await fetch(url, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
+  /** Requests made so far, retries included */
+  apiCalls: number
+  /** Most requests this operation may make; null when the limits are unknown */
+  budget: number | null
+  /** API limits when the session was opened */
+  limits: SalesforceApiLimits | null
+}
+
+/**
+ * Share of the org's DailyApiRequests one operation may use,
+ * SALESFORCE_API_BUDGET_SHARE (0-1, default 0.1)
+ */
+export function getApiBudgetShare(): number {
+  const share = Number(process.env.SALESFORCE_API_BUDGET_SHARE)
+  return share > 0 && share <= 1 ? share : DEFAULT_BUDGET_SHARE
+}
+
+/**
+ * Start an operation against the organization's connection. Reads the API
+ * limits first (one request) to set the budget: the smaller of the share of
+ * DailyApiRequests and what is left today. `budget: false` skips that and
+ * leaves the session unlimited.
+ */
+export async function openSession(
+  options: { budgetShare?: number; budget?: boolean } = {}
+): Promise<SalesforceSession> {
+  const token = await getAccessToken()
+  const session: SalesforceSession = {
+    accessToken: token.access_token,
+    instanceUrl: token.instance_url,
+    apiCalls: 0,
+    budget: null,
+    limits: null,
+  }
+
+  if (options.budget === false) return session
+
+  try {
+    session.limits = await getApiLimits(session)
+  } catch (error: any) {
+    if (error instanceof SalesforceAuthError) throw error
+    // Run without a budget rather than not at all
+    console.warn("Failed to get Salesforce API limits:", error.message)
+  }
+
+  const daily = session.limits?.DailyApiRequests
+  if (daily) {
+    const share = options.budgetShare ?? getApiBudgetShare()
+    session.budget = Math.max(0, Math.min(Math.floor(daily.Max * share), daily.Remaining))
+  }
+
+  return session
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential with full
+ * jitter, or the Retry-After Salesforce asked for
+ */
+function backoffDelayMs(attempt: number, retryAfter?: string | null): number {
+  const seconds = Number(retryAfter)
+  if (retryAfter && seconds >= 0) {
+    return Math.min(seconds * 1000, MAX_RETRY_DELAY_MS)
+  }
+  const ceiling = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS)
+  return Math.round(Math.random() * ceiling)
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Build the error for a failed response from Salesforce's error body,
+ * `[{ message, errorCode }]`
+ */
+async function responseError(response: Response, action: string): Promise<SalesforceError> {
+  const text = await response.text()
+  let errorCode: string | null = null
+  let message = text
+
+  try {
+    const body = JSON.parse(text)
+    const first = Array.isArray(body) ? body[0] : body
+    if (first?.errorCode || first?.message) {
+      errorCode = first.errorCode || null
+      message = [first.errorCode, first.message].filter(Boolean).join(": ")
+    }
+  } catch {
+    // Not JSON: keep the text
+  }
+
+  const status = response.status
+  const full = `${action} failed (${status}): ${message}`
+
+  if (status === 401) {
+    return new SalesforceAuthError(full, { status, errorCode })
+  }
+  if (status === 429 || errorCode === "REQUEST_LIMIT_EXCEEDED") {
+    return new SalesforceRateLimitError(full, { status, errorCode })
+  }
+  return new SalesforceError(full, {
+    status,
+    errorCode,
+    retryable: status === 408 || status >= 500,
   })
+}
 
-  if (!response.ok) {
-    if (response.status === 401) {
-      throw new Error("Unauthorized - token may be expired")
+/**
+ * Make one API request for a session. Network errors, 408, 429 and 5xx are
+ * retried with backoff up to MAX_RETRIES times. A 401 refreshes the token
+ * once and tries again. Every request sent counts toward the budget, which
+ * is checked before sending.
+ */
+async function request(
+  session: SalesforceSession,
+  path: string,
+  action: string,
+  init: { method?: string; body?: string } = {}
+): Promise<Response> {
+  let refreshed = false
+  let retries = 0
+
+  while (true) {
+    if (session.budget !== null && session.apiCalls >= session.budget) {
+      throw new SalesforceBudgetError(session.budget, session.apiCalls)
     }
-    if (response.status === 429) {
-      throw new Error("Rate limit exceeded - please try again later")
+
+    let error: SalesforceError
+    let retryAfter: string | null = null
+    session.apiCalls++
+
+    try {
+      const response = await fetch(`${session.instanceUrl}${path}`, {
+        method: init.method || "GET",
+        headers: {
+          Authorization: `Bearer ${session.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: init.body,
+      })
+
+      if (response.ok) return response
+      error = await responseError(response, action)
+      retryAfter = response.headers.get("retry-after")
+    } catch (fetchError: any) {
+      error = new SalesforceError(`${action} failed: ${fetchError.message}`, { retryable: true })
     }
-    const error = await response.text()
-    throw new Error(`Salesforce query failed: ${error}`)
+
+    if (error instanceof SalesforceAuthError) {
+      if (refreshed) {
+        await recordConnectionError(error.message)
+        throw error
+      }
+
+      const stored = await getStoredToken()
+      if (!stored?.refresh_token) {
+        await recordConnectionError(error.message)
+        throw error
+      }
+      const token = await refreshToken(stored.refresh_token)
+      session.accessToken = token.access_token
+      refreshed = true
+      continue
+    }
+
+    // The daily limit does not come back within a few seconds
+    if (!error.retryable || error.errorCode === "REQUEST_LIMIT_EXCEEDED" || retries >= MAX_RETRIES) {
+      throw error
+    }
+
+    retries++
+    await sleep(backoffDelayMs(retries, retryAfter))
   }
+}
+
+/**
+ * Execute a SOQL query against Salesforce
+ * Returns the query response and the API calls made (more than 1 if retried)
+ */
+export async function query<T>(
+  soql: string,
+  session: SalesforceSession
+): Promise<{ data: SalesforceQueryResponse<T>; apiCalls: number }> {
+  const before = session.apiCalls
+  const response = await request(
+    session,
+    `${API_PATH}/query/?q=${encodeURIComponent(soql)}`,
+    "Salesforce query"
+  )
 
   const data = await response.json()
-  return { data, apiCalls: 1 }
+  return { data, apiCalls: session.apiCalls - before }
 }
 
 /**
@@ -200,58 +497,47 @@ export async function query<T>(
  */
 export async function queryAll<T>(
   soql: string,
-  accessToken: string,
-  instanceUrl: string
+  session: SalesforceSession
 ): Promise<{ records: T[]; apiCalls: number }> {
+  const before = session.apiCalls
   const allRecords: T[] = []
-  let nextUrl: string | undefined = undefined
-  let isFirstQuery = true
-  let apiCalls = 0
-
-  do {
-    let url: string
-    if (isFirstQuery) {
-      const encodedQuery = encodeURIComponent(soql)
-      url = `${instanceUrl}/services/data/v58.0/query/?q=${encodedQuery}`
-      isFirstQuery = false
-    } else if (nextUrl) {
-      url = `${instanceUrl}${nextUrl}`
-    } else {
-      break
-    }
-
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "Content-Type": "application/json",
-      },
-    })
-
-    if (!response.ok) {
-      if (response.status === 401) {
-        throw new Error("Unauthorized - token may be expired")
-      }
-      if (response.status === 429) {
-        // Rate limit - wait and retry
-        await new Promise(resolve => setTimeout(resolve, 2000))
-        continue
-      }
-      const error = await response.text()
-      throw new Error(`Salesforce query failed: ${error}`)
-    }
+  let path: string | undefined = `${API_PATH}/query/?q=${encodeURIComponent(soql)}`
 
-    apiCalls++
+  while (path) {
+    const response = await request(session, path, "Salesforce query")
     const data: SalesforceQueryResponse<T> = await response.json()
     allRecords.push(...data.records)
-    nextUrl = data.nextRecordsUrl
+    path = data.nextRecordsUrl
 
     // Small delay to avoid rate limits
-    if (nextUrl) {
-      await new Promise(resolve => setTimeout(resolve, 100))
+    if (path) {
+      await sleep(100)
     }
-  } while (nextUrl)
+  }
+
+  return { records: allRecords, apiCalls: session.apiCalls - before }
+}
 
-  return { records: allRecords, apiCalls }
+/**
+ * Update fields on a single record. Salesforce answers 204 with no body.
+ * Failures are SalesforceErrors whose `retryable` tells a lasting problem
+ * (unknown field, deleted record) from a passing one.
+ */
+export async function updateRecord(
+  sobject: string,
+  recordId: string,
+  fields: Record<string, any>,
+  session: SalesforceSession
+): Promise<{ apiCalls: number }> {
+  const before = session.apiCalls
+  await request(
+    session,
+    `${API_PATH}/sobjects/${sobject}/${recordId}`,
+    "Salesforce update",
+    { method: "PATCH", body: JSON.stringify(fields) }
+  )
+
+  return { apiCalls: session.apiCalls - before }
 }
 
 /**
@@ -265,27 +551,7 @@ export function buildImageUrl(contentKey: string | null | undefined): string | n
 /**
  * Get Salesforce API limits
  */
-export async function getApiLimits(
-  accessToken: string,
-  instanceUrl: string
-): Promise<SalesforceApiLimits> {
-  const url = `${instanceUrl}/services/data/v58.0/limits`
-  
-  const response = await fetch(url, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-  })
-
-  if (!response.ok) {
-    if (response.status === 401) {
-      throw new Error("Unauthorized - token may be expired")
-    }
-    const error = await response.text()
-    throw new Error(`Failed to get API limits: ${error}`)
-  }
-
+export async function getApiLimits(session: SalesforceSession): Promise<SalesforceApiLimits> {
+  const response = await request(session, `${API_PATH}/limits`, "Salesforce API limits")
   return response.json()
 }
-
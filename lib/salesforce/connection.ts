@@ -0,0 +1,159 @@
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getApiLimits, getStoredToken, openSession, recordConnectionError } from "./client"
+
+/**
+ * Status of the organization's Salesforce connection (migration 026), for
+ * the settings page. Never includes the tokens.
+ */
+
+export type ConnectionHealth = "healthy" | "error" | "expired" | "disconnected"
+
+export interface ConnectionStatus {
+  connected: boolean
+  health: ConnectionHealth
+  instanceUrl: string | null
+  connectedBy: { id: string; name: string | null; email: string } | null
+  connectedAt: string | null
+  lastRefreshedAt: string | null
+  lastCheckedAt: string | null
+  expiresAt: string | null
+  lastError: string | null
+  lastErrorAt: string | null
+}
+
+const DISCONNECTED: ConnectionStatus = {
+  connected: false,
+  health: "disconnected",
+  instanceUrl: null,
+  connectedBy: null,
+  connectedAt: null,
+  lastRefreshedAt: null,
+  lastCheckedAt: null,
+  expiresAt: null,
+  lastError: null,
+  lastErrorAt: null,
+}
+
+function latest(...dates: (string | null)[]): number {
+  return Math.max(0, ...dates.map((date) => (date ? new Date(date).getTime() : 0)))
+}
+
+/**
+ * An error counts until something succeeds after it: a refresh, a check or
+ * a new connection. A token that expired without a refresh token cannot
+ * recover on its own.
+ */
+export function connectionHealth(row: {
+  refresh_token: string | null
+  expires_at: string | null
+  connected_at: string | null
+  last_refreshed_at: string | null
+  last_checked_at: string | null
+  last_error_at: string | null
+}): ConnectionHealth {
+  const lastSuccess = latest(row.connected_at, row.last_refreshed_at, row.last_checked_at)
+  if (row.last_error_at && new Date(row.last_error_at).getTime() > lastSuccess) {
+    return "error"
+  }
+  if (!row.refresh_token && row.expires_at && new Date(row.expires_at) <= new Date()) {
+    return "expired"
+  }
+  return "healthy"
+}
+
+export async function getConnectionStatus(): Promise<ConnectionStatus> {
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from("salesforce_connection")
+    .select("refresh_token, instance_url, expires_at, connected_at, last_refreshed_at, last_checked_at, last_error, last_error_at, users(id, name, email)")
+    .eq("id", true)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load Salesforce connection: ${error.message}`)
+  }
+  if (!data) return DISCONNECTED
+
+  const connection: any = data
+  const health = connectionHealth(connection)
+
+  return {
+    connected: health !== "expired",
+    health,
+    instanceUrl: connection.instance_url,
+    connectedBy: connection.users || null,
+    connectedAt: connection.connected_at,
+    lastRefreshedAt: connection.last_refreshed_at,
+    lastCheckedAt: connection.last_checked_at,
+    expiresAt: connection.expires_at,
+    lastError: health === "error" ? connection.last_error : null,
+    lastErrorAt: connection.last_error_at,
+  }
+}
+
+/**
+ * Make a real call (the API limits) to see whether the connection works,
+ * refreshing the token if needed. Returns the daily API usage on success.
+ */
+export async function checkConnection(): Promise<{
+  ok: boolean
+  error: string | null
+  apiUsage: { used: number; remaining: number; limit: number } | null
+}> {
+  const supabase = createAdminClient()
+
+  try {
+    const session = await openSession({ budget: false })
+    const limits = await getApiLimits(session)
+
+    await supabase
+      .from("salesforce_connection")
+      .update({ last_checked_at: new Date().toISOString() })
+      .eq("id", true)
+
+    const daily = limits.DailyApiRequests
+    return {
+      ok: true,
+      error: null,
+      apiUsage: daily ? { used: daily.Max - daily.Remaining, remaining: daily.Remaining, limit: daily.Max } : null,
+    }
+  } catch (error: any) {
+    const message = error.message || "Connection check failed"
+    await recordConnectionError(message)
+    return { ok: false, error: message, apiUsage: null }
+  }
+}
+
+/**
+ * Revoke the tokens in Salesforce and remove the connection. Revoking the
+ * refresh token also ends its access tokens; a failed revoke (e.g. already
+ * revoked in Salesforce) does not stop the local disconnect.
+ */
+export async function disconnect(): Promise<{ revoked: boolean }> {
+  const stored = await getStoredToken().catch(() => null)
+  let revoked = false
+
+  if (stored) {
+    try {
+      const response = await fetch(`${stored.instance_url}/services/oauth2/revoke`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: `token=${encodeURIComponent(stored.refresh_token || stored.access_token)}`,
+      })
+      revoked = response.ok
+    } catch (error) {
+      console.error("Failed to revoke token in Salesforce:", error)
+    }
+  }
+
+  const supabase = createAdminClient()
+  const { error } = await supabase.from("salesforce_connection").delete().eq("id", true)
+
+  if (error) {
+    throw new Error(`Failed to remove Salesforce connection: ${error.message}`)
+  }
+
+  return { revoked }
+}
@@ -0,0 +1,78 @@
+/**
+ * Errors thrown by the Salesforce client (client.ts)
+ *
+ * Routes turn them into responses with salesforceErrorStatus; background
+ * jobs use `retryable` to decide whether to try again later.
+ */
+
+export class SalesforceError extends Error {
+  /** HTTP status from Salesforce, or null when no response was received */
+  readonly status: number | null
+  /** Salesforce errorCode from the response body, e.g. INVALID_FIELD */
+  readonly errorCode: string | null
+  readonly retryable: boolean
+
+  constructor(
+    message: string,
+    options: { status?: number | null; errorCode?: string | null; retryable?: boolean } = {}
+  ) {
+    super(message)
+    this.name = "SalesforceError"
+    this.status = options.status ?? null
+    this.errorCode = options.errorCode ?? null
+    this.retryable = options.retryable ?? false
+  }
+}
+
+/**
+ * Not connected, the token could not be refreshed, or Salesforce still
+ * rejected the session after a refresh. A manager has to reconnect.
+ */
+export class SalesforceAuthError extends SalesforceError {
+  constructor(message: string, options: { status?: number | null; errorCode?: string | null } = {}) {
+    super(message, { ...options, retryable: false })
+    this.name = "SalesforceAuthError"
+  }
+}
+
+/**
+ * Salesforce refused the request because of its own limits (429, or
+ * REQUEST_LIMIT_EXCEEDED once the daily API requests are used up)
+ */
+export class SalesforceRateLimitError extends SalesforceError {
+  constructor(message: string, options: { status?: number | null; errorCode?: string | null } = {}) {
+    super(message, { ...options, retryable: true })
+    this.name = "SalesforceRateLimitError"
+  }
+}
+
+/**
+ * The operation was stopped before going over its share of the daily API
+ * requests; nothing was sent for the request that would have exceeded it
+ */
+export class SalesforceBudgetError extends SalesforceError {
+  readonly budget: number
+  readonly used: number
+
+  constructor(budget: number, used: number) {
+    super(
+      `Stopped after ${used} Salesforce API requests to stay within this operation's budget of ${budget}. Try again later or raise SALESFORCE_API_BUDGET_SHARE.`,
+      { retryable: true }
+    )
+    this.name = "SalesforceBudgetError"
+    this.budget = budget
+    this.used = used
+  }
+}
+
+/**
+ * HTTP status for a route to answer with: 401 when Salesforce has to be
+ * reconnected, 429 for limits and budgets, 502 for other Salesforce
+ * failures and `fallback` for anything else
+ */
+export function salesforceErrorStatus(error: unknown, fallback = 500): number {
+  if (error instanceof SalesforceAuthError) return 401
+  if (error instanceof SalesforceRateLimitError || error instanceof SalesforceBudgetError) return 429
+  if (error instanceof SalesforceError) return 502
+  return fallback
+}
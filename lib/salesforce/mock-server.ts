@@ -0,0 +1,87 @@
+import { spawn } from "child_process"
+import net from "net"
+import path from "path"
+
+/**
+ * The local mock Salesforce server (scripts/mock-salesforce.mjs) for tests
+ *
+ * Each server runs in its own process on a free port and starts from the
+ * script's fixtures. The helpers wrap its /__mock test hooks.
+ */
+
+export interface MockSalesforce {
+  url: string
+  reset(): Promise<void>
+  fault(fault: { status: number; count?: number; match?: string; errorCode?: string; retryAfter?: number }): Promise<void>
+  expireTokens(): Promise<void>
+  record(type: string, id: string): Promise<any>
+  requests(): Promise<{ method: string; path: string }[]>
+  stop(): Promise<void>
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer()
+    server.once("error", reject)
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as net.AddressInfo
+      server.close(() => resolve(port))
+    })
+  })
+}
+
+/**
+ * Start a mock server. env sets its MOCK_SF_* options, e.g. a small
+ * MOCK_SF_PAGE_SIZE to exercise query paging.
+ */
+export async function startMockSalesforce(env: Record<string, string> = {}): Promise<MockSalesforce> {
+  const port = await freePort()
+  const url = `http://127.0.0.1:${port}`
+  const child = spawn(process.execPath, [path.join(process.cwd(), "scripts/mock-salesforce.mjs")], {
+    env: { ...process.env, ...env, MOCK_SF_PORT: String(port), MOCK_SF_URL: url },
+    stdio: ["ignore", "pipe", "inherit"],
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("Mock Salesforce server did not start")), 10000)
+    child.once("error", reject)
+    child.once("exit", (code) => reject(new Error(`Mock Salesforce server exited with ${code}`)))
+    child.stdout!.on("data", (data: Buffer) => {
+      if (data.toString().includes("listening")) {
+        clearTimeout(timer)
+        resolve()
+      }
+    })
+  })
+
+  const hook = async (method: string, hookPath: string, body?: unknown) => {
+    const response = await fetch(`${url}/__mock${hookPath}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    return response.ok ? response.json() : null
+  }
+
+  return {
+    url,
+    reset: async () => {
+      await hook("POST", "/reset")
+    },
+    fault: async (fault) => {
+      await hook("POST", "/faults", fault)
+    },
+    expireTokens: async () => {
+      await hook("POST", "/expire")
+    },
+    record: (type, id) => hook("GET", `/records/${type}/${id}`),
+    requests: () => hook("GET", "/requests"),
+    stop: () =>
+      new Promise((resolve) => {
+        if (child.exitCode !== null) return resolve()
+        child.removeAllListeners("exit")
+        child.once("exit", () => resolve())
+        child.kill()
+      }),
+  }
+}
@@ -0,0 +1,260 @@
+import crypto from "crypto"
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { storeToken } from "./client"
+import { startMockSalesforce, type MockSalesforce } from "./mock-server"
+import {
+  buildOrderUpdateFields,
+  getOrderFieldMapping,
+  processOrderUpdates,
+  retryDelayMs,
+} from "./order-updates"
+
+// The stored connection row, in place of the salesforce_connection table
+const connection = vi.hoisted(() => ({ row: null as Record<string, any> | null }))
+
+vi.mock("@/lib/supabase/admin", () => ({
+  createAdminClient: () => ({
+    from: () => ({
+      select: () => ({
+        eq: () => ({ maybeSingle: async () => ({ data: connection.row, error: null }) }),
+      }),
+      upsert: async (row: Record<string, any>) => {
+        connection.row = { ...connection.row, ...row }
+        return { error: null }
+      },
+      update: (values: Record<string, any>) => ({
+        eq: async () => {
+          connection.row = { ...connection.row, ...values }
+          return { error: null }
+        },
+      }),
+    }),
+  }),
+}))
+
+const ORDER_ID = "801MOCK000000001AAA"
+const MINUTE = 60 * 1000
+
+describe("retryDelayMs", () => {
+  it("starts at a minute and doubles up to six hours", () => {
+    expect(retryDelayMs(1)).toBe(MINUTE)
+    expect(retryDelayMs(2)).toBe(2 * MINUTE)
+    expect(retryDelayMs(5)).toBe(16 * MINUTE)
+    expect(retryDelayMs(10)).toBe(6 * 60 * MINUTE)
+  })
+})
+
+describe("getOrderFieldMapping", () => {
+  beforeEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("defaults to the custom fields and leaves out fields set to empty", () => {
+    expect(getOrderFieldMapping()).toEqual({
+      status: "Production_Status__c",
+      estimatedCompletionDate: "Estimated_Completion_Date__c",
+      completedAt: "Production_Completed_At__c",
+    })
+
+    vi.stubEnv("SALESFORCE_ORDER_STATUS_FIELD", " Stage__c ")
+    vi.stubEnv("SALESFORCE_ORDER_COMPLETED_AT_FIELD", "")
+    expect(getOrderFieldMapping()).toMatchObject({ status: "Stage__c", completedAt: null })
+  })
+})
+
+describe("buildOrderUpdateFields", () => {
+  const mapping = {
+    status: "Production_Status__c",
+    estimatedCompletionDate: "Estimated_Completion_Date__c",
+    completedAt: null,
+  }
+
+  it("sends the status label, a date and a datetime", () => {
+    expect(
+      buildOrderUpdateFields(
+        { status: "in_production", estimated_completion_date: "2024-06-10", completed_at: "2024-06-09T15:30:00+02:00" },
+        { ...mapping, completedAt: "Production_Completed_At__c" }
+      )
+    ).toEqual({
+      Production_Status__c: "In Production",
+      Estimated_Completion_Date__c: "2024-06-10",
+      Production_Completed_At__c: "2024-06-09T13:30:00.000Z",
+    })
+  })
+
+  it("clears dates the sheet does not have and skips unmapped fields", () => {
+    expect(
+      buildOrderUpdateFields({ status: "completed", estimated_completion_date: null, completed_at: null }, mapping)
+    ).toEqual({ Production_Status__c: "Completed", Estimated_Completion_Date__c: null })
+  })
+})
+
+/**
+ * The salesforce_order_updates and production_sheets tables, with the
+ * query builder calls processOrderUpdates makes
+ */
+function fakeSupabase(tables: Record<string, Record<string, any>[]>) {
+  return {
+    from(table: string) {
+      const filters: ((row: Record<string, any>) => boolean)[] = []
+      let values: Record<string, any> | null = null
+      let limit = Infinity
+
+      const run = () => {
+        const rows = tables[table].filter((row) => filters.every((filter) => filter(row)))
+        if (values) rows.forEach((row) => Object.assign(row, values))
+        return rows.slice(0, limit).map((row) => ({ ...row }))
+      }
+
+      const builder: any = {
+        select: () => builder,
+        update: (update: Record<string, any>) => {
+          values = update
+          return builder
+        },
+        eq: (column: string, value: unknown) => {
+          filters.push((row) => row[column] === value)
+          return builder
+        },
+        lte: (column: string, value: string) => {
+          filters.push((row) => row[column] <= value)
+          return builder
+        },
+        order: () => builder,
+        limit: (count: number) => {
+          limit = count
+          return builder
+        },
+        single: async () => {
+          const [row] = run()
+          return row ? { data: row, error: null } : { data: null, error: { message: "Row not found" } }
+        },
+        then: (resolve: any, reject: any) => Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+      }
+      return builder
+    },
+  }
+}
+
+describe("processOrderUpdates", () => {
+  let mock: MockSalesforce
+  let queue: Record<string, any>[]
+  let sheets: Record<string, any>[]
+  const due = new Date(Date.now() - MINUTE).toISOString()
+
+  beforeAll(async () => {
+    mock = await startMockSalesforce()
+  })
+
+  afterAll(async () => {
+    await mock.stop()
+  })
+
+  beforeEach(async () => {
+    vi.unstubAllEnvs()
+    await mock.reset()
+    vi.stubEnv("SALESFORCE_TOKEN_KEYS", `1:${crypto.randomBytes(32).toString("base64")}`)
+    connection.row = null
+    await storeToken(
+      {
+        access_token: "mock-access-token",
+        refresh_token: "mock-refresh-token",
+        instance_url: mock.url,
+        token_type: "Bearer",
+        issued_at: new Date().toISOString(),
+        expires_in: 7200,
+      },
+      { connectedBy: "user-1" }
+    )
+
+    queue = [
+      { sheet_id: "sheet-1", salesforce_order_id: ORDER_ID, state: "pending", attempts: 0, next_attempt_at: due, last_error: null },
+    ]
+    sheets = [
+      {
+        id: "sheet-1",
+        status: "completed",
+        estimated_completion_date: "2024-06-10",
+        completed_at: "2024-06-09T15:00:00.000Z",
+        salesforce_order_id: ORDER_ID,
+      },
+    ]
+  })
+
+  const run = () => processOrderUpdates(fakeSupabase({ salesforce_order_updates: queue, production_sheets: sheets }))
+
+  it("writes the sheet's status and dates to the order and marks the update sent", async () => {
+    const result = await run()
+
+    expect(result).toEqual({ sent: 1, retrying: 0, failed: 0, apiCalls: 2 })
+    expect(queue[0]).toMatchObject({ state: "sent", attempts: 1, last_error: null })
+    expect(await mock.record("Order", ORDER_ID)).toMatchObject({
+      Production_Status__c: "Completed",
+      Estimated_Completion_Date__c: "2024-06-10",
+      Production_Completed_At__c: "2024-06-09T15:00:00.000Z",
+    })
+  })
+
+  it("schedules a retry with backoff when Salesforce fails", async () => {
+    await mock.fault({ status: 503, count: 10, match: "/sobjects/Order", retryAfter: 0 })
+    const before = Date.now()
+    const result = await run()
+
+    expect(result).toMatchObject({ sent: 0, retrying: 1, failed: 0 })
+    expect(queue[0]).toMatchObject({ state: "pending", attempts: 1 })
+    expect(queue[0].last_error).toContain("(503)")
+    expect(Date.parse(queue[0].next_attempt_at) - before).toBeGreaterThanOrEqual(retryDelayMs(1))
+  })
+
+  it("marks the update failed when Salesforce rejects it", async () => {
+    vi.stubEnv("SALESFORCE_ORDER_STATUS_FIELD", "Missing_Field__c")
+    const result = await run()
+
+    expect(result).toMatchObject({ sent: 0, retrying: 0, failed: 1 })
+    expect(queue[0].state).toBe("failed")
+    expect(queue[0].last_error).toContain("INVALID_FIELD")
+  })
+
+  it("gives up after the last attempt", async () => {
+    await mock.fault({ status: 503, count: 10, match: "/sobjects/Order", retryAfter: 0 })
+    queue[0].attempts = 9
+    const result = await run()
+
+    expect(result.failed).toBe(1)
+    expect(queue[0]).toMatchObject({ state: "failed", attempts: 10 })
+  })
+
+  it("leaves updates that are not due and does not open a session", async () => {
+    queue[0].next_attempt_at = new Date(Date.now() + MINUTE).toISOString()
+    const result = await run()
+
+    expect(result).toEqual({ sent: 0, retrying: 0, failed: 0, apiCalls: 0 })
+    expect(await mock.requests()).toEqual([])
+  })
+
+  it("keeps an update queued when the sheet changes while it is being sent", async () => {
+    const requeuedAt = new Date().toISOString()
+    // Reading the sheet stands in for a change made meanwhile, which the
+    // queue trigger answers by resetting next_attempt_at
+    const sheet = sheets[0]
+    sheets[0] = {
+      ...sheet,
+      get status() {
+        queue[0].next_attempt_at = requeuedAt
+        return sheet.status
+      },
+    }
+
+    await run()
+
+    expect(queue[0]).toMatchObject({ state: "pending", attempts: 0, next_attempt_at: requeuedAt })
+  })
+
+  it("releases the update without counting an attempt when the API budget runs out", async () => {
+    vi.stubEnv("SALESFORCE_API_BUDGET_SHARE", "0.0001")
+    const result = await run()
+
+    expect(result).toMatchObject({ sent: 0, retrying: 0, failed: 0, apiCalls: 1 })
+    expect(queue[0]).toMatchObject({ state: "pending", attempts: 0, next_attempt_at: due })
+  })
+})
@@ -0,0 +1,240 @@
+import { openSession, updateRecord } from "./client"
+import { SalesforceBudgetError, SalesforceError } from "./errors"
+import { SHEET_STATUS_LABELS, type SheetStatus } from "@/lib/sheet-status"
+
+/**
+ * Outbound production status for Salesforce orders
+ *
+ * Sheets imported from an Order (migration 024) are queued in
+ * salesforce_order_updates whenever they start production, complete, or
+ * change their dates while doing so (trigger in migration 025). Each run
+ * sends the sheet's current status label, estimated completion date and
+ * completed_at to the Order fields named by the environment, and retries
+ * failures with exponential backoff.
+ */
+
+/** Sent per run; the rest waits for the next one */
+const BATCH_SIZE = 50
+/** After this many failed attempts the update is marked failed */
+export const MAX_ATTEMPTS = 10
+const BASE_RETRY_MS = 60 * 1000
+const MAX_RETRY_MS = 6 * 60 * 60 * 1000
+/** A claimed row is left alone by other runs for this long */
+const CLAIM_MS = 5 * 60 * 1000
+
+export interface OrderFieldMapping {
+  status: string | null
+  estimatedCompletionDate: string | null
+  completedAt: string | null
+}
+
+export interface OrderUpdateRunResult {
+  sent: number
+  retrying: number
+  failed: number
+  apiCalls: number
+}
+
+/**
+ * API names of the Order fields to write. Each defaults to a custom field;
+ * set the variable to an empty string to leave that field alone.
+ */
+export function getOrderFieldMapping(): OrderFieldMapping {
+  const field = (value: string | undefined, fallback: string) =>
+    value === undefined ? fallback : value.trim() || null
+
+  return {
+    status: field(process.env.SALESFORCE_ORDER_STATUS_FIELD, "Production_Status__c"),
+    estimatedCompletionDate: field(
+      process.env.SALESFORCE_ORDER_ESTIMATED_COMPLETION_FIELD,
+      "Estimated_Completion_Date__c"
+    ),
+    completedAt: field(process.env.SALESFORCE_ORDER_COMPLETED_AT_FIELD, "Production_Completed_At__c"),
+  }
+}
+
+/**
+ * Order field values for a sheet. The estimated completion date is sent as
+ * a Date (YYYY-MM-DD), completed_at as a DateTime; both are cleared when
+ * the sheet has none.
+ */
+export function buildOrderUpdateFields(
+  sheet: { status: string; estimated_completion_date: string | null; completed_at: string | null },
+  mapping: OrderFieldMapping
+): Record<string, any> {
+  const fields: Record<string, any> = {}
+
+  if (mapping.status) {
+    fields[mapping.status] = SHEET_STATUS_LABELS[sheet.status as SheetStatus] || sheet.status
+  }
+  if (mapping.estimatedCompletionDate) {
+    fields[mapping.estimatedCompletionDate] = sheet.estimated_completion_date
+      ? new Date(sheet.estimated_completion_date).toISOString().slice(0, 10)
+      : null
+  }
+  if (mapping.completedAt) {
+    fields[mapping.completedAt] = sheet.completed_at
+      ? new Date(sheet.completed_at).toISOString()
+      : null
+  }
+
+  return fields
+}
+
+/**
+ * Delay before the next attempt: one minute, doubling per failure, capped
+ * at six hours
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_MS)
+}
+
+/**
+ * Rate limits, server errors and lost connections are worth retrying;
+ * other Salesforce errors (unknown field, deleted order, validation rule)
+ * are not. A rejected session is retried too, so the queue resumes once a
+ * manager reconnects.
+ */
+function isRetryable(error: any): boolean {
+  if (!(error instanceof SalesforceError)) return true
+  return error.retryable || error.status === 401
+}
+
+/**
+ * Send the due updates through the organization's Salesforce connection
+ */
+export async function processOrderUpdates(
+  supabase: any,
+  options: { limit?: number } = {}
+): Promise<OrderUpdateRunResult> {
+  const result: OrderUpdateRunResult = { sent: 0, retrying: 0, failed: 0, apiCalls: 0 }
+  const now = new Date()
+
+  const { data: due, error: dueError } = await supabase
+    .from("salesforce_order_updates")
+    .select("sheet_id, salesforce_order_id, attempts, next_attempt_at")
+    .eq("state", "pending")
+    .lte("next_attempt_at", now.toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(options.limit || BATCH_SIZE)
+
+  if (dueError) {
+    throw new Error(`Failed to load Salesforce order updates: ${dueError.message}`)
+  }
+  if (!due || due.length === 0) return result
+
+  // Without a connection nothing can be sent; leave the queue as it is
+  const session = await openSession()
+  const mapping = getOrderFieldMapping()
+
+  for (const row of due) {
+    // Claim the row so an overlapping run skips it. The results below are
+    // only written while the claim holds: a sheet change queued meanwhile
+    // resets next_attempt_at and must be sent again, not marked sent.
+    const claimedUntil = new Date(Date.now() + CLAIM_MS).toISOString()
+    const { data: claimed } = await supabase
+      .from("salesforce_order_updates")
+      .update({ next_attempt_at: claimedUntil })
+      .eq("sheet_id", row.sheet_id)
+      .eq("state", "pending")
+      .eq("next_attempt_at", row.next_attempt_at)
+      .select("sheet_id")
+
+    if (!claimed || claimed.length === 0) continue
+
+    const attempts = row.attempts + 1
+
+    try {
+      const { data: sheet, error: sheetError } = await supabase
+        .from("production_sheets")
+        .select("status, estimated_completion_date, completed_at, salesforce_order_id")
+        .eq("id", row.sheet_id)
+        .single()
+
+      if (sheetError || !sheet) {
+        throw new Error(sheetError?.message || "Sheet not found")
+      }
+
+      await updateRecord(
+        "Order",
+        sheet.salesforce_order_id || row.salesforce_order_id,
+        buildOrderUpdateFields(sheet, mapping),
+        session
+      )
+
+      await supabase
+        .from("salesforce_order_updates")
+        .update({
+          state: "sent",
+          attempts,
+          last_error: null,
+          last_sent_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("sheet_id", row.sheet_id)
+        .eq("state", "pending")
+        .eq("next_attempt_at", claimedUntil)
+
+      result.sent++
+    } catch (error: any) {
+      // Out of budget: nothing was sent, so release the row without counting
+      // an attempt and leave the rest for the next run
+      if (error instanceof SalesforceBudgetError) {
+        await supabase
+          .from("salesforce_order_updates")
+          .update({ next_attempt_at: row.next_attempt_at })
+          .eq("sheet_id", row.sheet_id)
+          .eq("state", "pending")
+          .eq("next_attempt_at", claimedUntil)
+        break
+      }
+
+      const giveUp = !isRetryable(error) || attempts >= MAX_ATTEMPTS
+
+      await supabase
+        .from("salesforce_order_updates")
+        .update({
+          state: giveUp ? "failed" : "pending",
+          attempts,
+          last_error: error.message || String(error),
+          next_attempt_at: new Date(Date.now() + retryDelayMs(attempts)).toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("sheet_id", row.sheet_id)
+        .eq("state", "pending")
+        .eq("next_attempt_at", claimedUntil)
+
+      if (giveUp) result.failed++
+      else result.retrying++
+    }
+  }
+
+  result.apiCalls = session.apiCalls
+  return result
+}
+
+/**
+ * Put failed (or already sent) updates back in the queue to go out on the
+ * next run
+ */
+export async function requeueOrderUpdates(supabase: any, sheetIds: string[]): Promise<number> {
+  if (sheetIds.length === 0) return 0
+
+  const { data, error } = await supabase
+    .from("salesforce_order_updates")
+    .update({
+      state: "pending",
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      last_error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .in("sheet_id", sheetIds)
+    .select("sheet_id")
+
+  if (error) {
+    throw new Error(`Failed to retry Salesforce order updates: ${error.message}`)
+  }
+
+  return data?.length || 0
+}
@@ -0,0 +1,131 @@
+import { queryAll, type SalesforceSession } from "./client"
+import type { SalesforceOrder, SalesforceOrderItem } from "./types"
+
+/**
+ * Salesforce orders as production sheets
+ *
+ * An Order becomes a draft sheet: its OrderNumber is the job number and each
+ * OrderItem is matched to product_catalog by the SKU of its Product2, with
+ * the ordered quantity as qty_in_order. The Order Id is kept on the sheet
+ * (production_sheets.salesforce_order_id, migration 024).
+ */
+
+/** Orders that can still go into production */
+export const OPEN_ORDER_STATUS_CODES = ["Draft", "Activated"]
+
+const MAX_ORDERS = 200
+
+/** Salesforce record ids are 15 or 18 alphanumeric characters */
+export function isSalesforceId(value: string | null | undefined): value is string {
+  return !!value && /^[a-zA-Z0-9]{15}(?:[a-zA-Z0-9]{3})?$/.test(value)
+}
+
+function escapeSoql(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")
+}
+
+function soqlString(value: string): string {
+  return `'${escapeSoql(value)}'`
+}
+
+/**
+ * Open orders, newest first, optionally narrowed to an order number or
+ * account name
+ */
+export async function fetchOpenOrders(
+  session: SalesforceSession,
+  search?: string | null
+): Promise<{ records: SalesforceOrder[]; apiCalls: number }> {
+  const statusCodes = OPEN_ORDER_STATUS_CODES.map(soqlString).join(", ")
+  let where = `StatusCode IN (${statusCodes})`
+
+  const term = search?.trim()
+  if (term) {
+    const like = `'%${escapeSoql(term).replace(/[%_]/g, "\\$&")}%'`
+    where += ` AND (OrderNumber LIKE ${like} OR Account.Name LIKE ${like} OR PoNumber LIKE ${like})`
+  }
+
+  return queryAll<SalesforceOrder>(
+    `SELECT Id, OrderNumber, Status, StatusCode, EffectiveDate, PoNumber, TotalAmount, Account.Name FROM Order WHERE ${where} ORDER BY EffectiveDate DESC, OrderNumber DESC LIMIT ${MAX_ORDERS}`,
+    session
+  )
+}
+
+/**
+ * One order with its items
+ */
+export async function fetchOrderWithItems(
+  orderId: string,
+  session: SalesforceSession
+): Promise<{ order: SalesforceOrder | null; items: SalesforceOrderItem[]; apiCalls: number }> {
+  const orderResult = await queryAll<SalesforceOrder>(
+    `SELECT Id, OrderNumber, Status, StatusCode, EffectiveDate, PoNumber, TotalAmount, Account.Name FROM Order WHERE Id = ${soqlString(orderId)}`,
+    session
+  )
+
+  const order = orderResult.records[0] || null
+  if (!order) {
+    return { order: null, items: [], apiCalls: orderResult.apiCalls }
+  }
+
+  const itemsResult = await queryAll<SalesforceOrderItem>(
+    `SELECT Id, OrderId, Product2Id, Quantity, Product2.Name, Product2.StockKeepingUnit FROM OrderItem WHERE OrderId = ${soqlString(orderId)} ORDER BY OrderItemNumber`,
+    session
+  )
+
+  return {
+    order,
+    items: itemsResult.records,
+    apiCalls: orderResult.apiCalls + itemsResult.apiCalls,
+  }
+}
+
+export interface OrderSheetLine {
+  sku: string
+  qtyInOrder: number
+}
+
+export interface UnmatchedOrderLine {
+  sku: string | null
+  name: string | null
+  quantity: number
+  reason: "no_sku" | "not_in_catalog"
+}
+
+/**
+ * Match order items to catalog SKUs. Items for the same SKU are added up;
+ * fractional quantities are rounded up so nothing is under-produced.
+ */
+export function buildOrderSheetLines(
+  items: SalesforceOrderItem[],
+  catalogSkus: Set<string>
+): { lines: OrderSheetLine[]; unmatched: UnmatchedOrderLine[] } {
+  const quantities = new Map<string, number>()
+  const unmatched: UnmatchedOrderLine[] = []
+
+  for (const item of items) {
+    const sku = item.Product2?.StockKeepingUnit?.trim() || null
+    const quantity = Math.ceil(Number(item.Quantity) || 0)
+    if (quantity <= 0) continue
+
+    if (!sku) {
+      unmatched.push({ sku: null, name: item.Product2?.Name || null, quantity, reason: "no_sku" })
+    } else if (!catalogSkus.has(sku)) {
+      unmatched.push({ sku, name: item.Product2?.Name || null, quantity, reason: "not_in_catalog" })
+    } else {
+      quantities.set(sku, (quantities.get(sku) || 0) + quantity)
+    }
+  }
+
+  return {
+    lines: Array.from(quantities, ([sku, qtyInOrder]) => ({ sku, qtyInOrder })),
+    unmatched,
+  }
+}
+
+/**
+ * Link to the order in Salesforce
+ */
+export function orderRecordUrl(instanceUrl: string, orderId: string): string {
+  return `${instanceUrl}/lightning/r/Order/${orderId}/view`
+}
@@ -0,0 +1,494 @@
+import {
+  openSession,
+  queryAll,
+  getApiLimits,
+  type SalesforceSession,
+} from "./client"
+import type {
+  SalesforceProduct,
+  SalesforceProductMedia,
+  SalesforceManagedContent,
+  SalesforceProductCategory,
+  SalesforceProductCategoryProduct,
+  SalesforceApiLimits,
+} from "./types"
+import type { ImageMapping } from "@/lib/image-url-builder"
+import { chunk } from "@/lib/utils"
+import {
+  applyCatalogImport,
+  salesforceImageMappings,
+  salesforceSource,
+  type CatalogSource,
+} from "@/lib/catalog-import"
+
+/**
+ * Scheduled Salesforce catalog sync
+ *
+ * Pulls only Product2, ProductCategory and ProductCategoryProduct records
+ * whose SystemModstamp is after the watermark of the last successful run
+ * (everything on the first run), applies them to product_catalog,
+ * product_categories and product_category_assignments, and records the run
+ * in sync_runs (migration 018).
+ *
+ * Deleted ProductCategoryProduct rows do not show up in a delta query, so
+ * assignments removed in Salesforce stay until the next full import.
+ */
+
+const SYNC_SOURCE = "salesforce"
+const ID_BATCH_SIZE = 200
+const DB_BATCH_SIZE = 500
+/** A run still marked running after this long is assumed to have died */
+const STALE_RUN_MS = 30 * 60 * 1000
+
+export type SyncTrigger = "cron" | "manual"
+
+export interface CatalogSyncResult {
+  runId: string
+  status: "succeeded" | "failed"
+  modifiedSince: string | null
+  watermark: string | null
+  productsUpserted: number
+  productsDeactivated: number
+  categoriesUpserted: number
+  mappingsUpserted: number
+  apiCalls: number
+  apiUsage: { remaining: number; limit: number } | null
+  error: string | null
+}
+
+/**
+ * Salesforce returns "2024-05-01T12:00:00.000+0000"; normalise to ISO
+ */
+function parseModstamp(value: string | undefined): Date | null {
+  if (!value) return null
+  const date = new Date(value.replace(/([+-]\d{2})(\d{2})$/, "$1:$2"))
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * SOQL datetime literal. Truncated to whole seconds, so the next query
+ * overlaps the last second slightly instead of risking a gap; re-applying a
+ * record is harmless.
+ */
+function toSoqlDateTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/\.\d{3}Z$/, "Z")
+}
+
+function modifiedSinceClause(since: string | null, prefix: "WHERE" | "AND"): string {
+  return since ? ` ${prefix} SystemModstamp > ${toSoqlDateTime(since)}` : ""
+}
+
+/**
+ * Image URL per Salesforce product id (ProductMedia → ManagedContent)
+ */
+async function fetchImageMappings(
+  productIds: string[],
+  session: SalesforceSession
+): Promise<Map<string, ImageMapping>> {
+  const productMedia: SalesforceProductMedia[] = []
+  for (const batch of chunk(productIds, ID_BATCH_SIZE)) {
+    const ids = batch.map((id) => `'${id}'`).join(",")
+    const result = await queryAll<SalesforceProductMedia>(
+      `SELECT Id, ProductId, ElectronicMediaId FROM ProductMedia WHERE ProductId IN (${ids})`,
+      session
+    )
+    productMedia.push(...result.records)
+  }
+
+  const managedContent: SalesforceManagedContent[] = []
+  const mediaIds = Array.from(
+    new Set(productMedia.map((media) => media.ElectronicMediaId).filter((id): id is string => !!id))
+  )
+  for (const batch of chunk(mediaIds, ID_BATCH_SIZE)) {
+    const ids = batch.map((id) => `'${id}'`).join(",")
+    const result = await queryAll<SalesforceManagedContent>(
+      `SELECT Id, ContentKey FROM ManagedContent WHERE Id IN (${ids})`,
+      session
+    )
+    managedContent.push(...result.records)
+  }
+
+  return salesforceImageMappings(productMedia, managedContent)
+}
+
+/**
+ * Changed active products, as the Salesforce import writes them. Product
+ * code, category and image are kept from the existing row when Salesforce
+ * no longer provides them, and every synced product is active again.
+ */
+async function* changedProductsSource(
+  products: SalesforceProduct[],
+  imageMappings: Map<string, ImageMapping>
+): CatalogSource {
+  const modstamps = new Map(products.map((p) => [p.Id, p.SystemModstamp]))
+  for await (const chunk of salesforceSource(products, { imageMappings, keepMissingImages: true })) {
+    chunk.records.forEach((record) => {
+      record.columns = {
+        is_active: true,
+        deactivated_at: null,
+        salesforce_modified_at: parseModstamp(modstamps.get(record.id))?.toISOString() || null,
+        updated_at: new Date().toISOString(),
+      }
+    })
+    yield chunk
+  }
+}
+
+/**
+ * Mark products deactivated in Salesforce as inactive locally
+ */
+async function deactivateProducts(
+  supabase: any,
+  products: SalesforceProduct[]
+): Promise<number> {
+  let deactivated = 0
+  const now = new Date().toISOString()
+
+  for (const batch of chunk(products.map((p) => p.Id), DB_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from("product_catalog")
+      .update({ is_active: false, deactivated_at: now, updated_at: now })
+      .in("product_id", batch)
+      .eq("is_active", true)
+      .select("id")
+
+    if (error) throw new Error(`Failed to deactivate products: ${error.message}`)
+    deactivated += data?.length || 0
+  }
+
+  return deactivated
+}
+
+/**
+ * Insert or update changed Salesforce categories (custom categories are
+ * never touched), then link parents.
+ */
+async function applyCategories(
+  supabase: any,
+  categories: SalesforceProductCategory[],
+  importedBy: string | null
+): Promise<number> {
+  if (categories.length === 0) return 0
+
+  const idMap = new Map<string, string>()
+  const lookupIds = Array.from(
+    new Set(
+      categories.flatMap((c) => (c.ParentCategoryId ? [c.Id, c.ParentCategoryId] : [c.Id]))
+    )
+  )
+  for (const batch of chunk(lookupIds, DB_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from("product_categories")
+      .select("id, salesforce_id")
+      .in("salesforce_id", batch)
+
+    if (error) throw new Error(`Failed to load categories: ${error.message}`)
+    data?.forEach((row: any) => idMap.set(row.salesforce_id, row.id))
+  }
+
+  const toInsert = categories.filter((c) => !idMap.has(c.Id))
+  const toUpdate = categories.filter((c) => idMap.has(c.Id))
+
+  for (const batch of chunk(toInsert, DB_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from("product_categories")
+      .insert(
+        batch.map((c) => ({
+          salesforce_id: c.Id,
+          name: c.Name,
+          catalog_id: c.CatalogId || null,
+          imported_by: importedBy,
+          is_custom: false,
+        }))
+      )
+      .select("id, salesforce_id")
+
+    if (error) throw new Error(`Failed to insert categories: ${error.message}`)
+    data?.forEach((row: any) => idMap.set(row.salesforce_id, row.id))
+  }
+
+  for (const category of toUpdate) {
+    const { error } = await supabase
+      .from("product_categories")
+      .update({
+        name: category.Name,
+        catalog_id: category.CatalogId || null,
+        imported_by: importedBy,
+        is_custom: false,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", idMap.get(category.Id))
+
+    if (error) throw new Error(`Failed to update category: ${error.message}`)
+  }
+
+  for (const category of categories) {
+    const parentId = category.ParentCategoryId ? idMap.get(category.ParentCategoryId) : null
+    if (category.ParentCategoryId && !parentId) continue
+
+    await supabase
+      .from("product_categories")
+      .update({ parent_category_id: parentId || null })
+      .eq("id", idMap.get(category.Id))
+  }
+
+  return categories.length
+}
+
+/**
+ * Upsert changed category mappings. A product that had no primary category
+ * gets its first new mapping as primary, and product_catalog is updated to
+ * match.
+ */
+async function applyMappings(
+  supabase: any,
+  mappings: SalesforceProductCategoryProduct[]
+): Promise<number> {
+  if (mappings.length === 0) return 0
+
+  const productIds = new Map<string, string>()
+  for (const batch of chunk(Array.from(new Set(mappings.map((m) => m.ProductId))), DB_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from("product_catalog")
+      .select("id, product_id")
+      .in("product_id", batch)
+
+    if (error) throw new Error(`Failed to load products for mappings: ${error.message}`)
+    data?.forEach((row: any) => productIds.set(row.product_id, row.id))
+  }
+
+  const categoryIds = new Map<string, { id: string; name: string }>()
+  for (const batch of chunk(Array.from(new Set(mappings.map((m) => m.ProductCategoryId))), DB_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from("product_categories")
+      .select("id, name, salesforce_id")
+      .in("salesforce_id", batch)
+
+    if (error) throw new Error(`Failed to load categories for mappings: ${error.message}`)
+    data?.forEach((row: any) => categoryIds.set(row.salesforce_id, { id: row.id, name: row.name }))
+  }
+
+  const localProductIds = Array.from(new Set(Array.from(productIds.values())))
+  const hasPrimary = new Set<string>()
+  for (const batch of chunk(localProductIds, DB_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from("product_category_assignments")
+      .select("product_id")
+      .in("product_id", batch)
+      .eq("is_primary", true)
+
+    if (error) throw new Error(`Failed to load primary categories: ${error.message}`)
+    data?.forEach((row: any) => hasPrimary.add(row.product_id))
+  }
+
+  const assignments = new Map<string, any>()
+  const newPrimaries = new Map<string, { id: string; name: string }>()
+  for (const mapping of mappings) {
+    const productId = productIds.get(mapping.ProductId)
+    const category = categoryIds.get(mapping.ProductCategoryId)
+    if (!productId || !category) continue
+
+    const key = `${productId}:${category.id}`
+    if (assignments.has(key)) continue
+
+    const isPrimary = !hasPrimary.has(productId) && !newPrimaries.has(productId)
+    if (isPrimary) newPrimaries.set(productId, category)
+
+    assignments.set(key, {
+      product_id: productId,
+      category_id: category.id,
+      salesforce_product_id: mapping.ProductId,
+      salesforce_category_id: mapping.ProductCategoryId,
+      is_primary: isPrimary,
+    })
+  }
+
+  for (const batch of chunk(Array.from(assignments.values()), DB_BATCH_SIZE)) {
+    // Existing rows keep their is_primary flag
+    const { error } = await supabase
+      .from("product_category_assignments")
+      .upsert(batch, { onConflict: "product_id,category_id", ignoreDuplicates: true })
+
+    if (error) throw new Error(`Failed to upsert category mappings: ${error.message}`)
+  }
+
+  for (const [productId, category] of Array.from(newPrimaries.entries())) {
+    const { error } = await supabase
+      .from("product_catalog")
+      .update({ primary_category_id: category.id, category: category.name })
+      .eq("id", productId)
+
+    if (error) throw new Error(`Failed to set primary category: ${error.message}`)
+  }
+
+  return assignments.size
+}
+
+/**
+ * Run one catalog sync and record it in sync_runs.
+ *
+ * `supabase` must be able to write the catalog tables without a user session
+ * (the admin client for scheduled runs). Returns null when another run is
+ * still in progress.
+ */
+export async function runCatalogSync(
+  supabase: any,
+  options: { trigger: SyncTrigger; triggeredBy?: string | null }
+): Promise<CatalogSyncResult | null> {
+  const { data: running } = await supabase
+    .from("sync_runs")
+    .select("id")
+    .eq("source", SYNC_SOURCE)
+    .eq("status", "running")
+    .gt("started_at", new Date(Date.now() - STALE_RUN_MS).toISOString())
+    .limit(1)
+    .maybeSingle()
+
+  if (running) return null
+
+  const { data: lastRun, error: lastRunError } = await supabase
+    .from("sync_runs")
+    .select("watermark")
+    .eq("source", SYNC_SOURCE)
+    .eq("status", "succeeded")
+    .not("watermark", "is", null)
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (lastRunError) {
+    throw new Error(`Failed to read previous sync runs: ${lastRunError.message}`)
+  }
+
+  const modifiedSince: string | null = lastRun?.watermark || null
+
+  const { data: run, error: runError } = await supabase
+    .from("sync_runs")
+    .insert({
+      source: SYNC_SOURCE,
+      trigger: options.trigger,
+      triggered_by: options.triggeredBy || null,
+      modified_since: modifiedSince,
+    })
+    .select("id")
+    .single()
+
+  if (runError) {
+    throw new Error(`Failed to start sync run: ${runError.message}`)
+  }
+
+  const result: CatalogSyncResult = {
+    runId: run.id,
+    status: "succeeded",
+    modifiedSince,
+    watermark: modifiedSince,
+    productsUpserted: 0,
+    productsDeactivated: 0,
+    categoriesUpserted: 0,
+    mappingsUpserted: 0,
+    apiCalls: 0,
+    apiUsage: null,
+    error: null,
+  }
+  let limits: SalesforceApiLimits | null = null
+  let session: SalesforceSession | null = null
+
+  try {
+    session = await openSession()
+
+    let latest = modifiedSince ? new Date(modifiedSince) : null
+    const track = (records: { SystemModstamp?: string }[]) => {
+      records.forEach((record) => {
+        const stamp = parseModstamp(record.SystemModstamp)
+        if (stamp && (!latest || stamp > latest)) latest = stamp
+      })
+    }
+
+    // A full sync includes inactive products so they get deactivated too
+    const productsResult = await queryAll<SalesforceProduct>(
+      `SELECT Id, Name, StockKeepingUnit, ProductCode, IsActive, SystemModstamp FROM Product2${modifiedSinceClause(modifiedSince, "WHERE")}`,
+      session
+    )
+    track(productsResult.records)
+
+    const activeProducts = productsResult.records.filter((p) => p.IsActive !== false)
+    const inactiveProducts = productsResult.records.filter((p) => p.IsActive === false)
+
+    const categoriesResult = await queryAll<SalesforceProductCategory>(
+      `SELECT Id, Name, CatalogId, ParentCategoryId, SystemModstamp FROM ProductCategory${modifiedSinceClause(modifiedSince, "WHERE")}`,
+      session
+    )
+    track(categoriesResult.records)
+
+    const mappingsResult = await queryAll<SalesforceProductCategoryProduct>(
+      `SELECT Id, ProductId, ProductCategoryId, SystemModstamp FROM ProductCategoryProduct${modifiedSinceClause(modifiedSince, "WHERE")}`,
+      session
+    )
+    track(mappingsResult.records)
+
+    let imageMappings = new Map<string, ImageMapping>()
+    if (activeProducts.length > 0) {
+      try {
+        imageMappings = await fetchImageMappings(activeProducts.map((p) => p.Id), session)
+      } catch (error: any) {
+        // Existing image URLs are kept; the next run retries
+        console.warn("Catalog sync: failed to fetch product images:", error.message)
+      }
+    }
+
+    const imported = await applyCatalogImport(
+      supabase,
+      changedProductsSource(activeProducts, imageMappings),
+      { runId: null, userId: options.triggeredBy || null }
+    )
+    if (imported.error) throw new Error(`Failed to upsert products: ${imported.error}`)
+    result.productsUpserted = imported.imported
+    result.productsDeactivated = await deactivateProducts(supabase, inactiveProducts)
+    result.categoriesUpserted = await applyCategories(supabase, categoriesResult.records, options.triggeredBy || null)
+    result.mappingsUpserted = await applyMappings(supabase, mappingsResult.records)
+    result.watermark = latest ? (latest as Date).toISOString() : null
+
+    try {
+      limits = await getApiLimits(session)
+    } catch (error: any) {
+      console.warn("Catalog sync: failed to get API limits:", error.message)
+    }
+  } catch (error: any) {
+    result.status = "failed"
+    result.error = error.message || "Catalog sync failed"
+    console.error("Catalog sync failed:", error)
+  }
+
+  // Every request made through the session, retries included
+  result.apiCalls = session?.apiCalls || 0
+  limits = limits || session?.limits || null
+
+  const dailyApiRequests = limits?.DailyApiRequests
+  result.apiUsage = dailyApiRequests
+    ? { remaining: dailyApiRequests.Remaining, limit: dailyApiRequests.Max }
+    : null
+
+  const { error: finishError } = await supabase
+    .from("sync_runs")
+    .update({
+      status: result.status,
+      // A failed run does not advance the watermark
+      watermark: result.status === "succeeded" ? result.watermark : null,
+      products_upserted: result.productsUpserted,
+      products_deactivated: result.productsDeactivated,
+      categories_upserted: result.categoriesUpserted,
+      mappings_upserted: result.mappingsUpserted,
+      api_calls: result.apiCalls,
+      api_requests_remaining: dailyApiRequests?.Remaining ?? null,
+      api_requests_max: dailyApiRequests?.Max ?? null,
+      error: result.error,
+      finished_at: new Date().toISOString(),
+    })
+    .eq("id", run.id)
+
+  if (finishError) {
+    console.error("Failed to record sync run result", run.id, finishError)
+  }
+
+  return result
+}
@@ -0,0 +1,117 @@
+import crypto from "crypto"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { decryptTokens, encryptTokens, getActiveKeyVersion, getKeyring } from "./token-crypto"
+
+const KEY_1 = crypto.randomBytes(32)
+const KEY_2 = crypto.randomBytes(32)
+
+function useKeys(keys: string, version?: string) {
+  vi.stubEnv("SALESFORCE_TOKEN_KEYS", keys)
+  vi.stubEnv("SALESFORCE_TOKEN_KEY_VERSION", version ?? "")
+}
+
+beforeEach(() => {
+  vi.stubEnv("SALESFORCE_TOKEN_ENCRYPTION_KEY", "")
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe("getKeyring", () => {
+  it("reads base64 and hex keys by version", () => {
+    useKeys(`1:${KEY_1.toString("base64")}, 2:${KEY_2.toString("hex")}`)
+    const keyring = getKeyring()
+    expect(keyring.get(1)).toEqual(KEY_1)
+    expect(keyring.get(2)).toEqual(KEY_2)
+    expect(getActiveKeyVersion()).toBe(2)
+  })
+
+  it("falls back to the single key as version 1", () => {
+    useKeys("")
+    vi.stubEnv("SALESFORCE_TOKEN_ENCRYPTION_KEY", KEY_1.toString("base64"))
+    expect(getKeyring()).toEqual(new Map([[1, KEY_1]]))
+  })
+
+  it("rejects missing, malformed, short and repeated keys", () => {
+    useKeys("")
+    expect(() => getKeyring()).toThrow("No Salesforce token encryption key is configured")
+    useKeys(KEY_1.toString("base64"))
+    expect(() => getKeyring()).toThrow("must look like `version:key`")
+    useKeys(`1:${crypto.randomBytes(16).toString("base64")}`)
+    expect(() => getKeyring()).toThrow("must be 32 bytes")
+    useKeys(`1:${KEY_1.toString("base64")},1:${KEY_2.toString("base64")}`)
+    expect(() => getKeyring()).toThrow("lists version 1 twice")
+  })
+
+  it("uses the configured active version only if it is in the keyring", () => {
+    useKeys(`1:${KEY_1.toString("base64")},2:${KEY_2.toString("base64")}`, "1")
+    expect(getActiveKeyVersion()).toBe(1)
+    useKeys(`1:${KEY_1.toString("base64")}`, "3")
+    expect(() => getActiveKeyVersion()).toThrow("SALESFORCE_TOKEN_KEY_VERSION 3 is not in SALESFORCE_TOKEN_KEYS")
+  })
+})
+
+describe("encryptTokens / decryptTokens", () => {
+  it("round-trips tokens under a fresh data key each time", () => {
+    useKeys(`1:${KEY_1.toString("base64")}`)
+    const first = encryptTokens({ access_token: "access", refresh_token: null })
+    const second = encryptTokens({ access_token: "access", refresh_token: null })
+
+    expect(first.envelope.key_version).toBe(1)
+    expect(first.tokens.access_token).not.toContain("access")
+    expect(first.tokens.refresh_token).toBeNull()
+    expect(first.envelope.data_key).not.toBe(second.envelope.data_key)
+    expect(first.tokens.access_token).not.toBe(second.tokens.access_token)
+    expect(decryptTokens(first.tokens, first.envelope)).toEqual({ access_token: "access", refresh_token: null })
+  })
+
+  it("keeps old tokens readable after a rotation and re-wraps with the new key", () => {
+    useKeys(`1:${KEY_1.toString("base64")}`)
+    const old = encryptTokens({ access_token: "access", refresh_token: "refresh" })
+
+    useKeys(`1:${KEY_1.toString("base64")},2:${KEY_2.toString("base64")}`)
+    const plain = decryptTokens(old.tokens, old.envelope)
+    expect(plain).toEqual({ access_token: "access", refresh_token: "refresh" })
+
+    const rotated = encryptTokens(plain)
+    expect(rotated.envelope.key_version).toBe(2)
+
+    useKeys(`2:${KEY_2.toString("base64")}`)
+    expect(decryptTokens(rotated.tokens, rotated.envelope)).toEqual(plain)
+    expect(() => decryptTokens(old.tokens, old.envelope)).toThrow("key version 1, which is not configured")
+  })
+
+  it("fails clearly when a key version holds a different key", () => {
+    useKeys(`1:${KEY_1.toString("base64")}`)
+    const { tokens, envelope } = encryptTokens({ access_token: "access" })
+
+    useKeys(`1:${KEY_2.toString("base64")}`)
+    expect(() => decryptTokens(tokens, envelope)).toThrow("the encryption key has changed")
+  })
+
+  it("detects tampered ciphertext", () => {
+    useKeys(`1:${KEY_1.toString("base64")}`)
+    const { tokens, envelope } = encryptTokens({ access_token: "access" })
+    const [iv, tag, ciphertext] = tokens.access_token!.split(":")
+    const flipped = Buffer.from(ciphertext, "base64")
+    flipped[0] ^= 1
+
+    expect(() =>
+      decryptTokens({ access_token: [iv, tag, flipped.toString("base64")].join(":") }, envelope)
+    ).toThrow("could not be decrypted")
+    expect(() => decryptTokens({ access_token: "not-encrypted" }, envelope)).toThrow("not in the expected format")
+  })
+
+  it("reads tokens stored before envelopes with key version 1", () => {
+    useKeys(`1:${KEY_1.toString("base64")},2:${KEY_2.toString("base64")}`)
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv("aes-256-gcm", KEY_1, iv)
+    const ciphertext = Buffer.concat([cipher.update("legacy", "utf8"), cipher.final()])
+    const legacy = [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(":")
+
+    expect(decryptTokens({ access_token: legacy }, { data_key: null, key_version: null })).toEqual({
+      access_token: "legacy",
+    })
+  })
+})
@@ -0,0 +1,162 @@
+import crypto from "crypto"
+
+/**
+ * Envelope encryption for the stored Salesforce tokens (AES-256-GCM)
+ *
+ * Each stored connection has its own random data key. The tokens are
+ * encrypted with the data key, and the data key is encrypted ("wrapped")
+ * with a versioned application key; the row keeps the wrapped data key and
+ * the version that wrapped it. Rotating the application key only re-wraps,
+ * and old versions stay readable while they are configured.
+ *
+ * Application keys are 32 random bytes, base64 or hex encoded
+ * (`openssl rand -base64 32`):
+ * - SALESFORCE_TOKEN_KEYS: comma-separated `version:key` pairs, e.g.
+ *   `1:abc...,2:def...`
+ * - SALESFORCE_TOKEN_KEY_VERSION: the version new data keys are wrapped
+ *   with; defaults to the highest configured version
+ * - SALESFORCE_TOKEN_ENCRYPTION_KEY: used as version 1 when
+ *   SALESFORCE_TOKEN_KEYS is not set
+ *
+ * Encrypted values are stored as `iv:authTag:ciphertext`, each part base64.
+ */
+
+const ALGORITHM = "aes-256-gcm"
+const IV_BYTES = 12
+const KEY_BYTES = 32
+
+export interface TokenEnvelope {
+  /** The data key, wrapped with the application key */
+  data_key: string
+  key_version: number
+}
+
+function parseKey(raw: string, name: string): Buffer {
+  const value = raw.trim()
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, "hex") : Buffer.from(value, "base64")
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${name} must be 32 bytes (base64 or hex)`)
+  }
+  return key
+}
+
+/**
+ * The configured application keys by version
+ */
+export function getKeyring(): Map<number, Buffer> {
+  const keyring = new Map<number, Buffer>()
+  const keys = process.env.SALESFORCE_TOKEN_KEYS
+
+  if (keys) {
+    for (const entry of keys.split(",").filter((part) => part.trim())) {
+      const separator = entry.indexOf(":")
+      const version = Number(entry.slice(0, separator).trim())
+      if (separator < 0 || !Number.isInteger(version) || version < 1) {
+        throw new Error("SALESFORCE_TOKEN_KEYS entries must look like `version:key`, e.g. `2:base64key`")
+      }
+      if (keyring.has(version)) {
+        throw new Error(`SALESFORCE_TOKEN_KEYS lists version ${version} twice`)
+      }
+      keyring.set(version, parseKey(entry.slice(separator + 1), `SALESFORCE_TOKEN_KEYS version ${version}`))
+    }
+  } else if (process.env.SALESFORCE_TOKEN_ENCRYPTION_KEY) {
+    keyring.set(1, parseKey(process.env.SALESFORCE_TOKEN_ENCRYPTION_KEY, "SALESFORCE_TOKEN_ENCRYPTION_KEY"))
+  }
+
+  if (keyring.size === 0) {
+    throw new Error("No Salesforce token encryption key is configured (SALESFORCE_TOKEN_KEYS)")
+  }
+  return keyring
+}
+
+/**
+ * The version new data keys are wrapped with
+ */
+export function getActiveKeyVersion(): number {
+  const keyring = getKeyring()
+  const configured = process.env.SALESFORCE_TOKEN_KEY_VERSION
+
+  if (configured) {
+    const version = Number(configured)
+    if (!keyring.has(version)) {
+      throw new Error(`SALESFORCE_TOKEN_KEY_VERSION ${configured} is not in SALESFORCE_TOKEN_KEYS`)
+    }
+    return version
+  }
+  return Math.max(...Array.from(keyring.keys()))
+}
+
+function getKey(version: number): Buffer {
+  const key = getKeyring().get(version)
+  if (!key) {
+    throw new Error(
+      `Salesforce tokens are encrypted with key version ${version}, which is not configured. Add it back to SALESFORCE_TOKEN_KEYS or reconnect Salesforce.`
+    )
+  }
+  return key
+}
+
+function encrypt(plaintext: Buffer, key: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES)
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  const tag = cipher.getAuthTag()
+  return [iv, tag, ciphertext].map((part) => part.toString("base64")).join(":")
+}
+
+function decrypt(value: string, key: Buffer): Buffer {
+  const [iv, tag, ciphertext] = value.split(":").map((part) => Buffer.from(part, "base64"))
+  if (!iv || !tag || !ciphertext) {
+    throw new Error("Stored Salesforce token is not in the expected format")
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv)
+  decipher.setAuthTag(tag)
+  try {
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()])
+  } catch {
+    throw new Error("Stored Salesforce token could not be decrypted; the encryption key has changed")
+  }
+}
+
+/**
+ * Encrypt the tokens under a new data key wrapped with the active
+ * application key. Null values stay null.
+ */
+export function encryptTokens<K extends string>(
+  tokens: Record<K, string | null>
+): { tokens: Record<K, string | null>; envelope: TokenEnvelope } {
+  const version = getActiveKeyVersion()
+  const dataKey = crypto.randomBytes(KEY_BYTES)
+
+  const encrypted = {} as Record<K, string | null>
+  for (const name of Object.keys(tokens) as K[]) {
+    const value = tokens[name]
+    encrypted[name] = value === null ? null : encrypt(Buffer.from(value, "utf8"), dataKey)
+  }
+
+  return {
+    tokens: encrypted,
+    envelope: { data_key: encrypt(dataKey, getKey(version)), key_version: version },
+  }
+}
+
+/**
+ * Decrypt tokens written by encryptTokens. Without an envelope the values
+ * are from migration 026, encrypted directly with key version 1.
+ */
+export function decryptTokens<K extends string>(
+  tokens: Record<K, string | null>,
+  envelope: { data_key: string | null; key_version: number | null }
+): Record<K, string | null> {
+  const key = envelope.data_key
+    ? decrypt(envelope.data_key, getKey(envelope.key_version || 1))
+    : getKey(1)
+
+  const decrypted = {} as Record<K, string | null>
+  for (const name of Object.keys(tokens) as K[]) {
+    const value = tokens[name]
+    decrypted[name] = value === null ? null : decrypt(value, key).toString("utf8")
+  }
+  return decrypted
+}
@@ -13,6 +13,7 @@ export interface SalesforceProduct {
   StockKeepingUnit?: string
   ProductCode?: string
   IsActive?: boolean
+  SystemModstamp?: string
 }
 
 export interface SalesforceProductCategory {
@@ -20,12 +21,14 @@ export interface SalesforceProductCategory {
   Name: string
   CatalogId?: string
   ParentCategoryId?: string  // if hierarchical
+  SystemModstamp?: string
 }
 
 export interface SalesforceProductCategoryProduct {
   Id: string
   ProductId: string  // Product2.Id
   ProductCategoryId: string  // ProductCategory.Id
+  SystemModstamp?: string
 }
 
 export interface SalesforceProductMedia {
@@ -64,3 +67,25 @@ export interface SalesforceApiLimits {
   [key: string]: SalesforceApiLimit | undefined
 }
 
+
+export interface SalesforceOrder {
+  Id: string
+  OrderNumber: string
+  Status?: string
+  StatusCode?: string
+  EffectiveDate?: string
+  PoNumber?: string | null
+  TotalAmount?: number | null
+  Account?: { Name: string } | null
+}
+
+export interface SalesforceOrderItem {
+  Id: string
+  OrderId: string
+  Product2Id: string
+  Quantity: number
+  Product2?: {
+    Name: string
+    StockKeepingUnit?: string | null
+  } | null
+}
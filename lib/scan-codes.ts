@@ -0,0 +1,87 @@
+/**
+ * Scan codes
+ * QR payloads printed on production sheets so the work-log page can jump
+ * straight to a job or product. Also defines the short manual code printed
+ * next to each QR for when the camera is unavailable.
+ */
+
+import QRCode from 'qrcode'
+
+const CODE_PREFIX = 'BPS1'
+const SHORT_ID_LENGTH = 8
+
+export interface ScanCode {
+  /** Full sheet id, or the 8-character prefix from a manual code */
+  sheetRef: string
+  /** Full item id or 8-character prefix; null for a whole-sheet code */
+  itemRef: string | null
+}
+
+/** QR payload for a whole sheet */
+export function encodeSheetCode(sheetId: string): string {
+  return `${CODE_PREFIX}:${sheetId}`
+}
+
+/** QR payload for one product row of a sheet */
+export function encodeSheetItemCode(sheetId: string, itemId: string): string {
+  return `${CODE_PREFIX}:${sheetId}:${itemId}`
+}
+
+/**
+ * Short code for typing in by hand, e.g. "1A2B3C4D-5E6F7A8B"
+ */
+export function formatManualCode(sheetId: string, itemId?: string | null): string {
+  const sheetPart = sheetId.replace(/-/g, '').slice(0, SHORT_ID_LENGTH)
+  const itemPart = itemId ? itemId.replace(/-/g, '').slice(0, SHORT_ID_LENGTH) : null
+  return (itemPart ? `${sheetPart}-${itemPart}` : sheetPart).toUpperCase()
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+const SHORT_PATTERN = /^[0-9a-f]{8}$/
+
+/**
+ * Parse a scanned QR payload or a manually typed code.
+ * Returns null when the text is not one of our codes.
+ */
+export function parseScanCode(text: string): ScanCode | null {
+  const value = text.trim().toLowerCase()
+  if (!value) return null
+
+  if (value.startsWith(`${CODE_PREFIX.toLowerCase()}:`)) {
+    const [, sheetId, itemId] = value.split(':')
+    if (!sheetId || !UUID_PATTERN.test(sheetId)) return null
+    if (itemId !== undefined && !UUID_PATTERN.test(itemId)) return null
+    return { sheetRef: sheetId, itemRef: itemId || null }
+  }
+
+  const [sheetPart, itemPart, ...rest] = value.replace(/\s+/g, '').split('-')
+  if (rest.length > 0 || !SHORT_PATTERN.test(sheetPart)) return null
+  if (itemPart !== undefined && !SHORT_PATTERN.test(itemPart)) return null
+  return { sheetRef: sheetPart, itemRef: itemPart || null }
+}
+
+/**
+ * Whether an id matches a reference from parseScanCode (full id or short prefix)
+ */
+export function matchesScanRef(id: string, ref: string): boolean {
+  const normalized = id.toLowerCase()
+  if (ref.length > SHORT_ID_LENGTH) return normalized === ref
+  return normalized.replace(/-/g, '').startsWith(ref)
+}
+
+/**
+ * QR module matrix for a payload (true = dark), shared by the print page
+ * SVG and the server-side PDF so both draw identical codes.
+ */
+export function getQrModules(text: string): boolean[][] {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' })
+  const rows: boolean[][] = []
+  for (let row = 0; row < modules.size; row++) {
+    const cells: boolean[] = []
+    for (let col = 0; col < modules.size; col++) {
+      cells.push(!!modules.get(row, col))
+    }
+    rows.push(cells)
+  }
+  return rows
+}
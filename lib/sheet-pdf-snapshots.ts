@@ -0,0 +1,185 @@
+/**
+ * Printed sheet versions
+ * Builds a sheet's PDF (sheet-pdf.ts) from the database and stores it as a
+ * printed version in the sheet-pdfs bucket (migration 017). Viewing or
+ * downloading a PDF stores nothing; a version is stored when a user saves
+ * one and when the sheet changes status.
+ *
+ * Product images come from the cached thumbnails (product-images.ts), or
+ * from the catalog CMS when an image has no thumbnail yet. Other image URLs
+ * are never fetched by the server; those rows print without their image.
+ *
+ * Server only (sharp).
+ */
+
+import { createHash } from 'crypto'
+import { renderSheetPdf } from './sheet-pdf'
+import { downloadImage, loadThumbnailPng } from './product-images'
+import { isCatalogImageUrl } from './image-url-builder'
+
+const SNAPSHOT_BUCKET = 'sheet-pdfs'
+const IMAGE_FETCH_TIMEOUT_MS = 8000
+
+/**
+ * Bytes of a product image for embedding. Failures are logged and the row
+ * is printed without its image rather than failing the whole sheet.
+ */
+async function loadImageBytes(supabase: any, url: string): Promise<Uint8Array | null> {
+  try {
+    const thumbnail = await loadThumbnailPng(supabase, url, IMAGE_FETCH_TIMEOUT_MS)
+    if (thumbnail) return thumbnail
+
+    if (!isCatalogImageUrl(url)) {
+      console.error('Product image is not on the catalog host, not embedding it', url)
+      return null
+    }
+    return await downloadImage(url, IMAGE_FETCH_TIMEOUT_MS)
+  } catch (error) {
+    console.error('Failed to fetch product image', url, error)
+    return null
+  }
+}
+
+/**
+ * Render a sheet to PDF. Returns null when the sheet does not exist (or the
+ * user cannot see it).
+ */
+export async function buildSheetPdf(
+  supabase: any,
+  sheetId: string
+): Promise<{ sheet: any; pdf: Uint8Array } | null> {
+  const { data: sheet, error: sheetError } = await supabase
+    .from('production_sheets')
+    .select('*, sheet_templates(name, field_definitions), users(email, name)')
+    .eq('id', sheetId)
+    .maybeSingle()
+
+  if (sheetError) throw new Error(sheetError.message)
+  if (!sheet) return null
+
+  const { data: items, error: itemsError } = await supabase
+    .from('sheet_items')
+    .select('*')
+    .eq('sheet_id', sheetId)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+
+  if (itemsError) throw new Error(itemsError.message)
+
+  const imageUrls = Array.from(
+    new Set((items || []).map((item: any) => item.image_url).filter(Boolean))
+  ) as string[]
+  const images = new Map<string, Uint8Array>()
+  await Promise.all(
+    imageUrls.map(async url => {
+      const bytes = await loadImageBytes(supabase, url)
+      if (bytes) images.set(url, bytes)
+    })
+  )
+
+  const fieldDefinitions = sheet.sheet_templates?.field_definitions
+  const pdf = await renderSheetPdf(
+    {
+      id: sheet.id,
+      job_number: sheet.job_number,
+      status: sheet.status,
+      created_at: sheet.created_at,
+      updated_at: sheet.updated_at,
+      estimated_completion_date: sheet.estimated_completion_date,
+      status_reason: sheet.status_reason,
+      template_name: sheet.sheet_templates?.name || null,
+      field_definitions: Array.isArray(fieldDefinitions) ? fieldDefinitions : [],
+      created_by: sheet.users?.name || sheet.users?.email || null,
+    },
+    items || [],
+    images
+  )
+
+  return { sheet, pdf }
+}
+
+/**
+ * Store the PDF as a new printed version of the sheet, unless it is
+ * byte-identical to the latest stored version. Returns the version number.
+ */
+export async function storeSheetPdfSnapshot(
+  supabase: any,
+  options: { sheetId: string; sheetStatus: string; pdf: Uint8Array; userId: string }
+): Promise<number> {
+  const { sheetId, sheetStatus, pdf, userId } = options
+  const sha256 = createHash('sha256').update(pdf).digest('hex')
+
+  const { data: latest, error: latestError } = await supabase
+    .from('sheet_pdf_snapshots')
+    .select('version, sha256')
+    .eq('sheet_id', sheetId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (latestError) {
+    throw new Error(latestError.message)
+  }
+
+  if (latest?.sha256 === sha256) {
+    return latest.version
+  }
+
+  const version = (latest?.version || 0) + 1
+  const storagePath = `${sheetId}/v${version}-${sha256.slice(0, 12)}.pdf`
+
+  const { error: uploadError } = await supabase.storage
+    .from(SNAPSHOT_BUCKET)
+    .upload(storagePath, pdf, {
+      contentType: 'application/pdf',
+      cacheControl: '3600',
+      upsert: false,
+    })
+
+  if (uploadError) {
+    throw new Error(uploadError.message)
+  }
+
+  const { error: insertError } = await supabase.from('sheet_pdf_snapshots').insert({
+    sheet_id: sheetId,
+    version,
+    storage_path: storagePath,
+    sha256,
+    byte_size: pdf.byteLength,
+    sheet_status: sheetStatus,
+    created_by: userId,
+  })
+
+  if (insertError) {
+    throw new Error(insertError.message)
+  }
+
+  await supabase.from('analytics_events').insert({
+    sheet_id: sheetId,
+    event_type: 'printed',
+    user_id: userId,
+    metadata: { version, sha256 },
+  })
+
+  return version
+}
+
+/**
+ * Render the sheet as it is now and store it as a printed version, e.g.
+ * after a status change. Returns the version, or null if the sheet is gone.
+ */
+export async function saveSheetPdfSnapshot(
+  supabase: any,
+  sheetId: string,
+  userId: string
+): Promise<number | null> {
+  const built = await buildSheetPdf(supabase, sheetId)
+  if (!built) return null
+
+  return storeSheetPdfSnapshot(supabase, {
+    sheetId,
+    sheetStatus: built.sheet.status,
+    pdf: built.pdf,
+    userId,
+  })
+}
@@ -0,0 +1,535 @@
+/**
+ * Sheet PDF renderer
+ * Renders a production sheet (job header, template fields, item table with
+ * product images) to a PDF on the server.
+ *
+ * Output is deterministic: no creation/modification dates or producer are
+ * written, and the only date printed is the sheet's own updated_at, so the
+ * same sheet data and images always produce byte-identical files.
+ */
+
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'pdf-lib'
+import { SHEET_STATUS_LABELS, isSheetStatus } from './sheet-status'
+import { encodeSheetCode, encodeSheetItemCode, formatManualCode, getQrModules } from './scan-codes'
+
+export interface SheetPdfField {
+  id: string
+  label: string
+  type?: string
+}
+
+export interface SheetPdfSheet {
+  id: string
+  job_number: string | null
+  status: string
+  created_at: string
+  updated_at: string
+  estimated_completion_date?: string | null
+  status_reason?: string | null
+  template_name?: string | null
+  field_definitions?: SheetPdfField[] | null
+  created_by?: string | null
+}
+
+export interface SheetPdfItem {
+  id: string
+  banner_sku: string
+  banner_name: string | null
+  image_url: string | null
+  quantity: number | null
+  qty_in_order: number | null
+  stock_qty: number | null
+  custom_fields?: Record<string, any> | null
+}
+
+const PAGE_WIDTH = 612 // US Letter
+const PAGE_HEIGHT = 792
+const MARGIN = 36
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+const IMAGE_SIZE = 56
+const ITEM_QR_SIZE = 44
+const HEADER_QR_SIZE = 64
+const CELL_PADDING = 4
+const LINE_HEIGHT = 11
+const TABLE_HEADER_HEIGHT = 18
+const FOOTER_HEIGHT = 20
+
+const COLUMNS = [
+  { key: 'image', label: 'Image', width: IMAGE_SIZE + CELL_PADDING * 2 },
+  { key: 'code', label: 'Scan', width: 60 },
+  { key: 'product', label: 'Product', width: 0 }, // takes the remaining width
+  { key: 'qty_in_order', label: 'Qty in Order', width: 62 },
+  { key: 'stock_qty', label: 'Stock Qty', width: 52 },
+  { key: 'quantity', label: 'Total', width: 42 },
+  { key: 'done', label: 'Done', width: 34 },
+] as const
+
+const FIXED_COLUMNS_WIDTH = COLUMNS.reduce((sum, c) => sum + c.width, 0)
+const PRODUCT_COLUMN_WIDTH = CONTENT_WIDTH - FIXED_COLUMNS_WIDTH
+
+const BLACK = rgb(0, 0, 0)
+const MUTED = rgb(0.4, 0.4, 0.4)
+const BORDER = rgb(0.75, 0.75, 0.75)
+const HEADER_FILL = rgb(0.93, 0.93, 0.93)
+
+interface Fonts {
+  regular: PDFFont
+  bold: PDFFont
+}
+
+/**
+ * Standard PDF fonts only cover WinAnsi; replace anything else so a stray
+ * character in a product name cannot fail the whole render.
+ */
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[\r\n\t]+/g, ' ')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+}
+
+/**
+ * Cut text to fit a width, adding an ellipsis when shortened
+ */
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  const clean = toWinAnsi(text)
+  if (font.widthOfTextAtSize(clean, size) <= maxWidth) return clean
+
+  let end = clean.length
+  while (end > 0 && font.widthOfTextAtSize(clean.slice(0, end) + '...', size) > maxWidth) {
+    end--
+  }
+  return clean.slice(0, end) + '...'
+}
+
+/**
+ * Word-wrap text into at most `maxLines` lines
+ */
+function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number,
+  maxLines: number
+): string[] {
+  const words = toWinAnsi(text).split(' ').filter(Boolean)
+  const lines: string[] = []
+  let current = ''
+
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      current = candidate
+      continue
+    }
+    if (current) lines.push(current)
+    current = word
+    if (lines.length === maxLines) break
+  }
+  if (current && lines.length < maxLines) lines.push(current)
+
+  if (lines.length === maxLines && words.join(' ') !== lines.join(' ')) {
+    lines[maxLines - 1] = fitText(lines[maxLines - 1] + ' ...', font, size, maxWidth)
+  }
+
+  return lines.map((line) => fitText(line, font, size, maxWidth))
+}
+
+/** Dates are printed in UTC so the output does not depend on the server's zone */
+function formatDate(value: string | null | undefined): string {
+  if (!value) return '-'
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return '-'
+  return date.toISOString().slice(0, 10)
+}
+
+function formatCustomValue(value: any): string {
+  if (value === null || value === undefined || value === '') return ''
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (Array.isArray(value)) return value.join(', ')
+  return String(value)
+}
+
+function isPng(bytes: Uint8Array): boolean {
+  return bytes.length > 8 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47
+}
+
+function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff
+}
+
+/**
+ * Embed the product images that were fetched. Formats the PDF cannot hold
+ * (WebP, SVG, GIF...) and corrupt files are skipped; the row shows a
+ * placeholder instead.
+ */
+async function embedImages(
+  doc: PDFDocument,
+  items: SheetPdfItem[],
+  images: Map<string, Uint8Array>
+): Promise<Map<string, PDFImage>> {
+  const embedded = new Map<string, PDFImage>()
+
+  for (const item of items) {
+    const url = item.image_url
+    if (!url || embedded.has(url)) continue
+
+    const bytes = images.get(url)
+    if (!bytes) continue
+
+    try {
+      if (isPng(bytes)) {
+        embedded.set(url, await doc.embedPng(bytes))
+      } else if (isJpeg(bytes)) {
+        embedded.set(url, await doc.embedJpg(bytes))
+      }
+    } catch (error) {
+      console.error('Failed to embed product image', url, error)
+    }
+  }
+
+  return embedded
+}
+
+/**
+ * Draw a QR code with its top-left corner at (x, top)
+ */
+function drawQr(page: PDFPage, text: string, x: number, top: number, size: number) {
+  const modules = getQrModules(text)
+  const cell = size / modules.length
+
+  modules.forEach((row, rowIndex) => {
+    row.forEach((dark, colIndex) => {
+      if (!dark) return
+      page.drawRectangle({
+        x: x + colIndex * cell,
+        y: top - (rowIndex + 1) * cell,
+        width: cell,
+        height: cell,
+        color: BLACK,
+      })
+    })
+  })
+}
+
+function drawHeader(page: PDFPage, sheet: SheetPdfSheet, fonts: Fonts): number {
+  let y = PAGE_HEIGHT - MARGIN
+  const qrX = PAGE_WIDTH - MARGIN - HEADER_QR_SIZE
+  const textWidth = CONTENT_WIDTH - HEADER_QR_SIZE - 12
+
+  drawQr(page, encodeSheetCode(sheet.id), qrX, y, HEADER_QR_SIZE)
+  const manualCode = formatManualCode(sheet.id)
+  page.drawText(manualCode, {
+    x: qrX + (HEADER_QR_SIZE - fonts.regular.widthOfTextAtSize(manualCode, 7)) / 2,
+    y: y - HEADER_QR_SIZE - 9,
+    size: 7,
+    font: fonts.regular,
+    color: BLACK,
+  })
+
+  page.drawText(
+    fitText(`Banner Production Sheet - ${sheet.job_number || 'N/A'}`, fonts.bold, 18, textWidth),
+    { x: MARGIN, y: y - 18, size: 18, font: fonts.bold, color: BLACK }
+  )
+  y -= 30
+
+  const statusLabel = isSheetStatus(sheet.status) ? SHEET_STATUS_LABELS[sheet.status] : sheet.status
+  const details: [string, string][] = [
+    ['Job #', sheet.job_number || '-'],
+    ['Template', sheet.template_name || '-'],
+    ['Status', statusLabel],
+    ['Created', formatDate(sheet.created_at)],
+    ['Est. Completion', formatDate(sheet.estimated_completion_date)],
+    ['Last Updated', formatDate(sheet.updated_at)],
+  ]
+  if (sheet.created_by) details.push(['Created By', sheet.created_by])
+  if (sheet.status_reason) details.push(['Reason', sheet.status_reason])
+
+  // Two columns of label/value pairs, left of the sheet QR
+  const columnWidth = textWidth / 2
+  const labelWidth = 82
+  details.forEach(([label, value], index) => {
+    const x = MARGIN + (index % 2) * columnWidth
+    const rowY = y - Math.floor(index / 2) * 14 - 10
+    page.drawText(`${label}:`, { x, y: rowY, size: 9, font: fonts.bold, color: BLACK })
+    page.drawText(fitText(value, fonts.regular, 9, columnWidth - labelWidth - 8), {
+      x: x + labelWidth,
+      y: rowY,
+      size: 9,
+      font: fonts.regular,
+      color: BLACK,
+    })
+  })
+  y = Math.min(y - Math.ceil(details.length / 2) * 14 - 8, PAGE_HEIGHT - MARGIN - HEADER_QR_SIZE - 16)
+
+  const fields = sheet.field_definitions || []
+  if (fields.length > 0) {
+    page.drawText('Template Fields:', { x: MARGIN, y: y - 10, size: 9, font: fonts.bold, color: BLACK })
+    const lines = wrapText(
+      fields.map((f) => f.label).join(', '),
+      fonts.regular,
+      9,
+      CONTENT_WIDTH - labelWidth,
+      2
+    )
+    lines.forEach((line, index) => {
+      page.drawText(line, {
+        x: MARGIN + labelWidth,
+        y: y - 10 - index * LINE_HEIGHT,
+        size: 9,
+        font: fonts.regular,
+        color: BLACK,
+      })
+    })
+    y -= lines.length * LINE_HEIGHT + 8
+  }
+
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: PAGE_WIDTH - MARGIN, y },
+    thickness: 1,
+    color: BLACK,
+  })
+
+  return y - 10
+}
+
+function drawTableHeader(page: PDFPage, y: number, fonts: Fonts): number {
+  page.drawRectangle({
+    x: MARGIN,
+    y: y - TABLE_HEADER_HEIGHT,
+    width: CONTENT_WIDTH,
+    height: TABLE_HEADER_HEIGHT,
+    color: HEADER_FILL,
+    borderColor: BORDER,
+    borderWidth: 0.5,
+  })
+
+  let x = MARGIN
+  for (const column of COLUMNS) {
+    const width = column.key === 'product' ? PRODUCT_COLUMN_WIDTH : column.width
+    page.drawText(fitText(column.label, fonts.bold, 8, width - CELL_PADDING * 2), {
+      x: x + CELL_PADDING,
+      y: y - TABLE_HEADER_HEIGHT + 6,
+      size: 8,
+      font: fonts.bold,
+      color: BLACK,
+    })
+    x += width
+  }
+
+  return y - TABLE_HEADER_HEIGHT
+}
+
+/** Lines shown in the product cell: name, then one line per template field */
+function productCellLines(
+  item: SheetPdfItem,
+  fields: SheetPdfField[],
+  fonts: Fonts
+): { text: string; font: PDFFont; size: number; color: ReturnType<typeof rgb> }[] {
+  const width = PRODUCT_COLUMN_WIDTH - CELL_PADDING * 2
+  const lines: { text: string; font: PDFFont; size: number; color: ReturnType<typeof rgb> }[] = [
+    { text: fitText(item.banner_sku, fonts.bold, 9, width), font: fonts.bold, size: 9, color: BLACK },
+  ]
+
+  if (item.banner_name) {
+    for (const line of wrapText(item.banner_name, fonts.regular, 8, width, 2)) {
+      lines.push({ text: line, font: fonts.regular, size: 8, color: MUTED })
+    }
+  }
+
+  const values = item.custom_fields || {}
+  for (const field of fields) {
+    const value = formatCustomValue(values[field.id] ?? values[field.label])
+    lines.push({
+      text: fitText(`${field.label}: ${value || '________'}`, fonts.regular, 8, width),
+      font: fonts.regular,
+      size: 8,
+      color: BLACK,
+    })
+  }
+
+  return lines
+}
+
+function drawItemRow(
+  page: PDFPage,
+  y: number,
+  height: number,
+  sheetId: string,
+  item: SheetPdfItem,
+  lines: ReturnType<typeof productCellLines>,
+  image: PDFImage | undefined,
+  fonts: Fonts
+) {
+  page.drawRectangle({
+    x: MARGIN,
+    y: y - height,
+    width: CONTENT_WIDTH,
+    height,
+    borderColor: BORDER,
+    borderWidth: 0.5,
+  })
+
+  let x = MARGIN
+  for (const column of COLUMNS) {
+    const width = column.key === 'product' ? PRODUCT_COLUMN_WIDTH : column.width
+    const top = y - CELL_PADDING
+
+    if (column.key === 'image') {
+      if (image) {
+        const scaled = image.scaleToFit(IMAGE_SIZE, IMAGE_SIZE)
+        page.drawImage(image, {
+          x: x + CELL_PADDING + (IMAGE_SIZE - scaled.width) / 2,
+          y: top - IMAGE_SIZE + (IMAGE_SIZE - scaled.height) / 2,
+          width: scaled.width,
+          height: scaled.height,
+        })
+      } else {
+        page.drawRectangle({
+          x: x + CELL_PADDING,
+          y: top - IMAGE_SIZE,
+          width: IMAGE_SIZE,
+          height: IMAGE_SIZE,
+          color: HEADER_FILL,
+        })
+        page.drawText('NO IMAGE', {
+          x: x + CELL_PADDING + 10,
+          y: top - IMAGE_SIZE / 2 - 3,
+          size: 7,
+          font: fonts.regular,
+          color: MUTED,
+        })
+      }
+    } else if (column.key === 'code') {
+      const qrX = x + (width - ITEM_QR_SIZE) / 2
+      drawQr(page, encodeSheetItemCode(sheetId, item.id), qrX, top, ITEM_QR_SIZE)
+      const manualCode = formatManualCode(sheetId, item.id)
+      page.drawText(fitText(manualCode, fonts.regular, 5, width - 2), {
+        x: x + (width - fonts.regular.widthOfTextAtSize(manualCode, 5)) / 2,
+        y: top - ITEM_QR_SIZE - 6,
+        size: 5,
+        font: fonts.regular,
+        color: BLACK,
+      })
+    } else if (column.key === 'product') {
+      let lineY = top - 9
+      for (const line of lines) {
+        page.drawText(line.text, {
+          x: x + CELL_PADDING,
+          y: lineY,
+          size: line.size,
+          font: line.font,
+          color: line.color,
+        })
+        lineY -= LINE_HEIGHT
+      }
+    } else if (column.key === 'done') {
+      page.drawRectangle({
+        x: x + (width - 12) / 2,
+        y: top - 16,
+        width: 12,
+        height: 12,
+        borderColor: BLACK,
+        borderWidth: 1,
+      })
+    } else {
+      const value = String(item[column.key] ?? 0)
+      const textWidth = fonts.bold.widthOfTextAtSize(value, 11)
+      page.drawText(value, {
+        x: x + width - CELL_PADDING - textWidth,
+        y: top - 12,
+        size: 11,
+        font: fonts.bold,
+        color: BLACK,
+      })
+    }
+
+    if (x > MARGIN) {
+      page.drawLine({
+        start: { x, y },
+        end: { x, y: y - height },
+        thickness: 0.5,
+        color: BORDER,
+      })
+    }
+    x += width
+  }
+}
+
+function drawFooter(page: PDFPage, sheet: SheetPdfSheet, pageNumber: number, pageCount: number, fonts: Fonts) {
+  const text = `Page ${pageNumber} of ${pageCount}`
+  page.drawText(`Sheet ${sheet.id}`, {
+    x: MARGIN,
+    y: MARGIN - 12,
+    size: 7,
+    font: fonts.regular,
+    color: MUTED,
+  })
+  page.drawText(text, {
+    x: PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(text, 7),
+    y: MARGIN - 12,
+    size: 7,
+    font: fonts.regular,
+    color: MUTED,
+  })
+}
+
+/**
+ * Render a production sheet to PDF bytes.
+ *
+ * `images` holds the already-downloaded bytes of the item images, keyed by
+ * image_url; fetching is left to the caller so rendering stays pure.
+ */
+export async function renderSheetPdf(
+  sheet: SheetPdfSheet,
+  items: SheetPdfItem[],
+  images: Map<string, Uint8Array> = new Map()
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create({ updateMetadata: false })
+  doc.setTitle(toWinAnsi(`Banner Production Sheet - ${sheet.job_number || 'N/A'}`), {
+    showInWindowTitleBar: true,
+  })
+
+  const fonts: Fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+  }
+  const embedded = await embedImages(doc, items, images)
+  const fields = sheet.field_definitions || []
+
+  let page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = drawHeader(page, sheet, fonts)
+  y = drawTableHeader(page, y, fonts)
+
+  if (items.length === 0) {
+    page.drawText('No products on this sheet', {
+      x: MARGIN + CELL_PADDING,
+      y: y - 16,
+      size: 9,
+      font: fonts.regular,
+      color: MUTED,
+    })
+  }
+
+  for (const item of items) {
+    const lines = productCellLines(item, fields, fonts)
+    const height = Math.max(IMAGE_SIZE, lines.length * LINE_HEIGHT) + CELL_PADDING * 2
+
+    if (y - height < MARGIN + FOOTER_HEIGHT) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      y = drawTableHeader(page, PAGE_HEIGHT - MARGIN, fonts)
+    }
+
+    drawItemRow(page, y, height, sheet.id, item, lines, item.image_url ? embedded.get(item.image_url) : undefined, fonts)
+    y -= height
+  }
+
+  const pages = doc.getPages()
+  pages.forEach((p, index) => drawFooter(p, sheet, index + 1, pages.length, fonts))
+
+  return doc.save()
+}
@@ -0,0 +1,182 @@
+import { describe, expect, it, vi } from "vitest"
+import {
+  SHEET_STATUS_TRANSITIONS,
+  applySheetStatusChange,
+  canTransitionSheetStatus,
+  deriveSheetStatusFromItems,
+  getManualTransitions,
+  getResumeStatus,
+  validateSheetStatusChange,
+} from "./sheet-status"
+
+const items = (...statuses: string[]) => statuses.map((status) => ({ status }))
+
+describe("canTransitionSheetStatus", () => {
+  it("allows manual moves only along manual transitions", () => {
+    expect(canTransitionSheetStatus("draft", "in_production")).toBe(true)
+    expect(canTransitionSheetStatus("draft", "completed")).toBe(false)
+    expect(canTransitionSheetStatus("in_production", "production_started")).toBe(false)
+  })
+
+  it("allows automatic moves only along automatic transitions", () => {
+    expect(canTransitionSheetStatus("in_production", "production_started", "auto")).toBe(true)
+    expect(canTransitionSheetStatus("completed", "production_started", "auto")).toBe(true)
+    expect(canTransitionSheetStatus("draft", "in_production", "auto")).toBe(false)
+    expect(canTransitionSheetStatus("on_hold", "completed", "auto")).toBe(false)
+  })
+
+  it("never leaves cancelled except by restoring to draft", () => {
+    const fromCancelled = SHEET_STATUS_TRANSITIONS.filter((t) => t.from === "cancelled")
+    expect(fromCancelled.map((t) => t.to)).toEqual(["draft"])
+  })
+})
+
+describe("getManualTransitions", () => {
+  it("lists what a user can pick from a status", () => {
+    expect(getManualTransitions("on_hold").map((t) => t.to)).toEqual([
+      "in_production",
+      "production_started",
+      "cancelled",
+    ])
+  })
+})
+
+describe("validateSheetStatusChange", () => {
+  it("rejects unknown statuses", () => {
+    expect(validateSheetStatusChange("draft", "archived")).toBe('Unknown status "archived"')
+  })
+
+  it("rejects transitions that do not exist", () => {
+    expect(validateSheetStatusChange("draft", "completed")).toBe(
+      "Cannot change status from draft to completed"
+    )
+  })
+
+  it("requires a reason for backwards moves, holds and cancellations", () => {
+    expect(validateSheetStatusChange("in_production", "on_hold")).toBe(
+      "A reason is required to put on hold"
+    )
+    expect(validateSheetStatusChange("in_production", "on_hold", { reason: "  " })).not.toBeNull()
+    expect(validateSheetStatusChange("in_production", "on_hold", { reason: "No vinyl" })).toBeNull()
+  })
+
+  it("does not ask automatic changes for a reason", () => {
+    expect(validateSheetStatusChange("completed", "production_started", { source: "auto" })).toBeNull()
+  })
+})
+
+describe("deriveSheetStatusFromItems", () => {
+  it("has no opinion without items or progress", () => {
+    expect(deriveSheetStatusFromItems([])).toBeNull()
+    expect(deriveSheetStatusFromItems(items("not_started", "not_started"))).toBeNull()
+  })
+
+  it("is production_started once any item is worked on", () => {
+    expect(deriveSheetStatusFromItems(items("not_started", "working"))).toBe("production_started")
+    expect(deriveSheetStatusFromItems(items("complete", "not_started"))).toBe("production_started")
+  })
+
+  it("is completed when every item is complete", () => {
+    expect(deriveSheetStatusFromItems(items("complete", "complete"))).toBe("completed")
+  })
+})
+
+describe("getResumeStatus", () => {
+  it("resumes to production_started once work has begun", () => {
+    expect(getResumeStatus(items("not_started"))).toBe("in_production")
+    expect(getResumeStatus(items("not_started", "partially_complete"))).toBe("production_started")
+  })
+})
+
+describe("applySheetStatusChange", () => {
+  function fakeSupabase(updated: any) {
+    const calls = { updates: [] as any[], filters: [] as [string, string][], history: [] as any[] }
+    const supabase = {
+      from: (table: string) => {
+        if (table === "sheet_status_history") {
+          return {
+            insert: async (row: any) => {
+              calls.history.push(row)
+              return { error: null }
+            },
+          }
+        }
+        const query: any = {
+          update: (values: any) => {
+            calls.updates.push(values)
+            return query
+          },
+          eq: (column: string, value: string) => {
+            calls.filters.push([column, value])
+            return query
+          },
+          select: () => query,
+          maybeSingle: async () => ({ data: updated, error: null }),
+        }
+        return query
+      },
+    }
+    return { supabase, calls }
+  }
+
+  it("updates the sheet only while it is still in the old status and records the change", async () => {
+    const { supabase, calls } = fakeSupabase({ id: "s1", status: "on_hold" })
+
+    const result = await applySheetStatusChange(supabase, {
+      sheetId: "s1",
+      from: "in_production",
+      to: "on_hold",
+      userId: "u1",
+      reason: " Waiting on ink ",
+    })
+
+    expect(result.error).toBeNull()
+    expect(calls.filters).toEqual([
+      ["id", "s1"],
+      ["status", "in_production"],
+    ])
+    expect(calls.updates[0]).toMatchObject({
+      status: "on_hold",
+      status_reason: "Waiting on ink",
+      completed_at: null,
+    })
+    expect(calls.updates[0].on_hold_since).toEqual(expect.any(String))
+    expect(calls.history[0]).toMatchObject({
+      sheet_id: "s1",
+      from_status: "in_production",
+      to_status: "on_hold",
+      source: "manual",
+      reason: "Waiting on ink",
+    })
+  })
+
+  it("reports a conflict when another change got there first", async () => {
+    const { supabase, calls } = fakeSupabase(null)
+
+    const result = await applySheetStatusChange(supabase, {
+      sheetId: "s1",
+      from: "in_production",
+      to: "completed",
+      userId: "u1",
+    })
+
+    expect(result).toMatchObject({ sheet: null, status: 409 })
+    expect(calls.history).toHaveLength(0)
+  })
+
+  it("rejects invalid changes without writing", async () => {
+    const { supabase, calls } = fakeSupabase({})
+    const from = vi.spyOn(supabase, "from")
+
+    const result = await applySheetStatusChange(supabase, {
+      sheetId: "s1",
+      from: "draft",
+      to: "completed",
+      userId: "u1",
+    })
+
+    expect(result).toMatchObject({ status: 400 })
+    expect(from).not.toHaveBeenCalled()
+    expect(calls.updates).toHaveLength(0)
+  })
+})
@@ -0,0 +1,379 @@
+/**
+ * Production sheet status state machine
+ * Single source of truth for which production_sheets.status changes are
+ * allowed. The sheet routes, the work-log job status recalculation and the
+ * sheet pages all go through here. The database-side refresh_sheet_status()
+ * (migration 015) applies the same automatic transitions inside the work log
+ * transactions, so keep the two in sync.
+ */
+
+export const SHEET_STATUSES = [
+  "draft",
+  "in_production",
+  "production_started",
+  "on_hold",
+  "completed",
+  "cancelled",
+] as const
+
+export type SheetStatus = (typeof SHEET_STATUSES)[number]
+
+/** Who triggered a status change: a person, or item progress */
+export type SheetStatusSource = "manual" | "auto"
+
+export const SHEET_STATUS_LABELS: Record<SheetStatus, string> = {
+  draft: "Draft",
+  in_production: "In Production",
+  production_started: "Production Started",
+  on_hold: "On Hold",
+  completed: "Completed",
+  cancelled: "Cancelled",
+}
+
+/** Statuses whose reason is kept on the sheet (production_sheets.status_reason) */
+export const STATUSES_WITH_REASON: SheetStatus[] = ["on_hold", "cancelled"]
+
+export interface SheetStatusTransition {
+  from: SheetStatus
+  to: SheetStatus
+  label: string
+  /** Can be requested by a user from the sheet pages / PUT /api/sheets/[id] */
+  manual: boolean
+  /** Can be applied automatically from product (sheet_items) progress */
+  automatic: boolean
+  /** Backwards moves, holds and cancellations must record why */
+  requiresReason: boolean
+}
+
+export const SHEET_STATUS_TRANSITIONS: SheetStatusTransition[] = [
+  {
+    from: "draft",
+    to: "in_production",
+    label: "Move to Production",
+    manual: true,
+    automatic: false,
+    requiresReason: false,
+  },
+  {
+    from: "in_production",
+    to: "production_started",
+    label: "Start Production",
+    manual: false,
+    automatic: true,
+    requiresReason: false,
+  },
+  {
+    from: "in_production",
+    to: "completed",
+    label: "Mark Complete",
+    manual: true,
+    automatic: true,
+    requiresReason: false,
+  },
+  {
+    from: "production_started",
+    to: "completed",
+    label: "Mark Complete",
+    manual: true,
+    automatic: true,
+    requiresReason: false,
+  },
+  {
+    from: "in_production",
+    to: "draft",
+    label: "Back to Draft",
+    manual: true,
+    automatic: false,
+    requiresReason: true,
+  },
+  {
+    from: "in_production",
+    to: "on_hold",
+    label: "Put On Hold",
+    manual: true,
+    automatic: false,
+    requiresReason: true,
+  },
+  {
+    from: "production_started",
+    to: "on_hold",
+    label: "Put On Hold",
+    manual: true,
+    automatic: false,
+    requiresReason: true,
+  },
+  {
+    from: "on_hold",
+    to: "in_production",
+    label: "Resume",
+    manual: true,
+    automatic: false,
+    requiresReason: false,
+  },
+  {
+    from: "on_hold",
+    to: "production_started",
+    label: "Resume",
+    manual: true,
+    automatic: false,
+    requiresReason: false,
+  },
+  ...(["draft", "in_production", "production_started", "on_hold"] as const).map(
+    (from): SheetStatusTransition => ({
+      from,
+      to: "cancelled",
+      label: "Cancel Job",
+      manual: true,
+      automatic: false,
+      requiresReason: true,
+    })
+  ),
+  {
+    from: "cancelled",
+    to: "draft",
+    label: "Restore",
+    manual: true,
+    automatic: false,
+    requiresReason: true,
+  },
+  {
+    from: "completed",
+    to: "in_production",
+    label: "Reopen",
+    manual: true,
+    automatic: false,
+    requiresReason: true,
+  },
+  {
+    // A work log reversal un-completes a product
+    from: "completed",
+    to: "production_started",
+    label: "Reopen",
+    manual: false,
+    automatic: true,
+    requiresReason: false,
+  },
+]
+
+export function isSheetStatus(value: unknown): value is SheetStatus {
+  return typeof value === "string" && (SHEET_STATUSES as readonly string[]).includes(value)
+}
+
+export function getSheetStatusTransition(
+  from: string,
+  to: string
+): SheetStatusTransition | undefined {
+  return SHEET_STATUS_TRANSITIONS.find((t) => t.from === from && t.to === to)
+}
+
+/**
+ * Transitions a user can pick from the given status
+ */
+export function getManualTransitions(from: string): SheetStatusTransition[] {
+  return SHEET_STATUS_TRANSITIONS.filter((t) => t.from === from && t.manual)
+}
+
+export function canTransitionSheetStatus(
+  from: string,
+  to: string,
+  source: SheetStatusSource = "manual"
+): boolean {
+  const transition = getSheetStatusTransition(from, to)
+  if (!transition) return false
+  return source === "manual" ? transition.manual : transition.automatic
+}
+
+/**
+ * Validate a requested status change.
+ * Returns an error message, or null when the change is allowed.
+ */
+export function validateSheetStatusChange(
+  from: string,
+  to: string,
+  options: { source?: SheetStatusSource; reason?: string | null } = {}
+): string | null {
+  const source = options.source || "manual"
+
+  if (!isSheetStatus(to)) {
+    return `Unknown status "${to}"`
+  }
+
+  const transition = getSheetStatusTransition(from, to)
+  if (!transition || !canTransitionSheetStatus(from, to, source)) {
+    return `Cannot change status from ${from} to ${to}`
+  }
+
+  if (source === "manual" && transition.requiresReason && !options.reason?.trim()) {
+    return `A reason is required to ${transition.label.toLowerCase()}`
+  }
+
+  return null
+}
+
+/**
+ * Derive the job status implied by its products' statuses.
+ *
+ * Rules:
+ *  - If ALL items are 'complete' → 'completed'
+ *  - If ANY item is 'working', 'partially_complete', or 'complete'
+ *    (but not all complete) → 'production_started'
+ *  - Otherwise no opinion (null)
+ */
+export function deriveSheetStatusFromItems(
+  items: { status: string }[]
+): SheetStatus | null {
+  if (items.length === 0) return null
+
+  const allComplete = items.every((i) => i.status === "complete")
+  const anyStarted = items.some(
+    (i) =>
+      i.status === "working" ||
+      i.status === "partially_complete" ||
+      i.status === "complete"
+  )
+
+  if (allComplete) return "completed"
+  if (anyStarted) return "production_started"
+  return null
+}
+
+/**
+ * Status a held job goes back to: production_started once any product has
+ * been worked on, otherwise in_production.
+ */
+export function getResumeStatus(items: { status: string }[]): SheetStatus {
+  return items.some((i) => i.status !== "not_started")
+    ? "production_started"
+    : "in_production"
+}
+
+/**
+ * Record a status change in sheet_status_history
+ */
+export async function recordSheetStatusChange(
+  supabase: any,
+  change: {
+    sheetId: string
+    from: string | null
+    to: string
+    userId: string | null
+    source?: SheetStatusSource
+    reason?: string | null
+  }
+): Promise<void> {
+  const { error } = await supabase.from("sheet_status_history").insert({
+    sheet_id: change.sheetId,
+    from_status: change.from,
+    to_status: change.to,
+    changed_by: change.userId,
+    source: change.source || "manual",
+    reason: change.reason?.trim() || null,
+  })
+
+  if (error) {
+    console.error("Failed to record status history", change.sheetId, error)
+  }
+}
+
+/**
+ * Validate and apply a status change to a sheet, then record it.
+ *
+ * The update is conditional on the sheet still being in `from`, so two
+ * concurrent changes cannot both succeed. Returns the updated sheet, or an
+ * error message with the HTTP status a route should respond with.
+ */
+export async function applySheetStatusChange(
+  supabase: any,
+  options: {
+    sheetId: string
+    from: string
+    to: string
+    userId: string | null
+    source?: SheetStatusSource
+    reason?: string | null
+    extraUpdates?: Record<string, any>
+  }
+): Promise<{ sheet: any; error: null } | { sheet: null; error: string; status: number }> {
+  const { sheetId, from, to, userId, source = "manual", reason, extraUpdates } = options
+
+  const validationError = validateSheetStatusChange(from, to, { source, reason })
+  if (validationError) {
+    return { sheet: null, error: validationError, status: 400 }
+  }
+
+  const now = new Date().toISOString()
+  const updates: Record<string, any> = {
+    ...extraUpdates,
+    status: to,
+    updated_at: now,
+    completed_at: to === "completed" ? now : null,
+    status_reason: STATUSES_WITH_REASON.includes(to as SheetStatus)
+      ? reason?.trim() || null
+      : null,
+    on_hold_since: to === "on_hold" ? now : null,
+  }
+
+  const { data: sheet, error } = await supabase
+    .from("production_sheets")
+    .update(updates)
+    .eq("id", sheetId)
+    .eq("status", from)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    return { sheet: null, error: error.message, status: 500 }
+  }
+
+  if (!sheet) {
+    return {
+      sheet: null,
+      error: "The sheet status changed in the meantime. Refresh and try again.",
+      status: 409,
+    }
+  }
+
+  await recordSheetStatusChange(supabase, { sheetId, from, to, userId, source, reason })
+
+  return { sheet, error: null }
+}
+
+/**
+ * Recalculate a sheet's status from its products and apply it when the
+ * state machine allows the automatic transition. Returns the new status,
+ * or null when nothing changed.
+ */
+export async function syncSheetStatusWithItems(
+  supabase: any,
+  sheetId: string,
+  userId: string | null
+): Promise<SheetStatus | null> {
+  const [{ data: sheet }, { data: items, error: itemsError }] = await Promise.all([
+    supabase.from("production_sheets").select("status").eq("id", sheetId).single(),
+    supabase.from("sheet_items").select("id, status").eq("sheet_id", sheetId),
+  ])
+
+  if (itemsError) {
+    throw new Error(itemsError.message)
+  }
+
+  if (!sheet || !items) return null
+
+  const derived = deriveSheetStatusFromItems(items)
+  if (!derived || derived === sheet.status) return null
+  if (!canTransitionSheetStatus(sheet.status, derived, "auto")) return null
+
+  const result = await applySheetStatusChange(supabase, {
+    sheetId,
+    from: sheet.status,
+    to: derived,
+    userId,
+    source: "auto",
+  })
+
+  if (result.error) {
+    throw new Error(result.error)
+  }
+
+  return derived
+}
@@ -5,3 +5,16 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+export function round2(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+/** Split items into batches, e.g. for `.in()` filters and bulk writes */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
@@ -0,0 +1,188 @@
+/**
+ * Excel exports
+ * Turns the product catalog and production sheets into worksheets for
+ * buildWorkbook (xlsx.ts). Column headers match what the products import
+ * recognises, so an exported catalog can be edited and imported again.
+ */
+
+import type { XLSXSheet } from './xlsx'
+import { SHEET_STATUS_LABELS, isSheetStatus } from './sheet-status'
+
+export interface ExportCategory {
+  id: string
+  name: string
+  salesforce_id: string | null
+  parent_category_id: string | null
+  is_custom: boolean | null
+}
+
+export interface ExportAssignment {
+  product_id: string
+  category_id: string
+  is_primary: boolean | null
+}
+
+export interface ExportSheetField {
+  id: string
+  label: string
+  type?: string
+}
+
+const toDate = (value: string | null | undefined) => (value ? new Date(value) : null)
+
+const toNumber = (value: number | string | null | undefined) =>
+  value === null || value === undefined || value === '' ? null : Number(value)
+
+/**
+ * Products and Categories worksheets for the whole catalog
+ */
+export function catalogExportSheets(
+  products: any[],
+  categories: ExportCategory[],
+  assignments: ExportAssignment[]
+): XLSXSheet[] {
+  const categoryById = new Map(categories.map(c => [c.id, c]))
+  const categoryNames = new Map<string, string[]>()
+  const productCounts = new Map<string, number>()
+
+  assignments.forEach(assignment => {
+    const category = categoryById.get(assignment.category_id)
+    if (!category) return
+    const names = categoryNames.get(assignment.product_id) || []
+    names.push(category.name)
+    categoryNames.set(assignment.product_id, names)
+    productCounts.set(category.id, (productCounts.get(category.id) || 0) + 1)
+  })
+
+  const productSheet: XLSXSheet = {
+    name: 'Products',
+    columns: [
+      { header: 'SKU', key: 'sku', width: 18 },
+      { header: 'Name', key: 'name', width: 48 },
+      { header: 'Product ID', key: 'product_id', width: 20 },
+      { header: 'Product Code', key: 'product_code', width: 28 },
+      { header: 'Category', key: 'category', width: 18 },
+      { header: 'Primary Category', key: 'primary_category', width: 24 },
+      { header: 'Categories', key: 'categories', width: 40 },
+      { header: 'Image URL', key: 'image_url', width: 48 },
+      { header: 'Width (in)', key: 'width_in' },
+      { header: 'Height (in)', key: 'height_in' },
+      { header: 'Orientation', key: 'orientation', width: 12 },
+      { header: 'Color', key: 'color', width: 14 },
+      { header: 'Material', key: 'material', width: 14 },
+      { header: 'Attributes Status', key: 'attributes_status', width: 18 },
+      { header: 'Active', key: 'is_active' },
+      { header: 'Created', key: 'created_at', width: 20 },
+      { header: 'Updated', key: 'updated_at', width: 20 },
+    ],
+    rows: products.map(product => ({
+      sku: product.sku,
+      name: product.name,
+      product_id: product.product_id,
+      product_code: product.product_code,
+      category: product.category,
+      primary_category: product.primary_category_id
+        ? categoryById.get(product.primary_category_id)?.name ?? null
+        : null,
+      categories: (categoryNames.get(product.id) || []).sort().join('; '),
+      image_url: product.image_url,
+      width_in: toNumber(product.width_in),
+      height_in: toNumber(product.height_in),
+      orientation: product.orientation,
+      color: product.color,
+      material: product.material,
+      attributes_status: product.attributes_status,
+      is_active: product.is_active ?? true,
+      created_at: toDate(product.created_at),
+      updated_at: toDate(product.updated_at),
+    })),
+  }
+
+  const categorySheet: XLSXSheet = {
+    name: 'Categories',
+    columns: [
+      { header: 'Name', key: 'name', width: 32 },
+      { header: 'Parent', key: 'parent', width: 32 },
+      { header: 'Salesforce ID', key: 'salesforce_id', width: 20 },
+      { header: 'Custom', key: 'is_custom' },
+      { header: 'Products', key: 'products' },
+    ],
+    rows: categories
+      .slice()
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(category => ({
+        name: category.name,
+        parent: category.parent_category_id
+          ? categoryById.get(category.parent_category_id)?.name ?? null
+          : null,
+        salesforce_id: category.salesforce_id,
+        is_custom: !!category.is_custom,
+        products: productCounts.get(category.id) || 0,
+      })),
+  }
+
+  return [productSheet, categorySheet]
+}
+
+/**
+ * One worksheet for a production sheet: a row per item with a column per
+ * template field, plus any custom field values the template no longer has
+ */
+export function sheetExportSheets(
+  sheet: { job_number: string | null; status: string; template_name?: string | null },
+  fields: ExportSheetField[],
+  items: any[]
+): XLSXSheet[] {
+  const fieldIds = new Set(fields.map(f => f.id))
+  const extraKeys = new Set<string>()
+  items.forEach(item => {
+    Object.keys(item.custom_fields || {}).forEach(key => {
+      if (!fieldIds.has(key)) extraKeys.add(key)
+    })
+  })
+
+  const customColumns = [
+    ...fields.map(field => ({ header: field.label, key: `field:${field.id}`, id: field.id })),
+    ...Array.from(extraKeys).sort().map(key => ({ header: key, key: `field:${key}`, id: key })),
+  ]
+
+  const status = isSheetStatus(sheet.status) ? SHEET_STATUS_LABELS[sheet.status] : sheet.status
+
+  return [{
+    name: sheet.job_number ? `Job ${sheet.job_number}` : 'Sheet',
+    columns: [
+      { header: 'SKU', key: 'banner_sku', width: 18 },
+      { header: 'Name', key: 'banner_name', width: 48 },
+      { header: 'Qty in Order', key: 'qty_in_order', width: 13 },
+      { header: 'Stock Qty', key: 'stock_qty', width: 11 },
+      { header: 'Total', key: 'quantity' },
+      { header: 'Item Status', key: 'status', width: 14 },
+      ...customColumns.map(({ header, key }) => ({ header, key })),
+      { header: 'Job Number', key: 'job_number', width: 14 },
+      { header: 'Sheet Status', key: 'sheet_status', width: 14 },
+      { header: 'Template', key: 'template', width: 20 },
+      { header: 'Image URL', key: 'image_url', width: 48 },
+    ],
+    rows: items.map(item => {
+      const row: XLSXSheet['rows'][number] = {
+        banner_sku: item.banner_sku,
+        banner_name: item.banner_name,
+        qty_in_order: toNumber(item.qty_in_order),
+        stock_qty: toNumber(item.stock_qty),
+        quantity: toNumber(item.quantity),
+        status: item.status ?? null,
+        job_number: sheet.job_number,
+        sheet_status: status,
+        template: sheet.template_name ?? null,
+        image_url: item.image_url,
+      }
+      customColumns.forEach(column => {
+        const value = item.custom_fields?.[column.id]
+        row[column.key] = value === null || value === undefined
+          ? null
+          : typeof value === 'object' ? JSON.stringify(value) : value
+      })
+      return row
+    }),
+  }]
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest'
+import ExcelJS from 'exceljs'
+import { buildWorkbook, isXLSXFile, openXLSX } from './xlsx'
+
+async function toBlob(workbook: ExcelJS.Workbook): Promise<Blob> {
+  return new Blob([await workbook.xlsx.writeBuffer()])
+}
+
+async function readRows(reader: Awaited<ReturnType<typeof openXLSX>>) {
+  const rows = []
+  for await (const record of reader.rows) rows.push(record)
+  return rows
+}
+
+describe('isXLSXFile', () => {
+  it('recognizes workbooks by extension or content type', () => {
+    expect(isXLSXFile({ name: 'Products.XLSX' })).toBe(true)
+    expect(isXLSXFile({ name: 'upload', type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })).toBe(true)
+    expect(isXLSXFile({ name: 'products.csv', type: 'text/csv' })).toBe(false)
+  })
+})
+
+describe('openXLSX', () => {
+  it('skips title rows above the header and reads rows as CSV records', async () => {
+    const workbook = new ExcelJS.Workbook()
+    const sheet = workbook.addWorksheet('Products')
+    sheet.addRow(['Product export'])
+    sheet.addRow([])
+    sheet.addRow(['SKU', 'Name', 'Price'])
+    sheet.addRow(['A-1', 'Banner', 12.5])
+    sheet.addRow([])
+    sheet.addRow(['B-2', 'Flag', 3])
+
+    const reader = await openXLSX(await toBlob(workbook))
+    const rows = await readRows(reader)
+
+    expect(reader.headerRow).toBe(3)
+    expect(reader.headers).toEqual(['SKU', 'Name', 'Price'])
+    expect(reader.encoding).toBe('xlsx')
+    expect(rows).toEqual([
+      { row: { SKU: 'A-1', Name: 'Banner', Price: '12.5' }, lineNumber: 4, fieldCount: 3, unterminated: false },
+      { row: { SKU: 'B-2', Name: 'Flag', Price: '3' }, lineNumber: 6, fieldCount: 3, unterminated: false },
+    ])
+  })
+
+  it('uses the header row it is given', async () => {
+    const workbook = new ExcelJS.Workbook()
+    const sheet = workbook.addWorksheet('Products')
+    sheet.addRow(['Notes', 'Owner', 'Team'])
+    sheet.addRow(['SKU', 'Name'])
+    sheet.addRow(['A-1', 'Banner'])
+
+    const reader = await openXLSX(await toBlob(workbook), { headerRow: 2 })
+    expect(reader.headers).toEqual(['SKU', 'Name'])
+    expect((await readRows(reader)).map(r => r.row)).toEqual([{ SKU: 'A-1', Name: 'Banner' }])
+  })
+
+  it('reads dates, formulas, rich text, hyperlinks and merged cells as text', async () => {
+    const workbook = new ExcelJS.Workbook()
+    const sheet = workbook.addWorksheet('Data')
+    sheet.addRow(['Date', 'Total', 'Label', 'Link', 'Merged', 'Next'])
+    sheet.addRow([
+      new Date(Date.UTC(2024, 4, 1)),
+      { formula: 'A1*2', result: 42 },
+      { richText: [{ text: 'Bold' }, { text: ' part' }] },
+      { text: 'Site', hyperlink: 'https://example.com' },
+      'Spans',
+      null,
+    ])
+    sheet.mergeCells('E2:F2')
+
+    const rows = await readRows(await openXLSX(await toBlob(workbook)))
+    expect(rows[0].row).toEqual({
+      Date: '2024-05-01',
+      Total: '42',
+      Label: 'Bold part',
+      Link: 'Site',
+      Merged: 'Spans',
+      Next: '',
+    })
+  })
+
+  it('lists visible worksheets and opens the one asked for', async () => {
+    const workbook = new ExcelJS.Workbook()
+    workbook.addWorksheet('Hidden', { state: 'hidden' }).addRow(['x'])
+    workbook.addWorksheet('First').addRow(['SKU'])
+    const second = workbook.addWorksheet('Second')
+    second.addRow(['Name'])
+    second.addRow(['Flag'])
+
+    const blob = await toBlob(workbook)
+    const reader = await openXLSX(blob)
+    expect(reader.sheets).toEqual(['First', 'Second'])
+    expect(reader.sheet).toBe('First')
+
+    const chosen = await openXLSX(blob, { sheet: 'Second' })
+    expect((await readRows(chosen)).map(r => r.row)).toEqual([{ Name: 'Flag' }])
+
+    await expect(openXLSX(blob, { sheet: 'Missing' })).rejects.toThrow('Worksheet "Missing" not found')
+  })
+
+  it('names blank header cells by position and drops columns after the last header', async () => {
+    const workbook = new ExcelJS.Workbook()
+    const sheet = workbook.addWorksheet('Data')
+    sheet.getCell('A1').value = 'SKU'
+    sheet.getCell('C1').value = 'Name'
+    sheet.getCell('A2').value = 'A-1'
+    sheet.getCell('B2').value = 'x'
+    sheet.getCell('C2').value = 'Banner'
+    sheet.getCell('D2').value = 'ignored'
+
+    const reader = await openXLSX(await toBlob(workbook), { headerRow: 1 })
+    expect(reader.headers).toEqual(['SKU', 'Column 2', 'Name'])
+    expect((await readRows(reader))[0].row).toEqual({ SKU: 'A-1', 'Column 2': 'x', Name: 'Banner' })
+  })
+})
+
+describe('buildWorkbook', () => {
+  it('writes worksheets that read back with the same values', async () => {
+    const bytes = await buildWorkbook([
+      {
+        name: 'Products',
+        columns: [
+          { header: 'SKU', key: 'sku' },
+          { header: 'Stock', key: 'stock' },
+          { header: 'Active', key: 'active' },
+        ],
+        rows: [
+          { sku: 'A-1', stock: 4, active: true },
+          { sku: 'B-2', stock: null },
+        ],
+      },
+    ])
+
+    const reader = await openXLSX(new Blob([new Uint8Array(bytes)]))
+    expect(reader.headers).toEqual(['SKU', 'Stock', 'Active'])
+    expect((await readRows(reader)).map(r => r.row)).toEqual([
+      { SKU: 'A-1', Stock: '4', Active: 'true' },
+      { SKU: 'B-2', Stock: '', Active: '' },
+    ])
+  })
+
+  it('makes worksheet names valid and unique', async () => {
+    const long = 'A very long worksheet name over the limit'
+    const bytes = await buildWorkbook(
+      ['Sizes: 3/5', 'Sizes  3 5', long, long, ''].map(name => ({ name, columns: [{ header: 'x', key: 'x' }], rows: [] }))
+    )
+
+    const reader = await openXLSX(new Blob([new Uint8Array(bytes)]))
+    expect(reader.sheets).toEqual([
+      'Sizes 3 5',
+      'Sizes 3 5 (2)',
+      'A very long worksheet name over',
+      'A very long worksheet name (2)',
+      'Sheet',
+    ])
+  })
+})
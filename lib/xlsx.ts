@@ -0,0 +1,208 @@
+/**
+ * Excel (.xlsx) workbooks
+ * Imports read a worksheet into the same records as the CSV reader
+ * (csv-parser.ts), so the import routes validate both the same way; line
+ * numbers are Excel row numbers. Exports write one or more worksheets with
+ * a bold, frozen header row.
+ *
+ * Server only: exceljs is too large to ship to the browser, so the import
+ * wizard previews workbooks through /api/products/import/preview.
+ */
+
+import ExcelJS from 'exceljs'
+import type { CSVReader, CSVRecord, ParsedCSVRow } from './csv-parser'
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+export interface XLSXReader extends CSVReader {
+  /** Visible worksheets, in workbook order */
+  sheets: string[]
+  sheet: string
+  /** Excel row number of the header row */
+  headerRow: number
+}
+
+export interface XLSXSheet {
+  name: string
+  columns: { header: string; key: string; width?: number }[]
+  rows: Record<string, string | number | boolean | Date | null | undefined>[]
+}
+
+// Rows searched for the header when it is not given
+const HEADER_SEARCH_ROWS = 20
+// Excel's limit on worksheet names
+const MAX_SHEET_NAME_LENGTH = 31
+
+/**
+ * Whether an upload is a workbook rather than CSV, by extension or type
+ */
+export function isXLSXFile(file: { name?: string; type?: string }): boolean {
+  return /\.xlsx$/i.test(file.name || '') || file.type === XLSX_CONTENT_TYPE
+}
+
+/**
+ * Text of a cell as it would appear in a CSV export: dates as YYYY-MM-DD
+ * (with the time when there is one), formulas as their last result
+ */
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) {
+    const iso = value.toISOString()
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ')
+  }
+  if (typeof value !== 'object') return String(value)
+  if ('richText' in value) return value.richText.map(part => part.text).join('')
+  if ('hyperlink' in value) return cellText(value.text as ExcelJS.CellValue)
+  if ('formula' in value || 'sharedFormula' in value) {
+    return cellText((value as ExcelJS.CellFormulaValue).result as ExcelJS.CellValue)
+  }
+  if ('error' in value) return ''
+  return String(value)
+}
+
+/**
+ * Value of a cell; a merged range only has a value in its first cell
+ */
+function cellValue(row: ExcelJS.Row, column: number): ExcelJS.CellValue {
+  const cell = row.getCell(column)
+  return cell.isMerged && cell.master !== cell ? null : cell.value
+}
+
+function rowTexts(worksheet: ExcelJS.Worksheet, rowNumber: number, columnCount: number): string[] {
+  const row = worksheet.getRow(rowNumber)
+  const texts: string[] = []
+  for (let column = 1; column <= columnCount; column++) {
+    texts.push(cellText(cellValue(row, column)).trim())
+  }
+  return texts
+}
+
+/**
+ * The header is the first row, among the first few, that has the most
+ * filled cells and only text in them. Title rows and notes above the table
+ * are skipped that way.
+ */
+function detectHeaderRow(worksheet: ExcelJS.Worksheet, columnCount: number): number {
+  const lastRow = Math.min(worksheet.rowCount, HEADER_SEARCH_ROWS)
+  let best = 1
+  let bestCount = 0
+
+  for (let rowNumber = 1; rowNumber <= lastRow; rowNumber++) {
+    const row = worksheet.getRow(rowNumber)
+    let count = 0
+    let allText = true
+    for (let column = 1; column <= columnCount; column++) {
+      const value = cellValue(row, column)
+      if (value === null || value === undefined || cellText(value).trim() === '') continue
+      count++
+      if (typeof value !== 'string' && !(typeof value === 'object' && 'richText' in value)) allText = false
+    }
+    if (allText && count > bestCount) {
+      best = rowNumber
+      bestCount = count
+    }
+  }
+
+  return best
+}
+
+/**
+ * Open a worksheet of a workbook: the first visible one unless `sheet` is
+ * given, with the header row detected unless `headerRow` is given. Data
+ * rows come back as CSV records; empty rows are skipped.
+ */
+export async function openXLSX(
+  source: Blob | ArrayBuffer,
+  options: { sheet?: string | null; headerRow?: number | null } = {}
+): Promise<XLSXReader> {
+  const buffer = source instanceof ArrayBuffer ? source : await source.arrayBuffer()
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(buffer)
+
+  const visible = workbook.worksheets.filter(ws => ws.state === 'visible' || !ws.state)
+  const sheets = visible.map(ws => ws.name)
+  const worksheet = options.sheet ? workbook.getWorksheet(options.sheet) : visible[0]
+  if (!worksheet) {
+    throw new Error(options.sheet ? `Worksheet "${options.sheet}" not found` : 'The workbook has no worksheets')
+  }
+
+  const columnCount = worksheet.columnCount
+  const headerRow = options.headerRow && options.headerRow > 0
+    ? options.headerRow
+    : detectHeaderRow(worksheet, columnCount)
+
+  // Columns after the last header are dropped, as are blank header cells
+  const headerTexts = rowTexts(worksheet, headerRow, columnCount)
+  let lastHeader = headerTexts.length
+  while (lastHeader > 0 && !headerTexts[lastHeader - 1]) lastHeader--
+  const headers = headerTexts.slice(0, lastHeader).map((header, index) => header || `Column ${index + 1}`)
+
+  async function* records(): AsyncGenerator<CSVRecord> {
+    for (let rowNumber = headerRow + 1; rowNumber <= worksheet!.rowCount; rowNumber++) {
+      const values = rowTexts(worksheet!, rowNumber, headers.length)
+      if (values.every(value => value === '')) continue
+
+      const row: ParsedCSVRow = {}
+      headers.forEach((header, index) => {
+        row[header] = values[index]
+      })
+      yield { row, lineNumber: rowNumber, fieldCount: headers.length, unterminated: false }
+    }
+  }
+
+  return {
+    headers,
+    delimiter: '',
+    encoding: 'xlsx',
+    rows: records(),
+    sheets,
+    sheet: worksheet.name,
+    headerRow,
+  }
+}
+
+function sheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[\[\]:*?/\\]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet'
+  let candidate = base
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const suffix = ` (${n})`
+    candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length).trimEnd() + suffix
+  }
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+/**
+ * Write worksheets to an .xlsx file
+ */
+export async function buildWorkbook(sheets: XLSXSheet[]): Promise<Uint8Array> {
+  const workbook = new ExcelJS.Workbook()
+  const used = new Set<string>()
+
+  sheets.forEach(sheet => {
+    const worksheet = workbook.addWorksheet(sheetName(sheet.name, used), {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    })
+    worksheet.columns = sheet.columns.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: column.width ?? Math.min(Math.max(column.header.length + 2, 10), 40),
+    }))
+    worksheet.addRows(sheet.rows.map(row => {
+      const values: Record<string, any> = {}
+      sheet.columns.forEach(column => {
+        values[column.key] = row[column.key] ?? null
+      })
+      return values
+    }))
+    worksheet.getRow(1).font = { bold: true }
+    if (sheet.columns.length > 0) {
+      worksheet.autoFilter = {
+        from: { row: 1, column: 1 },
+        to: { row: 1, column: sheet.columns.length },
+      }
+    }
+  })
+
+  return new Uint8Array(await workbook.xlsx.writeBuffer())
+}
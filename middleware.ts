@@ -34,7 +34,9 @@ export async function middleware(request: NextRequest) {
   if (
     !user &&
     !request.nextUrl.pathname.startsWith('/login') &&
-    !request.nextUrl.pathname.startsWith('/api/auth')
+    !request.nextUrl.pathname.startsWith('/api/auth') &&
+    // Scheduled jobs authenticate with CRON_SECRET instead of a session
+    !request.nextUrl.pathname.startsWith('/api/cron')
   ) {
     const url = request.nextUrl.clone()
     url.pathname = '/login'
@@ -1,5 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // Loaded from node_modules at runtime instead of bundled (lib/xlsx.ts,
+    // lib/product-images.ts)
+    serverComponentsExternalPackages: ['exceljs', 'sharp'],
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,381 @@
+/**
+ * Local mock Salesforce server
+ *
+ * Enough of the OAuth and REST APIs for the app to run against without a
+ * real org: the authorize/token/revoke endpoints, SOQL queries (with
+ * paging), record updates and API limits. Records live in memory and start
+ * from the fixtures below, or from the JSON file in MOCK_SF_FIXTURES
+ * ({ "Order": [...], "OrderItem": [...], ... }).
+ *
+ *   npm run mock:salesforce
+ *   SALESFORCE_INSTANCE_URL=http://localhost:4010 npm run dev
+ *
+ * Test hooks under /__mock:
+ *   GET  /__mock/requests             every API request received
+ *   GET  /__mock/records/:type/:id    a record as it is now
+ *   POST /__mock/faults               { status, count, match?, errorCode?,
+ *                                     retryAfter? } fail the next `count` API
+ *                                     requests whose path contains `match`
+ *                                     with `status` (and a Retry-After header)
+ *   POST /__mock/expire               invalidate all access tokens (401 until
+ *                                     the app refreshes)
+ *   POST /__mock/reset                back to the fixtures
+ */
+
+import http from "node:http"
+import { readFileSync } from "node:fs"
+import { randomBytes } from "node:crypto"
+
+const PORT = Number(process.env.MOCK_SF_PORT || 4010)
+const BASE_URL = process.env.MOCK_SF_URL || `http://localhost:${PORT}`
+const PAGE_SIZE = Number(process.env.MOCK_SF_PAGE_SIZE || 2000)
+const DAILY_API_LIMIT = 15000
+const API_PREFIX = "/services/data/v58.0"
+
+const DEFAULT_FIXTURES = {
+  Product2: [
+    { Id: "01tMOCK000000001AAA", Name: "3x6 Vinyl Banner - Red", StockKeepingUnit: "BAN-3X6-RED", ProductCode: "Banners:3x6", IsActive: true },
+    { Id: "01tMOCK000000002AAA", Name: "4x8 Mesh Banner - Blue", StockKeepingUnit: "BAN-4X8-BLU", ProductCode: "Banners:4x8", IsActive: true },
+    { Id: "01tMOCK000000003AAA", Name: "Installation Service", StockKeepingUnit: null, ProductCode: "Services", IsActive: true },
+  ],
+  Order: [
+    {
+      Id: "801MOCK000000001AAA",
+      OrderNumber: "00000101",
+      Status: "Activated",
+      StatusCode: "Activated",
+      EffectiveDate: "2024-06-01",
+      PoNumber: "PO-5501",
+      TotalAmount: 1250,
+      Account: { Name: "Summit Outfitters" },
+      Production_Status__c: null,
+      Estimated_Completion_Date__c: null,
+      Production_Completed_At__c: null,
+    },
+    {
+      Id: "801MOCK000000002AAA",
+      OrderNumber: "00000102",
+      Status: "Draft",
+      StatusCode: "Draft",
+      EffectiveDate: "2024-06-03",
+      PoNumber: null,
+      TotalAmount: 300,
+      Account: { Name: "Canyon Print Co" },
+      Production_Status__c: null,
+      Estimated_Completion_Date__c: null,
+      Production_Completed_At__c: null,
+    },
+  ],
+  OrderItem: [
+    { Id: "802MOCK000000001AAA", OrderId: "801MOCK000000001AAA", OrderItemNumber: "0000000001", Product2Id: "01tMOCK000000001AAA", Quantity: 10 },
+    { Id: "802MOCK000000002AAA", OrderId: "801MOCK000000001AAA", OrderItemNumber: "0000000002", Product2Id: "01tMOCK000000002AAA", Quantity: 4 },
+    { Id: "802MOCK000000003AAA", OrderId: "801MOCK000000001AAA", OrderItemNumber: "0000000003", Product2Id: "01tMOCK000000003AAA", Quantity: 1 },
+    { Id: "802MOCK000000004AAA", OrderId: "801MOCK000000002AAA", OrderItemNumber: "0000000001", Product2Id: "01tMOCK000000001AAA", Quantity: 2 },
+  ],
+  ProductCategory: [],
+  ProductCategoryProduct: [],
+  ProductMedia: [],
+  ManagedContent: [],
+}
+
+let records
+let requests
+let faults
+let accessTokens
+let apiCalls
+
+function reset() {
+  const fixtures = process.env.MOCK_SF_FIXTURES
+    ? JSON.parse(readFileSync(process.env.MOCK_SF_FIXTURES, "utf8"))
+    : DEFAULT_FIXTURES
+  records = structuredClone(fixtures)
+  requests = []
+  faults = []
+  accessTokens = new Set(["mock-access-token"])
+  apiCalls = 0
+}
+
+function send(res, status, body, headers = {}) {
+  if (body === undefined) {
+    res.writeHead(status, headers)
+    res.end()
+    return
+  }
+  res.writeHead(status, { "Content-Type": "application/json", ...headers })
+  res.end(JSON.stringify(body))
+}
+
+function sfError(res, status, errorCode, message, headers = {}) {
+  send(res, status, [{ message, errorCode }], headers)
+}
+
+async function readBody(req) {
+  let data = ""
+  for await (const chunk of req) data += chunk
+  return data
+}
+
+function newToken() {
+  const token = `mock-${randomBytes(12).toString("hex")}`
+  accessTokens.add(token)
+  return {
+    access_token: token,
+    instance_url: BASE_URL,
+    id: `${BASE_URL}/id/00DMOCK/005MOCK`,
+    token_type: "Bearer",
+    issued_at: String(Date.now()),
+    expires_in: 7200,
+    signature: "mock",
+  }
+}
+
+/**
+ * Related records the app selects through relationship fields
+ */
+function withRelationships(type, record) {
+  if (type === "OrderItem" && record.Product2Id && !record.Product2) {
+    const product = (records.Product2 || []).find((p) => p.Id === record.Product2Id)
+    return { ...record, Product2: product ? { Name: product.Name, StockKeepingUnit: product.StockKeepingUnit } : null }
+  }
+  return record
+}
+
+function soqlValue(raw) {
+  const value = raw.trim()
+  if (value.startsWith("'")) return value.slice(1, -1).replace(/\\(.)/g, "$1")
+  if (value === "true" || value === "false") return value === "true"
+  if (value === "null") return null
+  return isNaN(Number(value)) ? value : Number(value)
+}
+
+function fieldValue(record, path) {
+  return path.split(".").reduce((value, key) => (value == null ? value : value[key]), record)
+}
+
+/**
+ * A small SOQL subset: FROM, WHERE conditions joined by AND using =, IN,
+ * LIKE and >, ORDER BY is ignored, LIMIT
+ */
+function runQuery(soql) {
+  const from = soql.match(/\bFROM\s+(\w+)/i)
+  if (!from) throw new Error("MALFORMED_QUERY: missing FROM")
+  const type = from[1]
+  if (!records[type]) throw new Error(`INVALID_TYPE: sObject type '${type}' is not supported`)
+
+  let result = records[type].map((record) => withRelationships(type, record))
+
+  const where = soql.match(/\bWHERE\s+(.+?)(?:\s+ORDER BY|\s+LIMIT|$)/i)
+  if (where) {
+    const conditions = where[1].split(/\s+AND\s+/i)
+    for (const condition of conditions) {
+      if (/\s+OR\s+/i.test(condition)) {
+        // (A LIKE x OR B LIKE x): keep records matching any of them
+        const parts = condition.replace(/^\(|\)$/g, "").split(/\s+OR\s+/i)
+        result = result.filter((record) => parts.some((part) => matches(record, part)))
+      } else {
+        result = result.filter((record) => matches(record, condition))
+      }
+    }
+  }
+
+  const limit = soql.match(/\bLIMIT\s+(\d+)/i)
+  if (limit) result = result.slice(0, Number(limit[1]))
+
+  return result.map((record) => ({ attributes: { type, url: `${API_PREFIX}/sobjects/${type}/${record.Id}` }, ...record }))
+}
+
+function matches(record, condition) {
+  let m = condition.match(/^\(?\s*([\w.]+)\s+IN\s+\((.*)\)\s*\)?$/i)
+  if (m) {
+    const values = m[2].split(",").map(soqlValue)
+    return values.includes(fieldValue(record, m[1]))
+  }
+  m = condition.match(/^\(?\s*([\w.]+)\s+LIKE\s+(.+?)\s*\)?$/i)
+  if (m) {
+    const pattern = String(soqlValue(m[2]))
+    const regex = new RegExp(
+      `^${pattern.split("%").map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/_/g, ".")).join(".*")}$`,
+      "i"
+    )
+    return regex.test(String(fieldValue(record, m[1]) ?? ""))
+  }
+  m = condition.match(/^\(?\s*([\w.]+)\s*(=|!=|>|<)\s*(.+?)\s*\)?$/)
+  if (m) {
+    const actual = fieldValue(record, m[1])
+    const expected = /^\d{4}-\d{2}-\d{2}T/.test(m[3]) ? m[3] : soqlValue(m[3])
+    if (m[2] === "=") return actual === expected
+    if (m[2] === "!=") return actual !== expected
+    if (m[2] === ">") return actual > expected
+    return actual < expected
+  }
+  throw new Error(`MALFORMED_QUERY: unsupported condition '${condition}'`)
+}
+
+const cursors = new Map()
+
+function queryPage(res, all, offset) {
+  const page = all.slice(offset, offset + PAGE_SIZE)
+  const done = offset + PAGE_SIZE >= all.length
+  let nextRecordsUrl
+  if (!done) {
+    const cursor = `01gMOCK${randomBytes(6).toString("hex")}-${offset + PAGE_SIZE}`
+    cursors.set(cursor, all)
+    nextRecordsUrl = `${API_PREFIX}/query/${cursor}`
+  }
+  send(res, 200, { totalSize: all.length, done, records: page, ...(nextRecordsUrl && { nextRecordsUrl }) })
+}
+
+async function handleApi(req, res, url) {
+  const auth = req.headers.authorization || ""
+  if (!accessTokens.has(auth.replace(/^Bearer\s+/i, ""))) {
+    return sfError(res, 401, "INVALID_SESSION_ID", "Session expired or invalid")
+  }
+
+  const faultIndex = faults.findIndex((fault) => !fault.match || url.pathname.includes(fault.match))
+  if (faultIndex !== -1) {
+    const fault = faults[faultIndex]
+    if (--fault.count <= 0) faults.splice(faultIndex, 1)
+    const headers = fault.retryAfter !== undefined ? { "Retry-After": String(fault.retryAfter) } : {}
+    return sfError(res, fault.status, fault.errorCode || "MOCK_FAULT", `Injected ${fault.status} from mock server`, headers)
+  }
+
+  apiCalls++
+  const path = url.pathname.slice(API_PREFIX.length)
+
+  if (req.method === "GET" && path === "/limits") {
+    return send(res, 200, {
+      DailyApiRequests: { Max: DAILY_API_LIMIT, Remaining: Math.max(0, DAILY_API_LIMIT - apiCalls) },
+      DailyBulkApiRequests: { Max: 10000, Remaining: 10000 },
+    })
+  }
+
+  if (req.method === "GET" && (path === "/query" || path === "/query/")) {
+    try {
+      return queryPage(res, runQuery(url.searchParams.get("q") || ""), 0)
+    } catch (error) {
+      const [errorCode, ...message] = error.message.split(": ")
+      return sfError(res, 400, errorCode, message.join(": ") || error.message)
+    }
+  }
+
+  const cursor = path.match(/^\/query\/(.+)$/)
+  if (req.method === "GET" && cursor) {
+    const all = cursors.get(cursor[1])
+    if (!all) return sfError(res, 400, "INVALID_QUERY_LOCATOR", "invalid query locator")
+    return queryPage(res, all, Number(cursor[1].split("-").pop()))
+  }
+
+  const sobject = path.match(/^\/sobjects\/(\w+)\/(\w+)$/)
+  if (sobject) {
+    const [, type, id] = sobject
+    const record = (records[type] || []).find((r) => r.Id === id || r.Id.slice(0, 15) === id)
+    if (!record) return sfError(res, 404, "NOT_FOUND", "The requested resource does not exist")
+
+    if (req.method === "GET") return send(res, 200, withRelationships(type, record))
+
+    if (req.method === "PATCH") {
+      let fields
+      try {
+        fields = JSON.parse((await readBody(req)) || "{}")
+      } catch {
+        return sfError(res, 400, "JSON_PARSER_ERROR", "Invalid JSON")
+      }
+      const unknown = Object.keys(fields).filter((field) => !(field in record))
+      if (unknown.length > 0) {
+        return sfError(res, 400, "INVALID_FIELD", `No such column '${unknown[0]}' on sobject of type ${type}`)
+      }
+      Object.assign(record, fields)
+      return send(res, 204)
+    }
+  }
+
+  sfError(res, 404, "NOT_FOUND", `The requested resource does not exist: ${req.method} ${url.pathname}`)
+}
+
+async function handleOAuth(req, res, url) {
+  if (url.pathname === "/services/oauth2/authorize") {
+    const redirectUri = url.searchParams.get("redirect_uri")
+    if (!redirectUri) return send(res, 400, { error: "invalid_request", error_description: "missing redirect_uri" })
+    const target = new URL(redirectUri)
+    target.searchParams.set("code", `mock-code-${randomBytes(6).toString("hex")}`)
+    if (url.searchParams.get("state")) target.searchParams.set("state", url.searchParams.get("state"))
+    return send(res, 302, undefined, { Location: target.toString() })
+  }
+
+  const params = new URLSearchParams(await readBody(req))
+
+  if (url.pathname === "/services/oauth2/token" && req.method === "POST") {
+    const grantType = params.get("grant_type")
+    if (grantType === "authorization_code") {
+      return send(res, 200, { ...newToken(), refresh_token: "mock-refresh-token" })
+    }
+    if (grantType === "refresh_token") {
+      if (params.get("refresh_token") !== "mock-refresh-token") {
+        return send(res, 400, { error: "invalid_grant", error_description: "expired access/refresh token" })
+      }
+      return send(res, 200, newToken())
+    }
+    return send(res, 400, { error: "unsupported_grant_type", error_description: "grant type not supported" })
+  }
+
+  if (url.pathname === "/services/oauth2/revoke" && req.method === "POST") {
+    accessTokens.delete(params.get("token") || "")
+    return send(res, 200)
+  }
+
+  send(res, 404, { error: "not_found" })
+}
+
+async function handleMock(req, res, url) {
+  if (req.method === "GET" && url.pathname === "/__mock/requests") return send(res, 200, requests)
+
+  const record = url.pathname.match(/^\/__mock\/records\/(\w+)\/(\w+)$/)
+  if (req.method === "GET" && record) {
+    const found = (records[record[1]] || []).find((r) => r.Id === record[2])
+    return found ? send(res, 200, found) : send(res, 404, { error: "not_found" })
+  }
+
+  if (req.method === "POST" && url.pathname === "/__mock/faults") {
+    const fault = JSON.parse((await readBody(req)) || "{}")
+    faults.push({
+      status: Number(fault.status) || 500,
+      count: Number(fault.count) || 1,
+      match: fault.match,
+      errorCode: fault.errorCode,
+      retryAfter: fault.retryAfter,
+    })
+    return send(res, 200, { faults })
+  }
+
+  if (req.method === "POST" && url.pathname === "/__mock/expire") {
+    accessTokens.clear()
+    return send(res, 200, { expired: true })
+  }
+
+  if (req.method === "POST" && url.pathname === "/__mock/reset") {
+    reset()
+    return send(res, 200, { reset: true })
+  }
+
+  send(res, 404, { error: "not_found" })
+}
+
+reset()
+
+http
+  .createServer(async (req, res) => {
+    const url = new URL(req.url || "/", BASE_URL)
+    try {
+      if (url.pathname.startsWith("/__mock/")) return await handleMock(req, res, url)
+
+      requests.push({ method: req.method, path: url.pathname + url.search, at: new Date().toISOString() })
+      if (url.pathname.startsWith("/services/oauth2/")) return await handleOAuth(req, res, url)
+      if (url.pathname.startsWith(API_PREFIX)) return await handleApi(req, res, url)
+      send(res, 404, { error: "not_found" })
+    } catch (error) {
+      send(res, 500, [{ message: error.message, errorCode: "UNKNOWN_EXCEPTION" }])
+    }
+  })
+  .listen(PORT, () => {
+    console.log(`Mock Salesforce listening on ${BASE_URL}`)
+  })
@@ -0,0 +1,47 @@
+/**
+ * Re-encrypt the stored Salesforce tokens with the active key version
+ *
+ * The tokens can only be decrypted where the keys are configured, so this
+ * asks the deployed app to do it:
+ *
+ *   APP_URL=https://your-vercel-app.vercel.app CRON_SECRET=... npm run rotate:salesforce-key
+ *   npm run rotate:salesforce-key -- --force    re-encrypt even if already current
+ */
+
+const appUrl = (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "")
+const cronSecret = process.env.CRON_SECRET
+
+if (!cronSecret) {
+  console.error("CRON_SECRET is not set")
+  process.exit(1)
+}
+
+const force = process.argv.includes("--force")
+
+try {
+  const response = await fetch(`${appUrl}/api/cron/salesforce-key-rotation`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${cronSecret}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ force }),
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    console.error(`Rotation failed (${response.status}): ${data.error || response.statusText}`)
+    process.exit(1)
+  }
+
+  if (data.fromVersion === null && !data.rotated) {
+    console.log("No Salesforce connection is stored; nothing to re-encrypt.")
+  } else if (data.rotated) {
+    console.log(`Re-encrypted the Salesforce tokens: key version ${data.fromVersion ?? "1 (legacy)"} -> ${data.toVersion}.`)
+  } else {
+    console.log(`The Salesforce tokens already use key version ${data.toVersion}.`)
+  }
+} catch (error) {
+  console.error(`Could not reach ${appUrl}: ${error.message}`)
+  process.exit(1)
+}
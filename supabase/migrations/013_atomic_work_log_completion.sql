@@ -0,0 +1,193 @@
+-- ============================================================
+-- Migration 013: Atomic, race-safe work log completions
+-- ============================================================
+
+-- 1. Row version on sheet_items for optimistic concurrency.
+--    Every UPDATE bumps the version, so a client holding a stale copy of an
+--    item can be detected and told to refresh.
+ALTER TABLE public.sheet_items
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.bump_sheet_item_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sheet_items_bump_version ON public.sheet_items;
+CREATE TRIGGER sheet_items_bump_version
+  BEFORE UPDATE ON public.sheet_items
+  FOR EACH ROW EXECUTE FUNCTION public.bump_sheet_item_version();
+
+-- 2. Recalculate the job status from its product statuses.
+--    Same rules as updateJobStatus in app/api/work-logs/route.ts:
+--      - ALL items 'complete'                            → 'completed'
+--      - ANY item working / partially_complete / complete → 'production_started'
+--      - otherwise leave as-is
+CREATE OR REPLACE FUNCTION public.refresh_sheet_status(p_sheet_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_total INTEGER;
+  v_complete INTEGER;
+  v_started INTEGER;
+  v_status TEXT;
+BEGIN
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE status = 'complete'),
+    COUNT(*) FILTER (WHERE status IN ('working', 'partially_complete', 'complete'))
+  INTO v_total, v_complete, v_started
+  FROM public.sheet_items
+  WHERE sheet_id = p_sheet_id;
+
+  IF v_total = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_complete = v_total THEN
+    v_status := 'completed';
+  ELSIF v_started > 0 THEN
+    v_status := 'production_started';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.production_sheets
+  SET
+    status = v_status,
+    updated_at = TIMEZONE('utc'::text, NOW()),
+    completed_at = CASE
+      WHEN v_status = 'completed' THEN TIMEZONE('utc'::text, NOW())
+      ELSE completed_at
+    END
+  WHERE id = p_sheet_id;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 3. Log a completion for one or more items in a single transaction.
+--
+--    p_items: [{ item_id, qty_completed, expected_version? }]
+--
+--    All referenced items are locked up front. If any expected_version does
+--    not match the current row version nothing is written and the fresh rows
+--    are returned as { conflict: true, items: [...] }. Otherwise the qty split
+--    (order first, then stock), item statuses, the work_logs row and the job
+--    status are all written together and { conflict: false, log_id } is
+--    returned.
+CREATE OR REPLACE FUNCTION public.log_work_completion(
+  p_sheet_id UUID,
+  p_items JSONB,
+  p_hours NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_entry JSONB;
+  v_item public.sheet_items%ROWTYPE;
+  v_qty INTEGER;
+  v_add_order INTEGER;
+  v_add_stock INTEGER;
+  v_new_order INTEGER;
+  v_new_stock INTEGER;
+  v_new_status TEXT;
+  v_conflicts JSONB := '[]'::jsonb;
+  v_details JSONB := '[]'::jsonb;
+  v_log_id UUID;
+BEGIN
+  -- Lock in id order so concurrent calls touching the same items cannot deadlock
+  FOR v_item IN
+    SELECT *
+    FROM public.sheet_items
+    WHERE sheet_id = p_sheet_id
+      AND id IN (
+        SELECT (e->>'item_id')::uuid
+        FROM jsonb_array_elements(p_items) AS e
+        WHERE e->>'item_id' IS NOT NULL
+      )
+    ORDER BY id
+    FOR UPDATE
+  LOOP
+    SELECT e INTO v_entry
+    FROM jsonb_array_elements(p_items) AS e
+    WHERE (e->>'item_id')::uuid = v_item.id
+    LIMIT 1;
+
+    IF v_entry->>'expected_version' IS NOT NULL
+      AND (v_entry->>'expected_version')::int <> v_item.version THEN
+      v_conflicts := v_conflicts || jsonb_build_array(to_jsonb(v_item));
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_conflicts) > 0 THEN
+    RETURN jsonb_build_object('conflict', true, 'items', v_conflicts);
+  END IF;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    IF v_entry->>'item_id' IS NULL OR v_entry->>'qty_completed' IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_item
+    FROM public.sheet_items
+    WHERE id = (v_entry->>'item_id')::uuid
+      AND sheet_id = p_sheet_id;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    v_qty := (v_entry->>'qty_completed')::int;
+
+    -- Priority: fill qty_in_order first, then stock_qty
+    v_add_order := LEAST(
+      v_qty,
+      GREATEST(0, COALESCE(v_item.qty_in_order, 0) - v_item.qty_in_order_completed)
+    );
+    v_add_stock := LEAST(
+      v_qty - v_add_order,
+      GREATEST(0, COALESCE(v_item.stock_qty, 0) - v_item.stock_qty_completed)
+    );
+
+    v_new_order := v_item.qty_in_order_completed + v_add_order;
+    v_new_stock := v_item.stock_qty_completed + v_add_stock;
+
+    IF v_new_order >= COALESCE(v_item.qty_in_order, 0)
+      AND v_new_stock >= COALESCE(v_item.stock_qty, 0) THEN
+      v_new_status := 'complete';
+    ELSE
+      v_new_status := 'partially_complete';
+    END IF;
+
+    UPDATE public.sheet_items
+    SET
+      qty_in_order_completed = v_new_order,
+      stock_qty_completed = v_new_stock,
+      status = v_new_status,
+      updated_at = TIMEZONE('utc'::text, NOW())
+    WHERE id = v_item.id;
+
+    v_details := v_details || jsonb_build_array(jsonb_build_object(
+      'item_id', v_item.id,
+      'qty_completed', v_qty,
+      'added_to_order', v_add_order,
+      'added_to_stock', v_add_stock,
+      'qty_in_order_completed', v_new_order,
+      'stock_qty_completed', v_new_stock,
+      'status', v_new_status
+    ));
+  END LOOP;
+
+  INSERT INTO public.work_logs (sheet_id, user_id, work_type, hours, notes, items_completed)
+  VALUES (p_sheet_id, auth.uid(), 'log_completion', p_hours, p_notes, v_details)
+  RETURNING id INTO v_log_id;
+
+  PERFORM public.refresh_sheet_status(p_sheet_id);
+
+  RETURN jsonb_build_object('conflict', false, 'log_id', v_log_id);
+END;
+$$ LANGUAGE plpgsql;
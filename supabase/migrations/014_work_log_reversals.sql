@@ -0,0 +1,170 @@
+-- ============================================================
+-- Migration 014: Reversal of work log entries
+-- ============================================================
+
+-- 1. Reversal tracking on work_logs. Reversed entries are kept (and shown
+--    struck through) so the activity history stays complete.
+ALTER TABLE public.work_logs
+  ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.work_logs
+  ADD COLUMN IF NOT EXISTS reversed_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.work_logs
+  ADD COLUMN IF NOT EXISTS reversal_reason TEXT;
+
+-- 2. Job status recalculation now clears completed_at when a job drops back
+--    from 'completed' to 'production_started' (e.g. after a reversal).
+CREATE OR REPLACE FUNCTION public.refresh_sheet_status(p_sheet_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_total INTEGER;
+  v_complete INTEGER;
+  v_started INTEGER;
+  v_status TEXT;
+BEGIN
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE status = 'complete'),
+    COUNT(*) FILTER (WHERE status IN ('working', 'partially_complete', 'complete'))
+  INTO v_total, v_complete, v_started
+  FROM public.sheet_items
+  WHERE sheet_id = p_sheet_id;
+
+  IF v_total = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_complete = v_total THEN
+    v_status := 'completed';
+  ELSIF v_started > 0 THEN
+    v_status := 'production_started';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.production_sheets
+  SET
+    status = v_status,
+    updated_at = TIMEZONE('utc'::text, NOW()),
+    completed_at = CASE
+      WHEN v_status = 'completed' THEN COALESCE(completed_at, TIMEZONE('utc'::text, NOW()))
+      ELSE NULL
+    END
+  WHERE id = p_sheet_id;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 3. Reverse a log_completion entry in a single transaction.
+--
+--    Subtracts the quantities recorded in items_completed from each item,
+--    recomputes item statuses and the job status, and stamps the log as
+--    reversed. Entries written since migration 013 record the exact
+--    order/stock split; older entries only carry qty_completed, so that is
+--    taken back from stock first, then order (the reverse of the fill order).
+--
+--    Only the author of the entry or a manager may reverse it. Returns
+--    { error: 'not_found' | 'forbidden' | 'not_reversible' | 'already_reversed' }
+--    or { error: null, sheet_id }.
+CREATE OR REPLACE FUNCTION public.reverse_work_log(
+  p_log_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_log public.work_logs%ROWTYPE;
+  v_role TEXT;
+  v_entry JSONB;
+  v_item public.sheet_items%ROWTYPE;
+  v_sub_order INTEGER;
+  v_sub_stock INTEGER;
+  v_qty INTEGER;
+  v_new_order INTEGER;
+  v_new_stock INTEGER;
+  v_new_status TEXT;
+BEGIN
+  SELECT * INTO v_log
+  FROM public.work_logs
+  WHERE id = p_log_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'not_found');
+  END IF;
+
+  SELECT role INTO v_role FROM public.users WHERE id = auth.uid();
+
+  IF v_log.user_id IS DISTINCT FROM auth.uid() AND v_role IS DISTINCT FROM 'manager' THEN
+    RETURN jsonb_build_object('error', 'forbidden');
+  END IF;
+
+  IF v_log.work_type <> 'log_completion' THEN
+    RETURN jsonb_build_object('error', 'not_reversible');
+  END IF;
+
+  IF v_log.reversed_at IS NOT NULL THEN
+    RETURN jsonb_build_object('error', 'already_reversed');
+  END IF;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(v_log.items_completed, '[]'::jsonb))
+  LOOP
+    IF v_entry->>'item_id' IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_item
+    FROM public.sheet_items
+    WHERE id = (v_entry->>'item_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    IF v_entry ? 'added_to_order' THEN
+      v_sub_order := COALESCE((v_entry->>'added_to_order')::int, 0);
+      v_sub_stock := COALESCE((v_entry->>'added_to_stock')::int, 0);
+    ELSE
+      v_qty := COALESCE((v_entry->>'qty_completed')::int, 0);
+      v_sub_stock := LEAST(v_qty, v_item.stock_qty_completed);
+      v_sub_order := LEAST(v_qty - v_sub_stock, v_item.qty_in_order_completed);
+    END IF;
+
+    v_new_order := GREATEST(0, v_item.qty_in_order_completed - v_sub_order);
+    v_new_stock := GREATEST(0, v_item.stock_qty_completed - v_sub_stock);
+
+    -- Work had been started on the item to log against it, so with nothing
+    -- left completed it goes back to 'working' rather than 'not_started'
+    IF v_new_order >= COALESCE(v_item.qty_in_order, 0)
+      AND v_new_stock >= COALESCE(v_item.stock_qty, 0)
+      AND v_new_order + v_new_stock > 0 THEN
+      v_new_status := 'complete';
+    ELSIF v_new_order + v_new_stock > 0 THEN
+      v_new_status := 'partially_complete';
+    ELSE
+      v_new_status := 'working';
+    END IF;
+
+    UPDATE public.sheet_items
+    SET
+      qty_in_order_completed = v_new_order,
+      stock_qty_completed = v_new_stock,
+      status = v_new_status,
+      updated_at = TIMEZONE('utc'::text, NOW())
+    WHERE id = v_item.id;
+  END LOOP;
+
+  UPDATE public.work_logs
+  SET
+    reversed_at = TIMEZONE('utc'::text, NOW()),
+    reversed_by = auth.uid(),
+    reversal_reason = p_reason
+  WHERE id = p_log_id;
+
+  PERFORM public.refresh_sheet_status(v_log.sheet_id);
+
+  RETURN jsonb_build_object('error', NULL, 'sheet_id', v_log.sheet_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,94 @@
+-- ============================================================
+-- Migration 015: Sheet status state machine and history
+-- ============================================================
+
+-- 1. History of every production_sheets.status change
+CREATE TABLE IF NOT EXISTS public.sheet_status_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sheet_id UUID NOT NULL REFERENCES public.production_sheets(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'auto')),
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sheet_status_history_sheet_id ON public.sheet_status_history(sheet_id);
+CREATE INDEX IF NOT EXISTS idx_sheet_status_history_created_at ON public.sheet_status_history(created_at);
+
+ALTER TABLE public.sheet_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all sheet status history"
+  ON public.sheet_status_history FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can record their own status changes"
+  ON public.sheet_status_history FOR INSERT
+  WITH CHECK (changed_by = auth.uid());
+
+-- 2. Automatic job status recalculation now follows the state machine in
+--    lib/sheet-status.ts: only transitions marked `automatic` there are
+--    applied (drafts are never moved), and each change is recorded.
+CREATE OR REPLACE FUNCTION public.refresh_sheet_status(p_sheet_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_total INTEGER;
+  v_complete INTEGER;
+  v_started INTEGER;
+  v_current TEXT;
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_current
+  FROM public.production_sheets
+  WHERE id = p_sheet_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE status = 'complete'),
+    COUNT(*) FILTER (WHERE status IN ('working', 'partially_complete', 'complete'))
+  INTO v_total, v_complete, v_started
+  FROM public.sheet_items
+  WHERE sheet_id = p_sheet_id;
+
+  IF v_total = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_complete = v_total THEN
+    v_status := 'completed';
+  ELSIF v_started > 0 THEN
+    v_status := 'production_started';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  IF v_status = v_current OR NOT (
+    (v_current = 'in_production' AND v_status IN ('production_started', 'completed'))
+    OR (v_current = 'production_started' AND v_status = 'completed')
+    OR (v_current = 'completed' AND v_status = 'production_started')
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.production_sheets
+  SET
+    status = v_status,
+    updated_at = TIMEZONE('utc'::text, NOW()),
+    completed_at = CASE
+      WHEN v_status = 'completed' THEN TIMEZONE('utc'::text, NOW())
+      ELSE NULL
+    END
+  WHERE id = p_sheet_id;
+
+  INSERT INTO public.sheet_status_history (sheet_id, from_status, to_status, changed_by, source)
+  VALUES (p_sheet_id, v_current, v_status, auth.uid(), 'auto');
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
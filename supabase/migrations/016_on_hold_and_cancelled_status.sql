@@ -0,0 +1,29 @@
+-- ============================================================
+-- Migration 016: On-hold and cancelled job states
+-- ============================================================
+
+-- 1. Why a job is on hold / cancelled, and since when it has been held
+ALTER TABLE public.production_sheets
+  ADD COLUMN IF NOT EXISTS status_reason TEXT;
+
+ALTER TABLE public.production_sheets
+  ADD COLUMN IF NOT EXISTS on_hold_since TIMESTAMP WITH TIME ZONE;
+
+-- 2. Allow the new states; both require a reason
+ALTER TABLE public.production_sheets
+  DROP CONSTRAINT IF EXISTS production_sheets_status_check;
+
+ALTER TABLE public.production_sheets
+  ADD CONSTRAINT production_sheets_status_check
+    CHECK (status IN ('draft', 'in_production', 'production_started', 'on_hold', 'completed', 'cancelled'));
+
+ALTER TABLE public.production_sheets
+  DROP CONSTRAINT IF EXISTS production_sheets_status_reason_check;
+
+ALTER TABLE public.production_sheets
+  ADD CONSTRAINT production_sheets_status_reason_check
+    CHECK (status NOT IN ('on_hold', 'cancelled') OR NULLIF(TRIM(status_reason), '') IS NOT NULL);
+
+-- refresh_sheet_status() (migration 015) only moves in_production,
+-- production_started and completed sheets, so held and cancelled jobs are
+-- never changed by work log activity.
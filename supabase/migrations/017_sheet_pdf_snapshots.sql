@@ -0,0 +1,45 @@
+-- ============================================================
+-- Migration 017: Printed sheet PDF snapshots
+-- ============================================================
+
+-- 1. One row per distinct printed version of a sheet. The PDF itself lives
+--    in the sheet-pdfs storage bucket; identical renders share a version.
+CREATE TABLE IF NOT EXISTS public.sheet_pdf_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sheet_id UUID NOT NULL REFERENCES public.production_sheets(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  storage_path TEXT NOT NULL,
+  sha256 TEXT NOT NULL,
+  byte_size INTEGER NOT NULL,
+  sheet_status TEXT,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  UNIQUE (sheet_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sheet_pdf_snapshots_sheet_id ON public.sheet_pdf_snapshots(sheet_id);
+
+ALTER TABLE public.sheet_pdf_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all sheet PDF snapshots"
+  ON public.sheet_pdf_snapshots FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can record their own sheet PDF snapshots"
+  ON public.sheet_pdf_snapshots FOR INSERT
+  WITH CHECK (created_by = auth.uid());
+
+-- 2. Private bucket for the PDFs; files are served through signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('sheet-pdfs', 'sheet-pdfs', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Authenticated users can read sheet PDFs"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'sheet-pdfs');
+
+CREATE POLICY "Authenticated users can upload sheet PDFs"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'sheet-pdfs');
@@ -0,0 +1,55 @@
+-- ============================================================
+-- Migration 018: Scheduled Salesforce catalog sync
+-- ============================================================
+
+-- 1. Products deactivated in Salesforce are kept but hidden from selection
+ALTER TABLE public.product_catalog
+  ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE public.product_catalog
+  ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+
+-- Salesforce SystemModstamp of the record last applied to this row
+ALTER TABLE public.product_catalog
+  ADD COLUMN IF NOT EXISTS salesforce_modified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_product_catalog_is_active ON public.product_catalog(is_active);
+
+-- 2. One row per sync run. The next delta sync picks up records modified
+--    after the watermark of the last successful run.
+CREATE TABLE IF NOT EXISTS public.sync_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  source TEXT NOT NULL DEFAULT 'salesforce',
+  trigger TEXT NOT NULL DEFAULT 'cron' CHECK (trigger IN ('cron', 'manual')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  triggered_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  -- Records with SystemModstamp after this were requested (NULL = full sync)
+  modified_since TIMESTAMP WITH TIME ZONE,
+  -- Latest SystemModstamp seen; the next run starts from here
+  watermark TIMESTAMP WITH TIME ZONE,
+  products_upserted INTEGER NOT NULL DEFAULT 0,
+  products_deactivated INTEGER NOT NULL DEFAULT 0,
+  categories_upserted INTEGER NOT NULL DEFAULT 0,
+  mappings_upserted INTEGER NOT NULL DEFAULT 0,
+  api_calls INTEGER NOT NULL DEFAULT 0,
+  api_requests_remaining INTEGER,
+  api_requests_max INTEGER,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_source_status ON public.sync_runs(source, status);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started_at ON public.sync_runs(started_at);
+
+ALTER TABLE public.sync_runs ENABLE ROW LEVEL SECURITY;
+
+-- Runs are written by the scheduled job with the service role; managers can read them
+CREATE POLICY "Managers can view sync runs"
+  ON public.sync_runs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'manager'
+    )
+  );
@@ -0,0 +1,83 @@
+-- ============================================================
+-- Migration 019: Catalog import history
+-- ============================================================
+
+-- 1. One row per catalog import (Salesforce, CSV triple, legacy CSV)
+CREATE TABLE IF NOT EXISTS public.import_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  source TEXT NOT NULL CHECK (source IN ('salesforce', 'csv', 'legacy_csv')),
+  user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  -- Salesforce API calls made by the import, and the org's daily limit after it
+  api_calls INTEGER,
+  api_requests_remaining INTEGER,
+  api_requests_max INTEGER,
+  -- Source-specific statistics (file names, categories, mappings...)
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_runs_started_at ON public.import_runs(started_at);
+CREATE INDEX IF NOT EXISTS idx_import_runs_user_id ON public.import_runs(user_id);
+
+-- 2. Per-row outcome of an import
+CREATE TABLE IF NOT EXISTS public.import_run_rows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id UUID NOT NULL REFERENCES public.import_runs(id) ON DELETE CASCADE,
+  -- Line in the uploaded file, or position in the Salesforce result
+  row_number INTEGER,
+  sku TEXT,
+  external_id TEXT,
+  action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'skipped', 'failed')),
+  message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_run_rows_run_id ON public.import_run_rows(run_id);
+CREATE INDEX IF NOT EXISTS idx_import_run_rows_action ON public.import_run_rows(run_id, action);
+
+-- 3. RLS: managers run imports and read their history
+ALTER TABLE public.import_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_run_rows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view import runs"
+  ON public.import_runs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Users can record their own import runs"
+  ON public.import_runs FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own import runs"
+  ON public.import_runs FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Managers can view import run rows"
+  ON public.import_run_rows FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Users can record rows for their own import runs"
+  ON public.import_run_rows FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.import_runs
+      WHERE import_runs.id = run_id AND import_runs.user_id = auth.uid()
+    )
+  );
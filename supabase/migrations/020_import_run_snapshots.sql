@@ -0,0 +1,50 @@
+-- ============================================================
+-- Migration 020: Catalog import snapshots and rollback
+-- ============================================================
+
+-- 1. Pre-import state of every row an import touched. before is the full
+--    row (product_catalog, product_categories), the list of Salesforce
+--    assignments of a product (product_category_assignments), or NULL when
+--    the import created the row.
+CREATE TABLE IF NOT EXISTS public.import_run_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id UUID NOT NULL REFERENCES public.import_runs(id) ON DELETE CASCADE,
+  table_name TEXT NOT NULL CHECK (table_name IN ('product_catalog', 'product_categories', 'product_category_assignments')),
+  -- sku for product_catalog, id for product_categories, product id for assignments
+  record_key TEXT NOT NULL,
+  before JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  -- The first snapshot of a row in a run is its pre-import state
+  UNIQUE(run_id, table_name, record_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_run_snapshots_run_id ON public.import_run_snapshots(run_id, table_name);
+
+-- 2. Rollback bookkeeping
+ALTER TABLE public.import_runs
+  ADD COLUMN IF NOT EXISTS rolled_back_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.import_runs
+  ADD COLUMN IF NOT EXISTS rolled_back_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+-- 3. RLS: written by the importing user, read by managers. Rollback runs
+--    with the service role because Salesforce categories are read-only to users.
+ALTER TABLE public.import_run_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view import snapshots"
+  ON public.import_run_snapshots FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Users can record snapshots for their own import runs"
+  ON public.import_run_snapshots FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.import_runs
+      WHERE import_runs.id = run_id AND import_runs.user_id = auth.uid()
+    )
+  );
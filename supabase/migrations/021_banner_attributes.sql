@@ -0,0 +1,32 @@
+-- ============================================================
+-- Migration 021: Banner attributes parsed from product names
+-- ============================================================
+
+-- 1. Structured size, orientation, color and material (sizes in inches)
+ALTER TABLE public.product_catalog
+  ADD COLUMN IF NOT EXISTS width_in NUMERIC(10, 2);
+
+ALTER TABLE public.product_catalog
+  ADD COLUMN IF NOT EXISTS height_in NUMERIC(10, 2);
+
+ALTER TABLE public.product_catalog
+  ADD COLUMN IF NOT EXISTS orientation TEXT
+  CHECK (orientation IN ('horizontal', 'vertical', 'square'));
+
+ALTER TABLE public.product_catalog
+  ADD COLUMN IF NOT EXISTS color TEXT;
+
+ALTER TABLE public.product_catalog
+  ADD COLUMN IF NOT EXISTS material TEXT;
+
+-- 2. Parse state. needs_review rows form the review queue; manual rows were
+--    set by a manager and are left alone by imports.
+ALTER TABLE public.product_catalog
+  ADD COLUMN IF NOT EXISTS attributes_status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (attributes_status IN ('pending', 'parsed', 'needs_review', 'manual'));
+
+-- Why the name could not be parsed
+ALTER TABLE public.product_catalog
+  ADD COLUMN IF NOT EXISTS attributes_issue TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_product_catalog_attributes_status ON public.product_catalog(attributes_status);
@@ -0,0 +1,144 @@
+-- ============================================================
+-- Migration 022: Finished-goods inventory per SKU
+-- ============================================================
+
+-- 1. On-hand quantity per SKU. Only ever changed through
+--    inventory_movements (see the trigger below), never written directly.
+CREATE TABLE IF NOT EXISTS public.inventory (
+  sku TEXT PRIMARY KEY,
+  on_hand INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- 2. Ledger of every stock change. quantity is signed: production adds,
+--    shipments take away, adjustments (stock counts) can go either way.
+CREATE TABLE IF NOT EXISTS public.inventory_movements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sku TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity <> 0),
+  reason TEXT NOT NULL CHECK (reason IN ('production', 'production_reversal', 'shipment', 'adjustment')),
+  sheet_id UUID REFERENCES public.production_sheets(id) ON DELETE SET NULL,
+  work_log_id UUID REFERENCES public.work_logs(id) ON DELETE SET NULL,
+  notes TEXT,
+  user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_sku ON public.inventory_movements(sku, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_work_log_id ON public.inventory_movements(work_log_id);
+
+-- 3. Min/max reorder points. At or below stock_min, stock is made back up
+--    to stock_max (or stock_min when no max is set).
+ALTER TABLE public.product_catalog
+  ADD COLUMN IF NOT EXISTS stock_min INTEGER CHECK (stock_min >= 0);
+
+ALTER TABLE public.product_catalog
+  ADD COLUMN IF NOT EXISTS stock_max INTEGER CHECK (stock_max >= 0);
+
+-- 4. Apply each movement to the on-hand quantity
+CREATE OR REPLACE FUNCTION public.apply_inventory_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.inventory (sku, on_hand, updated_at)
+  VALUES (NEW.sku, NEW.quantity, TIMEZONE('utc'::text, NOW()))
+  ON CONFLICT (sku) DO UPDATE
+  SET
+    on_hand = public.inventory.on_hand + EXCLUDED.on_hand,
+    updated_at = EXCLUDED.updated_at;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS inventory_movements_apply ON public.inventory_movements;
+CREATE TRIGGER inventory_movements_apply
+  AFTER INSERT ON public.inventory_movements
+  FOR EACH ROW EXECUTE FUNCTION public.apply_inventory_movement();
+
+-- 5. Completions of the stock portion go into inventory. log_work_completion
+--    (migration 013) records the exact split per item in items_completed.
+CREATE OR REPLACE FUNCTION public.record_work_log_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.work_type <> 'log_completion' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.inventory_movements (sku, quantity, reason, sheet_id, work_log_id, user_id)
+  SELECT
+    si.banner_sku,
+    (e->>'added_to_stock')::int,
+    'production',
+    NEW.sheet_id,
+    NEW.id,
+    NEW.user_id
+  FROM jsonb_array_elements(COALESCE(NEW.items_completed, '[]'::jsonb)) AS e
+  JOIN public.sheet_items si ON si.id = (e->>'item_id')::uuid
+  WHERE e ? 'added_to_stock'
+    AND COALESCE((e->>'added_to_stock')::int, 0) > 0;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS work_logs_record_stock ON public.work_logs;
+CREATE TRIGGER work_logs_record_stock
+  AFTER INSERT ON public.work_logs
+  FOR EACH ROW EXECUTE FUNCTION public.record_work_log_stock();
+
+-- 6. Reversing a work log (migration 014) takes back exactly the stock that
+--    log added. Logs written before this migration added none.
+CREATE OR REPLACE FUNCTION public.reverse_work_log_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.reversed_at IS NOT NULL OR NEW.reversed_at IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.inventory_movements (sku, quantity, reason, sheet_id, work_log_id, notes, user_id)
+  SELECT
+    m.sku,
+    -SUM(m.quantity),
+    'production_reversal',
+    NEW.sheet_id,
+    NEW.id,
+    NEW.reversal_reason,
+    NEW.reversed_by
+  FROM public.inventory_movements m
+  WHERE m.work_log_id = NEW.id
+    AND m.reason = 'production'
+  GROUP BY m.sku
+  HAVING SUM(m.quantity) <> 0;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS work_logs_reverse_stock ON public.work_logs;
+CREATE TRIGGER work_logs_reverse_stock
+  AFTER UPDATE OF reversed_at ON public.work_logs
+  FOR EACH ROW EXECUTE FUNCTION public.reverse_work_log_stock();
+
+-- 7. RLS: everyone can see stock; managers record shipments and
+--    adjustments. Production movements are written by the triggers above.
+ALTER TABLE public.inventory ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view inventory"
+  ON public.inventory FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view inventory movements"
+  ON public.inventory_movements FOR SELECT
+  USING (true);
+
+CREATE POLICY "Managers can record shipments and adjustments"
+  ON public.inventory_movements FOR INSERT
+  WITH CHECK (
+    reason IN ('shipment', 'adjustment')
+    AND user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'manager'
+    )
+  );
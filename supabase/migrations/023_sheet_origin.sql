@@ -0,0 +1,16 @@
+-- ============================================================
+-- Migration 023: Where a production sheet came from
+-- ============================================================
+
+-- 1. manual: built in the new-sheet flow, reorder: generated by the reorder
+--    planner from products at or below their stock_min (migration 022)
+ALTER TABLE public.production_sheets
+  ADD COLUMN IF NOT EXISTS origin TEXT NOT NULL DEFAULT 'manual';
+
+ALTER TABLE public.production_sheets
+  DROP CONSTRAINT IF EXISTS production_sheets_origin_check;
+
+ALTER TABLE public.production_sheets
+  ADD CONSTRAINT production_sheets_origin_check CHECK (origin IN ('manual', 'reorder'));
+
+CREATE INDEX IF NOT EXISTS idx_production_sheets_origin ON public.production_sheets(origin, status);
@@ -0,0 +1,18 @@
+-- ============================================================
+-- Migration 024: Production sheets imported from Salesforce orders
+-- ============================================================
+
+-- 1. The Salesforce Order record a sheet was built from
+ALTER TABLE public.production_sheets
+  ADD COLUMN IF NOT EXISTS salesforce_order_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_production_sheets_salesforce_order_id
+  ON public.production_sheets(salesforce_order_id)
+  WHERE salesforce_order_id IS NOT NULL;
+
+-- 2. salesforce: imported from an Order and its OrderItems
+ALTER TABLE public.production_sheets
+  DROP CONSTRAINT IF EXISTS production_sheets_origin_check;
+
+ALTER TABLE public.production_sheets
+  ADD CONSTRAINT production_sheets_origin_check CHECK (origin IN ('manual', 'reorder', 'salesforce'));
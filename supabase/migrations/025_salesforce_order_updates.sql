@@ -0,0 +1,88 @@
+-- ============================================================
+-- Migration 025: Push production status back to Salesforce orders
+-- ============================================================
+
+-- 1. Outbound queue, one row per sheet linked to a Salesforce order
+--    (migration 024). A row only says the order needs updating; the values
+--    are read from the sheet when it is sent, so several changes in a row
+--    end up as a single update.
+--      pending: waiting to be sent, or retrying after a failure
+--      sent:    Salesforce has the current values
+--      failed:  gave up after repeated or permanent errors; retried by hand
+CREATE TABLE IF NOT EXISTS public.salesforce_order_updates (
+  sheet_id UUID PRIMARY KEY REFERENCES public.production_sheets(id) ON DELETE CASCADE,
+  salesforce_order_id TEXT NOT NULL,
+  state TEXT NOT NULL DEFAULT 'pending' CHECK (state IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  last_error TEXT,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_salesforce_order_updates_due
+  ON public.salesforce_order_updates(next_attempt_at)
+  WHERE state = 'pending';
+
+-- 2. Queue an update when a linked sheet starts production or completes,
+--    leaves either status again (e.g. a reversed completion), or changes its
+--    dates while in one of them. Covers manual changes and the automatic
+--    ones made by refresh_sheet_status() (migration 015).
+CREATE OR REPLACE FUNCTION public.queue_salesforce_order_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  pushed_statuses TEXT[] := ARRAY['production_started', 'completed'];
+BEGIN
+  IF NEW.salesforce_order_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.status IS DISTINCT FROM OLD.status
+      AND (NEW.status = ANY(pushed_statuses) OR OLD.status = ANY(pushed_statuses)))
+    OR (NEW.status = ANY(pushed_statuses)
+      AND (NEW.estimated_completion_date IS DISTINCT FROM OLD.estimated_completion_date
+        OR NEW.completed_at IS DISTINCT FROM OLD.completed_at))
+  THEN
+    INSERT INTO public.salesforce_order_updates (sheet_id, salesforce_order_id)
+    VALUES (NEW.id, NEW.salesforce_order_id)
+    ON CONFLICT (sheet_id) DO UPDATE
+    SET
+      salesforce_order_id = EXCLUDED.salesforce_order_id,
+      state = 'pending',
+      attempts = 0,
+      next_attempt_at = TIMEZONE('utc'::text, NOW()),
+      last_error = NULL,
+      updated_at = TIMEZONE('utc'::text, NOW());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS production_sheets_queue_salesforce_update ON public.production_sheets;
+CREATE TRIGGER production_sheets_queue_salesforce_update
+  AFTER UPDATE OF status, estimated_completion_date, completed_at ON public.production_sheets
+  FOR EACH ROW EXECUTE FUNCTION public.queue_salesforce_order_update();
+
+-- 3. RLS: managers see the queue and can send or retry updates. The
+--    scheduled run uses the service role.
+ALTER TABLE public.salesforce_order_updates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can view Salesforce order updates"
+  ON public.salesforce_order_updates FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'manager'
+    )
+  );
+
+CREATE POLICY "Managers can update Salesforce order updates"
+  ON public.salesforce_order_updates FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'manager'
+    )
+  );
@@ -0,0 +1,34 @@
+-- ============================================================
+-- Migration 026: One organization-wide Salesforce connection
+-- ============================================================
+
+-- 1. The connection used by imports, the scheduled sync and order updates.
+--    A single row (id is always true). Tokens are encrypted by the app
+--    (lib/salesforce/token-crypto.ts) before they are written.
+CREATE TABLE IF NOT EXISTS public.salesforce_connection (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  access_token TEXT NOT NULL,
+  refresh_token TEXT,
+  instance_url TEXT NOT NULL,
+  token_type TEXT DEFAULT 'Bearer',
+  issued_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  connected_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  connected_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  last_refreshed_at TIMESTAMP WITH TIME ZONE,
+  -- Last successful call made to check the connection
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  last_error_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- 2. RLS with no policies: only the service role reads or writes it. Users
+--    see the connection status through /api/salesforce/connection.
+ALTER TABLE public.salesforce_connection ENABLE ROW LEVEL SECURITY;
+
+-- 3. Per-user tokens are replaced by the connection above. They were stored
+--    unencrypted, so they are dropped rather than copied; a manager connects
+--    once from Settings after this migration.
+DROP TABLE IF EXISTS public.salesforce_tokens;
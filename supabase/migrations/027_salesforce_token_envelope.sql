@@ -0,0 +1,16 @@
+-- ============================================================
+-- Migration 027: Envelope encryption for the Salesforce tokens
+-- ============================================================
+
+-- 1. Each connection's tokens are encrypted with their own data key, which
+--    is stored wrapped with a versioned application key
+--    (lib/salesforce/token-crypto.ts). Rows from migration 026 have neither
+--    and are read with key version 1 until they are re-encrypted.
+ALTER TABLE public.salesforce_connection
+  ADD COLUMN IF NOT EXISTS data_key TEXT,
+  ADD COLUMN IF NOT EXISTS key_version INTEGER;
+
+-- 2. Re-encrypting after a key rotation happens on the next token refresh or
+--    through /api/cron/salesforce-key-rotation; record when
+ALTER TABLE public.salesforce_connection
+  ADD COLUMN IF NOT EXISTS key_rotated_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,9 @@
+-- ============================================================
+-- Migration 028: Column of each rejected import row
+-- ============================================================
+
+-- 1. CSV imports validate every row and record the rejected ones with the
+--    column at fault, so the validation report can point at the cell
+--    (app/api/import-runs/[id]/report). Several columns are comma-separated.
+ALTER TABLE public.import_run_rows
+  ADD COLUMN IF NOT EXISTS column_name TEXT;
@@ -0,0 +1,33 @@
+-- ============================================================
+-- Migration 029: Saved column mappings for CSV imports
+-- ============================================================
+
+-- 1. A named mapping from catalog fields to the columns of an uploaded
+--    file, e.g. {"sku": "StockKeepingUnit", "name": "Name"}
+--    (lib/import-mapping.ts). Shared by all managers.
+CREATE TABLE IF NOT EXISTS public.import_mapping_profiles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL UNIQUE,
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- 2. RLS: managers read and maintain the profiles
+ALTER TABLE public.import_mapping_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage import mapping profiles"
+  ON public.import_mapping_profiles FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'manager'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid() AND users.role = 'manager'
+    )
+  );
@@ -0,0 +1,53 @@
+-- ============================================================
+-- Migration 030: Product image checks and cached thumbnails
+-- ============================================================
+
+-- 1. Result of the last image check and the cached thumbnail of each
+--    product (lib/product-images.ts). image_status is NULL until the image
+--    has been checked:
+--      ok          - the URL answers with an image
+--      broken      - the URL answers, but with an error or something else
+--      unreachable - no answer (timeout, network error, 5xx); retried later
+ALTER TABLE public.product_catalog
+  ADD COLUMN IF NOT EXISTS image_status TEXT
+    CHECK (image_status IN ('ok', 'broken', 'unreachable')),
+  ADD COLUMN IF NOT EXISTS image_http_status INTEGER,
+  ADD COLUMN IF NOT EXISTS image_error TEXT,
+  ADD COLUMN IF NOT EXISTS image_checked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS thumbnail_path TEXT,
+  ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_product_catalog_image_checked_at
+  ON public.product_catalog(image_checked_at NULLS FIRST)
+  WHERE image_url IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_product_catalog_image_status
+  ON public.product_catalog(image_status);
+
+-- 2. A new image_url (import, sync or rollback) needs a new check and a new
+--    thumbnail; the old thumbnail shows a different picture.
+CREATE OR REPLACE FUNCTION public.reset_product_image_check()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.image_url IS DISTINCT FROM OLD.image_url THEN
+    NEW.image_status := NULL;
+    NEW.image_http_status := NULL;
+    NEW.image_error := NULL;
+    NEW.image_checked_at := NULL;
+    NEW.thumbnail_path := NULL;
+    NEW.thumbnail_url := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS product_catalog_reset_image_check ON public.product_catalog;
+CREATE TRIGGER product_catalog_reset_image_check
+  BEFORE UPDATE OF image_url ON public.product_catalog
+  FOR EACH ROW EXECUTE FUNCTION public.reset_product_image_check();
+
+-- 3. Public bucket for thumbnails, so pickers and printed sheets can load
+--    them directly. Only the image check job (service role) writes to it.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('product-thumbnails', 'product-thumbnails', true)
+ON CONFLICT (id) DO NOTHING;
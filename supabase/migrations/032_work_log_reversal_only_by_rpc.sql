@@ -0,0 +1,10 @@
+-- ============================================================
+-- Migration 032: Work logs are only reversed through reverse_work_log
+-- ============================================================
+
+-- 1. Authors could update their own work_logs rows (migration 007), so
+--    setting reversed_at directly marked a log reversed without restoring
+--    the sheet quantities or the stock. Nothing in the app updates work logs
+--    directly; reverse_work_log (migration 031) runs as the owner and is
+--    not affected.
+DROP POLICY IF EXISTS "Users can update their own work logs" ON public.work_logs;
@@ -0,0 +1,284 @@
+-- ============================================================
+-- Migration 033: Work log functions return the sheet status change
+-- ============================================================
+
+-- A printed version of a sheet is stored whenever its status changes
+-- (lib/sheet-pdf-snapshots.ts). log_work_completion and reverse_work_log
+-- change it inside refresh_sheet_status(), so the routes could not tell;
+-- both now also return the status before and after as from_status and
+-- to_status (the same when it did not change).
+
+-- 1. Same as migration 031, plus from_status and to_status
+CREATE OR REPLACE FUNCTION public.log_work_completion(
+  p_sheet_id UUID,
+  p_items JSONB,
+  p_hours NUMERIC DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_entry JSONB;
+  v_item public.sheet_items%ROWTYPE;
+  v_qty INTEGER;
+  v_add_order INTEGER;
+  v_add_stock INTEGER;
+  v_new_order INTEGER;
+  v_new_stock INTEGER;
+  v_new_status TEXT;
+  v_conflicts JSONB := '[]'::jsonb;
+  v_details JSONB := '[]'::jsonb;
+  v_log_id UUID;
+  v_from_status TEXT;
+  v_to_status TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock in id order so concurrent calls touching the same items cannot deadlock
+  FOR v_item IN
+    SELECT *
+    FROM public.sheet_items
+    WHERE sheet_id = p_sheet_id
+      AND id IN (
+        SELECT (e->>'item_id')::uuid
+        FROM jsonb_array_elements(p_items) AS e
+        WHERE e->>'item_id' IS NOT NULL
+      )
+    ORDER BY id
+    FOR UPDATE
+  LOOP
+    SELECT e INTO v_entry
+    FROM jsonb_array_elements(p_items) AS e
+    WHERE (e->>'item_id')::uuid = v_item.id
+    LIMIT 1;
+
+    IF v_entry->>'expected_version' IS NOT NULL
+      AND (v_entry->>'expected_version')::int <> v_item.version THEN
+      v_conflicts := v_conflicts || jsonb_build_array(to_jsonb(v_item));
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_conflicts) > 0 THEN
+    RETURN jsonb_build_object('conflict', true, 'items', v_conflicts);
+  END IF;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    IF v_entry->>'item_id' IS NULL OR v_entry->>'qty_completed' IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_item
+    FROM public.sheet_items
+    WHERE id = (v_entry->>'item_id')::uuid
+      AND sheet_id = p_sheet_id;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    v_qty := (v_entry->>'qty_completed')::int;
+
+    -- Priority: fill qty_in_order first, then stock_qty
+    v_add_order := LEAST(
+      v_qty,
+      GREATEST(0, COALESCE(v_item.qty_in_order, 0) - v_item.qty_in_order_completed)
+    );
+    v_add_stock := LEAST(
+      v_qty - v_add_order,
+      GREATEST(0, COALESCE(v_item.stock_qty, 0) - v_item.stock_qty_completed)
+    );
+
+    v_new_order := v_item.qty_in_order_completed + v_add_order;
+    v_new_stock := v_item.stock_qty_completed + v_add_stock;
+
+    IF v_new_order >= COALESCE(v_item.qty_in_order, 0)
+      AND v_new_stock >= COALESCE(v_item.stock_qty, 0) THEN
+      v_new_status := 'complete';
+    ELSE
+      v_new_status := 'partially_complete';
+    END IF;
+
+    UPDATE public.sheet_items
+    SET
+      qty_in_order_completed = v_new_order,
+      stock_qty_completed = v_new_stock,
+      status = v_new_status,
+      updated_at = TIMEZONE('utc'::text, NOW())
+    WHERE id = v_item.id;
+
+    v_details := v_details || jsonb_build_array(jsonb_build_object(
+      'item_id', v_item.id,
+      'qty_completed', v_qty,
+      'added_to_order', v_add_order,
+      'added_to_stock', v_add_stock,
+      'qty_in_order_completed', v_new_order,
+      'stock_qty_completed', v_new_stock,
+      'status', v_new_status
+    ));
+  END LOOP;
+
+  INSERT INTO public.work_logs (sheet_id, user_id, work_type, hours, notes, items_completed)
+  VALUES (p_sheet_id, auth.uid(), 'log_completion', p_hours, p_notes, v_details)
+  RETURNING id INTO v_log_id;
+
+  -- The stock portion of each item goes into inventory
+  INSERT INTO public.inventory_movements (sku, quantity, reason, sheet_id, work_log_id, user_id)
+  SELECT
+    si.banner_sku,
+    (e->>'added_to_stock')::int,
+    'production',
+    p_sheet_id,
+    v_log_id,
+    auth.uid()
+  FROM jsonb_array_elements(v_details) AS e
+  JOIN public.sheet_items si ON si.id = (e->>'item_id')::uuid
+  WHERE (e->>'added_to_stock')::int > 0;
+
+  SELECT status INTO v_from_status
+  FROM public.production_sheets
+  WHERE id = p_sheet_id
+  FOR UPDATE;
+
+  v_to_status := COALESCE(public.refresh_sheet_status(p_sheet_id), v_from_status);
+
+  RETURN jsonb_build_object(
+    'conflict', false,
+    'log_id', v_log_id,
+    'from_status', v_from_status,
+    'to_status', v_to_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 2. Same as migration 031, plus from_status and to_status
+CREATE OR REPLACE FUNCTION public.reverse_work_log(
+  p_log_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_log public.work_logs%ROWTYPE;
+  v_role TEXT;
+  v_entry JSONB;
+  v_item public.sheet_items%ROWTYPE;
+  v_sub_order INTEGER;
+  v_sub_stock INTEGER;
+  v_qty INTEGER;
+  v_new_order INTEGER;
+  v_new_stock INTEGER;
+  v_new_status TEXT;
+  v_from_status TEXT;
+  v_to_status TEXT;
+BEGIN
+  SELECT * INTO v_log
+  FROM public.work_logs
+  WHERE id = p_log_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'not_found');
+  END IF;
+
+  SELECT role INTO v_role FROM public.users WHERE id = auth.uid();
+
+  IF v_log.user_id IS DISTINCT FROM auth.uid() AND v_role IS DISTINCT FROM 'manager' THEN
+    RETURN jsonb_build_object('error', 'forbidden');
+  END IF;
+
+  IF v_log.work_type <> 'log_completion' THEN
+    RETURN jsonb_build_object('error', 'not_reversible');
+  END IF;
+
+  IF v_log.reversed_at IS NOT NULL THEN
+    RETURN jsonb_build_object('error', 'already_reversed');
+  END IF;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(v_log.items_completed, '[]'::jsonb))
+  LOOP
+    IF v_entry->>'item_id' IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_item
+    FROM public.sheet_items
+    WHERE id = (v_entry->>'item_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    IF v_entry ? 'added_to_order' THEN
+      v_sub_order := COALESCE((v_entry->>'added_to_order')::int, 0);
+      v_sub_stock := COALESCE((v_entry->>'added_to_stock')::int, 0);
+    ELSE
+      v_qty := COALESCE((v_entry->>'qty_completed')::int, 0);
+      v_sub_stock := LEAST(v_qty, v_item.stock_qty_completed);
+      v_sub_order := LEAST(v_qty - v_sub_stock, v_item.qty_in_order_completed);
+    END IF;
+
+    v_new_order := GREATEST(0, v_item.qty_in_order_completed - v_sub_order);
+    v_new_stock := GREATEST(0, v_item.stock_qty_completed - v_sub_stock);
+
+    -- Work had been started on the item to log against it, so with nothing
+    -- left completed it goes back to 'working' rather than 'not_started'
+    IF v_new_order >= COALESCE(v_item.qty_in_order, 0)
+      AND v_new_stock >= COALESCE(v_item.stock_qty, 0)
+      AND v_new_order + v_new_stock > 0 THEN
+      v_new_status := 'complete';
+    ELSIF v_new_order + v_new_stock > 0 THEN
+      v_new_status := 'partially_complete';
+    ELSE
+      v_new_status := 'working';
+    END IF;
+
+    UPDATE public.sheet_items
+    SET
+      qty_in_order_completed = v_new_order,
+      stock_qty_completed = v_new_stock,
+      status = v_new_status,
+      updated_at = TIMEZONE('utc'::text, NOW())
+    WHERE id = v_item.id;
+  END LOOP;
+
+  -- Take back exactly the stock this log added; logs written before
+  -- migration 022 added none
+  INSERT INTO public.inventory_movements (sku, quantity, reason, sheet_id, work_log_id, notes, user_id)
+  SELECT
+    m.sku,
+    -SUM(m.quantity),
+    'production_reversal',
+    v_log.sheet_id,
+    v_log.id,
+    p_reason,
+    auth.uid()
+  FROM public.inventory_movements m
+  WHERE m.work_log_id = v_log.id
+    AND m.reason = 'production'
+  GROUP BY m.sku
+  HAVING SUM(m.quantity) <> 0;
+
+  UPDATE public.work_logs
+  SET
+    reversed_at = TIMEZONE('utc'::text, NOW()),
+    reversed_by = auth.uid(),
+    reversal_reason = p_reason
+  WHERE id = p_log_id;
+
+  SELECT status INTO v_from_status
+  FROM public.production_sheets
+  WHERE id = v_log.sheet_id
+  FOR UPDATE;
+
+  v_to_status := COALESCE(public.refresh_sheet_status(v_log.sheet_id), v_from_status);
+
+  RETURN jsonb_build_object(
+    'error', NULL,
+    'sheet_id', v_log.sheet_id,
+    'from_status', v_from_status,
+    'to_status', v_to_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;